@@ -0,0 +1,177 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { FC } from 'react';
+import { useUIStore } from '@/store/uiStore';
+import { useEditorStore } from '@/store/editorStore';
+import type { AutosaveMode } from '@/types/editor';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+// Explanation shown under the mode selector
+const MODE_DESCRIPTIONS: Record<AutosaveMode, string> = {
+  off: '自動保存しません。保存ボタンまたは Cmd/Ctrl+S で保存してください。',
+  idle: '入力が止まってから指定した秒数が経つと保存します。',
+  blur: 'エディタからフォーカスが外れたときに保存します。',
+  interval: '未保存の変更があれば一定間隔で保存します。',
+};
+
+// Shortest delay or interval that can be entered, in seconds
+const MIN_SECONDS = 0.5;
+
+/**
+ * Dialog for choosing when autosave runs (off, after a pause in typing, when
+ * the editor loses focus, or at a fixed interval) and whether untitled
+ * documents are autosaved under a generated name.
+ */
+export const AutosaveSettingsDialog: FC = () => {
+  // --- Zustand Store Hooks ---
+  const { isAutosaveSettingsOpen, closeAutosaveSettings } = useUIStore();
+  const { autosaveSettings, updateAutosaveSettings } = useEditorStore();
+
+  // --- Local State ---
+  const [mode, setMode] = useState<AutosaveMode>(autosaveSettings.mode);
+  const [idleSeconds, setIdleSeconds] = useState('');
+  const [intervalSeconds, setIntervalSeconds] = useState('');
+  const [saveUntitled, setSaveUntitled] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Fill the form with the current settings whenever the dialog opens
+  useEffect(() => {
+    if (!isAutosaveSettingsOpen) return;
+    setMode(autosaveSettings.mode);
+    setIdleSeconds(String(autosaveSettings.idleDelayMs / 1000));
+    setIntervalSeconds(String(autosaveSettings.intervalMs / 1000));
+    setSaveUntitled(autosaveSettings.saveUntitled);
+  }, [isAutosaveSettingsOpen, autosaveSettings]);
+
+  const idleDelayMs = Math.round(Number(idleSeconds) * 1000);
+  const intervalMs = Math.round(Number(intervalSeconds) * 1000);
+  const isValid =
+    idleDelayMs >= MIN_SECONDS * 1000 && intervalMs >= MIN_SECONDS * 1000;
+
+  // --- Event Handlers ---
+  const handleSubmit = useCallback(async () => {
+    setIsSaving(true);
+    const success = await updateAutosaveSettings({
+      mode,
+      idleDelayMs,
+      intervalMs,
+      saveUntitled,
+    });
+    setIsSaving(false);
+    if (success) closeAutosaveSettings();
+  }, [
+    mode,
+    idleDelayMs,
+    intervalMs,
+    saveUntitled,
+    updateAutosaveSettings,
+    closeAutosaveSettings,
+  ]);
+
+  // --- Render ---
+  return (
+    <Dialog
+      open={isAutosaveSettingsOpen}
+      onOpenChange={(open) => !open && closeAutosaveSettings()}
+    >
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>自動保存の設定</DialogTitle>
+          <DialogDescription>{MODE_DESCRIPTIONS[mode]}</DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (isValid && !isSaving) handleSubmit();
+          }}
+        >
+          <ToggleGroup
+            type="single"
+            value={mode}
+            onValueChange={(value) => value && setMode(value as AutosaveMode)}
+            variant="outline"
+            size="sm"
+            className="justify-start flex-wrap"
+          >
+            <ToggleGroupItem value="off">オフ</ToggleGroupItem>
+            <ToggleGroupItem value="idle">入力の停止後</ToggleGroupItem>
+            <ToggleGroupItem value="blur">
+              フォーカスが外れたとき
+            </ToggleGroupItem>
+            <ToggleGroupItem value="interval">一定間隔</ToggleGroupItem>
+          </ToggleGroup>
+
+          {mode === 'idle' && (
+            <div className="space-y-1.5">
+              <Label htmlFor="autosave-idle-delay">待ち時間 (秒)</Label>
+              <Input
+                id="autosave-idle-delay"
+                type="number"
+                min={MIN_SECONDS}
+                step={0.5}
+                value={idleSeconds}
+                onChange={(e) => setIdleSeconds(e.target.value)}
+              />
+            </div>
+          )}
+          {mode === 'interval' && (
+            <div className="space-y-1.5">
+              <Label htmlFor="autosave-interval">間隔 (秒)</Label>
+              <Input
+                id="autosave-interval"
+                type="number"
+                min={MIN_SECONDS}
+                step={1}
+                value={intervalSeconds}
+                onChange={(e) => setIntervalSeconds(e.target.value)}
+              />
+            </div>
+          )}
+          {mode !== 'off' && (
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="autosave-untitled"
+                checked={saveUntitled}
+                onCheckedChange={(checked) => setSaveUntitled(Boolean(checked))}
+              />
+              <Label htmlFor="autosave-untitled" className="font-normal">
+                無題のドキュメントも自動保存する (ファイル名は自動で付けます)
+              </Label>
+            </div>
+          )}
+          {!isValid && (
+            <p role="alert" className="text-sm text-destructive">
+              {`待ち時間と間隔は ${MIN_SECONDS} 秒以上にしてください`}
+            </p>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={closeAutosaveSettings}
+            >
+              キャンセル
+            </Button>
+            <Button type="submit" disabled={!isValid || isSaving}>
+              保存
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,11 +1,14 @@
 import { useRef, useEffect, useCallback } from 'react';
 import type { FC } from 'react';
 import {
+  Annotation,
   EditorState,
   Extension,
   EditorSelection,
   Transaction,
   StateEffect,
+  Prec,
+  Compartment,
 } from '@codemirror/state';
 import {
   EditorView,
@@ -19,11 +22,11 @@ import {
   crosshairCursor,
   highlightActiveLine,
   ViewUpdate,
+  ViewPlugin,
+  runScopeHandlers,
 } from '@codemirror/view';
 import {
-  defaultKeymap,
   history,
-  historyKeymap,
   indentWithTab,
   toggleComment,
   indentLess,
@@ -35,22 +38,38 @@ import { oneDark } from '@codemirror/theme-one-dark'; // Default dark theme
 import {
   bracketMatching,
   foldGutter,
-  foldKeymap,
   indentOnInput,
   syntaxHighlighting,
   defaultHighlightStyle,
 } from '@codemirror/language';
-import {
-  closeBrackets,
-  autocompletion,
-  closeBracketsKeymap,
-  completionKeymap,
-} from '@codemirror/autocomplete';
-import { searchKeymap, highlightSelectionMatches } from '@codemirror/search';
-import { lintKeymap } from '@codemirror/lint';
+import { closeBrackets, autocompletion } from '@codemirror/autocomplete';
+import { highlightSelectionMatches } from '@codemirror/search';
+import { diagnosticCount, lintGutter } from '@codemirror/lint';
 import { useEditorStore } from '@/store/editorStore';
-import { markdownKeymap } from '@/lib/cmCommands'; // Import custom keymap
-import type { ScrollInfo } from '@/types/editor'; // Import shared type
+import { useDraftStore } from '@/store/draftStore';
+import {
+  createMarkdownKeymap,
+  tableKeymap,
+  listKeymap,
+  orderedListRenumbering,
+  markdownLinter,
+} from '@/lib/cmCommands'; // Import custom keymaps
+import { markdownCompletions } from '@/lib/cmCompletions';
+import { storageService } from '@/lib/storageService';
+import {
+  createImageMarkdown,
+  imageStore,
+  MAX_IMAGE_SIZE,
+} from '@/lib/imageStore';
+import { toast } from 'sonner';
+import { vim, getCM } from '@replit/codemirror-vim';
+import { emacs } from '@replit/codemirror-emacs';
+import { STANDARD_KEYBINDINGS, resolveShortcutKeys } from '@/lib/shortcuts';
+import type {
+  KeybindingMode,
+  ScrollInfo,
+  ShortcutOverrides,
+} from '@/types/editor'; // Import shared type
 
 // --- Component Props ---
 interface CodeMirrorEditorProps {
@@ -86,17 +105,98 @@ const basicExtensions: Extension[] = [
 
 // Keymap extensions (combining standard and custom)
 const editorKeymap: Extension = keymap.of([
-  ...defaultKeymap, // Standard keybindings (cut, copy, paste, etc.)
-  ...historyKeymap,
-  ...closeBracketsKeymap,
-  ...completionKeymap,
-  ...searchKeymap,
-  ...foldKeymap,
-  ...lintKeymap, // If using linting extensions
+  ...STANDARD_KEYBINDINGS, // Shared with the shortcut settings, which keep these keys free
   indentWithTab, // Use Tab for indentation
-  ...markdownKeymap, // Custom markdown formatting shortcuts
 ]);
 
+// Table and list editing have to run before indentWithTab and the markdown Enter handling
+const structureKeymap: Extension = Prec.highest(
+  keymap.of([...tableKeymap, ...listKeymap])
+);
+
+// Status bar labels of the Vim modes
+const VIM_MODE_LABELS: Record<string, string> = {
+  normal: 'NORMAL',
+  insert: 'INSERT',
+  visual: 'VISUAL',
+  replace: 'REPLACE',
+};
+const VIM_SUBMODE_LABELS: Record<string, string> = {
+  linewise: ' LINE',
+  blockwise: ' BLOCK',
+};
+
+// Reports the current Vim mode to the store for the status bar
+const vimModeStatus = ViewPlugin.define((view) => {
+  const cm = getCM(view);
+  const { setKeybindingStatus } = useEditorStore.getState();
+  const onModeChange = (e: { mode: string; subMode?: string }) =>
+    setKeybindingStatus(
+      (VIM_MODE_LABELS[e.mode] ?? e.mode.toUpperCase()) +
+        (e.subMode ? (VIM_SUBMODE_LABELS[e.subMode] ?? '') : '')
+    );
+  cm?.on('vim-mode-change', onModeChange);
+  setKeybindingStatus(VIM_MODE_LABELS.normal); // Vim starts in normal mode
+  return {
+    destroy() {
+      cm?.off('vim-mode-change', onModeChange);
+      setKeybindingStatus(null);
+    },
+  };
+});
+
+/**
+ * Builds the keymaps of a keybinding mode. The Markdown shortcuts (keys from
+ * the shortcut registry) come before the standard keymap. In Vim and Emacs
+ * mode they also run before the Vim and Emacs handlers, which would otherwise
+ * claim keys like Ctrl+B; those handlers still come before the standard
+ * keymap, which provides the bindings they leave unused.
+ * @param mode - The keybinding mode.
+ * @param overrides - The shortcut keys set by the user.
+ */
+const createKeybindings = (
+  mode: KeybindingMode,
+  overrides: ShortcutOverrides
+): Extension => {
+  const markdownKeymap = createMarkdownKeymap(resolveShortcutKeys(overrides));
+  if (mode === 'default') {
+    return [structureKeymap, keymap.of(markdownKeymap), editorKeymap];
+  }
+  const priorityMarkdownKeymap = Prec.highest([
+    keymap.of(
+      markdownKeymap.map((binding) => ({ ...binding, scope: 'markdown' }))
+    ),
+    EditorView.domEventHandlers({
+      keydown: (event, view) => runScopeHandlers(view, event, 'markdown'),
+    }),
+  ]);
+  return mode === 'vim'
+    ? [
+        priorityMarkdownKeymap,
+        Prec.highest(vim()),
+        vimModeStatus,
+        structureKeymap,
+        editorKeymap,
+      ]
+    : [
+        priorityMarkdownKeymap,
+        Prec.highest(emacs()),
+        structureKeymap,
+        editorKeymap,
+      ];
+};
+
+/**
+ * Builds the keymaps for the keybinding mode and shortcuts in the store.
+ */
+const currentKeybindings = (): Extension => {
+  const { keybindingMode, shortcutOverrides } = useEditorStore.getState();
+  return createKeybindings(keybindingMode, shortcutOverrides);
+};
+
+// Holds the keymaps of the selected mode and shortcuts, so they can be changed without recreating the editor
+const keybindingCompartment = new Compartment();
+
 // Markdown language support
 const markdownSupport: Extension = markdown({
   base: markdownLanguage,
@@ -104,6 +204,76 @@ const markdownSupport: Extension = markdown({
   addKeymap: true, // Add default markdown keybindings (like * for italic)
 });
 
+// Marks changes that only mirror the store (e.g. a loaded draft), so they are not reported back as edits
+const externalChange = Annotation.define<boolean>();
+
+/**
+ * Prepares a tab's saved state for this editor: the configuration is
+ * replaced with the current extensions (the theme may have changed since),
+ * while the document, selection and undo history are kept.
+ * @param saved - The state saved when the tab was last shown.
+ * @param extensions - The extensions of the current editor.
+ */
+const reconfigureState = (
+  saved: EditorState,
+  extensions: Extension[]
+): EditorState =>
+  saved.update({ effects: StateEffect.reconfigure.of(extensions) }).state;
+
+/**
+ * Replaces the whole document of the view with text from the store.
+ * @param view - The editor view.
+ * @param text - The new document text.
+ */
+const replaceWithExternalText = (view: EditorView, text: string): void => {
+  view.dispatch({
+    changes: { from: 0, to: view.state.doc.length, insert: text },
+    annotations: externalChange.of(true),
+  });
+};
+
+/**
+ * Stores pasted or dropped images and inserts references to them
+ * ("![name](local-image:hash)"), one per line, in place of a range.
+ * @param view - The editor view.
+ * @param files - The image files.
+ * @param from - Start of the range to replace.
+ * @param to - End of the range to replace.
+ */
+const insertImageFiles = async (
+  view: EditorView,
+  files: File[],
+  from: number,
+  to = from
+): Promise<void> => {
+  const references: string[] = [];
+  for (const file of files) {
+    if (file.size > MAX_IMAGE_SIZE) {
+      toast.error(`画像 "${file.name}" は大きすぎます (10 MB まで)`);
+      continue;
+    }
+    const hash = await imageStore.saveImage(file);
+    if (!hash) {
+      toast.error(`画像 "${file.name}" を保存できませんでした`);
+      continue;
+    }
+    const alt = file.name.replace(/\.[^.]+$/, '') || '画像';
+    references.push(createImageMarkdown(alt, hash));
+  }
+  if (references.length === 0) return;
+  // The document may have changed while the images were being stored
+  const length = view.state.doc.length;
+  const insert = references.join('\n');
+  view.dispatch({
+    changes: { from: Math.min(from, length), to: Math.min(to, length), insert },
+    selection: { anchor: Math.min(from, length) + insert.length },
+    scrollIntoView: true,
+    userEvent: 'input.paste',
+  });
+};
+
+const isImageFile = (file: File) => file.type.startsWith('image/');
+
 // --- Component Definition ---
 const CodeMirrorEditor: FC<CodeMirrorEditorProps> = ({
   value,
@@ -116,6 +286,7 @@ const CodeMirrorEditor: FC<CodeMirrorEditorProps> = ({
   const viewRef = useRef<EditorView | null>(null);
   const { setView } = useEditorStore(); // Get action to register the view instance
   const onScrollRef = useRef(onScroll); // Use ref for scroll callback to avoid effect re-runs
+  const extensionsRef = useRef<Extension[]>([]); // Extensions of the view, used for the states of other tabs
 
   // Keep the onScroll callback ref up-to-date
   useEffect(() => {
@@ -135,9 +306,25 @@ const CodeMirrorEditor: FC<CodeMirrorEditorProps> = ({
       const extensions: Extension[] = [
         basicExtensions,
         markdownSupport,
+        orderedListRenumbering, // Keep ordered lists numbered after edits
+        markdownLinter(() => useEditorStore.getState().lintSettings),
+        lintGutter(),
+        markdownCompletions({
+          getHeadings: () => useEditorStore.getState().headings,
+          // Drafts other than the one being edited that have a file name
+          getDraftNames: async () => {
+            const { currentDraftId } = useEditorStore.getState();
+            return (await storageService.getAllDrafts())
+              .filter((d) => d.fileName && d.id !== currentDraftId)
+              .map((d) => d.fileName!);
+          },
+        }),
         // Listener for document and selection changes
         EditorView.updateListener.of((update: ViewUpdate) => {
-          if (update.docChanged) {
+          const isExternal = update.transactions.some((tr) =>
+            tr.annotation(externalChange)
+          );
+          if (update.docChanged && !isExternal) {
             onChange(update.state.doc.toString());
           }
           if (update.selectionSet) {
@@ -148,8 +335,13 @@ const CodeMirrorEditor: FC<CodeMirrorEditorProps> = ({
             );
             onSelectionChange(selectedText, selection.from, selection.to);
           }
+          // Publish the number of lint problems for the status bar
+          const problems = diagnosticCount(update.state);
+          const { lintProblemCount, setLintProblemCount } =
+            useEditorStore.getState();
+          if (problems !== lintProblemCount) setLintProblemCount(problems);
         }),
-        // Listener for scroll events using domEventHandlers
+        // Scroll and file drop handlers using domEventHandlers
         EditorView.domEventHandlers({
           scroll(event: Event, view: EditorView) {
             if (onScrollRef.current) {
@@ -157,22 +349,61 @@ const CodeMirrorEditor: FC<CodeMirrorEditorProps> = ({
               onScrollRef.current({ scrollTop, scrollHeight, clientHeight });
             }
           },
+          // Dropped images are stored and referenced where they are dropped;
+          // other files open as new drafts instead of being pasted into the text
+          drop(event: DragEvent, view: EditorView) {
+            const files = [...(event.dataTransfer?.files ?? [])];
+            if (files.length === 0) return false;
+            event.preventDefault();
+            const images = files.filter(isImageFile);
+            const others = files.filter((file) => !isImageFile(file));
+            if (images.length > 0) {
+              const pos =
+                view.posAtCoords({ x: event.clientX, y: event.clientY }) ??
+                view.state.selection.main.head;
+              void insertImageFiles(view, images, pos);
+            }
+            if (others.length > 0) {
+              useDraftStore.getState().importFiles(others, { open: true });
+            }
+            return true;
+          },
+          // Pasted images (e.g. screenshots) are stored and referenced at the selection
+          paste(event: ClipboardEvent, view: EditorView) {
+            const images = [...(event.clipboardData?.files ?? [])].filter(
+              isImageFile
+            );
+            if (images.length === 0) return false;
+            event.preventDefault();
+            const { from, to } = view.state.selection.main;
+            void insertImageFiles(view, images, from, to);
+            return true;
+          },
         }),
         themeExtension, // Apply the selected theme
-        editorKeymap, // Apply combined keymaps
+        keybindingCompartment.of(currentKeybindings()), // Apply combined keymaps
       ]
         .flat()
         .filter((ext): ext is Extension => !!ext); // Flatten and filter out null/undefined
 
-      const startState = EditorState.create({
-        doc: value, // Initial document content
-        extensions: extensions,
-      });
+      extensionsRef.current = extensions;
+      // Continue from the state the active tab had when the editor was last shown
+      const { tabs, activeTabId } = useEditorStore.getState();
+      const saved = tabs.find((t) => t.id === activeTabId)?.editorState;
+      const startState = saved
+        ? reconfigureState(saved, extensions)
+        : EditorState.create({
+            doc: value, // Initial document content
+            extensions: extensions,
+          });
 
       view = new EditorView({
         state: startState,
         parent: editorRef.current, // Attach to the ref div
       });
+      if (saved && saved.doc.toString() !== value) {
+        replaceWithExternalText(view, value); // Changed while the editor was hidden
+      }
 
       viewRef.current = view; // Store the view instance in a ref
       setView(view); // Register the view instance in the Zustand store
@@ -182,6 +413,13 @@ const CodeMirrorEditor: FC<CodeMirrorEditorProps> = ({
     // --- Cleanup on unmount ---
     return () => {
       if (viewRef.current) {
+        // Keep the undo history and selection for when the editor is shown again
+        const { activeTabId, saveEditorState } = useEditorStore.getState();
+        saveEditorState(
+          activeTabId,
+          viewRef.current.state,
+          viewRef.current.scrollDOM.scrollTop
+        );
         console.log('Destroying CodeMirror view and clearing from store.');
         viewRef.current.destroy(); // Destroy the CodeMirror instance
         viewRef.current = null;
@@ -199,13 +437,10 @@ const CodeMirrorEditor: FC<CodeMirrorEditorProps> = ({
     if (view) {
       const currentDoc = view.state.doc.toString();
       if (value !== currentDoc) {
-        view.dispatch({
-          changes: { from: 0, to: currentDoc.length, insert: value },
-          // Avoid resetting selection/cursor on external changes if possible
-          // selection: view.state.selection,
-          // scrollIntoView: true,
-        });
+        replaceWithExternalText(view, value);
       }
+      // Apply a selection requested for this content (e.g. a search result)
+      useEditorStore.getState().applyPendingSelection();
     }
   }, [value]); // Re-run only when the external 'value' prop changes
 
@@ -215,6 +450,48 @@ const CodeMirrorEditor: FC<CodeMirrorEditorProps> = ({
     const unsubscribe = useEditorStore.subscribe(
       // Listener function triggered on every state change
       (state, prevState) => {
+        // Swap the keymaps when the keybinding mode or the shortcuts change
+        if (
+          state.keybindingMode !== prevState.keybindingMode ||
+          state.shortcutOverrides !== prevState.shortcutOverrides
+        ) {
+          viewRef.current?.dispatch({
+            effects: keybindingCompartment.reconfigure(currentKeybindings()),
+          });
+        }
+        // Another tab became active: swap in its editor state
+        if (state.activeTabId !== prevState.activeTabId) {
+          const view = viewRef.current;
+          if (!view) return;
+          state.saveEditorState(
+            prevState.activeTabId,
+            view.state,
+            view.scrollDOM.scrollTop
+          );
+          const tab = state.tabs.find((t) => t.id === state.activeTabId);
+          view.setState(
+            tab?.editorState
+              ? reconfigureState(tab.editorState, extensionsRef.current)
+              : EditorState.create({
+                  doc: state.markdown,
+                  extensions: extensionsRef.current,
+                })
+          );
+          // The tab's state may have been created with other keymaps
+          view.dispatch({
+            effects: keybindingCompartment.reconfigure(currentKeybindings()),
+          });
+          if (view.state.doc.toString() !== state.markdown) {
+            replaceWithExternalText(view, state.markdown); // Changed while in the background
+          }
+          const { from, to } = view.state.selection.main;
+          state.updateSelection(view.state.sliceDoc(from, to), { from, to });
+          const scrollTop = tab?.scrollTop ?? 0;
+          requestAnimationFrame(() => {
+            view.scrollDOM.scrollTop = scrollTop;
+          });
+          return;
+        }
         // Check if scrollToPercent has changed and is not null
         if (
           state.scrollToPercent !== prevState.scrollToPercent &&
@@ -0,0 +1,167 @@
+import { useCallback, useState } from 'react';
+import type { FC } from 'react';
+import { useEditorStore } from '@/store/editorStore';
+import type { OpenDocument } from '@/types/editor';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Plus, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const tabLabel = (doc: Pick<OpenDocument, 'fileName'>) =>
+  doc.fileName || '無題';
+
+/**
+ * Tab strip listing the open documents above the editor. Each tab keeps its
+ * own text, undo history and dirty flag; closing a tab with unsaved changes
+ * asks whether to save or discard them.
+ */
+export const DocumentTabs: FC = () => {
+  // --- Zustand Store Hooks ---
+  const {
+    tabs,
+    activeTabId,
+    currentFileName,
+    isSaved,
+    switchTab,
+    closeTab,
+    createNewFile,
+    saveCurrentDraft,
+  } = useEditorStore();
+
+  // --- Local State ---
+  const [pendingClose, setPendingClose] = useState<OpenDocument | null>(null);
+
+  // The active tab's name and dirty flag live in the store fields
+  const docs = tabs.map((tab) =>
+    tab.id === activeTabId
+      ? { ...tab, fileName: currentFileName, isSaved }
+      : tab
+  );
+
+  // --- Event Handlers ---
+  const requestClose = useCallback(
+    (doc: OpenDocument) => {
+      if (doc.isSaved) {
+        closeTab(doc.id);
+      } else {
+        setPendingClose(doc); // Ask before discarding unsaved changes
+      }
+    },
+    [closeTab]
+  );
+
+  const handleSaveAndClose = useCallback(async () => {
+    if (!pendingClose) return;
+    const tabId = pendingClose.id;
+    setPendingClose(null);
+    switchTab(tabId); // Saving works on the active tab
+    if (await saveCurrentDraft()) {
+      closeTab(tabId);
+    }
+  }, [pendingClose, switchTab, saveCurrentDraft, closeTab]);
+
+  const handleDiscardAndClose = useCallback(() => {
+    if (!pendingClose) return;
+    closeTab(pendingClose.id);
+    setPendingClose(null);
+  }, [pendingClose, closeTab]);
+
+  // --- Render ---
+  return (
+    <>
+      <div
+        role="tablist"
+        aria-label="開いているドキュメント"
+        className="flex items-end gap-0.5 overflow-x-auto border-b bg-muted/30 px-1 pt-1 flex-shrink-0"
+      >
+        {docs.map((doc) => {
+          const isActive = doc.id === activeTabId;
+          return (
+            <div
+              key={doc.id}
+              className={cn(
+                'group flex max-w-[200px] items-center rounded-t-md border border-b-0 text-sm',
+                isActive
+                  ? 'bg-background'
+                  : 'border-transparent text-muted-foreground hover:bg-muted'
+              )}
+            >
+              <button
+                type="button"
+                role="tab"
+                aria-selected={isActive}
+                onClick={() => switchTab(doc.id)}
+                // Middle click closes the tab, as in browsers
+                onAuxClick={(e) => e.button === 1 && requestClose(doc)}
+                title={tabLabel(doc)}
+                className="flex min-w-0 items-center gap-1 py-1 pl-3 pr-1"
+              >
+                <span className="truncate">{tabLabel(doc)}</span>
+                {!doc.isSaved && (
+                  <span
+                    className="flex-shrink-0 text-primary"
+                    aria-label="未保存"
+                  >
+                    ●
+                  </span>
+                )}
+              </button>
+              <button
+                type="button"
+                onClick={() => requestClose(doc)}
+                className={cn(
+                  'mr-1 rounded p-0.5 hover:bg-muted-foreground/20',
+                  !isActive && 'opacity-0 group-hover:opacity-100'
+                )}
+                aria-label={`${tabLabel(doc)} を閉じる`}
+                title="タブを閉じる"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          );
+        })}
+        <Button
+          variant="ghost"
+          size="icon"
+          className="mb-0.5 h-6 w-6 flex-shrink-0"
+          onClick={createNewFile}
+          title="新しいタブ"
+          aria-label="新しいタブ"
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {/* Unsaved Changes Confirmation */}
+      <AlertDialog
+        open={!!pendingClose}
+        onOpenChange={(open) => !open && setPendingClose(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>変更を保存しますか？</AlertDialogTitle>
+            <AlertDialogDescription>
+              {`「${pendingClose ? tabLabel(pendingClose) : ''}」には保存されていない変更があります。保存しないで閉じると変更は失われます。`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>キャンセル</AlertDialogCancel>
+            <Button variant="destructive" onClick={handleDiscardAndClose}>
+              保存しないで閉じる
+            </Button>
+            <Button onClick={handleSaveAndClose}>保存して閉じる</Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
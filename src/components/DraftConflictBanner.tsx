@@ -0,0 +1,58 @@
+import { useState } from 'react';
+import type { FC } from 'react';
+import { useEditorStore } from '@/store/editorStore';
+import { DraftMergeDialog } from '@/components/DraftMergeDialog';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle } from 'lucide-react';
+
+/**
+ * Banner shown while the open draft has been saved by another tab on top of
+ * unsaved local edits. Offers taking the other version, keeping the local
+ * one, or merging both.
+ */
+export const DraftConflictBanner: FC = () => {
+  // --- Zustand Store Hooks ---
+  const { conflict, resolveConflict } = useEditorStore();
+
+  // --- Local State ---
+  const [isMergeOpen, setIsMergeOpen] = useState(false);
+
+  // --- Render ---
+  if (!conflict) {
+    return null;
+  }
+
+  return (
+    <div
+      role="alert"
+      className="flex items-center gap-3 border-b bg-amber-50 px-4 py-2 text-sm text-amber-900 dark:bg-amber-950 dark:text-amber-100"
+    >
+      <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+      <span className="flex-grow">
+        この下書きは別のタブで{' '}
+        {new Date(conflict.theirs.lastModified).toLocaleString()}{' '}
+        に保存されました。未保存の変更と競合しています。
+      </span>
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-7"
+        onClick={() => resolveConflict('theirs')}
+      >
+        相手の変更を採用
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-7"
+        onClick={() => resolveConflict('mine')}
+      >
+        自分の変更を保持
+      </Button>
+      <Button size="sm" className="h-7" onClick={() => setIsMergeOpen(true)}>
+        マージ…
+      </Button>
+      <DraftMergeDialog open={isMergeOpen} onOpenChange={setIsMergeOpen} />
+    </div>
+  );
+};
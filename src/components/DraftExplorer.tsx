@@ -0,0 +1,628 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { FC } from 'react';
+import { useEditorStore } from '@/store/editorStore';
+import { useDraftStore } from '@/store/draftStore';
+import type { Draft, DraftFolder } from '@/types/editor';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  ChevronDown,
+  ChevronRight,
+  Copy,
+  FileText,
+  Folder,
+  FolderOpen,
+  FolderPlus,
+  MoreHorizontal,
+  Pencil,
+  Tag,
+  X,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+// MIME types used to carry dragged items between explorer rows
+const DRAG_DRAFT_TYPE = 'application/x-draft-id';
+const DRAG_FOLDER_TYPE = 'application/x-folder-id';
+
+// State of the shared name/tags prompt dialog
+type PromptState =
+  | { mode: 'createFolder'; parentId: string | null }
+  | { mode: 'renameFolder'; folder: DraftFolder }
+  | { mode: 'renameDraft'; draft: Draft }
+  | { mode: 'editTags'; draft: Draft };
+
+/**
+ * Returns the display name of a draft (file name, or "無題" with its date).
+ * @param draft - The draft.
+ */
+const getDraftLabel = (draft: Draft): string =>
+  draft.fileName ||
+  `無題 (${new Date(draft.lastModified).toLocaleDateString()})`;
+
+/**
+ * Builds a "parent / child" path label for every folder.
+ * @param folders - All folders.
+ * @returns A map from folder ID to its path label.
+ */
+const buildFolderPaths = (folders: DraftFolder[]): Map<string, string> => {
+  const byId = new Map(folders.map((f) => [f.id, f]));
+  const paths = new Map<string, string>();
+  const resolve = (folder: DraftFolder, depth = 0): string => {
+    const cached = paths.get(folder.id);
+    if (cached) return cached;
+    const parent = folder.parentId ? byId.get(folder.parentId) : undefined;
+    // Depth guard protects against corrupted (cyclic) parent links
+    const path =
+      parent && depth < folders.length
+        ? `${resolve(parent, depth + 1)} / ${folder.name}`
+        : folder.name;
+    paths.set(folder.id, path);
+    return path;
+  };
+  folders.forEach((f) => resolve(f));
+  return paths;
+};
+
+/**
+ * Sidebar explorer for organizing drafts into folders and filtering them by
+ * name or tag. Drafts and folders can be moved via their menus or by drag and drop,
+ * and Markdown or text files dropped onto it are imported as drafts.
+ */
+export const DraftExplorer: FC = () => {
+  // --- Zustand Store Hooks ---
+  const { currentDraftId, isSaved, loadDraft } = useEditorStore();
+  const {
+    drafts,
+    folders,
+    refreshDrafts,
+    createFolder,
+    renameFolder,
+    moveFolder,
+    deleteFolder,
+    moveDraft,
+    setDraftTags,
+    renameDraft,
+    duplicateDraft,
+    importFiles,
+  } = useDraftStore();
+
+  // --- Local State ---
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [nameFilter, setNameFilter] = useState('');
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [prompt, setPrompt] = useState<PromptState | null>(null);
+  const [promptValue, setPromptValue] = useState('');
+  const [folderToDelete, setFolderToDelete] = useState<DraftFolder | null>(
+    null
+  );
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null); // '' = top level
+
+  // Reload the list on mount and whenever a draft is saved or switched
+  useEffect(() => {
+    refreshDrafts();
+  }, [refreshDrafts, currentDraftId, isSaved]);
+
+  // --- Derived Data ---
+  const folderPaths = useMemo(() => buildFolderPaths(folders), [folders]);
+  const allTags = useMemo(
+    () =>
+      [...new Set(drafts.flatMap((d) => d.tags))].sort((a, b) =>
+        a.localeCompare(b)
+      ),
+    [drafts]
+  );
+  const isFiltering = nameFilter.trim() !== '' || tagFilter.length > 0;
+
+  // Drafts matching the name and tag filters, grouped by folder ('' = top level)
+  const draftsByFolder = useMemo(() => {
+    const query = nameFilter.trim().toLowerCase();
+    const groups = new Map<string, Draft[]>();
+    drafts
+      .filter(
+        (d) =>
+          (!query || getDraftLabel(d).toLowerCase().includes(query)) &&
+          tagFilter.every((tag) => d.tags.includes(tag))
+      )
+      .forEach((d) => {
+        const key = d.folderId && folderPaths.has(d.folderId) ? d.folderId : '';
+        groups.set(key, [...(groups.get(key) ?? []), d]);
+      });
+    return groups;
+  }, [drafts, nameFilter, tagFilter, folderPaths]);
+
+  const childFolders = useCallback(
+    (parentId: string | null) =>
+      folders.filter((f) =>
+        parentId
+          ? f.parentId === parentId
+          : !f.parentId || !folderPaths.has(f.parentId)
+      ),
+    [folders, folderPaths]
+  );
+
+  // Whether a folder (or any subfolder) contains a draft matching the filters
+  const hasMatches = useCallback(
+    (folderId: string): boolean =>
+      (draftsByFolder.get(folderId)?.length ?? 0) > 0 ||
+      childFolders(folderId).some((f) => hasMatches(f.id)),
+    [draftsByFolder, childFolders]
+  );
+
+  // IDs of a folder and all its descendants (invalid move targets for it)
+  const descendantIds = useCallback(
+    (folderId: string): Set<string> => {
+      const ids = new Set([folderId]);
+      childFolders(folderId).forEach((f) =>
+        descendantIds(f.id).forEach((id) => ids.add(id))
+      );
+      return ids;
+    },
+    [childFolders]
+  );
+
+  // --- Event Handlers ---
+  const toggleExpanded = (id: string) =>
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const toggleTagFilter = (tag: string) =>
+    setTagFilter((prev) =>
+      prev.includes(tag) ? prev.filter((t) => t !== tag) : [...prev, tag]
+    );
+
+  const openPrompt = (state: PromptState) => {
+    setPrompt(state);
+    setPromptValue(
+      state.mode === 'renameFolder'
+        ? state.folder.name
+        : state.mode === 'renameDraft'
+          ? (state.draft.fileName ?? '')
+          : state.mode === 'editTags'
+            ? state.draft.tags.join(', ')
+            : ''
+    );
+  };
+
+  const handlePromptSubmit = async () => {
+    if (!prompt) return;
+    let success = false;
+    switch (prompt.mode) {
+      case 'createFolder':
+        success = await createFolder(promptValue, prompt.parentId);
+        if (success && prompt.parentId) {
+          setExpanded((prev) => new Set(prev).add(prompt.parentId!));
+        }
+        break;
+      case 'renameFolder':
+        success = await renameFolder(prompt.folder.id, promptValue);
+        break;
+      case 'renameDraft':
+        success = await renameDraft(prompt.draft.id, promptValue);
+        break;
+      case 'editTags':
+        // Tags are entered comma separated
+        success = await setDraftTags(prompt.draft.id, promptValue.split(','));
+        break;
+    }
+    if (success) setPrompt(null);
+  };
+
+  const handleDeleteFolder = async () => {
+    if (folderToDelete) {
+      await deleteFolder(folderToDelete.id);
+      setFolderToDelete(null);
+    }
+  };
+
+  // Drop a dragged draft or folder into a folder ('' = top level);
+  // files dropped from the desktop are imported there as new drafts
+  const handleDrop = (event: React.DragEvent, folderId: string) => {
+    event.preventDefault();
+    event.stopPropagation();
+    setDropTargetId(null);
+    const target = folderId || null;
+    if (event.dataTransfer.files.length > 0) {
+      importFiles([...event.dataTransfer.files], { folderId: target });
+      return;
+    }
+    const draftId = event.dataTransfer.getData(DRAG_DRAFT_TYPE);
+    const movedFolderId = event.dataTransfer.getData(DRAG_FOLDER_TYPE);
+    if (draftId) {
+      moveDraft(draftId, target);
+    } else if (movedFolderId && movedFolderId !== folderId) {
+      moveFolder(movedFolderId, target);
+    }
+  };
+
+  const dropTargetProps = (folderId: string) => ({
+    onDragOver: (event: React.DragEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      setDropTargetId(folderId);
+    },
+    onDragLeave: () => setDropTargetId(null),
+    onDrop: (event: React.DragEvent) => handleDrop(event, folderId),
+  });
+
+  // --- Render Helpers ---
+  // "Move to" submenu listing the top level and every allowed folder
+  const renderMoveMenu = (
+    currentFolderId: string | null,
+    onMove: (folderId: string | null) => void,
+    excluded: Set<string> = new Set()
+  ) => (
+    <DropdownMenuSub>
+      <DropdownMenuSubTrigger>移動</DropdownMenuSubTrigger>
+      <DropdownMenuSubContent className="max-h-64 overflow-y-auto">
+        <DropdownMenuItem
+          disabled={currentFolderId === null}
+          onSelect={() => onMove(null)}
+        >
+          (トップレベル)
+        </DropdownMenuItem>
+        {[...folderPaths.entries()]
+          .filter(([id]) => !excluded.has(id))
+          .sort(([, a], [, b]) => a.localeCompare(b))
+          .map(([id, path]) => (
+            <DropdownMenuItem
+              key={id}
+              disabled={id === currentFolderId}
+              onSelect={() => onMove(id)}
+            >
+              {path}
+            </DropdownMenuItem>
+          ))}
+      </DropdownMenuSubContent>
+    </DropdownMenuSub>
+  );
+
+  const renderDraft = (draft: Draft, depth: number) => (
+    <li key={draft.id}>
+      <div
+        draggable
+        onDragStart={(e) => e.dataTransfer.setData(DRAG_DRAFT_TYPE, draft.id)}
+        className={cn(
+          'group flex items-center rounded pr-1 hover:bg-muted',
+          draft.id === currentDraftId && 'bg-muted font-medium'
+        )}
+        style={{ paddingLeft: `${depth * 12 + 4}px` }}
+      >
+        <button
+          type="button"
+          onClick={() => loadDraft(draft.id)}
+          className="flex-grow flex items-center gap-1.5 py-1 min-w-0 text-left"
+          title={getDraftLabel(draft)}
+        >
+          <FileText className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+          <span className="truncate">{getDraftLabel(draft)}</span>
+          {draft.tags.length > 0 && (
+            <span className="ml-auto flex-shrink-0 text-xs text-muted-foreground">
+              #{draft.tags.length}
+            </span>
+          )}
+        </button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              aria-label={`${getDraftLabel(draft)} のメニュー`}
+              className="h-6 w-6 flex-shrink-0 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 data-[state=open]:opacity-100"
+            >
+              <MoreHorizontal className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            <DropdownMenuItem
+              onSelect={() => openPrompt({ mode: 'renameDraft', draft })}
+            >
+              <Pencil className="h-4 w-4 mr-2" /> 名前を変更
+            </DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => duplicateDraft(draft.id)}>
+              <Copy className="h-4 w-4 mr-2" /> 複製
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              onSelect={() => openPrompt({ mode: 'editTags', draft })}
+            >
+              <Tag className="h-4 w-4 mr-2" /> タグを編集
+            </DropdownMenuItem>
+            {renderMoveMenu(draft.folderId, (folderId) =>
+              moveDraft(draft.id, folderId)
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+    </li>
+  );
+
+  const renderFolder = (folder: DraftFolder, depth: number) => {
+    if (isFiltering && !hasMatches(folder.id)) return null;
+    const isOpen = isFiltering || expanded.has(folder.id);
+    return (
+      <li key={folder.id}>
+        <div
+          draggable
+          onDragStart={(e) => {
+            e.stopPropagation();
+            e.dataTransfer.setData(DRAG_FOLDER_TYPE, folder.id);
+          }}
+          {...dropTargetProps(folder.id)}
+          className={cn(
+            'group flex items-center rounded pr-1 hover:bg-muted',
+            dropTargetId === folder.id && 'ring-1 ring-primary'
+          )}
+          style={{ paddingLeft: `${depth * 12}px` }}
+        >
+          <button
+            type="button"
+            onClick={() => toggleExpanded(folder.id)}
+            aria-expanded={isOpen}
+            className="flex-grow flex items-center gap-1 py-1 min-w-0 text-left"
+          >
+            {isOpen ? (
+              <ChevronDown className="h-3 w-3 flex-shrink-0" />
+            ) : (
+              <ChevronRight className="h-3 w-3 flex-shrink-0" />
+            )}
+            {isOpen ? (
+              <FolderOpen className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+            ) : (
+              <Folder className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+            )}
+            <span className="truncate">{folder.name}</span>
+          </button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label={`${folder.name} のメニュー`}
+                className="h-6 w-6 flex-shrink-0 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 data-[state=open]:opacity-100"
+              >
+                <MoreHorizontal className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start">
+              <DropdownMenuItem
+                onSelect={() =>
+                  openPrompt({ mode: 'createFolder', parentId: folder.id })
+                }
+              >
+                サブフォルダを作成
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onSelect={() => openPrompt({ mode: 'renameFolder', folder })}
+              >
+                名前を変更
+              </DropdownMenuItem>
+              {renderMoveMenu(
+                folder.parentId,
+                (parentId) => moveFolder(folder.id, parentId),
+                descendantIds(folder.id)
+              )}
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                className="text-destructive focus:text-destructive"
+                onSelect={() => setFolderToDelete(folder)}
+              >
+                削除
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+        {isOpen && (
+          <ul>
+            {childFolders(folder.id).map((f) => renderFolder(f, depth + 1))}
+            {(draftsByFolder.get(folder.id) ?? []).map((d) =>
+              renderDraft(d, depth + 1)
+            )}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  // --- Render ---
+  const rootFolders = childFolders(null);
+  const rootDrafts = draftsByFolder.get('') ?? [];
+
+  return (
+    <div
+      role="navigation"
+      aria-label="エクスプローラー"
+      className="h-full flex flex-col text-sm"
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 pt-4 pb-2">
+        <p className="font-semibold text-foreground text-base">
+          エクスプローラー
+        </p>
+        <Button
+          variant="ghost"
+          size="icon"
+          aria-label="新しいフォルダ"
+          title="新しいフォルダ"
+          className="h-7 w-7"
+          onClick={() => openPrompt({ mode: 'createFolder', parentId: null })}
+        >
+          <FolderPlus className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <div className="px-4 pb-2 space-y-2">
+        <Input
+          value={nameFilter}
+          onChange={(e) => setNameFilter(e.target.value)}
+          placeholder="名前で絞り込み"
+          aria-label="名前で絞り込み"
+          className="h-8"
+        />
+        {allTags.length > 0 && (
+          <div className="flex flex-wrap gap-1" aria-label="タグで絞り込み">
+            {allTags.map((tag) => (
+              <button
+                key={tag}
+                type="button"
+                aria-pressed={tagFilter.includes(tag)}
+                onClick={() => toggleTagFilter(tag)}
+                className={cn(
+                  'rounded-full border px-2 py-0.5 text-xs transition-colors',
+                  tagFilter.includes(tag)
+                    ? 'bg-primary text-primary-foreground border-primary'
+                    : 'text-muted-foreground hover:text-foreground'
+                )}
+              >
+                #{tag}
+              </button>
+            ))}
+            {tagFilter.length > 0 && (
+              <button
+                type="button"
+                aria-label="タグの絞り込みを解除"
+                onClick={() => setTagFilter([])}
+                className="text-muted-foreground hover:text-foreground"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Tree (the empty area accepts drops to move items to the top level) */}
+      <div
+        {...dropTargetProps('')}
+        className={cn(
+          'flex-grow overflow-y-auto px-2 pb-4',
+          dropTargetId === '' && 'bg-muted/40'
+        )}
+      >
+        {rootFolders.length === 0 && drafts.length === 0 ? (
+          <p className="px-2 py-4 text-muted-foreground">下書きはありません</p>
+        ) : (
+          <ul>
+            {rootFolders.map((f) => renderFolder(f, 0))}
+            {rootDrafts.map((d) => renderDraft(d, 0))}
+          </ul>
+        )}
+        {isFiltering && draftsByFolder.size === 0 && (
+          <p className="px-2 py-4 text-muted-foreground">
+            一致する下書きはありません
+          </p>
+        )}
+      </div>
+
+      {/* Name / Tags Prompt */}
+      <Dialog open={!!prompt} onOpenChange={(open) => !open && setPrompt(null)}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>
+              {prompt?.mode === 'createFolder' && '新しいフォルダ'}
+              {prompt?.mode === 'renameFolder' && 'フォルダ名の変更'}
+              {prompt?.mode === 'renameDraft' && '下書き名の変更'}
+              {prompt?.mode === 'editTags' && 'タグの編集'}
+            </DialogTitle>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handlePromptSubmit();
+            }}
+          >
+            <Input
+              autoFocus
+              value={promptValue}
+              onChange={(e) => setPromptValue(e.target.value)}
+              placeholder={
+                prompt?.mode === 'editTags'
+                  ? 'カンマ区切りで入力 (例: 仕事, メモ)'
+                  : prompt?.mode === 'renameDraft'
+                    ? 'ファイル名'
+                    : 'フォルダ名'
+              }
+              aria-label={
+                prompt?.mode === 'editTags'
+                  ? 'タグ'
+                  : prompt?.mode === 'renameDraft'
+                    ? 'ファイル名'
+                    : 'フォルダ名'
+              }
+            />
+            <DialogFooter className="mt-4">
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={() => setPrompt(null)}
+              >
+                キャンセル
+              </Button>
+              <Button
+                type="submit"
+                disabled={prompt?.mode !== 'editTags' && !promptValue.trim()}
+              >
+                OK
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Folder Delete Confirmation */}
+      <AlertDialog
+        open={!!folderToDelete}
+        onOpenChange={(open) => !open && setFolderToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>フォルダを削除しますか？</AlertDialogTitle>
+            <AlertDialogDescription>
+              フォルダ「{folderToDelete?.name}
+              」を削除します。中の下書きとサブフォルダは親フォルダに移動されます。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>キャンセル</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDeleteFolder}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              削除
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
@@ -0,0 +1,202 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { FC } from 'react';
+import { useUIStore } from '@/store/uiStore';
+import { useEditorStore } from '@/store/editorStore';
+import { historyService } from '@/lib/historyService';
+import { getDiffHtml } from '@/lib/diffUtils';
+import type { DraftSnapshot } from '@/types/editor';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Bookmark, Clock } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+/**
+ * Dialog listing the version history of the current draft.
+ * Selecting a snapshot shows its diff against the current editor text,
+ * and restoring it replaces the content as an undoable change.
+ */
+export const DraftHistoryDialog: FC = () => {
+  // --- Zustand Store Hooks ---
+  const { isHistoryOpen, closeHistoryDialog } = useUIStore();
+  const { currentDraftId, markdown, restoreSnapshot, saveCurrentDraft } =
+    useEditorStore();
+
+  // --- Local State ---
+  const [snapshots, setSnapshots] = useState<DraftSnapshot[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [checkpointName, setCheckpointName] = useState('');
+
+  // Load the snapshots of the current draft
+  const fetchSnapshots = useCallback(async () => {
+    if (!currentDraftId) {
+      setSnapshots([]);
+      return;
+    }
+    const list = await historyService.getSnapshots(currentDraftId);
+    setSnapshots(list);
+    setSelectedId((prev) =>
+      prev && list.some((s) => s.id === prev) ? prev : (list[0]?.id ?? null)
+    );
+  }, [currentDraftId]);
+
+  // Refresh the list whenever the dialog opens or the draft changes
+  useEffect(() => {
+    if (isHistoryOpen) {
+      fetchSnapshots();
+    } else {
+      setCheckpointName('');
+    }
+  }, [isHistoryOpen, fetchSnapshots]);
+
+  const selectedSnapshot = snapshots.find((s) => s.id === selectedId) ?? null;
+
+  // --- Event Handlers ---
+  const handleRestore = useCallback(() => {
+    if (!selectedSnapshot) return;
+    restoreSnapshot(selectedSnapshot);
+    closeHistoryDialog();
+  }, [selectedSnapshot, restoreSnapshot, closeHistoryDialog]);
+
+  // Save the current content as a named checkpoint
+  const handleCreateCheckpoint = useCallback(async () => {
+    const name = checkpointName.trim();
+    if (!name) return;
+    if (await saveCurrentDraft(name)) {
+      setCheckpointName('');
+      await fetchSnapshots();
+    }
+  }, [checkpointName, saveCurrentDraft, fetchSnapshots]);
+
+  // --- Render ---
+  if (!isHistoryOpen) {
+    return null;
+  }
+
+  return (
+    <Dialog
+      open={isHistoryOpen}
+      onOpenChange={(open) => !open && closeHistoryDialog()}
+    >
+      <DialogContent className="sm:max-w-[80vw] w-auto h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>変更履歴</DialogTitle>
+        </DialogHeader>
+
+        {!currentDraftId ? (
+          <div className="flex-grow flex items-center justify-center text-sm text-muted-foreground">
+            保存された下書きを開くと履歴を表示できます
+          </div>
+        ) : (
+          <div className="flex-grow flex gap-4 overflow-hidden border-y -mx-6 px-6 py-4">
+            {/* Snapshot List */}
+            <ScrollArea className="w-64 flex-shrink-0 border rounded-md">
+              {snapshots.length === 0 && (
+                <p className="p-4 text-sm text-muted-foreground">
+                  履歴はまだありません
+                </p>
+              )}
+              <ul className="p-1" aria-label="スナップショット一覧">
+                {snapshots.map((snapshot) => (
+                  <li key={snapshot.id}>
+                    <button
+                      type="button"
+                      onClick={() => setSelectedId(snapshot.id)}
+                      className={cn(
+                        'w-full text-left rounded px-2 py-1.5 text-sm hover:bg-muted flex items-start gap-2',
+                        snapshot.id === selectedId && 'bg-muted'
+                      )}
+                    >
+                      {snapshot.kind === 'manual' ? (
+                        <Bookmark className="h-4 w-4 mt-0.5 flex-shrink-0 text-primary" />
+                      ) : (
+                        <Clock className="h-4 w-4 mt-0.5 flex-shrink-0 text-muted-foreground" />
+                      )}
+                      <span className="min-w-0">
+                        <span className="block truncate">
+                          {snapshot.kind === 'manual'
+                            ? snapshot.label || '手動保存'
+                            : '自動保存'}
+                        </span>
+                        <span className="block text-xs text-muted-foreground">
+                          {new Date(snapshot.updatedAt).toLocaleString()}
+                        </span>
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </ScrollArea>
+
+            {/* Diff of the selected snapshot against the current text */}
+            <div className="flex-grow overflow-auto border rounded-md">
+              {selectedSnapshot ? (
+                selectedSnapshot.content === markdown ? (
+                  <p className="p-4 text-sm text-muted-foreground">
+                    現在の内容と同じです
+                  </p>
+                ) : (
+                  <div
+                    className="font-mono text-sm leading-relaxed whitespace-pre-wrap"
+                    dangerouslySetInnerHTML={{
+                      // Show what restoring would change: current → snapshot
+                      __html: getDiffHtml(markdown, selectedSnapshot.content),
+                    }}
+                  />
+                )
+              ) : (
+                <p className="p-4 text-sm text-muted-foreground">
+                  スナップショットを選択してください
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="mt-auto pt-2">
+          <div className="flex justify-between w-full items-center gap-2">
+            {/* Named checkpoint creation */}
+            <div className="flex items-center gap-2">
+              <Input
+                value={checkpointName}
+                onChange={(e) => setCheckpointName(e.target.value)}
+                placeholder="チェックポイント名"
+                aria-label="チェックポイント名"
+                className="h-8 w-48"
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleCreateCheckpoint}
+                disabled={!checkpointName.trim()}
+              >
+                チェックポイントを保存
+              </Button>
+            </div>
+            <div className="flex space-x-2">
+              <Button variant="ghost" size="sm" onClick={closeHistoryDialog}>
+                閉じる
+              </Button>
+              <Button
+                size="sm"
+                onClick={handleRestore}
+                disabled={
+                  !selectedSnapshot || selectedSnapshot.content === markdown
+                }
+              >
+                この版を復元
+              </Button>
+            </div>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,185 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { FC } from 'react';
+import { useEditorStore } from '@/store/editorStore';
+import {
+  buildMergedText,
+  getDiffHtml,
+  mergeThreeWay,
+  type MergeChoice,
+} from '@/lib/diffUtils';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface DraftMergeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type MergeView = 'conflicts' | 'result';
+
+/**
+ * Dialog for a three-way merge of the local text and the version saved by
+ * another tab against their common base. Changes made on one side only are
+ * merged automatically; each conflicting region is resolved by choosing
+ * the local text, the other tab's text, or both.
+ */
+export const DraftMergeDialog: FC<DraftMergeDialogProps> = ({
+  open,
+  onOpenChange,
+}) => {
+  // --- Zustand Store Hooks ---
+  const { conflict, markdown, applyMergedContent } = useEditorStore();
+
+  // --- Local State ---
+  const [choices, setChoices] = useState<MergeChoice[]>([]);
+  const [view, setView] = useState<MergeView>('conflicts');
+
+  const chunks = useMemo(
+    () =>
+      conflict
+        ? mergeThreeWay(conflict.base, markdown, conflict.theirs.content)
+        : [],
+    [conflict, markdown]
+  );
+  const conflictCount = chunks.filter((c) => c.type === 'conflict').length;
+  const mergedText = useMemo(
+    () => buildMergedText(chunks, choices),
+    [chunks, choices]
+  );
+
+  // Start from "keep mine" for every conflict whenever the inputs change
+  useEffect(() => {
+    setChoices(Array(conflictCount).fill('mine'));
+  }, [chunks, conflictCount]);
+
+  useEffect(() => {
+    if (open) setView(conflictCount > 0 ? 'conflicts' : 'result');
+  }, [open, conflictCount]);
+
+  // --- Event Handlers ---
+  const handleApply = useCallback(async () => {
+    if (await applyMergedContent(mergedText)) {
+      onOpenChange(false);
+    }
+  }, [applyMergedContent, mergedText, onOpenChange]);
+
+  // --- Render ---
+  let conflictIndex = -1;
+  return (
+    <Dialog open={open && !!conflict} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[90vw] w-auto h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>変更のマージ</DialogTitle>
+          <DialogDescription>
+            {conflictCount > 0
+              ? `片方だけの変更は自動的に取り込まれます。両方で変更された ${conflictCount} 箇所を解決してください。`
+              : '競合する変更はありません。両方の変更を自動的に取り込めます。'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <ToggleGroup
+          type="single"
+          value={view}
+          onValueChange={(value) => value && setView(value as MergeView)}
+          variant="outline"
+          size="sm"
+          className="justify-start"
+        >
+          <ToggleGroupItem value="conflicts" disabled={conflictCount === 0}>
+            競合の解決
+          </ToggleGroupItem>
+          <ToggleGroupItem value="result">結果の差分</ToggleGroupItem>
+        </ToggleGroup>
+
+        <ScrollArea className="flex-grow border rounded-md">
+          {view === 'result' ? (
+            <div
+              className="font-mono text-sm leading-relaxed whitespace-pre-wrap"
+              dangerouslySetInnerHTML={{
+                // What applying the merge changes in the local text
+                __html: getDiffHtml(markdown, mergedText),
+              }}
+            />
+          ) : (
+            <div className="space-y-4 p-3">
+              {chunks.map((chunk, index) => {
+                if (chunk.type === 'resolved') return null;
+                const current = ++conflictIndex;
+                const base = chunk.base.join('\n');
+                return (
+                  <section
+                    key={index}
+                    className="rounded-md border"
+                    aria-label={`競合 ${current + 1}`}
+                  >
+                    <div className="flex items-center justify-between border-b px-3 py-1.5 text-sm">
+                      <span className="font-medium">競合 {current + 1}</span>
+                      <ToggleGroup
+                        type="single"
+                        value={choices[current] ?? 'mine'}
+                        onValueChange={(value) =>
+                          value &&
+                          setChoices((prev) =>
+                            prev.map((c, i) =>
+                              i === current ? (value as MergeChoice) : c
+                            )
+                          )
+                        }
+                        variant="outline"
+                        size="sm"
+                      >
+                        <ToggleGroupItem value="mine">自分</ToggleGroupItem>
+                        <ToggleGroupItem value="theirs">相手</ToggleGroupItem>
+                        <ToggleGroupItem value="both">両方</ToggleGroupItem>
+                      </ToggleGroup>
+                    </div>
+                    <div className="grid grid-cols-2 divide-x">
+                      <div>
+                        <p className="px-2 py-1 text-xs text-muted-foreground">
+                          自分 (このタブ)
+                        </p>
+                        <div
+                          className="font-mono text-sm leading-relaxed"
+                          dangerouslySetInnerHTML={{
+                            __html: getDiffHtml(base, chunk.mine.join('\n')),
+                          }}
+                        />
+                      </div>
+                      <div>
+                        <p className="px-2 py-1 text-xs text-muted-foreground">
+                          相手 (別のタブ)
+                        </p>
+                        <div
+                          className="font-mono text-sm leading-relaxed"
+                          dangerouslySetInnerHTML={{
+                            __html: getDiffHtml(base, chunk.theirs.join('\n')),
+                          }}
+                        />
+                      </div>
+                    </div>
+                  </section>
+                );
+              })}
+            </div>
+          )}
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            キャンセル
+          </Button>
+          <Button onClick={handleApply}>マージ結果を保存</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,94 @@
+import { useEffect, useState } from 'react';
+import type { FC } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface DraftNameDialogProps {
+  open: boolean;
+  title: string;
+  description?: string;
+  initialName: string;
+  submitLabel?: string;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (name: string) => Promise<boolean>; // Resolves true to close the dialog
+}
+
+/**
+ * Small dialog asking for a draft name, used for renaming the open draft
+ * and for saving it as a copy.
+ */
+export const DraftNameDialog: FC<DraftNameDialogProps> = ({
+  open,
+  title,
+  description,
+  initialName,
+  submitLabel = 'OK',
+  onOpenChange,
+  onSubmit,
+}) => {
+  // --- Local State ---
+  const [name, setName] = useState(initialName);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Start from the suggested name each time the dialog opens
+  useEffect(() => {
+    if (open) setName(initialName);
+  }, [open, initialName]);
+
+  // --- Event Handlers ---
+  const handleSubmit = async () => {
+    if (!name.trim() || isSubmitting) return;
+    setIsSubmitting(true);
+    try {
+      if (await onSubmit(name.trim())) onOpenChange(false);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // --- Render ---
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[400px]">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          {description && <DialogDescription>{description}</DialogDescription>}
+        </DialogHeader>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSubmit();
+          }}
+        >
+          <Input
+            autoFocus
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="ファイル名"
+            aria-label="ファイル名"
+          />
+          <DialogFooter className="mt-4">
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => onOpenChange(false)}
+            >
+              キャンセル
+            </Button>
+            <Button type="submit" disabled={!name.trim() || isSubmitting}>
+              {submitLabel}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
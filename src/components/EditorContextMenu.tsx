@@ -6,7 +6,11 @@ import {
   DropdownMenuSeparator,
   DropdownMenuGroup,
   DropdownMenuShortcut,
+  DropdownMenuSub,
+  DropdownMenuSubTrigger,
+  DropdownMenuSubContent,
 } from '@/components/ui/dropdown-menu';
+import { TableOperationItems } from '@/components/TableMenu';
 import { useUIStore } from '@/store/uiStore';
 import { useEditorStore } from '@/store/editorStore';
 import { useAIStore } from '@/store/aiStore';
@@ -14,12 +18,17 @@ import {
   Clipboard,
   ClipboardX,
   List,
+  ListOrdered,
   Quote,
   Code,
   Link,
   Bot,
+  Table,
+  Heading,
 } from 'lucide-react'; // Import icons
 import { toast } from 'sonner';
+import { formatKey, resolveShortcutKeys } from '@/lib/shortcuts';
+import type { ShortcutId } from '@/types/editor';
 
 export const EditorContextMenu: React.FC = () => {
   // --- Zustand Store Hooks ---
@@ -41,14 +50,24 @@ export const EditorContextMenu: React.FC = () => {
     toggleCodeSelection,
     insertLink,
     toggleBulletList,
+    toggleOrderedList,
     toggleQuote,
     toggleCodeBlock,
+    insertTable,
+    setHeadingLevel,
+    promoteHeading,
+    demoteHeading,
+    moveSection,
+    shortcutOverrides,
   } = useEditorStore();
+  // Keys shown next to the items (the user may have rebound them)
+  const keys = resolveShortcutKeys(shortcutOverrides);
   // Get AI related actions
   const { setChatMode } = useAIStore();
 
   // Determine if text is currently selected based on context
   const hasSelection = contextMenuContext?.hasSelection ?? false;
+  const inTable = contextMenuContext?.inTable ?? false;
 
   // --- Event Handlers ---
   // Trigger AI edit mode for the selected text
@@ -133,26 +152,34 @@ export const EditorContextMenu: React.FC = () => {
             disabled={!hasSelection}
             onSelect={() => handleSelectAndClose(toggleBoldSelection)}
           >
-            太字 <DropdownMenuShortcut>⌘B</DropdownMenuShortcut>
+            太字{' '}
+            <DropdownMenuShortcut>{formatKey(keys.bold)}</DropdownMenuShortcut>
           </DropdownMenuItem>
           <DropdownMenuItem
             disabled={!hasSelection}
             onSelect={() => handleSelectAndClose(toggleItalicSelection)}
           >
-            斜体 <DropdownMenuShortcut>⌘I</DropdownMenuShortcut>
+            斜体{' '}
+            <DropdownMenuShortcut>
+              {formatKey(keys.italic)}
+            </DropdownMenuShortcut>
           </DropdownMenuItem>
           <DropdownMenuItem
             disabled={!hasSelection}
             onSelect={() => handleSelectAndClose(toggleCodeSelection)}
           >
             <Code className="mr-2 h-4 w-4" />
-            コード <DropdownMenuShortcut>⌘E</DropdownMenuShortcut>
+            コード{' '}
+            <DropdownMenuShortcut>
+              {formatKey(keys.inlineCode)}
+            </DropdownMenuShortcut>
           </DropdownMenuItem>
           <DropdownMenuItem onSelect={() => handleSelectAndClose(insertLink)}>
             {' '}
             {/* Link doesn't strictly require selection */}
             <Link className="mr-2 h-4 w-4" />
-            リンク挿入 <DropdownMenuShortcut>⌘K</DropdownMenuShortcut>
+            リンク挿入{' '}
+            <DropdownMenuShortcut>{formatKey(keys.link)}</DropdownMenuShortcut>
           </DropdownMenuItem>
         </DropdownMenuGroup>
         <DropdownMenuSeparator />
@@ -164,6 +191,12 @@ export const EditorContextMenu: React.FC = () => {
             <List className="mr-2 h-4 w-4" />
             リスト
           </DropdownMenuItem>
+          <DropdownMenuItem
+            onSelect={() => handleSelectAndClose(toggleOrderedList)}
+          >
+            <ListOrdered className="mr-2 h-4 w-4" />
+            番号付きリスト
+          </DropdownMenuItem>
           <DropdownMenuItem onSelect={() => handleSelectAndClose(toggleQuote)}>
             <Quote className="mr-2 h-4 w-4" />
             引用
@@ -174,6 +207,104 @@ export const EditorContextMenu: React.FC = () => {
             <Code className="mr-2 h-4 w-4" />
             コードブロック
           </DropdownMenuItem>
+          {/* Heading levels and moving the section at the cursor */}
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>
+              <Heading className="mr-2 h-4 w-4" />
+              見出し
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent className="w-60">
+              {[1, 2, 3, 4, 5, 6].map((level) => (
+                <DropdownMenuItem
+                  key={level}
+                  onSelect={() =>
+                    handleSelectAndClose(() => setHeadingLevel(level))
+                  }
+                >
+                  {`見出し${level}`}
+                  <DropdownMenuShortcut>
+                    {formatKey(keys[`heading${level}` as ShortcutId])}
+                  </DropdownMenuShortcut>
+                </DropdownMenuItem>
+              ))}
+              <DropdownMenuItem
+                onSelect={() => handleSelectAndClose(() => setHeadingLevel(0))}
+              >
+                本文
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                onSelect={() => handleSelectAndClose(() => promoteHeading())}
+              >
+                レベルを上げる{' '}
+                <DropdownMenuShortcut>
+                  {formatKey(keys.promoteHeading)}
+                </DropdownMenuShortcut>
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onSelect={() => handleSelectAndClose(() => demoteHeading())}
+              >
+                レベルを下げる{' '}
+                <DropdownMenuShortcut>
+                  {formatKey(keys.demoteHeading)}
+                </DropdownMenuShortcut>
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onSelect={() =>
+                  handleSelectAndClose(() => promoteHeading(true))
+                }
+              >
+                小見出しごと上げる
+                <DropdownMenuShortcut>
+                  {formatKey(keys.promoteSection)}
+                </DropdownMenuShortcut>
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onSelect={() => handleSelectAndClose(() => demoteHeading(true))}
+              >
+                小見出しごと下げる
+                <DropdownMenuShortcut>
+                  {formatKey(keys.demoteSection)}
+                </DropdownMenuShortcut>
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                onSelect={() => handleSelectAndClose(() => moveSection(-1))}
+              >
+                セクションを上へ移動
+                <DropdownMenuShortcut>
+                  {formatKey(keys.moveSectionUp)}
+                </DropdownMenuShortcut>
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onSelect={() => handleSelectAndClose(() => moveSection(1))}
+              >
+                セクションを下へ移動
+                <DropdownMenuShortcut>
+                  {formatKey(keys.moveSectionDown)}
+                </DropdownMenuShortcut>
+              </DropdownMenuItem>
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          {/* Table operations apply to the table at the cursor */}
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>
+              <Table className="mr-2 h-4 w-4" />表
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent className="w-52">
+              <DropdownMenuItem
+                disabled={inTable}
+                onSelect={() => handleSelectAndClose(() => insertTable(2, 3))}
+              >
+                表を挿入 (3列 × 2行)
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <TableOperationItems
+                disabled={!inTable}
+                onAction={closeContextMenu}
+              />
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
         </DropdownMenuGroup>
         <DropdownMenuSeparator />
         {/* AI Actions Group */}
@@ -188,11 +319,13 @@ export const EditorContextMenu: React.FC = () => {
         <DropdownMenuGroup>
           <DropdownMenuItem onSelect={handleCut} disabled={!hasSelection}>
             <ClipboardX className="mr-2 h-4 w-4" />
-            カット <DropdownMenuShortcut>⌘X</DropdownMenuShortcut>
+            カット{' '}
+            <DropdownMenuShortcut>{formatKey('Mod-x')}</DropdownMenuShortcut>
           </DropdownMenuItem>
           <DropdownMenuItem onSelect={handleCopy} disabled={!hasSelection}>
             <Clipboard className="mr-2 h-4 w-4" />
-            コピー <DropdownMenuShortcut>⌘C</DropdownMenuShortcut>
+            コピー{' '}
+            <DropdownMenuShortcut>{formatKey('Mod-c')}</DropdownMenuShortcut>
           </DropdownMenuItem>
           {/* Paste is hard to implement reliably from context menu */}
         </DropdownMenuGroup>
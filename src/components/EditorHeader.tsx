@@ -1,12 +1,16 @@
 import { useEditorStore } from '@/store/editorStore';
 import { useTheme } from '@/components/providers/ThemeProvider'; // Import useTheme hook
 import { Button } from '@/components/ui/button'; // Import Shadcn Button
-import { Moon, Sun, FileCode } from 'lucide-react'; // Import icons
+import { Moon, Sun, FileCode, HardDrive } from 'lucide-react'; // Import icons
 
 export const EditorHeader: React.FC = () => {
   // --- Zustand Store Hook ---
   // Get file name and saved status from the editor store
-  const { currentFileName, isSaved } = useEditorStore();
+  const { currentFileName, isSaved, fileHandle, isFileSaved } =
+    useEditorStore();
+  // A draft linked to a file on disk shows the file's name and unwritten changes
+  const displayName = fileHandle?.name ?? currentFileName;
+  const isClean = fileHandle ? isFileSaved : isSaved;
   // --- Theme Hook ---
   // Get current theme and setter function from ThemeProvider context
   const { theme, setTheme } = useTheme();
@@ -43,15 +47,27 @@ export const EditorHeader: React.FC = () => {
           AI Markdown Editor
         </h1>
         {/* Current File Name and Saved Status */}
-        {currentFileName && (
+        {displayName && (
           // Use tooltip for long filenames?
           <span
-            className={`text-sm truncate ${isSaved ? 'opacity-80' : 'opacity-100 font-medium'}`}
-            title={currentFileName} // Show full name on hover
+            className={`text-sm truncate flex items-center ${isClean ? 'opacity-80' : 'opacity-100 font-medium'}`}
+            title={
+              fileHandle ? `${displayName} (ディスク上のファイル)` : displayName // Show full name on hover
+            }
           >
-            {currentFileName}
+            {fileHandle && (
+              <HardDrive
+                className="h-4 w-4 mr-1 flex-shrink-0"
+                aria-label="ディスク上のファイル"
+              />
+            )}
+            <span className="truncate">{displayName}</span>
             {/* Unsaved indicator */}
-            {!isSaved && <span className="ml-1 text-xs">•</span>}
+            {!isClean && (
+              <span className="ml-1 text-xs" aria-label="未保存の変更">
+                •
+              </span>
+            )}
           </span>
         )}
       </div>
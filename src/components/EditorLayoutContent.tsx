@@ -1,18 +1,28 @@
-import { useCallback, useState, useEffect, useRef } from 'react';
+import { useCallback, useState, useEffect, useMemo, useRef } from 'react';
 import type { RefObject } from 'react';
 import CodeMirrorEditor from '@/components/CodeMirrorEditor';
 import { PreviewPane, PreviewPaneRef } from '@/components/PreviewPane'; // Import PreviewPaneRef type
-import { useEditorStore } from '@/store/editorStore';
+import { useEditorStore, getUntitledFileName } from '@/store/editorStore';
 import { useUIStore } from '@/store/uiStore';
 import { useAIStore } from '@/store/aiStore';
 import { useAutosave } from '@/hooks/useAutosave';
 import { storageService } from '@/lib/storageService';
+import { historyService } from '@/lib/historyService';
+import { isInTable } from '@/lib/cmCommands';
 import { Button } from '@/components/ui/button';
 import { Bot } from 'lucide-react';
-import type { ScrollInfo } from '@/types/editor'; // Import ScrollInfo type
+import type { AutosaveOutcome, ScrollInfo } from '@/types/editor'; // Import editor types
 import { useTheme } from '@/components/providers/ThemeProvider'; // Import useTheme
 import { toast } from 'sonner'; // Import toast for notifications
 
+// Document snapshot handed to the autosave callback
+interface AutosaveTarget {
+  tabId: string;
+  draftId: string | null;
+  fileName: string;
+  markdown: string;
+}
+
 // Props definition including the ref for PreviewPane
 interface EditorLayoutContentProps {
   previewPaneRef: React.RefObject<PreviewPaneRef>;
@@ -26,9 +36,15 @@ export const EditorLayoutContent: React.FC<EditorLayoutContentProps> = ({
     markdown,
     selectedText,
     isSaved,
+    conflict,
+    currentDraftId,
+    currentFileName,
+    activeTabId,
     setMarkdown,
     updateSelection,
-    setIsSaved,
+    markSaved,
+    setAutosaveStatus,
+    autosaveSettings,
     setScrollToPercent: setEditorScrollToPercent,
   } = useEditorStore();
   const {
@@ -52,6 +68,7 @@ export const EditorLayoutContent: React.FC<EditorLayoutContentProps> = ({
   const isPreviewScrolling = useRef(false);
   const editorScrollInfoRef = useRef<ScrollInfo | null>(null); // Store latest scroll info
   const previewScrollInfoRef = useRef<ScrollInfo | null>(null);
+  const editorPaneRef = useRef<HTMLDivElement>(null); // Focus leaving it triggers 'blur' autosave
 
   // --- Callbacks ---
   // Update markdown state in store when CodeMirror content changes
@@ -78,39 +95,73 @@ export const EditorLayoutContent: React.FC<EditorLayoutContentProps> = ({
   }, [setChatMode, setChatOpen]);
 
   // --- Autosave Logic ---
+  // The document as it was when the save was scheduled, so a save flushed
+  // after switching tabs still goes to the right draft
+  const autosaveTarget = useMemo<AutosaveTarget>(
+    () => ({
+      tabId: activeTabId,
+      draftId: currentDraftId,
+      fileName: currentFileName,
+      markdown,
+    }),
+    [activeTabId, currentDraftId, currentFileName, markdown]
+  );
+
   const handleAutoSave = useCallback(
-    async (currentValue: string) => {
-      const currentId = storageService.getCurrentDraftId();
-      const fileNameToSave = useEditorStore.getState().currentFileName; // Get latest filename
+    async (target: AutosaveTarget): Promise<AutosaveOutcome | void> => {
+      const state = useEditorStore.getState();
+      const isActive = target.tabId === state.activeTabId;
+      const tab = state.tabs.find((t) => t.id === target.tabId);
+      if (!tab) return 'discarded'; // Closed without saving
+      // Do not overwrite another tab's version until the conflict is resolved
+      if (isActive ? state.conflict : tab.conflict) return 'conflict';
 
       console.log('Autosaving draft...', {
-        id: currentId,
-        fileName: fileNameToSave,
+        id: target.draftId,
+        fileName: target.fileName,
       });
 
-      const savedId = storageService.saveDraft(
-        currentValue,
-        fileNameToSave || null,
-        currentId || undefined
+      // Untitled documents are saved under a generated name instead of prompting
+      const fileName = target.fileName || getUntitledFileName();
+      const savedId = await storageService.saveDraft(
+        target.markdown,
+        fileName,
+        target.draftId || undefined
       );
-
-      if (savedId) {
-        setIsSaved(true); // Update saved status in store
-        // Optionally update filename in store if it was generated during save
-        // if (!currentFileName && fileNameToSave) { setCurrentFileName(fileNameToSave); }
-        console.log('Autosave successful, ID:', savedId);
-        // Optionally show a subtle autosave indicator (e.g., in status bar)
-        // toast.success('自動保存しました', { duration: 1500 });
-      } else {
-        console.error('Autosave failed');
-        toast.error('自動保存に失敗しました');
+      if (!savedId) {
+        throw new Error('Autosave failed'); // Retried by useAutosave
       }
+
+      markSaved(target.tabId, savedId, target.markdown, fileName); // Update saved status (and merge base) in store
+      // Record a (time-coalesced) autosave snapshot in the version history
+      await historyService.recordSnapshot(savedId, target.markdown, 'auto');
+      console.log('Autosave successful, ID:', savedId);
     },
-    [setIsSaved /* setCurrentFileName */]
+    [markSaved]
   ); // Dependencies for autosave callback
 
-  // Activate autosave hook
-  useAutosave(markdown, handleAutoSave, { isSaved, delay: 3000 }); // Autosave after 3s of inactivity if not saved
+  // Activate autosave hook with the user's policy
+  const isUntitled = !currentDraftId && !currentFileName;
+  const autosaveStatus = useAutosave(autosaveTarget, handleAutoSave, {
+    isSaved,
+    mode:
+      isUntitled && !autosaveSettings.saveUntitled
+        ? 'off'
+        : autosaveSettings.mode,
+    delay: autosaveSettings.idleDelayMs,
+    interval: autosaveSettings.intervalMs,
+    blurTarget: editorPaneRef, // 'blur' mode saves when focus leaves the editor
+    key: activeTabId, // Flush the pending save when another tab is shown
+    blocked: !!conflict, // Save the held-back text once the conflict is resolved
+  });
+
+  // Publish the status for the status bar; explain the first failure in a toast
+  useEffect(() => {
+    setAutosaveStatus(autosaveStatus);
+    if (autosaveStatus.state === 'error' && autosaveStatus.attempt === 1) {
+      useEditorStore.getState().notifySaveFailure('自動保存に失敗しました');
+    }
+  }, [autosaveStatus, setAutosaveStatus]);
 
   // --- Scroll Sync Logic ---
   // Debounce function for scroll synchronization
@@ -230,9 +281,11 @@ export const EditorLayoutContent: React.FC<EditorLayoutContentProps> = ({
         closeContextMenu(); // Close any existing menu first
 
         const position = { x: event.clientX, y: event.clientY };
-        const currentSelectedText = useEditorStore.getState().selectedText; // Get latest selection
+        const { selectedText: currentSelectedText, view } =
+          useEditorStore.getState(); // Get latest selection
         const context = {
           hasSelection: currentSelectedText.length > 0,
+          inTable: view ? isInTable(view.state) : false,
         };
 
         setTimeout(() => {
@@ -255,6 +308,7 @@ export const EditorLayoutContent: React.FC<EditorLayoutContentProps> = ({
       {(activeTab === 'edit' || activeTab === 'split') && (
         // Use Shadcn border variable
         <div
+          ref={editorPaneRef}
           data-testid="editor-pane"
           className={`relative ${activeTab === 'split' ? 'w-1/2' : 'w-full'} h-full border-r border-border`}
         >
@@ -2,10 +2,170 @@ import { useEffect, useState } from 'react';
 import type { FC } from 'react';
 import { useEditorStore } from '@/store/editorStore';
 import { useUIStore } from '@/store/uiStore';
+import type { AutosaveStatus, KeybindingMode } from '@/types/editor';
+import {
+  AlertCircle,
+  Check,
+  Loader2,
+  AlertTriangle,
+  Keyboard,
+} from 'lucide-react';
+import { openLintPanel } from '@codemirror/lint';
+import { LINT_RULES } from '@/lib/markdownLint';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+
+// Time of day shown for saves and retries
+const formatTime = (date: Date) =>
+  date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Autosave indicator: pending changes, saving, the time of the last save,
+ * changes held back by a conflict, or a failure with the time of the next retry.
+ */
+const AutosaveIndicator: FC<{ status: AutosaveStatus }> = ({ status }) => {
+  switch (status.state) {
+    case 'idle':
+      return null;
+    case 'pending':
+      return <span>未保存の変更があります</span>;
+    case 'saving':
+      return (
+        <span className="flex items-center gap-1">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          保存中...
+        </span>
+      );
+    case 'saved':
+      return (
+        <span className="flex items-center gap-1">
+          <Check className="h-3 w-3" />
+          {`${formatTime(status.at)} に自動保存しました`}
+        </span>
+      );
+    case 'conflict':
+      return (
+        <span className="flex items-center gap-1 text-destructive">
+          <AlertCircle className="h-3 w-3" />
+          競合を解決するまで自動保存しません
+        </span>
+      );
+    case 'error':
+      return (
+        <span className="flex items-center gap-1 text-destructive">
+          <AlertCircle className="h-3 w-3" />
+          {status.retryAt
+            ? `自動保存に失敗しました (${formatTime(status.retryAt)} に再試行)`
+            : '自動保存に失敗しました'}
+        </span>
+      );
+  }
+};
+
+/**
+ * Number of Markdown lint problems, with a menu to list them and to turn
+ * individual rules on or off.
+ */
+const LintIndicator: FC = () => {
+  const { view, lintProblemCount, lintSettings, updateLintSettings } =
+    useEditorStore();
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger
+        className="flex items-center gap-1 hover:text-foreground"
+        aria-label="Markdown のチェック"
+      >
+        <AlertTriangle className="h-3 w-3" />
+        {`問題 ${lintProblemCount} 件`}
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem
+          disabled={!view}
+          onSelect={() => view && openLintPanel(view)}
+        >
+          問題の一覧を表示
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>チェックする項目</DropdownMenuLabel>
+        {LINT_RULES.map((rule) => (
+          <DropdownMenuCheckboxItem
+            key={rule.id}
+            checked={lintSettings[rule.id]}
+            onSelect={(e) => e.preventDefault()} // Keep the menu open while toggling rules
+            onCheckedChange={(checked) =>
+              updateLintSettings({ ...lintSettings, [rule.id]: checked })
+            }
+          >
+            {rule.label}
+          </DropdownMenuCheckboxItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+const KEYBINDING_MODE_LABELS: Record<KeybindingMode, string> = {
+  default: '標準',
+  vim: 'Vim',
+  emacs: 'Emacs',
+};
+
+/**
+ * Keybinding mode (with Vim's current mode, e.g. "Vim: INSERT") and a menu to switch it.
+ */
+const KeybindingIndicator: FC = () => {
+  const { keybindingMode, keybindingStatus, setKeybindingMode } =
+    useEditorStore();
+  const openShortcutSettings = useUIStore(
+    (state) => state.openShortcutSettings
+  );
+  const label = KEYBINDING_MODE_LABELS[keybindingMode];
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger
+        className="flex items-center gap-1 hover:text-foreground"
+        aria-label="キー操作"
+      >
+        <Keyboard className="h-3 w-3" />
+        {keybindingStatus ? `${label}: ${keybindingStatus}` : label}
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>キー操作</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={keybindingMode}
+          onValueChange={(mode) => setKeybindingMode(mode as KeybindingMode)}
+        >
+          {(Object.keys(KEYBINDING_MODE_LABELS) as KeybindingMode[]).map(
+            (mode) => (
+              <DropdownMenuRadioItem key={mode} value={mode}>
+                {KEYBINDING_MODE_LABELS[mode]}
+              </DropdownMenuRadioItem>
+            )
+          )}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={openShortcutSettings}>
+          ショートカットの設定…
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
 
 export const EditorStatusBar: FC = () => {
   // Get word and character counts from the editor store
-  const { wordCount, charCount } = useEditorStore();
+  const { wordCount, charCount, autosaveStatus } = useEditorStore();
 
   return (
     // Use Shadcn UI theme variables for colors and borders
@@ -15,13 +175,21 @@ export const EditorStatusBar: FC = () => {
     >
       {' '}
       {/* Fixed height */}
+      {/* Autosave status on the left */}
+      <div className="mr-auto">
+        <AutosaveIndicator status={autosaveStatus} />
+      </div>
+      <KeybindingIndicator />
+      <span className="mx-2">|</span>
+      <LintIndicator />
+      <span className="mx-2">|</span>
       {/* Display word count */}
       <span>{wordCount} 単語</span>
       {/* Separator */}
       <span className="mx-2">|</span>
       {/* Display character count */}
       <span>{charCount} 文字</span>
-      {/* Placeholder for other potential status indicators (e.g., autosave status, cursor position) */}
+      {/* Placeholder for other potential status indicators (e.g., cursor position) */}
     </div>
   );
 };
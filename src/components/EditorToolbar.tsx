@@ -2,12 +2,33 @@ import { useCallback, useState, useEffect } from 'react';
 import type { FC } from 'react';
 import { useEditorStore } from '@/store/editorStore';
 import { useUIStore } from '@/store/uiStore';
+import { useDraftStore } from '@/store/draftStore';
 // import { useAIStore } from '@/store/aiStore'; // Not directly needed here anymore
 import { EditorTab, Draft } from '@/types/editor';
 import { Button } from '@/components/ui/button';
 import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
-import { FilePlus, FolderOpen, Save, Trash2, Search } from 'lucide-react'; // Added Search
-import { storageService } from '@/lib/storageService';
+import {
+  FilePlus,
+  FileDown,
+  FileUp,
+  FolderOpen,
+  Save,
+  Trash,
+  Trash2,
+  Search,
+  FileSearch,
+  History,
+  ChevronDown,
+  Pencil,
+  Copy,
+  Timer,
+  Table,
+} from 'lucide-react';
+import { storageService, getCopyFileName } from '@/lib/storageService';
+import { WorkspaceMenu } from '@/components/WorkspaceMenu';
+import { DraftNameDialog } from '@/components/DraftNameDialog';
+import { TableSizePicker, TableOperationItems } from '@/components/TableMenu';
+import { isInTable } from '@/lib/cmCommands';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -27,30 +48,56 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
-import { toast } from 'sonner'; // Import toast for notifications
 
 export const EditorToolbar: FC = () => {
   // --- Zustand Store Hooks ---
   // Get state and actions from stores
   const {
     isSaved,
+    currentDraftId,
+    currentFileName,
     createNewFile: createAction,
     saveCurrentDraft: saveAction,
     loadDraft: loadAction,
+    fileHandle,
+    openFile,
+    saveToFile,
+    saveAsCopy,
+    view,
+    insertTable,
   } = useEditorStore();
-  const { activeTab, setActiveTab, openSearchReplaceDialog } = useUIStore(); // Added openSearchReplaceDialog
+  const {
+    activeTab,
+    setActiveTab,
+    openSearchReplaceDialog,
+    openGlobalSearchDialog,
+    openHistoryDialog,
+    openTrashDialog,
+    openAutosaveSettings,
+  } = useUIStore();
+  const trashDraft = useDraftStore((state) => state.trashDraft);
+  const renameDraft = useDraftStore((state) => state.renameDraft);
 
   // --- Local State ---
   // State to hold the list of drafts for the "Open" dropdown
   const [drafts, setDrafts] = useState<Draft[]>([]);
   // State to hold the draft selected for deletion confirmation
   const [draftToDelete, setDraftToDelete] = useState<Draft | null>(null);
+  // Name prompt currently shown: rename the open draft or save it as a copy
+  const [nameDialog, setNameDialog] = useState<'rename' | 'copy' | null>(null);
+  // Table menu is controlled so picking a size can close it
+  const [isTableMenuOpen, setTableMenuOpen] = useState(false);
+  // Whether the cursor was in a table when the table menu opened
+  const [isCursorInTable, setCursorInTable] = useState(false);
 
   // --- Action Wrappers (using useCallback for stability) ---
   const handleCreateNewFile = useCallback(() => createAction(), [createAction]);
   const handleSave = useCallback(() => {
-    saveAction().catch((err) => console.error('Manual save failed', err)); // Handle potential async errors
-  }, [saveAction]);
+    // Drafts linked to a file on disk are written back to that file
+    (fileHandle ? saveToFile() : saveAction()).catch((err) =>
+      console.error('Manual save failed', err)
+    ); // Handle potential async errors
+  }, [fileHandle, saveAction, saveToFile]);
   const handleLoadDraft = useCallback(
     (id: string) => loadAction(id),
     [loadAction]
@@ -58,30 +105,28 @@ export const EditorToolbar: FC = () => {
 
   // --- Draft List Management ---
   // Fetch drafts from storage when the "Open" menu is about to open
-  const fetchDrafts = useCallback(() => {
-    setDrafts(storageService.getAllDrafts());
+  const fetchDrafts = useCallback(async () => {
+    setDrafts(await storageService.getAllDrafts());
   }, []);
 
-  // Handle deletion of a draft after confirmation
-  const handleDeleteDraft = useCallback(() => {
+  // Move a draft to the trash after confirmation
+  const handleDeleteDraft = useCallback(async () => {
     if (draftToDelete) {
-      const success = storageService.deleteDraft(draftToDelete.id);
-      if (success) {
-        toast.success(
-          `下書き "${draftToDelete.fileName || draftToDelete.id}" を削除しました`
-        );
+      if (await trashDraft(draftToDelete.id)) {
         setDraftToDelete(null); // Clear deletion target
-        fetchDrafts(); // Refresh the draft list
-        // Check if the currently loaded draft was deleted
-        if (storageService.getCurrentDraftId() === null) {
-          // Optional: Automatically create a new file if the current one was deleted
-          // handleCreateNewFile();
-        }
-      } else {
-        toast.error('下書きの削除に失敗しました');
+        await fetchDrafts(); // Refresh the draft list
       }
     }
-  }, [draftToDelete, fetchDrafts /* handleCreateNewFile */]); // Include create if used
+  }, [draftToDelete, fetchDrafts, trashDraft]);
+
+  // Submit the name prompt for the open draft
+  const handleNameSubmit = useCallback(
+    (name: string) =>
+      nameDialog === 'rename' && currentDraftId
+        ? renameDraft(currentDraftId, name)
+        : saveAsCopy(name),
+    [nameDialog, currentDraftId, renameDraft, saveAsCopy]
+  );
 
   // --- View Mode Toggle Handler ---
   const handleTabChange = (value: string) => {
@@ -117,6 +162,10 @@ export const EditorToolbar: FC = () => {
           <DropdownMenuContent align="start" className="w-64">
             {' '}
             {/* Adjust width */}
+            <DropdownMenuItem onSelect={() => openFile()}>
+              <FileUp className="h-4 w-4 mr-2" /> ファイルを開く…
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
             <DropdownMenuLabel>最近の下書き</DropdownMenuLabel>
             <DropdownMenuSeparator />
             {drafts.length === 0 && (
@@ -168,7 +217,7 @@ export const EditorToolbar: FC = () => {
                       <AlertDialogTitle>下書きの削除</AlertDialogTitle>
                       <AlertDialogDescription>
                         「{draft.fileName || draft.id}
-                        」を削除しますか？この操作は元に戻せません。
+                        」をゴミ箱に移動しますか？ゴミ箱から復元できます。
                       </AlertDialogDescription>
                     </AlertDialogHeader>
                     <AlertDialogFooter>
@@ -178,13 +227,17 @@ export const EditorToolbar: FC = () => {
                         onClick={handleDeleteDraft}
                         className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
                       >
-                        削除
+                        ゴミ箱に移動
                       </AlertDialogAction>
                     </AlertDialogFooter>
                   </AlertDialogContent>
                 </AlertDialog>
               </DropdownMenuItem>
             ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onSelect={openTrashDialog}>
+              <Trash className="h-4 w-4 mr-2" /> ゴミ箱
+            </DropdownMenuItem>
           </DropdownMenuContent>
         </DropdownMenu>
 
@@ -199,10 +252,107 @@ export const EditorToolbar: FC = () => {
           )}
         </Button>
 
+        {/* More Save Actions (rename / save as copy) */}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="px-1"
+              aria-label="その他の保存操作"
+            >
+              <ChevronDown className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            <DropdownMenuItem
+              onSelect={() => setNameDialog('rename')}
+              disabled={!currentDraftId}
+            >
+              <Pencil className="h-4 w-4 mr-2" /> 名前を変更…
+            </DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => setNameDialog('copy')}>
+              <Copy className="h-4 w-4 mr-2" /> コピーとして保存…
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onSelect={openAutosaveSettings}>
+              <Timer className="h-4 w-4 mr-2" /> 自動保存の設定…
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <DraftNameDialog
+          open={!!nameDialog}
+          onOpenChange={(open) => !open && setNameDialog(null)}
+          title={nameDialog === 'rename' ? '名前の変更' : 'コピーとして保存'}
+          description={
+            nameDialog === 'copy'
+              ? '現在の内容を新しい下書きとして保存し、コピーを開きます。元の下書きは最後に保存した状態のまま残ります。'
+              : undefined
+          }
+          initialName={
+            nameDialog === 'copy'
+              ? getCopyFileName(currentFileName || null)
+              : currentFileName
+          }
+          submitLabel={nameDialog === 'rename' ? '変更' : '保存'}
+          onSubmit={handleNameSubmit}
+        />
+
+        {/* Save to File Button (writes back to the linked file if there is one) */}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => saveToFile(true)}
+          title="名前を付けてファイルに保存 (Cmd/Ctrl+Shift+S)"
+        >
+          <FileDown className="h-4 w-4 mr-1" /> ファイルに保存…
+        </Button>
+
+        {/* Table Menu (insert a table, edit the one at the cursor) */}
+        <DropdownMenu
+          open={isTableMenuOpen}
+          onOpenChange={(open: boolean) => {
+            if (open) setCursorInTable(view ? isInTable(view.state) : false);
+            setTableMenuOpen(open);
+          }}
+        >
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm">
+              <Table className="h-4 w-4 mr-1" /> 表
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="w-56">
+            <DropdownMenuLabel>表を挿入</DropdownMenuLabel>
+            <TableSizePicker
+              onSelect={(rows, columns) => {
+                setTableMenuOpen(false);
+                insertTable(rows, columns);
+              }}
+            />
+            <DropdownMenuSeparator />
+            <TableOperationItems disabled={!isCursorInTable} />
+          </DropdownMenuContent>
+        </DropdownMenu>
+
         {/* Search and Replace Button - NEW */}
         <Button variant="ghost" size="sm" onClick={openSearchReplaceDialog}>
           <Search className="h-4 w-4 mr-1" /> 検索
         </Button>
+
+        {/* Search All Drafts Button */}
+        <Button variant="ghost" size="sm" onClick={openGlobalSearchDialog}>
+          <FileSearch className="h-4 w-4 mr-1" /> 全体検索
+        </Button>
+
+        {/* Version History Button */}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={openHistoryDialog}
+          disabled={!currentDraftId}
+        >
+          <History className="h-4 w-4 mr-1" /> 履歴
+        </Button>
       </div>
       {/* Center Section: View Mode Toggle */}
       <ToggleGroup
@@ -226,9 +376,10 @@ export const EditorToolbar: FC = () => {
           プレビュー
         </ToggleGroupItem>
       </ToggleGroup>
-      {/* Right Section: Placeholder */}
-      <div className="w-[100px]"></div>{' '}
-      {/* Adjust width as needed for balance */}
+      {/* Right Section: Workspace Actions */}
+      <div className="flex justify-end">
+        <WorkspaceMenu />
+      </div>
     </div>
   );
 };
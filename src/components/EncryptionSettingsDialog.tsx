@@ -0,0 +1,223 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { FC } from 'react';
+import { useUIStore } from '@/store/uiStore';
+import { draftCrypto } from '@/lib/draftCrypto';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+
+type EncryptionAction = 'enable' | 'change' | 'disable';
+
+// Empty passphrase fields
+const EMPTY_FIELDS = { current: '', next: '', confirm: '' };
+
+/**
+ * Dialog for turning passphrase encryption of stored drafts on, changing
+ * the passphrase, or turning encryption off again.
+ */
+export const EncryptionSettingsDialog: FC = () => {
+  // --- Zustand Store Hooks ---
+  const { isEncryptionSettingsOpen, closeEncryptionSettings } = useUIStore();
+
+  // --- Local State ---
+  const [isEnabled, setIsEnabled] = useState<boolean | null>(null); // null while loading
+  const [action, setAction] = useState<EncryptionAction>('enable');
+  const [fields, setFields] = useState(EMPTY_FIELDS);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  // Read the current state and reset the form whenever the dialog opens
+  useEffect(() => {
+    if (!isEncryptionSettingsOpen) return;
+    setFields(EMPTY_FIELDS);
+    setError(null);
+    setIsEnabled(null);
+    draftCrypto.isEnabled().then((enabled) => {
+      setIsEnabled(enabled);
+      setAction(enabled ? 'change' : 'enable');
+    });
+  }, [isEncryptionSettingsOpen]);
+
+  const needsNewPassphrase = action !== 'disable';
+  const needsCurrentPassphrase = action !== 'enable';
+  const canSubmit =
+    !isWorking &&
+    isEnabled !== null &&
+    (!needsCurrentPassphrase || !!fields.current) &&
+    (!needsNewPassphrase || !!fields.next);
+
+  // --- Event Handlers ---
+  const setField = (name: keyof typeof EMPTY_FIELDS, value: string) => {
+    setFields((prev) => ({ ...prev, [name]: value }));
+    setError(null);
+  };
+
+  const handleSubmit = useCallback(async () => {
+    if (needsNewPassphrase && fields.next !== fields.confirm) {
+      setError('確認用のパスフレーズが一致しません');
+      return;
+    }
+    setIsWorking(true);
+    let success: boolean;
+    switch (action) {
+      case 'enable':
+        success = await draftCrypto.enable(fields.next);
+        break;
+      case 'change':
+        success = await draftCrypto.changePassphrase(
+          fields.current,
+          fields.next
+        );
+        break;
+      case 'disable':
+        success = await draftCrypto.disable(fields.current);
+        break;
+    }
+    setIsWorking(false);
+
+    if (!success) {
+      setError(
+        action === 'enable'
+          ? '暗号化を有効にできませんでした'
+          : 'パスフレーズが正しくないか、下書きを書き換えられませんでした'
+      );
+      return;
+    }
+    toast.success(
+      action === 'enable'
+        ? '下書きを暗号化しました'
+        : action === 'change'
+          ? 'パスフレーズを変更しました'
+          : '暗号化を解除しました'
+    );
+    closeEncryptionSettings();
+  }, [action, fields, needsNewPassphrase, closeEncryptionSettings]);
+
+  // --- Render ---
+  return (
+    <Dialog
+      open={isEncryptionSettingsOpen}
+      onOpenChange={(open) => !open && closeEncryptionSettings()}
+    >
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle>下書きの暗号化</DialogTitle>
+          <DialogDescription>
+            {isEnabled
+              ? '下書き・変更履歴・画像はパスフレーズで暗号化されています。'
+              : '下書きと変更履歴の本文、貼り付けた画像をパスフレーズで暗号化して保存します。起動時にパスフレーズの入力が必要になります。'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (canSubmit) handleSubmit();
+          }}
+        >
+          {isEnabled && (
+            <ToggleGroup
+              type="single"
+              value={action}
+              onValueChange={(value) => {
+                if (!value) return;
+                setAction(value as EncryptionAction);
+                setFields(EMPTY_FIELDS);
+                setError(null);
+              }}
+              variant="outline"
+              size="sm"
+              className="justify-start"
+            >
+              <ToggleGroupItem value="change">
+                パスフレーズの変更
+              </ToggleGroupItem>
+              <ToggleGroupItem value="disable">暗号化の解除</ToggleGroupItem>
+            </ToggleGroup>
+          )}
+
+          {needsCurrentPassphrase && (
+            <div className="space-y-1.5">
+              <Label htmlFor="encryption-current">現在のパスフレーズ</Label>
+              <Input
+                id="encryption-current"
+                type="password"
+                autoComplete="current-password"
+                value={fields.current}
+                onChange={(e) => setField('current', e.target.value)}
+              />
+            </div>
+          )}
+          {needsNewPassphrase && (
+            <>
+              <div className="space-y-1.5">
+                <Label htmlFor="encryption-next">新しいパスフレーズ</Label>
+                <Input
+                  id="encryption-next"
+                  type="password"
+                  autoComplete="new-password"
+                  value={fields.next}
+                  onChange={(e) => setField('next', e.target.value)}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="encryption-confirm">
+                  新しいパスフレーズ (確認)
+                </Label>
+                <Input
+                  id="encryption-confirm"
+                  type="password"
+                  autoComplete="new-password"
+                  value={fields.confirm}
+                  onChange={(e) => setField('confirm', e.target.value)}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                パスフレーズを忘れると下書きを復元できません。
+              </p>
+            </>
+          )}
+          {error && (
+            <p role="alert" className="text-sm text-destructive">
+              {error}
+            </p>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={closeEncryptionSettings}
+            >
+              キャンセル
+            </Button>
+            <Button
+              type="submit"
+              variant={action === 'disable' ? 'destructive' : 'default'}
+              disabled={!canSubmit}
+            >
+              {isWorking
+                ? '処理しています…'
+                : action === 'enable'
+                  ? '暗号化を有効にする'
+                  : action === 'change'
+                    ? '変更'
+                    : '暗号化を解除'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,239 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { FC } from 'react';
+import { useUIStore } from '@/store/uiStore';
+import { useEditorStore } from '@/store/editorStore';
+import { searchService, MAX_SEARCH_RESULTS } from '@/lib/searchService';
+import type { DraftSearchResult } from '@/types/editor';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { FileText } from 'lucide-react';
+
+// Delay before running the search after the user stops typing
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * Dialog for searching the contents of every saved draft.
+ * Shares the search options (regex, case sensitivity, whole word) with
+ * SearchReplaceDialog. Clicking a result opens the draft and selects the match.
+ */
+export const GlobalSearchDialog: FC = () => {
+  // --- Zustand Store Hooks ---
+  const {
+    isGlobalSearchOpen,
+    closeGlobalSearchDialog,
+    searchOptions,
+    setSearchOptions,
+    activeTab,
+    setActiveTab,
+  } = useUIStore();
+  const { currentDraftId, markdown, loadDraft, selectRange } = useEditorStore();
+
+  // --- Local State ---
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<DraftSearchResult[]>([]);
+  const [isInvalid, setIsInvalid] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
+
+  // Run the search (debounced) whenever the query or options change
+  useEffect(() => {
+    if (!isGlobalSearchOpen) return;
+    if (!query) {
+      setResults([]);
+      setIsInvalid(false);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      const found = await searchService.searchDrafts(
+        query,
+        searchOptions,
+        currentDraftId ? { id: currentDraftId, content: markdown } : undefined
+      );
+      if (cancelled) return;
+      setIsInvalid(found === null);
+      setResults(found ?? []);
+      setIsSearching(false);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+    // The open draft's content is read when the search runs; re-searching on
+    // every keystroke in the editor is unnecessary.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isGlobalSearchOpen, query, searchOptions]);
+
+  // Group results by draft, keeping the service's order
+  const groups = useMemo(() => {
+    const map = new Map<string, DraftSearchResult[]>();
+    results.forEach((r) =>
+      map.set(r.draftId, [...(map.get(r.draftId) ?? []), r])
+    );
+    return [...map.values()];
+  }, [results]);
+
+  // --- Event Handlers ---
+  const handleResultClick = useCallback(
+    async (result: DraftSearchResult) => {
+      if (result.draftId !== currentDraftId) {
+        await loadDraft(result.draftId);
+        // Loading may have been cancelled (unsaved changes) or failed
+        if (useEditorStore.getState().currentDraftId !== result.draftId) return;
+      }
+      if (activeTab === 'preview') setActiveTab('split'); // The editor must be visible
+      selectRange(result.from, result.to);
+      closeGlobalSearchDialog();
+    },
+    [
+      currentDraftId,
+      loadDraft,
+      activeTab,
+      setActiveTab,
+      selectRange,
+      closeGlobalSearchDialog,
+    ]
+  );
+
+  // --- Render ---
+  if (!isGlobalSearchOpen) {
+    return null;
+  }
+
+  return (
+    <Dialog
+      open={isGlobalSearchOpen}
+      onOpenChange={(open) => !open && closeGlobalSearchDialog()}
+    >
+      <DialogContent className="sm:max-w-[640px] h-[70vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>すべての下書きを検索</DialogTitle>
+        </DialogHeader>
+
+        {/* Query and Options */}
+        <div className="space-y-2">
+          <Input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="検索する文字列"
+            aria-label="検索する文字列"
+          />
+          <div className="flex flex-wrap gap-4 text-sm">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="global-search-regex"
+                checked={searchOptions.isRegex}
+                onCheckedChange={(checked) =>
+                  setSearchOptions({ isRegex: Boolean(checked) })
+                }
+              />
+              <Label
+                htmlFor="global-search-regex"
+                className="font-normal cursor-pointer"
+              >
+                正規表現
+              </Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="global-search-case"
+                checked={searchOptions.caseSensitive}
+                onCheckedChange={(checked) =>
+                  setSearchOptions({ caseSensitive: Boolean(checked) })
+                }
+              />
+              <Label
+                htmlFor="global-search-case"
+                className="font-normal cursor-pointer"
+              >
+                大文字と小文字を区別
+              </Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="global-search-word"
+                checked={searchOptions.wholeWord}
+                onCheckedChange={(checked) =>
+                  setSearchOptions({ wholeWord: Boolean(checked) })
+                }
+              />
+              <Label
+                htmlFor="global-search-word"
+                className="font-normal cursor-pointer"
+              >
+                単語単位
+              </Label>
+            </div>
+          </div>
+        </div>
+
+        {/* Status Line */}
+        <p className="text-xs text-muted-foreground" aria-live="polite">
+          {isInvalid
+            ? '検索条件が正しくありません (正規表現を確認してください)'
+            : isSearching
+              ? '検索中…'
+              : query &&
+                `${groups.length} 件の下書きで ${results.length} 件見つかりました` +
+                  (results.length >= MAX_SEARCH_RESULTS
+                    ? ` (最初の ${MAX_SEARCH_RESULTS} 件を表示)`
+                    : '')}
+        </p>
+
+        {/* Results */}
+        <ScrollArea className="flex-grow border rounded-md">
+          <ul aria-label="検索結果" className="p-1 text-sm">
+            {groups.map((group) => (
+              <li key={group[0].draftId} className="mb-2">
+                <p className="flex items-center gap-1.5 px-2 py-1 font-medium">
+                  <FileText className="h-4 w-4 text-muted-foreground" />
+                  <span className="truncate">
+                    {group[0].fileName ||
+                      `無題 (${new Date(group[0].lastModified).toLocaleDateString()})`}
+                  </span>
+                  <span className="ml-auto text-xs text-muted-foreground">
+                    {group.length}
+                  </span>
+                </p>
+                <ul>
+                  {group.map((result) => (
+                    <li key={`${result.from}-${result.to}`}>
+                      <button
+                        type="button"
+                        onClick={() => handleResultClick(result)}
+                        className="w-full text-left rounded px-2 py-1 hover:bg-muted flex gap-3"
+                      >
+                        <span className="w-10 flex-shrink-0 text-right text-xs text-muted-foreground tabular-nums pt-0.5">
+                          {result.line}
+                        </span>
+                        <span className="font-mono text-xs whitespace-pre truncate">
+                          {result.snippet.slice(0, result.snippetMatchFrom)}
+                          <mark className="bg-yellow-200 dark:bg-yellow-700 rounded-sm">
+                            {result.snippet.slice(
+                              result.snippetMatchFrom,
+                              result.snippetMatchTo
+                            )}
+                          </mark>
+                          {result.snippet.slice(result.snippetMatchTo)}
+                        </span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,100 @@
+import { useEffect, useState } from 'react';
+import type { FC, ReactNode } from 'react';
+import { draftCrypto } from '@/lib/draftCrypto';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Lock } from 'lucide-react';
+
+interface PassphraseGateProps {
+  children: ReactNode;
+}
+
+type GateState = 'checking' | 'locked' | 'unlocked';
+
+/**
+ * Asks for the passphrase at startup when drafts are stored encrypted.
+ * The children (the editor) are mounted only once the drafts can be read,
+ * so nothing tries to load a draft while it is still locked.
+ */
+export const PassphraseGate: FC<PassphraseGateProps> = ({ children }) => {
+  // --- Local State ---
+  const [state, setState] = useState<GateState>('checking');
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    draftCrypto.isLocked().then((locked) => {
+      if (!cancelled) setState(locked ? 'locked' : 'unlocked');
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // --- Event Handlers ---
+  const handleUnlock = async () => {
+    if (!passphrase || isUnlocking) return;
+    setIsUnlocking(true);
+    const unlocked = await draftCrypto.unlock(passphrase);
+    setIsUnlocking(false);
+    if (unlocked) {
+      setPassphrase('');
+      setState('unlocked');
+    } else {
+      setError('パスフレーズが正しくありません');
+    }
+  };
+
+  // --- Render ---
+  if (state === 'unlocked') return <>{children}</>;
+  if (state === 'checking') return null;
+
+  return (
+    <div className="flex h-screen items-center justify-center bg-background text-foreground">
+      <form
+        className="w-full max-w-sm space-y-4 rounded-lg border p-6 shadow-sm"
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleUnlock();
+        }}
+      >
+        <div className="flex items-center gap-2">
+          <Lock className="h-5 w-5" />
+          <h1 className="text-lg font-semibold">下書きのロックを解除</h1>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          下書きはパスフレーズで暗号化されています。パスフレーズを入力してください。
+        </p>
+        <div className="space-y-2">
+          <Label htmlFor="unlock-passphrase">パスフレーズ</Label>
+          <Input
+            id="unlock-passphrase"
+            type="password"
+            autoFocus
+            autoComplete="current-password"
+            value={passphrase}
+            onChange={(e) => {
+              setPassphrase(e.target.value);
+              setError(null);
+            }}
+          />
+          {error && (
+            <p role="alert" className="text-sm text-destructive">
+              {error}
+            </p>
+          )}
+        </div>
+        <Button
+          type="submit"
+          className="w-full"
+          disabled={!passphrase || isUnlocking}
+        >
+          {isUnlocking ? '解除しています…' : 'ロックを解除'}
+        </Button>
+      </form>
+    </div>
+  );
+};
@@ -9,6 +9,7 @@ import {
 import type { UIEvent } from 'react';
 import { useEditorStore } from '@/store/editorStore';
 import { parseMarkdown } from '@/lib/markdownParser'; // Re-import parseMarkdown
+import { imageStore } from '@/lib/imageStore';
 import type { ScrollInfo, HeadingItem } from '@/types/editor'; // Keep ScrollInfo and HeadingItem
 // Remove direct imports of marked, DOMPurify, hljs
 // import { marked } from 'marked';
@@ -70,6 +71,20 @@ export const PreviewPane = forwardRef<PreviewPaneRef, PreviewPaneProps>(
       }
     }, [markdown, setHeadings]); // Dependencies
 
+    // --- Effect for Stored Images ---
+    // Point images pasted or dropped into the editor ("local-image:" references) at their object URLs
+    useEffect(() => {
+      const images =
+        previewContainerRef.current?.querySelectorAll<HTMLImageElement>(
+          'img[data-local-image]'
+        ) ?? [];
+      images.forEach((img) => {
+        void imageStore.getObjectUrl(img.dataset.localImage!).then((url) => {
+          if (url) img.src = url;
+        });
+      });
+    }, [html]);
+
     // Remove the useEffect for programmatic scrolling based on scrollRef/scrollToPercent
     // useEffect(() => { ... }, [scrollRef]);
 
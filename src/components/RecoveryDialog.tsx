@@ -0,0 +1,83 @@
+import { useCallback, useState } from 'react';
+import type { FC } from 'react';
+import { useEditorStore } from '@/store/editorStore';
+import { getDiffHtml } from '@/lib/diffUtils';
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+
+/**
+ * Dialog shown at startup for each document whose unsaved text was left in
+ * the crash-recovery journal. Shows the diff against the saved draft and
+ * lets the user restore the text as unsaved changes or discard it.
+ */
+export const RecoveryDialog: FC = () => {
+  // --- Zustand Store Hooks ---
+  const { recoveryCandidates, recoverUnsavedChanges, discardRecovery } =
+    useEditorStore();
+
+  // --- Local State ---
+  const [isBusy, setIsBusy] = useState(false);
+
+  // Entries are offered one at a time, newest first
+  const candidate = recoveryCandidates?.[0] ?? null;
+
+  // --- Event Handlers ---
+  const handleRecover = useCallback(async () => {
+    if (!candidate) return;
+    setIsBusy(true);
+    await recoverUnsavedChanges(candidate);
+    setIsBusy(false);
+  }, [candidate, recoverUnsavedChanges]);
+
+  const handleDiscard = useCallback(async () => {
+    if (!candidate) return;
+    setIsBusy(true);
+    await discardRecovery(candidate);
+    setIsBusy(false);
+  }, [candidate, discardRecovery]);
+
+  // --- Render ---
+  if (!candidate) return null;
+  const { entry, savedContent } = candidate;
+
+  return (
+    // Only the buttons close the dialog, so the choice is never skipped by accident
+    <AlertDialog open>
+      <AlertDialogContent className="sm:max-w-[80vw] w-auto max-h-[80vh] flex flex-col">
+        <AlertDialogHeader>
+          <AlertDialogTitle>未保存の変更を復元しますか？</AlertDialogTitle>
+          <AlertDialogDescription>
+            {`「${entry.fileName || '無題のドキュメント'}」に保存されていない変更が残っています (${new Date(entry.updatedAt).toLocaleString()})。`}
+            {savedContent === null
+              ? ' 保存された下書きはありません。'
+              : ' 保存された内容との差分を表示しています。'}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {/* Diff of the saved content against the recovered text */}
+        <div
+          className="flex-grow overflow-auto border rounded-md font-mono text-sm leading-relaxed whitespace-pre-wrap"
+          dangerouslySetInnerHTML={{
+            __html: getDiffHtml(savedContent ?? '', entry.content),
+          }}
+        />
+
+        <AlertDialogFooter>
+          <Button variant="ghost" onClick={handleDiscard} disabled={isBusy}>
+            破棄
+          </Button>
+          <Button onClick={handleRecover} disabled={isBusy}>
+            復元
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
@@ -168,19 +168,19 @@ export const SearchReplaceDialog: FC = () => {
               Case Sensitive
             </Label>
           </div>
-          {/* Optional: Whole Word (if implemented in cmCommands)
           <div className="flex items-center space-x-2 col-start-2 col-span-3">
             <Checkbox
               id="whole-word"
-              checked={searchOptions.wholeWord} // Assuming wholeWord is added to store's searchOptions
-              onCheckedChange={(checked: boolean) => setSearchOptions({ wholeWord: Boolean(checked) })}
+              checked={searchOptions.wholeWord}
+              onCheckedChange={(checked: boolean) =>
+                setSearchOptions({ wholeWord: Boolean(checked) })
+              }
               aria-label="Whole word"
             />
             <Label htmlFor="whole-word" className="font-normal cursor-pointer">
               Whole Word
             </Label>
           </div>
-          */}
           {message && (
             <div className="col-span-4 text-sm text-muted-foreground p-1 text-center">
               {message}
@@ -0,0 +1,230 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { FC, KeyboardEvent as ReactKeyboardEvent } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { useUIStore } from '@/store/uiStore';
+import { useEditorStore } from '@/store/editorStore';
+import type { ShortcutId, ShortcutOverrides } from '@/types/editor';
+import {
+  SHORTCUTS,
+  findShortcutConflict,
+  formatKey,
+  keyFromEvent,
+  resolveShortcutKeys,
+} from '@/lib/shortcuts';
+import type { ShortcutScope } from '@/lib/shortcuts';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+
+// Headings of the groups in the list
+const SCOPE_LABELS: Record<ShortcutScope, string> = {
+  global: '全体',
+  editor: 'エディタ',
+};
+
+/**
+ * Dialog for rebinding the keyboard shortcuts in the shortcut registry.
+ * A key is recorded by clicking an action and pressing the new key; keys
+ * already used by another action or a built-in editor command are refused.
+ */
+export const ShortcutSettingsDialog: FC = () => {
+  // --- Zustand Store Hooks ---
+  const { isShortcutSettingsOpen, closeShortcutSettings } = useUIStore();
+  const { shortcutOverrides, updateShortcutOverrides } = useEditorStore();
+
+  // --- Local State ---
+  const [overrides, setOverrides] = useState<ShortcutOverrides>({});
+  const [recordingId, setRecordingId] = useState<ShortcutId | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Fill the list with the current shortcuts whenever the dialog opens
+  useEffect(() => {
+    if (!isShortcutSettingsOpen) return;
+    setOverrides(shortcutOverrides);
+    setRecordingId(null);
+    setError(null);
+  }, [isShortcutSettingsOpen, shortcutOverrides]);
+
+  const keys = resolveShortcutKeys(overrides);
+
+  // --- Event Handlers ---
+  const startRecording = (id: ShortcutId) => {
+    setRecordingId(recordingId === id ? null : id);
+    setError(null);
+  };
+
+  // Records the key pressed for the action being rebound
+  const handleRecordKey = (
+    event: ReactKeyboardEvent<HTMLButtonElement>,
+    id: ShortcutId
+  ) => {
+    if (recordingId !== id) return;
+    // Keep the key from reaching the global shortcuts and the dialog
+    event.preventDefault();
+    event.stopPropagation();
+    if (event.key === 'Escape') {
+      setRecordingId(null);
+      return;
+    }
+    if (['Shift', 'Control', 'Alt', 'Meta', 'OS'].includes(event.key)) {
+      return; // Wait for the rest of the combination
+    }
+    const key = keyFromEvent(event.nativeEvent);
+    if (!key) {
+      setError(
+        'Ctrl / ⌘ または Alt と組み合わせたキーを押してください (F1〜F12 は単独でも使えます)'
+      );
+      return;
+    }
+    const conflict = findShortcutConflict(keys, id, key);
+    if (conflict) {
+      setError(`${formatKey(key)} は「${conflict}」で使われています`);
+      return;
+    }
+    const defaultKey = SHORTCUTS.find((s) => s.id === id)!.defaultKey;
+    const next = { ...overrides };
+    if (key === defaultKey) delete next[id];
+    else next[id] = key;
+    setOverrides(next);
+    setRecordingId(null);
+    setError(null);
+  };
+
+  // Puts an action back on its default key, unless another action has taken it meanwhile
+  const resetShortcut = (id: ShortcutId) => {
+    const next = { ...overrides };
+    delete next[id];
+    const conflict = findShortcutConflict(
+      resolveShortcutKeys(next),
+      id,
+      SHORTCUTS.find((s) => s.id === id)!.defaultKey
+    );
+    if (conflict) {
+      setError(`既定のキーは「${conflict}」で使われています`);
+      return;
+    }
+    setOverrides(next);
+    setError(null);
+  };
+
+  const handleSubmit = useCallback(async () => {
+    setIsSaving(true);
+    const success = await updateShortcutOverrides(overrides);
+    setIsSaving(false);
+    if (success) closeShortcutSettings();
+  }, [overrides, updateShortcutOverrides, closeShortcutSettings]);
+
+  // --- Render ---
+  return (
+    <Dialog
+      open={isShortcutSettingsOpen}
+      onOpenChange={(open) => !open && closeShortcutSettings()}
+    >
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>ショートカットの設定</DialogTitle>
+          <DialogDescription>
+            変更する操作をクリックして、新しいキーを押してください。Esc
+            で取り消します。
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="h-[50vh] border rounded-md">
+          {(Object.keys(SCOPE_LABELS) as ShortcutScope[]).map((scope) => (
+            <section key={scope} className="p-2">
+              <h3 className="px-2 py-1 text-xs font-medium text-muted-foreground">
+                {SCOPE_LABELS[scope]}
+              </h3>
+              <ul>
+                {SHORTCUTS.filter((s) => s.scope === scope).map((shortcut) => (
+                  <li
+                    key={shortcut.id}
+                    className="flex items-center gap-2 px-2 py-1 text-sm"
+                  >
+                    <span className="flex-grow min-w-0 truncate">
+                      {shortcut.label}
+                    </span>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      className={cn(
+                        'min-w-[7rem] font-mono',
+                        recordingId === shortcut.id &&
+                          'ring-2 ring-ring text-muted-foreground'
+                      )}
+                      aria-label={`${shortcut.label} のキーを変更`}
+                      onClick={() => startRecording(shortcut.id)}
+                      onKeyDown={(e) => handleRecordKey(e, shortcut.id)}
+                      onBlur={() =>
+                        recordingId === shortcut.id && setRecordingId(null)
+                      }
+                    >
+                      {recordingId === shortcut.id
+                        ? 'キーを入力…'
+                        : formatKey(keys[shortcut.id])}
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className={cn(
+                        'h-7 w-7 flex-shrink-0',
+                        !overrides[shortcut.id] && 'invisible'
+                      )}
+                      aria-label="既定に戻す"
+                      title={`既定に戻す (${formatKey(shortcut.defaultKey)})`}
+                      onClick={() => resetShortcut(shortcut.id)}
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ))}
+        </ScrollArea>
+        {error && (
+          <p role="alert" className="text-sm text-destructive">
+            {error}
+          </p>
+        )}
+
+        <DialogFooter className="sm:justify-between">
+          <Button
+            type="button"
+            variant="outline"
+            disabled={Object.keys(overrides).length === 0}
+            onClick={() => {
+              setOverrides({});
+              setError(null);
+            }}
+          >
+            すべて既定に戻す
+          </Button>
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={closeShortcutSettings}
+            >
+              キャンセル
+            </Button>
+            <Button type="button" disabled={isSaving} onClick={handleSubmit}>
+              保存
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,459 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { FC } from 'react';
+import { useUIStore } from '@/store/uiStore';
+import { useEditorStore } from '@/store/editorStore';
+import { useDraftStore } from '@/store/draftStore';
+import { storageService } from '@/lib/storageService';
+import { historyService } from '@/lib/historyService';
+import { workspaceService } from '@/lib/workspaceService';
+import { storageMigrations } from '@/lib/storageMigrations';
+import { downloadBlob } from '@/lib/downloadFile';
+import type {
+  DraftStorageSize,
+  QuarantinedEntry,
+  StorageUsage,
+} from '@/types/editor';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+
+// Number of drafts highlighted as cleanup suggestions
+const SUGGESTION_COUNT = 3;
+
+type SortOrder = 'largest' | 'oldest';
+
+/**
+ * Formats a byte count for display (e.g. 1536 -> "1.5 KB").
+ * @param bytes - The byte count.
+ */
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+};
+
+const totalBytes = (d: DraftStorageSize) => d.contentBytes + d.historyBytes;
+
+/**
+ * Dialog showing how much storage the drafts use and helping to free space:
+ * the largest or oldest drafts are suggested for export or deletion, and
+ * when opened after a failed save the save can be retried from here.
+ */
+export const StorageManagerDialog: FC = () => {
+  // --- Zustand Store Hooks ---
+  const { isStorageManagerOpen, storageRetryPending, closeStorageManager } =
+    useUIStore();
+  const { currentDraftId, saveCurrentDraft } = useEditorStore();
+  const refreshDrafts = useDraftStore((state) => state.refreshDrafts);
+
+  // --- Local State ---
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [quarantined, setQuarantined] = useState<QuarantinedEntry[]>([]);
+  const [sortOrder, setSortOrder] = useState<SortOrder>('largest');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const fetchUsage = useCallback(async () => {
+    const [nextUsage, entries] = await Promise.all([
+      storageService.getStorageUsage(),
+      storageMigrations.getQuarantinedEntries(),
+    ]);
+    setUsage(nextUsage);
+    setQuarantined(entries);
+  }, []);
+
+  // Measure usage whenever the dialog opens
+  useEffect(() => {
+    if (isStorageManagerOpen) {
+      fetchUsage();
+    } else {
+      setSelectedIds(new Set());
+    }
+  }, [isStorageManagerOpen, fetchUsage]);
+
+  // Drafts in the chosen order (usage.drafts is already sorted largest first)
+  const sortedDrafts = useMemo(() => {
+    const drafts = [...(usage?.drafts ?? [])];
+    if (sortOrder === 'oldest') {
+      drafts.sort(
+        (a, b) =>
+          new Date(a.lastModified).getTime() -
+          new Date(b.lastModified).getTime()
+      );
+    }
+    return drafts;
+  }, [usage, sortOrder]);
+
+  // The first few drafts in that order, except the open one, are suggested for cleanup
+  const suggestedIds = useMemo(
+    () =>
+      new Set(
+        sortedDrafts
+          .filter((d) => d.id !== currentDraftId)
+          .slice(0, SUGGESTION_COUNT)
+          .map((d) => d.id)
+      ),
+    [sortedDrafts, currentDraftId]
+  );
+
+  const draftsBytes = (usage?.drafts ?? []).reduce(
+    (sum, d) => sum + totalBytes(d),
+    0
+  );
+  const selected = sortedDrafts.filter((d) => selectedIds.has(d.id));
+
+  // --- Event Handlers ---
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const handleExportSelected = useCallback(async () => {
+    const blob = await workspaceService.exportWorkspace([...selectedIds]);
+    if (!blob) {
+      toast.error('下書きのエクスポートに失敗しました');
+      return;
+    }
+    const date = new Date().toISOString().slice(0, 10);
+    downloadBlob(blob, `drafts-${date}.zip`);
+    toast.success(`${selectedIds.size} 件の下書きをエクスポートしました`);
+  }, [selectedIds]);
+
+  const handleDeleteHistory = useCallback(async () => {
+    setIsBusy(true);
+    const results = await Promise.all(
+      [...selectedIds].map((id) => historyService.deleteSnapshots(id))
+    );
+    setIsBusy(false);
+    if (results.includes(false)) {
+      toast.error('一部の履歴を削除できませんでした');
+    } else {
+      toast.success('選択した下書きの履歴を削除しました');
+    }
+    await fetchUsage();
+  }, [selectedIds, fetchUsage]);
+
+  const handleDeleteSelected = useCallback(async () => {
+    setIsConfirmingDelete(false);
+    setIsBusy(true);
+    const results = await Promise.all(
+      [...selectedIds]
+        .filter((id) => id !== currentDraftId)
+        .map((id) => storageService.permanentlyDeleteDraft(id))
+    );
+    setIsBusy(false);
+    const deleted = results.filter(Boolean).length;
+    if (deleted < results.length) {
+      toast.error('一部の下書きを削除できませんでした');
+    } else {
+      toast.success(`${deleted} 件の下書きを削除しました`);
+    }
+    setSelectedIds(new Set());
+    await Promise.all([fetchUsage(), refreshDrafts()]);
+  }, [selectedIds, currentDraftId, fetchUsage, refreshDrafts]);
+
+  const handleDownloadQuarantine = useCallback(() => {
+    const blob = new Blob([JSON.stringify(quarantined, null, 2)], {
+      type: 'application/json',
+    });
+    const date = new Date().toISOString().slice(0, 10);
+    downloadBlob(blob, `quarantine-${date}.json`);
+  }, [quarantined]);
+
+  const handleClearQuarantine = useCallback(async () => {
+    if (await storageMigrations.clearQuarantine()) {
+      setQuarantined([]);
+      toast.success('読み込めなかったデータを破棄しました');
+    } else {
+      toast.error('データを破棄できませんでした');
+    }
+  }, []);
+
+  const handleRetrySave = useCallback(async () => {
+    setIsBusy(true);
+    const saved = await saveCurrentDraft();
+    setIsBusy(false);
+    if (saved) {
+      closeStorageManager();
+    } else {
+      await fetchUsage();
+    }
+  }, [saveCurrentDraft, closeStorageManager, fetchUsage]);
+
+  // --- Render ---
+  const usagePercent =
+    usage?.usage != null && usage.quota
+      ? Math.min(100, (usage.usage / usage.quota) * 100)
+      : null;
+
+  return (
+    <>
+      <Dialog
+        open={isStorageManagerOpen}
+        onOpenChange={(open) => !open && closeStorageManager()}
+      >
+        <DialogContent className="sm:max-w-[600px] h-[80vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle>ストレージの管理</DialogTitle>
+            <DialogDescription>
+              {storageRetryPending
+                ? '保存容量が不足しています。不要な下書きをエクスポートまたは削除してから保存を再試行してください。'
+                : '下書きと変更履歴が使用している容量を確認できます。'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {/* Usage Meter */}
+          <div className="space-y-1 text-sm">
+            {usagePercent !== null ? (
+              <>
+                <div
+                  className="h-2 w-full rounded bg-muted overflow-hidden"
+                  role="meter"
+                  aria-label="ストレージ使用量"
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  aria-valuenow={Math.round(usagePercent)}
+                >
+                  <div
+                    className={cn(
+                      'h-full bg-primary',
+                      usagePercent >= 90 && 'bg-destructive'
+                    )}
+                    style={{ width: `${usagePercent}%` }}
+                  />
+                </div>
+                <p className="text-muted-foreground">
+                  {formatBytes(usage!.usage!)} / {formatBytes(usage!.quota!)}{' '}
+                  使用中 ({usagePercent.toFixed(1)}%)
+                </p>
+              </>
+            ) : (
+              <p className="text-muted-foreground">
+                ブラウザ全体の使用量は取得できませんでした
+              </p>
+            )}
+            <p className="text-muted-foreground">
+              下書き {usage?.drafts.length ?? 0} 件: {formatBytes(draftsBytes)}
+            </p>
+            {/* Entries set aside by the storage migrations */}
+            {quarantined.length > 0 && (
+              <div className="flex items-center justify-between gap-2 rounded border border-destructive/50 px-2 py-1">
+                <p className="text-muted-foreground">
+                  読み込めなかったデータ {quarantined.length}{' '}
+                  件が隔離されています
+                </p>
+                <div className="flex flex-shrink-0 gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleDownloadQuarantine}
+                  >
+                    ダウンロード
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleClearQuarantine}
+                  >
+                    破棄
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between gap-2">
+            <ToggleGroup
+              type="single"
+              value={sortOrder}
+              onValueChange={(value) =>
+                value && setSortOrder(value as SortOrder)
+              }
+              variant="outline"
+              size="sm"
+            >
+              <ToggleGroupItem value="largest">大きい順</ToggleGroupItem>
+              <ToggleGroupItem value="oldest">古い順</ToggleGroupItem>
+            </ToggleGroup>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setSelectedIds(new Set(suggestedIds))}
+              disabled={suggestedIds.size === 0}
+            >
+              おすすめを選択
+            </Button>
+          </div>
+
+          {/* Draft List */}
+          <ScrollArea className="flex-grow border rounded-md">
+            {sortedDrafts.length === 0 && (
+              <p className="p-4 text-sm text-muted-foreground">
+                保存された下書きはありません
+              </p>
+            )}
+            <ul className="p-1" aria-label="下書きの容量">
+              {sortedDrafts.map((draft) => {
+                const isOpen = draft.id === currentDraftId;
+                return (
+                  <li
+                    key={draft.id}
+                    className="flex items-center gap-2 rounded px-2 py-1.5 text-sm hover:bg-muted"
+                  >
+                    <Checkbox
+                      id={`storage-${draft.id}`}
+                      checked={selectedIds.has(draft.id)}
+                      onCheckedChange={(checked) =>
+                        toggleSelected(draft.id, Boolean(checked))
+                      }
+                    />
+                    <label
+                      htmlFor={`storage-${draft.id}`}
+                      className="min-w-0 flex-grow cursor-pointer"
+                    >
+                      <span className="flex items-center gap-1">
+                        <span className="truncate">
+                          {draft.fileName || draft.id}
+                        </span>
+                        {isOpen && (
+                          <span className="flex-shrink-0 rounded bg-muted px-1 text-xs text-muted-foreground">
+                            編集中
+                          </span>
+                        )}
+                        {draft.deletedAt && (
+                          <span className="flex-shrink-0 rounded bg-muted px-1 text-xs text-muted-foreground">
+                            ゴミ箱
+                          </span>
+                        )}
+                        {suggestedIds.has(draft.id) && (
+                          <span className="flex-shrink-0 rounded bg-primary/10 px-1 text-xs text-primary">
+                            おすすめ
+                          </span>
+                        )}
+                      </span>
+                      <span className="block text-xs text-muted-foreground">
+                        {new Date(draft.lastModified).toLocaleString()}
+                      </span>
+                    </label>
+                    <span className="flex-shrink-0 text-right text-xs text-muted-foreground">
+                      <span className="block">
+                        {formatBytes(totalBytes(draft))}
+                      </span>
+                      <span className="block">
+                        履歴 {formatBytes(draft.historyBytes)}
+                      </span>
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          </ScrollArea>
+
+          <DialogFooter className="pt-2">
+            <div className="flex justify-between w-full items-center gap-2">
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleExportSelected}
+                  disabled={selected.length === 0 || isBusy}
+                >
+                  エクスポート
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleDeleteHistory}
+                  disabled={!selected.some((d) => d.historyBytes > 0) || isBusy}
+                >
+                  履歴を削除
+                </Button>
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={() => setIsConfirmingDelete(true)}
+                  disabled={
+                    !selected.some((d) => d.id !== currentDraftId) || isBusy
+                  }
+                >
+                  完全に削除
+                </Button>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="ghost" size="sm" onClick={closeStorageManager}>
+                  閉じる
+                </Button>
+                {storageRetryPending && (
+                  <Button size="sm" onClick={handleRetrySave} disabled={isBusy}>
+                    保存を再試行
+                  </Button>
+                )}
+              </div>
+            </div>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog
+        open={isConfirmingDelete}
+        onOpenChange={(open) => !open && setIsConfirmingDelete(false)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>下書きを完全に削除しますか？</AlertDialogTitle>
+            <AlertDialogDescription>
+              選択した下書き{' '}
+              {selected.filter((d) => d.id !== currentDraftId).length}{' '}
+              件とその変更履歴を完全に削除します
+              (ゴミ箱には移動しません)。必要な場合は先にエクスポートしてください。
+              {selected.some((d) => d.id === currentDraftId) &&
+                ' 編集中の下書きは削除されません。'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>キャンセル</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDeleteSelected}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              削除
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
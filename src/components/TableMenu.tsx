@@ -0,0 +1,167 @@
+import { useState } from 'react';
+import type { FC } from 'react';
+import { useEditorStore } from '@/store/editorStore';
+import {
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuShortcut,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlignCenter,
+  AlignLeft,
+  AlignRight,
+  ArrowLeft,
+  ArrowRight,
+  BetweenHorizontalStart,
+  BetweenVerticalStart,
+  Trash2,
+  Wand2,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatKey, resolveShortcutKeys } from '@/lib/shortcuts';
+
+// Largest table the size picker offers
+const MAX_PICKER_COLUMNS = 8;
+const MAX_PICKER_ROWS = 8;
+
+interface TableSizePickerProps {
+  onSelect: (rows: number, columns: number) => void; // Called with the number of body rows and columns
+}
+
+/**
+ * Grid for choosing the size of a new table: hovering highlights the
+ * columns × rows to insert and clicking inserts it.
+ */
+export const TableSizePicker: FC<TableSizePickerProps> = ({ onSelect }) => {
+  const [size, setSize] = useState({ rows: 2, columns: 3 });
+
+  return (
+    <div className="p-2">
+      <div
+        className="grid gap-0.5"
+        style={{
+          gridTemplateColumns: `repeat(${MAX_PICKER_COLUMNS}, 1rem)`,
+        }}
+        role="grid"
+        aria-label="表のサイズ"
+      >
+        {Array.from(
+          { length: MAX_PICKER_ROWS * MAX_PICKER_COLUMNS },
+          (_, i) => {
+            const rows = Math.floor(i / MAX_PICKER_COLUMNS) + 1;
+            const columns = (i % MAX_PICKER_COLUMNS) + 1;
+            const isInside = rows <= size.rows && columns <= size.columns;
+            return (
+              <button
+                key={i}
+                type="button"
+                className={cn(
+                  'h-4 w-4 rounded-sm border',
+                  isInside ? 'border-primary bg-primary/30' : 'bg-muted/40'
+                )}
+                onMouseEnter={() => setSize({ rows, columns })}
+                onFocus={() => setSize({ rows, columns })}
+                onClick={() => onSelect(rows, columns)}
+                aria-label={`${columns}列 × ${rows}行`}
+              />
+            );
+          }
+        )}
+      </div>
+      <p className="mt-1.5 text-center text-xs text-muted-foreground">
+        {`${size.columns}列 × ${size.rows}行 (見出し行を除く)`}
+      </p>
+    </div>
+  );
+};
+
+interface TableOperationItemsProps {
+  disabled: boolean; // The cursor is not in a table
+  onAction?: () => void; // Called after an operation runs (e.g. to close a menu)
+}
+
+/**
+ * Menu items for editing the table at the cursor: rows, columns,
+ * column alignment and reformatting.
+ */
+export const TableOperationItems: FC<TableOperationItemsProps> = ({
+  disabled,
+  onAction,
+}) => {
+  const {
+    addTableRow,
+    deleteTableRow,
+    addTableColumn,
+    deleteTableColumn,
+    moveTableColumn,
+    setTableAlignment,
+    formatTable,
+    shortcutOverrides,
+  } = useEditorStore();
+
+  const run = (action: () => void) => () => {
+    action();
+    onAction?.();
+  };
+
+  return (
+    <>
+      <DropdownMenuItem disabled={disabled} onSelect={run(addTableRow)}>
+        <BetweenHorizontalStart className="mr-2 h-4 w-4" /> 行を下に追加
+      </DropdownMenuItem>
+      <DropdownMenuItem disabled={disabled} onSelect={run(deleteTableRow)}>
+        <Trash2 className="mr-2 h-4 w-4" /> 行を削除
+      </DropdownMenuItem>
+      <DropdownMenuItem disabled={disabled} onSelect={run(addTableColumn)}>
+        <BetweenVerticalStart className="mr-2 h-4 w-4" /> 列を右に追加
+      </DropdownMenuItem>
+      <DropdownMenuItem disabled={disabled} onSelect={run(deleteTableColumn)}>
+        <Trash2 className="mr-2 h-4 w-4" /> 列を削除
+      </DropdownMenuItem>
+      <DropdownMenuItem
+        disabled={disabled}
+        onSelect={run(() => moveTableColumn(-1))}
+      >
+        <ArrowLeft className="mr-2 h-4 w-4" /> 列を左へ移動
+      </DropdownMenuItem>
+      <DropdownMenuItem
+        disabled={disabled}
+        onSelect={run(() => moveTableColumn(1))}
+      >
+        <ArrowRight className="mr-2 h-4 w-4" /> 列を右へ移動
+      </DropdownMenuItem>
+      <DropdownMenuSeparator />
+      <DropdownMenuItem
+        disabled={disabled}
+        onSelect={run(() => setTableAlignment('left'))}
+      >
+        <AlignLeft className="mr-2 h-4 w-4" /> 左揃え
+      </DropdownMenuItem>
+      <DropdownMenuItem
+        disabled={disabled}
+        onSelect={run(() => setTableAlignment('center'))}
+      >
+        <AlignCenter className="mr-2 h-4 w-4" /> 中央揃え
+      </DropdownMenuItem>
+      <DropdownMenuItem
+        disabled={disabled}
+        onSelect={run(() => setTableAlignment('right'))}
+      >
+        <AlignRight className="mr-2 h-4 w-4" /> 右揃え
+      </DropdownMenuItem>
+      <DropdownMenuItem
+        disabled={disabled}
+        onSelect={run(() => setTableAlignment(null))}
+      >
+        <span className="mr-2 w-4" /> 揃えを解除
+      </DropdownMenuItem>
+      <DropdownMenuSeparator />
+      <DropdownMenuItem disabled={disabled} onSelect={run(formatTable)}>
+        <Wand2 className="mr-2 h-4 w-4" /> 表を整形
+        <DropdownMenuShortcut>
+          {formatKey(resolveShortcutKeys(shortcutOverrides).formatTable)}
+        </DropdownMenuShortcut>
+      </DropdownMenuItem>
+    </>
+  );
+};
@@ -0,0 +1,213 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { FC } from 'react';
+import { useUIStore } from '@/store/uiStore';
+import { useDraftStore } from '@/store/draftStore';
+import type { Draft } from '@/types/editor';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { RotateCcw, Trash2 } from 'lucide-react';
+
+// Retention periods offered in the dialog (0 = keep until deleted manually)
+const RETENTION_OPTIONS = [7, 30, 90, 0];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Dialog listing drafts in the trash. Drafts can be restored or deleted
+ * permanently, and the period after which they are purged automatically
+ * can be changed.
+ */
+export const TrashDialog: FC = () => {
+  // --- Zustand Store Hooks ---
+  const { isTrashOpen, closeTrashDialog } = useUIStore();
+  const {
+    trashedDrafts,
+    trashRetentionDays,
+    refreshDrafts,
+    restoreDraft,
+    deleteDraftPermanently,
+    emptyTrash,
+    purgeExpiredTrash,
+    setTrashRetentionDays,
+  } = useDraftStore();
+
+  // --- Local State ---
+  // Draft awaiting confirmation of permanent deletion ('all' = empty the trash)
+  const [pendingDelete, setPendingDelete] = useState<Draft | 'all' | null>(
+    null
+  );
+
+  // Purge expired drafts and reload the list whenever the dialog opens
+  useEffect(() => {
+    if (isTrashOpen) {
+      purgeExpiredTrash().then(refreshDrafts);
+    }
+  }, [isTrashOpen, purgeExpiredTrash, refreshDrafts]);
+
+  // --- Event Handlers ---
+  const handleConfirmDelete = useCallback(async () => {
+    if (pendingDelete === 'all') {
+      await emptyTrash();
+    } else if (pendingDelete) {
+      await deleteDraftPermanently(pendingDelete.id);
+    }
+    setPendingDelete(null);
+  }, [pendingDelete, emptyTrash, deleteDraftPermanently]);
+
+  // Remaining days until a trashed draft is purged, or null if never
+  const daysLeft = (draft: Draft): number | null => {
+    if (trashRetentionDays <= 0) return null;
+    const purgeAt =
+      new Date(draft.deletedAt!).getTime() + trashRetentionDays * DAY_MS;
+    return Math.max(0, Math.ceil((purgeAt - Date.now()) / DAY_MS));
+  };
+
+  // --- Render ---
+  return (
+    <>
+      <Dialog
+        open={isTrashOpen}
+        onOpenChange={(open) => !open && closeTrashDialog()}
+      >
+        <DialogContent className="sm:max-w-[560px] h-[70vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle>ゴミ箱</DialogTitle>
+            <DialogDescription>
+              削除した下書きは保持期間が過ぎると自動的に完全削除されます。
+            </DialogDescription>
+          </DialogHeader>
+
+          {/* Retention Setting */}
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-muted-foreground">保持期間</span>
+            <ToggleGroup
+              type="single"
+              value={String(trashRetentionDays)}
+              onValueChange={(value) =>
+                value && setTrashRetentionDays(Number(value))
+              }
+              variant="outline"
+              size="sm"
+            >
+              {RETENTION_OPTIONS.map((days) => (
+                <ToggleGroupItem key={days} value={String(days)}>
+                  {days > 0 ? `${days}日` : '無期限'}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+
+          {/* Trashed Draft List */}
+          <ScrollArea className="flex-grow border rounded-md">
+            {trashedDrafts.length === 0 && (
+              <p className="p-4 text-sm text-muted-foreground">
+                ゴミ箱は空です
+              </p>
+            )}
+            <ul className="p-1" aria-label="ゴミ箱の下書き">
+              {trashedDrafts.map((draft) => {
+                const remaining = daysLeft(draft);
+                return (
+                  <li
+                    key={draft.id}
+                    className="flex items-center gap-2 rounded px-2 py-1.5 text-sm hover:bg-muted"
+                  >
+                    <span className="min-w-0 flex-grow">
+                      <span className="block truncate">
+                        {draft.fileName || draft.id}
+                      </span>
+                      <span className="block text-xs text-muted-foreground">
+                        {new Date(draft.deletedAt!).toLocaleString()} に削除
+                        {remaining !== null &&
+                          ` ・ あと ${remaining} 日で完全削除`}
+                      </span>
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 flex-shrink-0"
+                      aria-label="復元"
+                      title="復元"
+                      onClick={() => restoreDraft(draft.id)}
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 flex-shrink-0"
+                      aria-label="完全に削除"
+                      title="完全に削除"
+                      onClick={() => setPendingDelete(draft)}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </li>
+                );
+              })}
+            </ul>
+          </ScrollArea>
+
+          <DialogFooter className="pt-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPendingDelete('all')}
+              disabled={trashedDrafts.length === 0}
+            >
+              ゴミ箱を空にする
+            </Button>
+            <Button variant="ghost" size="sm" onClick={closeTrashDialog}>
+              閉じる
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Permanent Deletion Confirmation */}
+      <AlertDialog
+        open={!!pendingDelete}
+        onOpenChange={(open) => !open && setPendingDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>完全に削除しますか？</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDelete === 'all'
+                ? `ゴミ箱内の ${trashedDrafts.length} 件の下書きを`
+                : `「${pendingDelete?.fileName || pendingDelete?.id}」を`}
+              変更履歴とともに完全に削除します。この操作は元に戻せません。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>キャンセル</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              完全に削除
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
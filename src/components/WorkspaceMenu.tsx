@@ -0,0 +1,215 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { FC } from 'react';
+import { useEditorStore } from '@/store/editorStore';
+import { useDraftStore } from '@/store/draftStore';
+import { useUIStore } from '@/store/uiStore';
+import { workspaceService } from '@/lib/workspaceService';
+import type { WorkspaceArchive } from '@/lib/workspaceService';
+import { downloadBlob } from '@/lib/downloadFile';
+import type { Draft, ImportConflictStrategy } from '@/types/editor';
+import { Button } from '@/components/ui/button';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Archive, Download, HardDrive, Lock, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+
+/**
+ * Toolbar menu for exporting the whole workspace as a zip archive and
+ * importing such an archive back, with a dialog for resolving ID collisions.
+ */
+export const WorkspaceMenu: FC = () => {
+  // --- Zustand Store Hooks ---
+  const { currentDraftId, isSaved, loadDraft } = useEditorStore();
+  const refreshDrafts = useDraftStore((state) => state.refreshDrafts);
+  const openStorageManager = useUIStore((state) => state.openStorageManager);
+  const openEncryptionSettings = useUIStore(
+    (state) => state.openEncryptionSettings
+  );
+
+  // --- Local State ---
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [archive, setArchive] = useState<WorkspaceArchive | null>(null);
+  const [conflicts, setConflicts] = useState<Draft[]>([]);
+  const [strategy, setStrategy] = useState<ImportConflictStrategy>('skip');
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Look up ID collisions whenever a new archive has been read
+  useEffect(() => {
+    if (!archive) return;
+    setStrategy('skip');
+    workspaceService.findConflicts(archive).then(setConflicts);
+  }, [archive]);
+
+  // --- Event Handlers ---
+  const handleExport = useCallback(async () => {
+    const blob = await workspaceService.exportWorkspace();
+    if (!blob) {
+      toast.error('ワークスペースのエクスポートに失敗しました');
+      return;
+    }
+    const date = new Date().toISOString().slice(0, 10);
+    downloadBlob(blob, `workspace-${date}.zip`);
+    toast.success('ワークスペースをエクスポートしました');
+  }, []);
+
+  const handleFileSelected = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = ''; // Allow selecting the same file again
+      if (!file) return;
+      const data = new Uint8Array(await file.arrayBuffer());
+      const parsed = workspaceService.readArchive(data);
+      if (!parsed) {
+        toast.error('ワークスペースファイルを読み込めませんでした');
+        return;
+      }
+      setConflicts([]);
+      setArchive(parsed);
+    },
+    []
+  );
+
+  const handleImport = useCallback(async () => {
+    if (!archive) return;
+    setIsImporting(true);
+    const summary = await workspaceService.importArchive(archive, strategy);
+    setIsImporting(false);
+    if (!summary) {
+      toast.error('ワークスペースのインポートに失敗しました');
+      return;
+    }
+    setArchive(null);
+    await refreshDrafts();
+    toast.success(
+      `インポート完了: 追加 ${summary.added} 件、上書き ${summary.overwritten} 件、` +
+        `コピー ${summary.copied} 件、スキップ ${summary.skipped} 件`
+    );
+    // Show the imported content if the open draft was replaced
+    if (
+      strategy === 'overwrite' &&
+      isSaved &&
+      conflicts.some((d) => d.id === currentDraftId)
+    ) {
+      await loadDraft(currentDraftId!);
+    }
+  }, [
+    archive,
+    strategy,
+    conflicts,
+    currentDraftId,
+    isSaved,
+    loadDraft,
+    refreshDrafts,
+  ]);
+
+  // --- Render ---
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm">
+            <Archive className="h-4 w-4 mr-1" /> ワークスペース
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onSelect={handleExport}>
+            <Download className="h-4 w-4 mr-2" /> ワークスペースをエクスポート
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => fileInputRef.current?.click()}>
+            <Upload className="h-4 w-4 mr-2" /> ワークスペースをインポート
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => openStorageManager()}>
+            <HardDrive className="h-4 w-4 mr-2" /> ストレージの管理
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={openEncryptionSettings}>
+            <Lock className="h-4 w-4 mr-2" /> 下書きの暗号化…
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      {/* Hidden file picker for the import archive */}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".zip,application/zip"
+        className="hidden"
+        aria-label="ワークスペースファイルを選択"
+        onChange={handleFileSelected}
+      />
+
+      {/* Import Confirmation */}
+      <Dialog
+        open={!!archive}
+        onOpenChange={(open) => !open && setArchive(null)}
+      >
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>ワークスペースのインポート</DialogTitle>
+            <DialogDescription>
+              {archive &&
+                `${new Date(archive.exportedAt).toLocaleString()} にエクスポートされた ` +
+                  `${archive.drafts.length} 件の下書きを読み込みます。`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {conflicts.length > 0 ? (
+            <div className="space-y-3 text-sm">
+              <p>
+                {conflicts.length}{' '}
+                件の下書きは同じIDのものが既に存在します。どう処理しますか？
+              </p>
+              <ul className="max-h-32 overflow-y-auto rounded border px-3 py-2 text-muted-foreground">
+                {conflicts.map((d) => (
+                  <li key={d.id} className="truncate">
+                    {d.fileName || d.id}
+                  </li>
+                ))}
+              </ul>
+              <ToggleGroup
+                type="single"
+                value={strategy}
+                onValueChange={(value) =>
+                  value && setStrategy(value as ImportConflictStrategy)
+                }
+                variant="outline"
+                size="sm"
+                className="justify-start"
+              >
+                <ToggleGroupItem value="skip">スキップ</ToggleGroupItem>
+                <ToggleGroupItem value="overwrite">上書き</ToggleGroupItem>
+                <ToggleGroupItem value="keepBoth">両方残す</ToggleGroupItem>
+              </ToggleGroup>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              既存の下書きとの重複はありません。
+            </p>
+          )}
+
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setArchive(null)}>
+              キャンセル
+            </Button>
+            <Button onClick={handleImport} disabled={isImporting}>
+              インポート
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
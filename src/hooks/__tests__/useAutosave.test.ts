@@ -168,4 +168,179 @@ describe('useAutosave Hook', () => {
     // Add assertions here if the hook had internal loading state, etc.
     // For now, just ensures the async function can be awaited.
   });
+
+  it('should report the status of each step', async () => {
+    const { result, rerender } = renderHook(
+      ({ value, isSaved }) =>
+        useAutosave(value, mockOnSave, { isSaved, delay: 500 }),
+      { initialProps: { value: 'val1', isSaved: true } }
+    );
+    expect(result.current).toEqual({ state: 'idle' });
+
+    rerender({ value: 'val2', isSaved: false });
+    expect(result.current).toEqual({ state: 'pending' });
+
+    await act(async () => {
+      vi.advanceTimersByTime(500);
+    });
+    expect(result.current.state).toBe('saved');
+  });
+
+  it('should retry a failed save with increasing delays', async () => {
+    mockOnSave
+      .mockRejectedValueOnce(new Error('quota'))
+      .mockRejectedValueOnce(new Error('quota'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { result, rerender } = renderHook(
+      ({ value, isSaved }) =>
+        useAutosave(value, mockOnSave, { isSaved, delay: 500 }),
+      { initialProps: { value: 'val1', isSaved: true } }
+    );
+
+    rerender({ value: 'val2', isSaved: false });
+    await act(async () => {
+      vi.advanceTimersByTime(500);
+    });
+    expect(result.current).toMatchObject({ state: 'error', attempt: 1 });
+
+    // 1回目の再試行は2秒後
+    await act(async () => {
+      vi.advanceTimersByTime(2000);
+    });
+    expect(mockOnSave).toHaveBeenCalledTimes(2);
+    expect(result.current).toMatchObject({ state: 'error', attempt: 2 });
+
+    // 2回目の再試行は4秒後
+    await act(async () => {
+      vi.advanceTimersByTime(3999);
+    });
+    expect(mockOnSave).toHaveBeenCalledTimes(2);
+    await act(async () => {
+      vi.advanceTimersByTime(1);
+    });
+    expect(mockOnSave).toHaveBeenCalledTimes(3);
+    expect(mockOnSave).toHaveBeenLastCalledWith('val2');
+    expect(result.current.state).toBe('saved');
+  });
+
+  it('should hold the value back without retrying while in conflict', async () => {
+    mockOnSave.mockResolvedValueOnce('conflict');
+    const { result, rerender } = renderHook(
+      ({ value, isSaved, blocked }) =>
+        useAutosave(value, mockOnSave, { isSaved, delay: 500, blocked }),
+      { initialProps: { value: 'val1', isSaved: true, blocked: false } }
+    );
+
+    rerender({ value: 'val2', isSaved: false, blocked: true });
+    await act(async () => {
+      vi.advanceTimersByTime(500);
+    });
+    expect(result.current).toEqual({ state: 'conflict' });
+
+    // 競合は失敗ではないので再試行しない
+    await act(async () => {
+      vi.advanceTimersByTime(60000);
+    });
+    expect(mockOnSave).toHaveBeenCalledTimes(1);
+
+    // 競合が解決されたら保留していた値を保存する
+    await act(async () => {
+      rerender({ value: 'val2', isSaved: false, blocked: false });
+    });
+    expect(mockOnSave).toHaveBeenCalledTimes(2);
+    expect(mockOnSave).toHaveBeenLastCalledWith('val2');
+    expect(result.current.state).toBe('saved');
+  });
+
+  it('should save the previous document right away when the key changes', () => {
+    const { rerender } = renderHook(
+      ({ value, isSaved, key }) =>
+        useAutosave(value, mockOnSave, { isSaved, delay: 500, key }),
+      { initialProps: { value: 'doc A', isSaved: true, key: 'a' } }
+    );
+
+    rerender({ value: 'doc A edited', isSaved: false, key: 'a' });
+    rerender({ value: 'doc B', isSaved: true, key: 'b' });
+
+    expect(mockOnSave).toHaveBeenCalledTimes(1);
+    expect(mockOnSave).toHaveBeenCalledWith('doc A edited');
+  });
+
+  it('should save the pending value when the page is hidden', () => {
+    const { rerender } = renderHook(
+      ({ value, isSaved }) =>
+        useAutosave(value, mockOnSave, { isSaved, delay: 500 }),
+      { initialProps: { value: 'val1', isSaved: true } }
+    );
+    rerender({ value: 'val2', isSaved: false });
+
+    vi.spyOn(document, 'visibilityState', 'get').mockReturnValue('hidden');
+    document.dispatchEvent(new Event('visibilitychange'));
+
+    expect(mockOnSave).toHaveBeenCalledWith('val2');
+    vi.advanceTimersByTime(600);
+    expect(mockOnSave).toHaveBeenCalledTimes(1); // The debounced save was replaced
+  });
+
+  it('should never save when autosave is off', () => {
+    const { result, rerender } = renderHook(
+      ({ value, isSaved }) =>
+        useAutosave(value, mockOnSave, { isSaved, mode: 'off', delay: 500 }),
+      { initialProps: { value: 'val1', isSaved: true } }
+    );
+
+    rerender({ value: 'val2', isSaved: false });
+    vi.advanceTimersByTime(600);
+    document.dispatchEvent(new Event('visibilitychange'));
+
+    expect(mockOnSave).not.toHaveBeenCalled();
+    expect(result.current).toEqual({ state: 'idle' });
+  });
+
+  it('should save pending changes at a fixed interval', () => {
+    const { rerender } = renderHook(
+      ({ value, isSaved }) =>
+        useAutosave(value, mockOnSave, {
+          isSaved,
+          mode: 'interval',
+          interval: 1000,
+        }),
+      { initialProps: { value: 'val1', isSaved: true } }
+    );
+
+    vi.advanceTimersByTime(1000);
+    expect(mockOnSave).not.toHaveBeenCalled(); // 未保存の変更がなければ保存しない
+
+    rerender({ value: 'val2', isSaved: false });
+    vi.advanceTimersByTime(999);
+    expect(mockOnSave).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+    expect(mockOnSave).toHaveBeenCalledWith('val2');
+  });
+
+  it('should save when focus leaves the target in blur mode', () => {
+    const target = document.createElement('div');
+    const input = document.createElement('input');
+    target.appendChild(input);
+    document.body.appendChild(target);
+    const { rerender } = renderHook(
+      ({ value, isSaved }) =>
+        useAutosave(value, mockOnSave, {
+          isSaved,
+          mode: 'blur',
+          blurTarget: { current: target },
+        }),
+      { initialProps: { value: 'val1', isSaved: true } }
+    );
+
+    rerender({ value: 'val2', isSaved: false });
+    vi.advanceTimersByTime(5000);
+    expect(mockOnSave).not.toHaveBeenCalled(); // 時間では保存しない
+
+    input.dispatchEvent(
+      new FocusEvent('focusout', { bubbles: true, relatedTarget: null })
+    );
+    expect(mockOnSave).toHaveBeenCalledWith('val2');
+    target.remove();
+  });
 });
@@ -1,4 +1,15 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
+import type { RefObject } from 'react';
+import type {
+  AutosaveMode,
+  AutosaveOutcome,
+  AutosaveStatus,
+} from '@/types/editor';
+
+// Retry delays after a failed autosave: doubled per attempt, up to the maximum
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 60000;
+const MAX_RETRIES = 5;
 
 /**
  * Debounce Hook: Executes a callback after a specified delay once the dependencies stop changing.
@@ -65,64 +76,212 @@ export function useDebouncedCallback<T>(
 
 /**
  * Autosave Hook: Automatically triggers a save callback when a value changes,
- * after a specified delay, but only if the `isSaved` flag is false.
+ * after a specified delay, but only if the `isSaved` flag is false. Other modes
+ * save when focus leaves `blurTarget` or at a fixed interval instead.
+ * Failed saves (the callback throws) are retried with exponential backoff, and
+ * a pending save is written right away when the page is hidden or closed, when
+ * `key` changes (e.g. another draft is shown) and on unmount. A value the
+ * callback holds back because of a conflict is not retried; it stays pending
+ * until `blocked` turns false (or newer text replaces it).
  * @template T The type of the value to autosave.
  * @param value The value to monitor for changes.
- * @param onSave The asynchronous or synchronous function to call for saving.
+ * @param onSave The asynchronous or synchronous function to call for saving. Throw to report a failure, or return an AutosaveOutcome if the value was not saved for another reason.
  * @param options Configuration options.
+ * @param options.mode When to save (default: 'idle', after `delay`). 'off' disables autosave.
  * @param options.delay Autosave delay in milliseconds (default: 3000ms).
+ * @param options.interval Time between saves in 'interval' mode (default: 60000ms).
+ * @param options.blurTarget Element whose loss of focus triggers the save in 'blur' mode.
  * @param options.isSaved Boolean flag indicating if the current value is considered saved. Autosave is skipped if true.
+ * @param options.key Identity of the document being edited. The pending save of the previous document is flushed when it changes.
+ * @param options.blocked Whether saving is held back (e.g. an unresolved conflict). A value held back by onSave is saved once this turns false.
+ * @returns The current autosave status.
  */
 export function useAutosave<T>(
   value: T,
-  onSave: (currentValue: T) => Promise<void> | void,
-  options: { delay?: number; isSaved: boolean }
-): void {
-  // This hook doesn't return anything directly, it performs a side effect
-  const { delay = 3000, isSaved } = options; // Default delay 3 seconds
-  const valueRef = useRef(value); // Ref to hold the latest value
+  onSave: (
+    currentValue: T
+  ) => Promise<AutosaveOutcome | void> | AutosaveOutcome | void,
+  options: {
+    mode?: AutosaveMode;
+    delay?: number;
+    interval?: number;
+    blurTarget?: RefObject<HTMLElement | null>;
+    isSaved: boolean;
+    key?: string | null;
+    blocked?: boolean;
+  }
+): AutosaveStatus {
+  const {
+    mode = 'idle',
+    delay = 3000, // Default delay 3 seconds
+    interval = 60000,
+    blurTarget,
+    isSaved,
+    key = null,
+    blocked = false,
+  } = options;
+  const [status, setStatus] = useState<AutosaveStatus>({ state: 'idle' });
   const onSaveRef = useRef(onSave); // Ref to hold the latest save callback
-
-  // Update refs when props change
-  useEffect(() => {
-    valueRef.current = value;
-  }, [value]);
+  const timeoutRef = useRef<NodeJS.Timeout | null>(null); // Debounce or retry timer
+  const pendingRef = useRef<{ value: T } | null>(null); // Value waiting to be saved
+  const savingRef = useRef<Promise<void> | null>(null); // Save in progress, so saves never overlap
+  const attemptRef = useRef(0); // Failed attempts in a row
+  const isInitialMount = useRef(true);
+  const previousKeyRef = useRef(key);
+  const wasBlockedRef = useRef(blocked);
 
   useEffect(() => {
     onSaveRef.current = onSave;
   }, [onSave]);
 
-  // The actual save action, wrapped for potential async handling
-  const saveAction = useCallback(async () => {
-    try {
-      // console.debug('[useAutosave] Triggering save...');
-      await onSaveRef.current(valueRef.current); // Use latest value from ref
-    } catch (error) {
-      console.error('[useAutosave] Autosave failed:', error);
-      // Consider showing an error notification to the user
-      // toast.error("自動保存に失敗しました");
+  const clearTimer = useCallback(() => {
+    if (timeoutRef.current) {
+      clearTimeout(timeoutRef.current);
+      timeoutRef.current = null;
     }
-  }, []); // No dependencies needed as it uses refs
+  }, []);
+
+  // Runs one save and schedules a retry if it fails
+  const runSave = useCallback(
+    async (target: T) => {
+      setStatus({ state: 'saving' });
+      try {
+        const outcome = await onSaveRef.current(target);
+        attemptRef.current = 0;
+        if (outcome === 'conflict') {
+          // Not a failure, so no retries: keep the value until the conflict is resolved
+          pendingRef.current ??= { value: target };
+          setStatus({ state: 'conflict' });
+          return;
+        }
+        if (outcome === 'discarded') {
+          setStatus(
+            pendingRef.current ? { state: 'pending' } : { state: 'idle' }
+          );
+          return;
+        }
+        setStatus(
+          pendingRef.current
+            ? { state: 'pending' } // Changed again while saving
+            : { state: 'saved', at: new Date() }
+        );
+      } catch (error) {
+        console.error('[useAutosave] Autosave failed:', error);
+        const attempt = ++attemptRef.current;
+        // Retry this value unless newer text is already waiting
+        pendingRef.current ??= { value: target };
+        if (attempt > MAX_RETRIES) {
+          setStatus({ state: 'error', attempt, retryAt: null }); // Wait for the next change
+          return;
+        }
+        const wait = Math.min(
+          RETRY_BASE_DELAY_MS * 2 ** (attempt - 1),
+          RETRY_MAX_DELAY_MS
+        );
+        setStatus({
+          state: 'error',
+          attempt,
+          retryAt: new Date(Date.now() + wait),
+        });
+        clearTimer();
+        timeoutRef.current = setTimeout(() => flushRef.current(), wait);
+      }
+    },
+    [clearTimer]
+  );
 
-  // Create the debounced version of the save action
-  // Skip the initial call because the initial value is likely already saved
-  const debouncedSave = useDebouncedCallback(saveAction, delay, true);
+  // Saves the pending value now (after any save still in progress)
+  const flush = useCallback(() => {
+    clearTimer();
+    const pending = pendingRef.current;
+    pendingRef.current = null;
+    if (!pending) return;
+    const run = () => runSave(pending.value);
+    const saving = savingRef.current ? savingRef.current.then(run) : run();
+    savingRef.current = saving;
+    void saving.finally(() => {
+      if (savingRef.current === saving) savingRef.current = null;
+    });
+  }, [clearTimer, runSave]);
+  const flushRef = useRef(flush); // Lets the retry timer call the latest flush
+  flushRef.current = flush;
 
-  // Effect to trigger the debounced save when value changes and isSaved is false
+  // Save what was typed in the previous document before showing another
   useEffect(() => {
-    // Only schedule autosave if the content is marked as unsaved
-    if (!isSaved) {
-      // console.debug('[useAutosave] Value changed and not saved, scheduling autosave...');
-      debouncedSave(value); // Trigger the debounce timer
+    if (previousKeyRef.current === key) return;
+    previousKeyRef.current = key;
+    attemptRef.current = 0;
+    flush();
+  }, [key, flush]);
+
+  // Schedule a save when the value changes while unsaved
+  useEffect(() => {
+    // Skip the initial mount because the initial value is likely already saved
+    if (isInitialMount.current) {
+      isInitialMount.current = false;
+      return;
+    }
+    if (isSaved || mode === 'off') {
+      // Saved by other means (e.g. a manual save) or autosave turned off
+      if (pendingRef.current) {
+        clearTimer();
+        pendingRef.current = null;
+        attemptRef.current = 0;
+        setStatus({ state: 'idle' });
+      }
+      return;
+    }
+    pendingRef.current = { value };
+    clearTimer();
+    if (mode === 'idle') {
+      timeoutRef.current = setTimeout(flush, delay);
     }
-    // Note: We don't need to cancel the timer if isSaved becomes true,
-    // because the saveAction itself might check isSaved again, or
-    // the debouncedSave won't trigger if the component unmounts or deps change.
-    // However, explicitly cancelling might be safer if the save action is expensive.
-    // return () => { (debouncedSave as any).cancel?.(); }; // Optional cancel on cleanup
-  }, [value, isSaved, debouncedSave]); // Rerun when value or isSaved changes
-
-  // This hook primarily manages the side effect of autosaving,
-  // so it doesn't need to return anything for the component to use directly.
-  // If save status (e.g., "Saving...") was needed, it could return state.
+    setStatus({ state: 'pending' });
+  }, [value, isSaved, mode, delay, clearTimer, flush]);
+
+  // Save the value held back by a conflict once it is resolved. Runs after the
+  // effect above, so text replaced by the resolution (isSaved) is dropped first.
+  useEffect(() => {
+    const wasBlocked = wasBlockedRef.current;
+    wasBlockedRef.current = blocked;
+    if (wasBlocked && !blocked) flush();
+  }, [blocked, flush]);
+
+  // 'interval' mode: save whatever is pending at a fixed pace
+  useEffect(() => {
+    if (mode !== 'interval') return;
+    const timer = setInterval(flush, interval);
+    return () => clearInterval(timer);
+  }, [mode, interval, flush]);
+
+  // 'blur' mode: save when focus moves out of the target element
+  // (listened to on the document, so a re-mounted target is still covered)
+  useEffect(() => {
+    if (mode !== 'blur') return;
+    const handleFocusOut = (event: FocusEvent) => {
+      const target = blurTarget?.current;
+      if (!target || !target.contains(event.target as Node)) return;
+      if (!target.contains(event.relatedTarget as Node | null)) flush();
+    };
+    document.addEventListener('focusout', handleFocusOut);
+    return () => document.removeEventListener('focusout', handleFocusOut);
+  }, [mode, blurTarget, flush]);
+
+  // Write the pending value right away when the page is hidden or closed
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('beforeunload', flush);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('beforeunload', flush);
+    };
+  }, [flush]);
+
+  // Don't lose the last changes when the editor unmounts
+  useEffect(() => () => flushRef.current(), []);
+
+  return status;
 }
@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useEditorStore } from '@/store/editorStore';
+import { getRecoveryId, recoveryJournal } from '@/lib/recoveryJournal';
+import type { RecoveryEntry } from '@/types/editor';
+
+// Delay after the last change before the text is written to the journal
+const RECORD_DELAY_MS = 1000;
+
+/**
+ * Recovery Journal Hook: Keeps the crash-recovery journal in step with the
+ * editor. Unsaved text (of named and untitled documents alike) is recorded
+ * shortly after each change, and the entry is deleted once the text is saved
+ * or the document is closed.
+ * @param enabled Whether to record. Keep false until the entries left by the
+ * previous session have been offered for recovery, so they are not overwritten.
+ */
+export function useRecoveryJournal(enabled: boolean): void {
+  const { markdown, currentDraftId, currentFileName, isSaved, activeTabId } =
+    useEditorStore();
+  const recoveryId = getRecoveryId(currentDraftId, activeTabId);
+
+  const timeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const pendingRef = useRef<Omit<RecoveryEntry, 'updatedAt'> | null>(null);
+  const previousIdRef = useRef(recoveryId);
+  // Journal writes run one after another, so a late write cannot revive a deleted entry
+  const queueRef = useRef<Promise<unknown>>(Promise.resolve());
+
+  const enqueue = useCallback((task: () => Promise<unknown>) => {
+    queueRef.current = queueRef.current.then(task);
+  }, []);
+
+  const flush = useCallback(() => {
+    if (timeoutRef.current) {
+      clearTimeout(timeoutRef.current);
+      timeoutRef.current = null;
+    }
+    const entry = pendingRef.current;
+    pendingRef.current = null;
+    if (entry) enqueue(() => recoveryJournal.record(entry));
+  }, [enqueue]);
+
+  const cancel = useCallback(() => {
+    if (timeoutRef.current) clearTimeout(timeoutRef.current);
+    timeoutRef.current = null;
+    pendingRef.current = null;
+  }, []);
+
+  // When another document becomes active, keep the entry of one that is still
+  // open in a tab, and forget one that is not (saved under a new ID or discarded)
+  useEffect(() => {
+    const previousId = previousIdRef.current;
+    previousIdRef.current = recoveryId;
+    if (!enabled || previousId === recoveryId) return;
+    const state = useEditorStore.getState();
+    const stillOpen = state.tabs.some(
+      (t) =>
+        getRecoveryId(
+          t.id === state.activeTabId ? state.currentDraftId : t.draftId,
+          t.id
+        ) === previousId
+    );
+    if (stillOpen) {
+      flush();
+    } else {
+      cancel();
+      enqueue(() => recoveryJournal.remove(previousId));
+    }
+  }, [enabled, recoveryId, cancel, enqueue, flush]);
+
+  // Record unsaved text after a short pause; drop the entry once it is saved
+  useEffect(() => {
+    if (!enabled) return;
+    if (isSaved) {
+      cancel();
+      enqueue(() => recoveryJournal.remove(recoveryId));
+      return;
+    }
+    pendingRef.current = {
+      id: recoveryId,
+      draftId: currentDraftId,
+      fileName: currentFileName,
+      content: markdown,
+    };
+    if (timeoutRef.current) clearTimeout(timeoutRef.current);
+    timeoutRef.current = setTimeout(flush, RECORD_DELAY_MS);
+  }, [
+    enabled,
+    markdown,
+    isSaved,
+    recoveryId,
+    currentDraftId,
+    currentFileName,
+    cancel,
+    enqueue,
+    flush,
+  ]);
+
+  // Write the pending text right away when the page is hidden or closed
+  useEffect(() => {
+    const handleHide = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    document.addEventListener('visibilitychange', handleHide);
+    window.addEventListener('pagehide', flush);
+    return () => {
+      document.removeEventListener('visibilitychange', handleHide);
+      window.removeEventListener('pagehide', flush);
+      flush(); // Keep text typed just before unmounting
+    };
+  }, [flush]);
+}
@@ -0,0 +1,257 @@
+import { describe, it, expect } from 'vitest';
+import {
+  EditorSelection,
+  EditorState,
+  Transaction,
+  TransactionSpec,
+} from '@codemirror/state';
+import type { EditorView } from '@codemirror/view';
+import { history, undo } from '@codemirror/commands';
+import {
+  addTableColumnCommand,
+  continueListCommand,
+  createMarkdownKeymap,
+  deleteTableRowCommand,
+  indentListItemCommand,
+  insertTableCommand,
+  isInTable,
+  moveSectionCommand,
+  moveTableColumnCommand,
+  orderedListRenumbering,
+  outdentListItemCommand,
+  setHeadingLevelCommand,
+  setTableAlignmentCommand,
+  shiftHeadingLevelCommand,
+  tableKeymap,
+  toggleOrderedListCommand,
+} from '../cmCommands';
+import { resolveShortcutKeys } from '../shortcuts';
+
+// コマンドが使うstateとdispatchだけを持つ、DOMなしのエディタ
+const createView = (docWithCursor: string): EditorView => {
+  const cursor = docWithCursor.indexOf('|^');
+  const view = {
+    state: EditorState.create({
+      doc: docWithCursor.replace('|^', ''),
+      selection: EditorSelection.cursor(Math.max(0, cursor)), // 「|^」の位置にカーソルを置く
+      extensions: [history(), orderedListRenumbering],
+    }),
+    dispatch(tr: Transaction | TransactionSpec) {
+      view.state = (
+        tr instanceof Transaction ? tr : view.state.update(tr)
+      ).state;
+    },
+  };
+  return view as unknown as EditorView;
+};
+
+const runKey = (v: EditorView, key: string, shift = false) => {
+  const binding = tableKeymap.find((b) => b.key === key)!;
+  return (shift ? binding.shift! : binding.run!)(v);
+};
+
+const selectedText = (v: EditorView) => {
+  const { from, to } = v.state.selection.main;
+  return v.state.sliceDoc(from, to);
+};
+
+describe('table commands', () => {
+  const TABLE = ['| a | b |', '|---|---|', '| 1 | 2 |'].join('\n');
+
+  it('should only apply inside a table', () => {
+    const v = createView(`text|^\n\n${TABLE}`);
+
+    expect(isInTable(v.state)).toBe(false);
+    expect(addTableColumnCommand(v)).toBe(false);
+    expect(runKey(v, 'Tab')).toBe(false); // 通常のTabに任せる
+  });
+
+  it('should insert a table below the current line and select the first header', () => {
+    const v = createView('intro|^');
+
+    insertTableCommand(1, 2)(v);
+
+    expect(v.state.doc.toString()).toBe(
+      [
+        'intro',
+        '',
+        '| 見出し1 | 見出し2 |',
+        '| ------- | ------- |',
+        '|         |         |',
+      ].join('\n')
+    );
+    expect(selectedText(v)).toBe('見出し1');
+  });
+
+  it('should move between cells with Tab and add a row after the last cell', () => {
+    const v = createView(TABLE.replace('| 2 |', '| 2|^ |'));
+
+    runKey(v, 'Tab');
+
+    expect(v.state.doc.toString()).toBe(
+      ['| a   | b   |', '| --- | --- |', '| 1   | 2   |', '|     |     |'].join(
+        '\n'
+      )
+    );
+    expect(v.state.doc.lineAt(v.state.selection.main.head).number).toBe(4);
+
+    runKey(v, 'Tab', true); // Shift-Tabで戻る
+    expect(selectedText(v)).toBe('2');
+  });
+
+  it('should leave the table when Enter is pressed on an empty last row', () => {
+    const v = createView(`${TABLE}\n|  |^  |`);
+
+    runKey(v, 'Enter');
+
+    expect(v.state.doc.toString()).toBe(
+      ['| a   | b   |', '| --- | --- |', '| 1   | 2   |', ''].join('\n')
+    );
+    expect(v.state.selection.main.head).toBe(v.state.doc.length);
+  });
+
+  it('should move columns, set alignment and delete rows', () => {
+    const v = createView(TABLE.replace('| 1 |', '| 1|^ |'));
+
+    moveTableColumnCommand(1)(v);
+    expect(v.state.doc.line(3).text).toBe('| 2   | 1   |');
+
+    setTableAlignmentCommand('right')(v);
+    expect(v.state.doc.line(2).text).toBe('| --- | --: |');
+
+    deleteTableRowCommand(v);
+    expect(v.state.doc.lines).toBe(2);
+    // 見出し行は削除できない
+    expect(deleteTableRowCommand(v)).toBe(false);
+  });
+});
+
+describe('list commands', () => {
+  const docOf = (v: EditorView) => v.state.doc.toString();
+
+  it('should continue bullet, ordered and task items on Enter', () => {
+    const v = createView('- [x] done|^');
+    continueListCommand(v);
+    expect(docOf(v)).toBe('- [x] done\n- [ ] ');
+
+    const w = createView('1. first|^\n2. second');
+    continueListCommand(w);
+    expect(docOf(w)).toBe('1. first\n2. \n3. second');
+    expect(w.state.selection.main.head).toBe('1. first\n2. '.length);
+  });
+
+  it('should end the list when Enter is pressed on an empty item', () => {
+    const v = createView('- a\n- |^');
+
+    continueListCommand(v);
+
+    expect(docOf(v)).toBe('- a\n');
+    expect(continueListCommand(createView('plain|^'))).toBe(false);
+  });
+
+  it('should renumber ordered lists after deletes and undo in one step', () => {
+    const v = createView('1. a\n2. b\n3. c|^');
+    v.dispatch({
+      changes: { from: 5, to: 10 }, // 「2. b\n」を削除
+      userEvent: 'delete',
+    });
+    expect(docOf(v)).toBe('1. a\n2. c');
+
+    undo(v);
+    expect(docOf(v)).toBe('1. a\n2. b\n3. c');
+  });
+
+  it('should indent items with their children and switch the bullet style', () => {
+    const v = createView('- a\n- b|^\n  - c');
+
+    indentListItemCommand(v);
+    expect(docOf(v)).toBe('- a\n  * b\n    + c');
+
+    outdentListItemCommand(v);
+    expect(docOf(v)).toBe('- a\n- b\n  * c');
+  });
+
+  it('should number a nested ordered list from 1', () => {
+    const v = createView('1. a\n2. b|^\n3. c');
+
+    indentListItemCommand(v);
+
+    expect(docOf(v)).toBe('1. a\n   1. b\n2. c');
+  });
+
+  it('should number the selected lines when toggling an ordered list', () => {
+    const v = createView('a\nb');
+    v.dispatch({ selection: EditorSelection.range(0, 3) });
+
+    toggleOrderedListCommand(v);
+    expect(docOf(v)).toBe('1. a\n2. b');
+
+    v.dispatch({ selection: EditorSelection.range(0, v.state.doc.length) });
+    toggleOrderedListCommand(v);
+    expect(docOf(v)).toBe('a\nb');
+  });
+});
+
+describe('heading commands', () => {
+  const docOf = (v: EditorView) => v.state.doc.toString();
+
+  it('should set and replace the heading level of a line', () => {
+    const v = createView('タイトル|^');
+
+    setHeadingLevelCommand(2)(v);
+    expect(docOf(v)).toBe('## タイトル');
+
+    setHeadingLevelCommand(4)(v);
+    expect(docOf(v)).toBe('#### タイトル');
+    expect(setHeadingLevelCommand(4)(v)).toBe(false); // 変更なし
+
+    setHeadingLevelCommand(0)(v);
+    expect(docOf(v)).toBe('タイトル');
+  });
+
+  it('should promote and demote headings, optionally with subsections', () => {
+    const v = createView('## A\ntext|^\n### A1\n## B');
+
+    shiftHeadingLevelCommand(-1)(v);
+    expect(docOf(v)).toBe('# A\ntext\n### A1\n## B');
+
+    // 「## B」はこの時点で「# A」の小見出しなので一緒に下がる
+    shiftHeadingLevelCommand(1, true)(v);
+    expect(docOf(v)).toBe('## A\ntext\n#### A1\n### B');
+
+    // h1より上には上げられない
+    const w = createView('# top|^');
+    expect(shiftHeadingLevelCommand(-1)(w)).toBe(false);
+  });
+
+  it('should move a section with its subsections past its sibling in one undo step', () => {
+    const doc = '# Intro\n\n## A\na\n### A1\n\n## B|^\nb\n';
+    const v = createView(doc);
+
+    moveSectionCommand(-1)(v);
+    expect(docOf(v)).toBe('# Intro\n\n## B\nb\n\n## A\na\n### A1\n');
+    expect(v.state.selection.main.head).toBe('# Intro\n\n## B'.length);
+
+    // 親の見出しより上には移動しない
+    expect(moveSectionCommand(-1)(v)).toBe(false);
+
+    undo(v);
+    expect(docOf(v)).toBe(doc.replace('|^', ''));
+  });
+});
+
+describe('markdown keymap', () => {
+  it('should bind the editor actions to the keys of the registry', () => {
+    const bindings = createMarkdownKeymap(
+      resolveShortcutKeys({ heading2: 'Mod-Alt-2' })
+    );
+    const v = createView('タイトル|^');
+
+    // 既定のキーは外れ、設定したキーで実行される
+    expect(bindings.find((b) => b.key === 'Mod-2')).toBeUndefined();
+    bindings.find((b) => b.key === 'Mod-Alt-2')!.run!(v);
+    expect(v.state.doc.toString()).toBe('## タイトル');
+    // グローバルの操作はエディタのキーマップに含めない
+    expect(bindings.find((b) => b.key === 'Mod-s')).toBeUndefined();
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CompletionContext,
+  CompletionResult,
+  CompletionSource,
+} from '@codemirror/autocomplete';
+import { EditorState } from '@codemirror/state';
+import { markdown } from '@codemirror/lang-markdown';
+import {
+  anchorCompletionSource,
+  draftLinkCompletionSource,
+  fenceLanguageCompletionSource,
+  footnoteCompletionSource,
+} from '../cmCompletions';
+
+// "|^" の位置で補完を実行する
+const complete = async (source: CompletionSource, text: string) => {
+  const pos = text.indexOf('|^');
+  const state = EditorState.create({
+    doc: text.replace('|^', ''),
+    extensions: [markdown()],
+  });
+  return (await source(
+    new CompletionContext(state, pos, false)
+  )) as CompletionResult | null;
+};
+
+const labels = (result: CompletionResult | null) =>
+  result?.options.map((o) => o.label);
+
+describe('cmCompletions', () => {
+  it('should complete heading anchors after "](#"', async () => {
+    const source = anchorCompletionSource(() => [
+      { id: '概要', text: '概要', level: 1 },
+      { id: '使い方', text: '使い方', level: 2 },
+    ]);
+
+    const result = await complete(source, '[a](#使|^');
+    expect(result?.from).toBe(5);
+    expect(labels(result)).toEqual(['概要', '使い方']);
+    expect(await complete(source, '[a](使|^')).toBeNull();
+  });
+
+  it('should complete languages after an opening fence only', async () => {
+    const result = await complete(fenceLanguageCompletionSource, '```ty|^');
+
+    expect(result?.from).toBe(3);
+    expect(labels(result)).toContain('typescript');
+    expect(labels(result)).toContain('ts'); // エイリアスも候補に含める
+    // 閉じのフェンスでは補完しない
+    expect(
+      await complete(fenceLanguageCompletionSource, '```js\ncode\n```|^')
+    ).toBeNull();
+  });
+
+  it('should complete other drafts in link targets', async () => {
+    const source = draftLinkCompletionSource(async () => [
+      'memo.md',
+      'my notes.md',
+    ]);
+
+    const result = await complete(source, 'see [x](me|^');
+    expect(result?.from).toBe(8);
+    expect(result?.options.map((o) => o.apply)).toEqual([
+      'memo.md',
+      '<my notes.md>',
+    ]);
+    expect(await complete(source, '```\n[x](|^\n```')).toBeNull();
+  });
+
+  it('should complete footnote labels defined in the document', async () => {
+    const result = await complete(
+      footnoteCompletionSource,
+      'text[^|^]\n\n[^note]: a\n[^src]: b'
+    );
+
+    expect(labels(result)).toEqual(['note', 'src']);
+    expect(result?.options[0].apply).toBe('note'); // 閉じ括弧は既にある
+    expect(
+      (await complete(footnoteCompletionSource, '[^n|^\n\n[^note]: a'))
+        ?.options[0].apply
+    ).toBe('note]');
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { buildMergedText, mergeThreeWay } from '../diffUtils';
+
+describe('mergeThreeWay', () => {
+  const base = ['# Title', '', 'one', 'two', 'three', '', 'end'].join('\n');
+
+  it('should take changes made on only one side', () => {
+    const mine = base.replace('one', 'ONE');
+    const theirs = base.replace('three', 'THREE');
+
+    const chunks = mergeThreeWay(base, mine, theirs);
+    expect(chunks.every((c) => c.type === 'resolved')).toBe(true);
+    expect(buildMergedText(chunks, [])).toBe(
+      base.replace('one', 'ONE').replace('three', 'THREE')
+    );
+  });
+
+  it('should not report a conflict when both sides made the same change', () => {
+    const edited = base.replace('two', 'TWO');
+    const chunks = mergeThreeWay(base, edited, edited);
+    expect(chunks.some((c) => c.type === 'conflict')).toBe(false);
+    expect(buildMergedText(chunks, [])).toBe(edited);
+  });
+
+  it('should report overlapping changes as a conflict', () => {
+    const mine = base.replace('two', 'mine');
+    const theirs = base.replace('two', 'theirs');
+
+    const chunks = mergeThreeWay(base, mine, theirs);
+    const conflicts = chunks.filter((c) => c.type === 'conflict');
+    expect(conflicts).toEqual([
+      { type: 'conflict', base: ['two'], mine: ['mine'], theirs: ['theirs'] },
+    ]);
+  });
+
+  it('should build the merged text from the chosen side of each conflict', () => {
+    const mine = base.replace('two', 'mine');
+    const theirs = base.replace('two', 'theirs').replace('end', 'END');
+    const chunks = mergeThreeWay(base, mine, theirs);
+
+    expect(buildMergedText(chunks, ['mine'])).toBe(
+      base.replace('two', 'mine').replace('end', 'END')
+    );
+    expect(buildMergedText(chunks, ['theirs'])).toBe(theirs);
+    expect(buildMergedText(chunks, ['both'])).toBe(
+      base.replace('two', 'mine\ntheirs').replace('end', 'END')
+    );
+  });
+
+  it('should handle insertions at the same position as a conflict', () => {
+    const mine = `${base}\nmine`;
+    const theirs = `${base}\ntheirs`;
+
+    const chunks = mergeThreeWay(base, mine, theirs);
+    expect(chunks.filter((c) => c.type === 'conflict')).toHaveLength(1);
+    expect(buildMergedText(chunks, ['both'])).toBe(`${base}\nmine\ntheirs`);
+  });
+
+  it('should keep deletions made on one side', () => {
+    const mine = base.replace('one\n', '');
+    const chunks = mergeThreeWay(base, mine, base);
+    expect(buildMergedText(chunks, [])).toBe(mine);
+  });
+});
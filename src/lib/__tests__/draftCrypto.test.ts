@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IDBFactory, IDBObjectStore } from 'fake-indexeddb';
+import { draftCrypto } from '../draftCrypto';
+import { storageService } from '../storageService';
+import { historyService } from '../historyService';
+import { imageStore } from '../imageStore';
+import {
+  closeDraftDatabase,
+  openDraftDatabase,
+  requestToPromise,
+  DRAFTS_STORE,
+  SNAPSHOTS_STORE,
+  IMAGES_STORE,
+} from '../draftDatabase';
+
+// テストごとに空のIndexedDBを用意し、鍵を破棄する
+beforeEach(async () => {
+  await closeDraftDatabase();
+  vi.stubGlobal('indexedDB', new IDBFactory());
+  draftCrypto.lock();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+// --- ヘルパー ---
+// 保存されているレコードを暗号化されたまま取得
+const readStored = async (storeName: string) => {
+  const db = await openDraftDatabase();
+  return requestToPromise<
+    { id: string; content: string; encryptedContent?: unknown }[]
+  >(db.transaction(storeName).objectStore(storeName).getAll());
+};
+
+// 保存されている画像のバイト列をテキストとして取得
+const readStoredImages = async () => {
+  const db = await openDraftDatabase();
+  const images = await requestToPromise<{ data: ArrayBuffer; iv?: string }[]>(
+    db.transaction(IMAGES_STORE).objectStore(IMAGES_STORE).getAll()
+  );
+  return images.map((image) => ({
+    text: new TextDecoder().decode(new Uint8Array(image.data)),
+    iv: image.iv,
+  }));
+};
+
+// BlobをテキストとしてFileReaderで読み込む (jsdomのBlobにはtext()がない場合がある)
+const readText = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(blob);
+  });
+
+describe('draftCrypto', () => {
+  it('should encrypt existing drafts and snapshots when enabled', async () => {
+    const id = (await storageService.saveDraft('秘密のメモ', 'secret.md'))!;
+    await historyService.recordSnapshot(id, '秘密のメモ', 'manual');
+
+    expect(await draftCrypto.enable('correct horse')).toBe(true);
+    expect(await draftCrypto.isEnabled()).toBe(true);
+
+    const [draft] = await readStored(DRAFTS_STORE);
+    const [snapshot] = await readStored(SNAPSHOTS_STORE);
+    expect(draft.content).toBe(''); // 平文は保存されない
+    expect(draft.encryptedContent).toBeDefined();
+    expect(JSON.stringify(draft)).not.toContain('秘密');
+    expect(snapshot.content).toBe('');
+    expect(snapshot.encryptedContent).toBeDefined();
+
+    // 解錠中は平文として読み書きできる
+    expect((await storageService.loadDraft(id))?.content).toBe('秘密のメモ');
+    expect((await historyService.getSnapshots(id))[0].content).toBe(
+      '秘密のメモ'
+    );
+    await storageService.saveDraft('更新', 'secret.md', id);
+    expect((await readStored(DRAFTS_STORE))[0].content).toBe('');
+    expect((await storageService.loadDraft(id))?.content).toBe('更新');
+  });
+
+  it('should require the passphrase after locking', async () => {
+    const id = (await storageService.saveDraft('Content', 'a.md'))!;
+    await draftCrypto.enable('pass');
+    draftCrypto.lock();
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await draftCrypto.isLocked()).toBe(true);
+    expect(await storageService.loadDraft(id)).toBeNull();
+    expect(await storageService.saveDraft('New')).toBeNull();
+    expect(storageService.getLastSaveError()).toBe('locked');
+
+    expect(await draftCrypto.unlock('wrong')).toBe(false);
+    expect(await draftCrypto.unlock('pass')).toBe(true);
+    expect(await draftCrypto.isLocked()).toBe(false);
+    expect((await storageService.loadDraft(id))?.content).toBe('Content');
+
+    errorSpy.mockRestore();
+  });
+
+  it('should keep content encrypted when only metadata changes while locked', async () => {
+    const id = (await storageService.saveDraft('Content', 'a.md'))!;
+    await draftCrypto.enable('pass');
+    draftCrypto.lock();
+
+    expect(await storageService.renameDraft(id, 'b.md')).toBe(true);
+
+    await draftCrypto.unlock('pass');
+    const draft = await storageService.loadDraft(id);
+    expect(draft?.fileName).toBe('b.md');
+    expect(draft?.content).toBe('Content');
+  });
+
+  it('should keep a draft saved while existing records are being encrypted', async () => {
+    const id = (await storageService.saveDraft('前の内容', 'a.md'))!;
+    const getAll = IDBObjectStore.prototype.getAll;
+    let saving: Promise<string | null> | undefined;
+    const getAllSpy = vi
+      .spyOn(IDBObjectStore.prototype, 'getAll')
+      .mockImplementation(function (
+        this: IDBObjectStore,
+        ...args: Parameters<typeof getAll>
+      ) {
+        // 全レコードの読み込みが始まった時点で保存を始める
+        saving ??= storageService.saveDraft('保存中の内容', 'a.md', id);
+        return getAll.apply(this, args);
+      });
+
+    expect(await draftCrypto.enable('pass')).toBe(true);
+    expect(await saving).toBe(id);
+    getAllSpy.mockRestore();
+
+    const [stored] = await readStored(DRAFTS_STORE);
+    expect(stored.encryptedContent).toBeDefined(); // 新しい鍵で暗号化されている
+    draftCrypto.lock();
+    expect(await draftCrypto.unlock('pass')).toBe(true);
+    expect((await storageService.loadDraft(id))?.content).toBe('保存中の内容');
+  });
+
+  it('should change the passphrase', async () => {
+    const id = (await storageService.saveDraft('Content', 'a.md'))!;
+    await draftCrypto.enable('old');
+
+    expect(await draftCrypto.changePassphrase('wrong', 'new')).toBe(false);
+    expect(await draftCrypto.changePassphrase('old', 'new')).toBe(true);
+
+    draftCrypto.lock();
+    expect(await draftCrypto.unlock('old')).toBe(false);
+    expect(await draftCrypto.unlock('new')).toBe(true);
+    expect((await storageService.loadDraft(id))?.content).toBe('Content');
+  });
+
+  it('should store everything as plain text again when disabled', async () => {
+    const id = (await storageService.saveDraft('Content', 'a.md'))!;
+    await draftCrypto.enable('pass');
+
+    expect(await draftCrypto.disable('wrong')).toBe(false);
+    expect(await draftCrypto.disable('pass')).toBe(true);
+
+    expect(await draftCrypto.isEnabled()).toBe(false);
+    const [draft] = await readStored(DRAFTS_STORE);
+    expect(draft.content).toBe('Content');
+    expect(draft.encryptedContent).toBeUndefined();
+
+    draftCrypto.lock();
+    expect(await draftCrypto.isLocked()).toBe(false); // 暗号化が無効なら入力は不要
+    expect((await storageService.loadDraft(id))?.content).toBe('Content');
+  });
+
+  it('should encrypt stored images along with the drafts', async () => {
+    const before = (await imageStore.saveImage(
+      new Blob(['secret screenshot'], { type: 'image/png' })
+    ))!;
+    await draftCrypto.enable('pass');
+
+    // 有効化前の画像も暗号化し直される
+    let stored = await readStoredImages();
+    expect(stored[0].iv).toBeDefined();
+    expect(stored[0].text).not.toContain('secret');
+    const after = (await imageStore.saveImage(
+      new Blob(['another secret'], { type: 'image/png' })
+    ))!;
+    stored = await readStoredImages();
+    expect(stored.every((image) => image.iv !== undefined)).toBe(true);
+    expect(await readText((await imageStore.getImage(after))!)).toBe(
+      'another secret'
+    );
+
+    // 施錠中は読めず、新しい画像も保存しない
+    draftCrypto.lock();
+    expect(await imageStore.getImage(before)).toBeNull();
+    expect(
+      await imageStore.saveImage(new Blob(['x'], { type: 'image/png' }))
+    ).toBeNull();
+
+    await draftCrypto.unlock('pass');
+    expect(await draftCrypto.disable('pass')).toBe(true);
+    stored = await readStoredImages();
+    expect(stored.map((image) => image.iv)).toEqual([undefined, undefined]);
+    expect(stored.map((image) => image.text).sort()).toEqual([
+      'another secret',
+      'secret screenshot',
+    ]);
+  });
+
+  it('should not enable twice or with an empty passphrase', async () => {
+    expect(await draftCrypto.enable('')).toBe(false);
+    expect(await draftCrypto.enable('pass')).toBe(true);
+    expect(await draftCrypto.enable('other')).toBe(false);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import {
+  decodeTextFile,
+  fileImportService,
+  isImportableFileName,
+} from '../fileImportService';
+import { storageService } from '../storageService';
+import { closeDraftDatabase } from '../draftDatabase';
+
+// 「あいう」のShift_JISバイト列
+const SJIS_AIU = [0x82, 0xa0, 0x82, 0xa2, 0x82, 0xa4];
+
+const bytesOf = (text: string) => new TextEncoder().encode(text);
+
+// テストごとに空のIndexedDBを用意する
+beforeEach(async () => {
+  await closeDraftDatabase();
+  vi.stubGlobal('indexedDB', new IDBFactory());
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('fileImportService', () => {
+  describe('decodeTextFile', () => {
+    it('should decode UTF-8 with and without a BOM', () => {
+      expect(decodeTextFile(bytesOf('# 見出し'))).toEqual({
+        text: '# 見出し',
+        encoding: 'UTF-8',
+      });
+      expect(
+        decodeTextFile(new Uint8Array([0xef, 0xbb, 0xbf, ...bytesOf('本文')]))
+      ).toEqual({ text: '本文', encoding: 'UTF-8 (BOM)' });
+    });
+
+    it('should fall back to Shift_JIS when the bytes are not valid UTF-8', () => {
+      expect(decodeTextFile(new Uint8Array(SJIS_AIU))).toEqual({
+        text: 'あいう',
+        encoding: 'Shift_JIS',
+      });
+    });
+
+    it('should reject binary content', () => {
+      expect(
+        decodeTextFile(new Uint8Array([0x89, 0x50, 0x00, 0x01]))
+      ).toBeNull();
+    });
+  });
+
+  it('should accept only Markdown and text file names', () => {
+    expect(isImportableFileName('note.md')).toBe(true);
+    expect(isImportableFileName('NOTE.Markdown')).toBe(true);
+    expect(isImportableFileName('memo.txt')).toBe(true);
+    expect(isImportableFileName('image.png')).toBe(false);
+  });
+
+  it('should create a draft per file and report skipped files', async () => {
+    const files = [
+      new File(['# A'], 'a.md'),
+      new File([new Uint8Array(SJIS_AIU)], 'b.txt'),
+      new File(['x'], 'c.png'),
+    ];
+
+    const { imported, skipped } = await fileImportService.importFiles(files);
+
+    expect(imported.map((d) => [d.fileName, d.content])).toEqual([
+      ['a.md', '# A'],
+      ['b.txt', 'あいう'],
+    ]);
+    expect(skipped).toEqual([{ name: 'c.png', reason: '対応していない形式' }]);
+    expect(await storageService.getAllDrafts()).toHaveLength(2);
+    // 取り込みで開いている下書きは変わらない
+    expect(await storageService.getCurrentDraftId()).toBeNull();
+  });
+
+  it('should put the drafts in the given folder', async () => {
+    const folder = (await storageService.createFolder('資料'))!;
+
+    const { imported } = await fileImportService.importFiles(
+      [new File(['text'], 'memo.txt')],
+      folder.id
+    );
+
+    expect(imported[0].folderId).toBe(folder.id);
+  });
+});
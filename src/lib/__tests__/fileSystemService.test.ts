@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { fileSystemService } from '../fileSystemService';
+import { closeDraftDatabase } from '../draftDatabase';
+import { downloadBlob } from '../downloadFile';
+
+vi.mock('../downloadFile', () => ({ downloadBlob: vi.fn() }));
+
+// 書き込み内容を記録するファイルハンドルのモック
+const createHandle = (name: string) => {
+  const written: string[] = [];
+  const handle = {
+    name,
+    createWritable: vi.fn(async () => ({
+      write: async (data: string) => {
+        written.push(data);
+      },
+      close: async () => {},
+    })),
+  } as unknown as FileSystemFileHandle;
+  return { handle, written };
+};
+
+// テストごとに空のIndexedDBを用意する
+beforeEach(async () => {
+  await closeDraftDatabase();
+  vi.stubGlobal('indexedDB', new IDBFactory());
+  vi.mocked(downloadBlob).mockClear();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('fileSystemService', () => {
+  describe('saveFile', () => {
+    it('should write into the given handle', async () => {
+      const { handle, written } = createHandle('note.md');
+
+      const result = await fileSystemService.saveFile(
+        '# Hello',
+        handle,
+        'ignored.md'
+      );
+
+      expect(result).toEqual({ name: 'note.md', handle });
+      expect(written).toEqual(['# Hello']);
+      expect(downloadBlob).not.toHaveBeenCalled();
+    });
+
+    it('should write into the file chosen in the save picker', async () => {
+      const { handle, written } = createHandle('picked.md');
+      const showSaveFilePicker = vi.fn(async () => handle);
+      vi.stubGlobal('showSaveFilePicker', showSaveFilePicker);
+
+      const result = await fileSystemService.saveFile('text', null, 'draft.md');
+
+      expect(showSaveFilePicker).toHaveBeenCalledWith(
+        expect.objectContaining({ suggestedName: 'draft.md' })
+      );
+      expect(result?.name).toBe('picked.md');
+      expect(written).toEqual(['text']);
+    });
+
+    it('should return null when the save picker is cancelled', async () => {
+      vi.stubGlobal(
+        'showSaveFilePicker',
+        vi.fn(async () => {
+          throw new DOMException('cancelled', 'AbortError');
+        })
+      );
+
+      await expect(
+        fileSystemService.saveFile('text', null, 'draft.md')
+      ).resolves.toBeNull();
+    });
+
+    it('should fall back to a download without the File System Access API', async () => {
+      const result = await fileSystemService.saveFile('text', null, 'draft.md');
+
+      expect(result).toEqual({ name: 'draft.md', handle: null });
+      expect(downloadBlob).toHaveBeenCalledWith(expect.any(Blob), 'draft.md');
+    });
+
+    it('should throw when write permission is denied', async () => {
+      const { handle } = createHandle('note.md');
+      Object.assign(handle, {
+        queryPermission: vi.fn(async () => 'prompt'),
+        requestPermission: vi.fn(async () => 'denied'),
+      });
+
+      await expect(
+        fileSystemService.saveFile('text', handle, 'note.md')
+      ).rejects.toThrow('Write permission was denied');
+      expect(handle.createWritable).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rememberHandle / getRememberedHandle', () => {
+    it('should remember the handle per draft', async () => {
+      // IndexedDBに保存できるよう、構造化複製可能なオブジェクトを使う
+      const handle = { name: 'note.md' } as unknown as FileSystemFileHandle;
+
+      await fileSystemService.rememberHandle('draft_1', handle);
+
+      expect(await fileSystemService.getRememberedHandle('draft_1')).toEqual(
+        handle
+      );
+      expect(await fileSystemService.getRememberedHandle('draft_2')).toBeNull();
+    });
+  });
+});
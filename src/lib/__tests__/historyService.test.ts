@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import {
+  historyService,
+  AUTO_SNAPSHOT_INTERVAL_MS,
+  MAX_AUTO_SNAPSHOTS,
+  MAX_MANUAL_SNAPSHOTS,
+} from '../historyService';
+import { storageService } from '../storageService';
+import { closeDraftDatabase } from '../draftDatabase';
+
+// テストごとに空のIndexedDBを用意し、時刻を固定する
+beforeEach(async () => {
+  await closeDraftDatabase();
+  vi.stubGlobal('indexedDB', new IDBFactory());
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+// 時刻を進めるヘルパー
+const advanceTime = (ms: number): void => {
+  vi.setSystemTime(new Date(Date.now() + ms));
+};
+
+describe('historyService', () => {
+  describe('recordSnapshot', () => {
+    it('should record a snapshot and return it', async () => {
+      const snapshot = await historyService.recordSnapshot(
+        'draft_1',
+        'v1',
+        'auto'
+      );
+
+      expect(snapshot).not.toBeNull();
+      expect(snapshot!.draftId).toBe('draft_1');
+      expect(snapshot!.content).toBe('v1');
+      expect(snapshot!.kind).toBe('auto');
+      expect(await historyService.getSnapshots('draft_1')).toEqual([snapshot]);
+    });
+
+    it('should coalesce autosaves within the interval into one snapshot', async () => {
+      const first = await historyService.recordSnapshot(
+        'draft_1',
+        'v1',
+        'auto'
+      );
+      advanceTime(AUTO_SNAPSHOT_INTERVAL_MS - 1000);
+      const second = await historyService.recordSnapshot(
+        'draft_1',
+        'v2',
+        'auto'
+      );
+
+      expect(second!.id).toBe(first!.id);
+      const snapshots = await historyService.getSnapshots('draft_1');
+      expect(snapshots).toHaveLength(1);
+      expect(snapshots[0].content).toBe('v2');
+      expect(snapshots[0].createdAt).toBe(first!.createdAt);
+    });
+
+    it('should start a new auto snapshot once the interval has passed', async () => {
+      await historyService.recordSnapshot('draft_1', 'v1', 'auto');
+      advanceTime(AUTO_SNAPSHOT_INTERVAL_MS);
+      await historyService.recordSnapshot('draft_1', 'v2', 'auto');
+
+      const snapshots = await historyService.getSnapshots('draft_1');
+      expect(snapshots.map((s) => s.content)).toEqual(['v2', 'v1']); // 新しい順
+    });
+
+    it('should skip autosaves whose content matches the newest snapshot', async () => {
+      await historyService.recordSnapshot('draft_1', 'v1', 'auto');
+      advanceTime(AUTO_SNAPSHOT_INTERVAL_MS);
+      const result = await historyService.recordSnapshot(
+        'draft_1',
+        'v1',
+        'auto'
+      );
+
+      expect(result).toBeNull();
+      expect(await historyService.getSnapshots('draft_1')).toHaveLength(1);
+    });
+
+    it('should keep manual snapshots as separate named checkpoints', async () => {
+      await historyService.recordSnapshot('draft_1', 'v1', 'auto');
+      advanceTime(1000);
+      await historyService.recordSnapshot('draft_1', 'v2', 'manual', '初稿');
+      advanceTime(1000);
+      await historyService.recordSnapshot('draft_1', 'v3', 'auto'); // 手動保存の後は結合しない
+
+      const snapshots = await historyService.getSnapshots('draft_1');
+      expect(snapshots.map((s) => s.kind)).toEqual(['auto', 'manual', 'auto']);
+      expect(snapshots[1].label).toBe('初稿');
+    });
+
+    it('should prune the oldest snapshots beyond the per-kind limits', async () => {
+      for (let i = 0; i < MAX_AUTO_SNAPSHOTS + 2; i++) {
+        await historyService.recordSnapshot('draft_1', `auto ${i}`, 'auto');
+        advanceTime(AUTO_SNAPSHOT_INTERVAL_MS);
+      }
+      for (let i = 0; i < MAX_MANUAL_SNAPSHOTS + 1; i++) {
+        await historyService.recordSnapshot('draft_1', `manual ${i}`, 'manual');
+        advanceTime(1000);
+      }
+
+      const snapshots = await historyService.getSnapshots('draft_1');
+      const autos = snapshots.filter((s) => s.kind === 'auto');
+      const manuals = snapshots.filter((s) => s.kind === 'manual');
+      expect(autos).toHaveLength(MAX_AUTO_SNAPSHOTS);
+      expect(autos.at(-1)!.content).toBe('auto 2'); // 最も古い2件が削除される
+      expect(manuals).toHaveLength(MAX_MANUAL_SNAPSHOTS);
+      expect(manuals.at(-1)!.content).toBe('manual 1');
+    });
+  });
+
+  describe('getSnapshots', () => {
+    it('should only return snapshots of the requested draft', async () => {
+      await historyService.recordSnapshot('draft_1', 'a', 'manual');
+      await historyService.recordSnapshot('draft_2', 'b', 'manual');
+
+      const snapshots = await historyService.getSnapshots('draft_2');
+      expect(snapshots).toHaveLength(1);
+      expect(snapshots[0].content).toBe('b');
+    });
+
+    it('should return an empty array for a draft without history', async () => {
+      expect(await historyService.getSnapshots('unknown')).toEqual([]);
+    });
+  });
+
+  describe('deleteSnapshots', () => {
+    it('should delete all snapshots of a draft', async () => {
+      await historyService.recordSnapshot('draft_1', 'a', 'manual');
+      await historyService.recordSnapshot('draft_2', 'b', 'manual');
+
+      expect(await historyService.deleteSnapshots('draft_1')).toBe(true);
+      expect(await historyService.getSnapshots('draft_1')).toEqual([]);
+      expect(await historyService.getSnapshots('draft_2')).toHaveLength(1);
+    });
+
+    it('should be called when the draft itself is permanently deleted', async () => {
+      const id = await storageService.saveDraft('content', 'doc.md');
+      await historyService.recordSnapshot(id!, 'content', 'manual');
+
+      await storageService.deleteDraft(id!);
+      expect(await historyService.getSnapshots(id!)).toHaveLength(1); // ゴミ箱では履歴を残す
+      await storageService.permanentlyDeleteDraft(id!);
+      expect(await historyService.getSnapshots(id!)).toEqual([]);
+    });
+  });
+  describe('getHistorySizes', () => {
+    it('should sum the UTF-8 size of the snapshots of each draft', async () => {
+      await historyService.recordSnapshot('draft_1', 'ab', 'manual');
+      await historyService.recordSnapshot('draft_1', 'あ', 'manual');
+      await historyService.recordSnapshot('draft_2', 'abcd', 'manual');
+
+      const sizes = await historyService.getHistorySizes();
+      expect(sizes.get('draft_1')).toBe(5);
+      expect(sizes.get('draft_2')).toBe(4);
+    });
+  });
+});
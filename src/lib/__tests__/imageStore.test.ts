@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import {
+  createImageMarkdown,
+  getLocalImageHash,
+  imageStore,
+} from '../imageStore';
+import { closeDraftDatabase } from '../draftDatabase';
+
+// テストごとに空のIndexedDBを用意する
+beforeEach(async () => {
+  await closeDraftDatabase();
+  vi.stubGlobal('indexedDB', new IDBFactory());
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+// BlobをテキストとしてFileReaderで読み込む (jsdomのBlobにはtext()がない場合がある)
+const readText = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(blob);
+  });
+
+describe('imageStore', () => {
+  it('should store images once under their content hash', async () => {
+    const hash = await imageStore.saveImage(
+      new Blob(['png data'], { type: 'image/png' })
+    );
+    expect(hash).toMatch(/^[0-9a-f]{16}$/);
+    // 同じ内容の画像は同じハッシュになる
+    expect(
+      await imageStore.saveImage(new Blob(['png data'], { type: 'image/png' }))
+    ).toBe(hash);
+
+    const image = await imageStore.getImage(hash!);
+    expect(image?.type).toBe('image/png');
+    expect(await readText(image!)).toBe('png data');
+    expect(await imageStore.getImage('0000000000000000')).toBeNull();
+  });
+
+  it('should build and recognize local image references', () => {
+    expect(createImageMarkdown('図[1]', 'abc123')).toBe(
+      '![図1](local-image:abc123)'
+    );
+    expect(getLocalImageHash('local-image:abc123')).toBe('abc123');
+    expect(getLocalImageHash('https://example.com/a.png')).toBeNull();
+    expect(getLocalImageHash('local-image:<script>')).toBeNull();
+  });
+
+  it('should inline stored images and keep unknown references', async () => {
+    const hash = await imageStore.saveImage(
+      new Blob(['gif'], { type: 'image/gif' })
+    );
+    const markdown = [
+      `![a](local-image:${hash} "title")`,
+      '![b](local-image:ffffffffffffffff)',
+      `[ref]: local-image:${hash}`,
+      `\`local-image:${hash}\``,
+    ].join('\n');
+
+    expect(await imageStore.inlineImages(markdown)).toBe(
+      [
+        '![a](data:image/gif;base64,Z2lm "title")',
+        '![b](local-image:ffffffffffffffff)',
+        '[ref]: data:image/gif;base64,Z2lm',
+        `\`local-image:${hash}\``, // リンク先以外は変更しない
+      ].join('\n')
+    );
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getHeadingAnchors,
+  getHeadingLevels,
+  getSectionAt,
+  getSiblingSection,
+  parseHeadingLine,
+} from '../markdownHeadings';
+
+describe('markdownHeadings', () => {
+  it('should parse ATX headings only', () => {
+    expect(parseHeadingLine('## 概要')).toEqual({ level: 2, markerEnd: 3 });
+    expect(parseHeadingLine('#')).toEqual({ level: 1, markerEnd: 1 });
+    expect(parseHeadingLine('#tag')).toBeNull();
+    expect(parseHeadingLine('####### seven')).toBeNull();
+  });
+
+  it('should ignore # lines inside fenced code blocks', () => {
+    const levels = getHeadingLevels([
+      '# A',
+      '```sh',
+      '# comment',
+      '```',
+      '## B',
+    ]);
+
+    expect(levels).toEqual([1, 0, 0, 0, 2]);
+  });
+
+  it('should find sections and their siblings', () => {
+    // # A / text / ## A1 / ## A2 / # B
+    const levels = [1, 0, 2, 0, 2, 1];
+
+    expect(getSectionAt(levels, 1)).toEqual({ start: 0, end: 4, level: 1 });
+    expect(getSectionAt(levels, 3)).toEqual({ start: 2, end: 3, level: 2 });
+    expect(
+      getSiblingSection(levels, { start: 2, end: 3, level: 2 }, 1)
+    ).toEqual({ start: 4, end: 4, level: 2 });
+    // 親の見出しを越えて移動しない
+    expect(
+      getSiblingSection(levels, { start: 2, end: 3, level: 2 }, -1)
+    ).toBeNull();
+    expect(getSectionAt([0, 1], 0)).toBeNull();
+  });
+
+  it('should number duplicate anchors like the preview', () => {
+    const anchors = getHeadingAnchors([
+      '# 概要',
+      '## [リンク](https://example.com) と **強調** ##',
+      '# 概要',
+      '#',
+    ]);
+
+    expect(anchors.map((a) => a.id)).toEqual([
+      '概要',
+      'リンク-と-強調',
+      '概要-1',
+      'heading-1',
+    ]);
+  });
+});
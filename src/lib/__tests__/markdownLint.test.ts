@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { lintMarkdown, LintIssue } from '../markdownLint';
+import { DEFAULT_LINT_SETTINGS } from '../storageService';
+import type { LintRuleId } from '@/types/editor';
+
+// 指定したルールだけを有効にしてチェックする
+const lint = (text: string, rule: LintRuleId) =>
+  lintMarkdown(text, {
+    ...Object.fromEntries(
+      Object.keys(DEFAULT_LINT_SETTINGS).map((id) => [id, false])
+    ),
+    [rule]: true,
+  } as typeof DEFAULT_LINT_SETTINGS);
+
+// 修正を適用した後のテキスト
+const applyFix = (text: string, issue: LintIssue) =>
+  [...issue.fix!.changes]
+    .sort((a, b) => b.from - a.from)
+    .reduce(
+      (result, c) => result.slice(0, c.from) + c.insert + result.slice(c.to),
+      text
+    );
+
+describe('markdownLint', () => {
+  it('should report skipped heading levels and fix them', () => {
+    const text = '# A\n### B\n## C';
+    const issues = lint(text, 'heading-increment');
+
+    expect(issues).toHaveLength(1);
+    expect(applyFix(text, issues[0])).toBe('# A\n## B\n## C');
+  });
+
+  it('should report headings with duplicate anchors', () => {
+    const issues = lint(
+      '# 概要\n## 概要\n\n```\n# 概要\n```',
+      'duplicate-heading'
+    );
+
+    // コードブロック内の # は見出しではない
+    expect(issues).toHaveLength(1);
+    expect(issues[0].message).toContain('#概要-1');
+    expect(issues[0].fix).toBeUndefined();
+  });
+
+  it('should remove trailing whitespace outside code blocks', () => {
+    const text = 'a   \n```\nb   \n```';
+    const issues = lint(text, 'trailing-whitespace');
+
+    expect(issues).toHaveLength(1);
+    // 3つ以上でも改行なので、半角スペース2つまで減らす
+    expect(applyFix(text, issues[0])).toBe('a  \n```\nb   \n```');
+  });
+
+  it('should keep two trailing spaces as a hard line break', () => {
+    // 文字の後の半角スペース2つは改行 (hard line break) なので対象外
+    expect(lint('a  \nb', 'trailing-whitespace')).toHaveLength(0);
+    expect(lint('a \nb\t\n  \n', 'trailing-whitespace')).toHaveLength(3);
+  });
+
+  it('should unify bullet markers with the first item of the list', () => {
+    const text = '- a\n* b\n  + c\n  - d';
+    const issues = lint(text, 'bullet-style');
+
+    // 入れ子のリストはその最初の項目に揃える
+    expect(issues.map((i) => i.from)).toEqual([4, 16]);
+    expect(applyFix(text, issues[0])).toBe('- a\n- b\n  + c\n  - d');
+    expect(applyFix(text, issues[1])).toBe('- a\n* b\n  + c\n  + d');
+  });
+
+  it('should close an unclosed code fence at the end of the document', () => {
+    const text = 'a\n~~~~js\ncode';
+    const [issue] = lint(text, 'unclosed-fence');
+
+    expect(issue.severity).toBe('error');
+    expect(applyFix(text, issue)).toBe('a\n~~~~js\ncode\n~~~~\n');
+    expect(lint('```\ncode\n```', 'unclosed-fence')).toEqual([]);
+  });
+
+  it('should suggest alt text for images from the file name', () => {
+    const text = 'x ![](img/my-photo.png) ![ ](<a b.png>) ![猫](cat.png)';
+    const issues = lint(text, 'image-alt');
+
+    expect(issues).toHaveLength(2);
+    expect(applyFix(text, issues[0])).toBe(
+      'x ![my photo](img/my-photo.png) ![ ](<a b.png>) ![猫](cat.png)'
+    );
+    expect(applyFix(text, issues[1])).toBe(
+      'x ![](img/my-photo.png) ![a](<a b.png>) ![猫](cat.png)'
+    );
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeListLines,
+  parseListItem,
+  renumberListLines,
+} from '../markdownList';
+
+describe('markdownList', () => {
+  it('should parse bullet, ordered and task items', () => {
+    expect(parseListItem('- a')).toMatchObject({
+      bullet: '-',
+      number: null,
+      childIndent: 2,
+      contentStart: 2,
+    });
+    expect(parseListItem('  12) b')).toMatchObject({
+      indent: 2,
+      number: 12,
+      delimiter: ')',
+      childIndent: 6,
+    });
+    expect(parseListItem('* [x] done')).toMatchObject({
+      task: 'checked',
+      contentStart: 6,
+    });
+    // 区切り線や強調はリストではない
+    expect(parseListItem('---')).toBeNull();
+    expect(parseListItem('**bold**')).toBeNull();
+  });
+
+  it('should work out nesting levels, parents and siblings', () => {
+    const info = analyzeListLines([
+      '1. a',
+      '   - b',
+      '     - c',
+      '   - d',
+      '2. e',
+    ]);
+
+    expect(info.map((l) => l.level)).toEqual([0, 1, 2, 1, 0]);
+    expect(info.map((l) => l.parent)).toEqual([-1, 0, 1, 0, -1]);
+    expect(info.map((l) => l.previousSibling)).toEqual([-1, -1, -1, 1, 0]);
+  });
+
+  it('should renumber each ordered list from its first number', () => {
+    const lines = ['3. a', '3. b', '   1. x', '   5. y', '9. c'];
+
+    expect(renumberListLines(lines)).toEqual([
+      { line: 1, from: 0, to: 1, insert: '4' },
+      { line: 3, from: 3, to: 4, insert: '2' },
+      { line: 4, from: 0, to: 1, insert: '5' },
+    ]);
+  });
+
+  it('should not continue numbering across a paragraph', () => {
+    expect(renumberListLines(['1. a', '', 'text', '', '1. b'])).toEqual([]);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createTable,
+  displayWidth,
+  formatTable,
+  getCellIndex,
+  getCellRange,
+  isDelimiterRow,
+  parseTable,
+  parseTableRow,
+} from '../markdownTable';
+
+describe('markdownTable', () => {
+  it('should split rows on unescaped pipes outside code spans', () => {
+    expect(parseTableRow('| a | b\\|c | `x|y` |')).toEqual([
+      'a',
+      'b\\|c',
+      '`x|y`',
+    ]);
+    // 先頭と末尾のパイプは省略できる
+    expect(parseTableRow('a | b')).toEqual(['a', 'b']);
+  });
+
+  it('should recognize delimiter rows and their alignments', () => {
+    expect(isDelimiterRow('| --- | :-: | --: |')).toBe(true);
+    expect(isDelimiterRow('| --- | text |')).toBe(false);
+
+    const table = parseTable(['| a | b | c | d |', '|---|:--|:-:|--:|']);
+    expect(table?.alignments).toEqual([null, 'left', 'center', 'right']);
+  });
+
+  it('should pad short rows to the widest row', () => {
+    const table = parseTable([
+      '| a | b |',
+      '| - | - |',
+      '| 1 |',
+      '| 1 | 2 | 3 |',
+    ]);
+    expect(table?.header).toEqual(['a', 'b', '']);
+    expect(table?.rows).toEqual([
+      ['1', '', ''],
+      ['1', '2', '3'],
+    ]);
+  });
+
+  it('should line up columns counting wide characters as two columns', () => {
+    expect(displayWidth('表a')).toBe(3);
+
+    const table = parseTable([
+      '|名前|値|',
+      '|:-:|--:|',
+      '|りんご|1|',
+      '|b|100|',
+    ])!;
+
+    expect(formatTable(table)).toEqual([
+      '|  名前  |  値 |',
+      '| :----: | --: |',
+      '| りんご |   1 |',
+      '|   b    | 100 |',
+    ]);
+  });
+
+  it('should create an empty table with placeholder headers', () => {
+    expect(formatTable(createTable(1, 2))).toEqual([
+      '| 見出し1 | 見出し2 |',
+      '| ------- | ------- |',
+      '|         |         |',
+    ]);
+  });
+
+  it('should locate cells by offset and by column', () => {
+    const line = '| ab | cd |';
+    expect(getCellIndex(line, 0)).toBe(0);
+    expect(getCellIndex(line, 3)).toBe(0);
+    expect(getCellIndex(line, 6)).toBe(1);
+    expect(getCellRange(line, 1)).toEqual({ from: 7, to: 9 });
+    // 空のセルは区切りの後の位置を返す
+    expect(getCellRange('|    |', 0)).toEqual({ from: 2, to: 2 });
+    expect(getCellRange(line, 2)).toBeNull();
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { getRecoveryId, recoveryJournal } from '../recoveryJournal';
+import { storageService } from '../storageService';
+import { draftCrypto } from '../draftCrypto';
+import {
+  closeDraftDatabase,
+  openDraftDatabase,
+  requestToPromise,
+  RECOVERY_STORE,
+} from '../draftDatabase';
+
+// テストごとに空のIndexedDBを用意する
+beforeEach(async () => {
+  await closeDraftDatabase();
+  vi.stubGlobal('indexedDB', new IDBFactory());
+  draftCrypto.lock();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('recoveryJournal', () => {
+  it('should use the draft ID as key, or the tab ID for untitled documents', () => {
+    expect(getRecoveryId('draft_1', 'tab_1')).toBe('draft_1');
+    expect(getRecoveryId(null, 'tab_1')).toBe('untitled_tab_1');
+  });
+
+  it('should record, replace and remove entries', async () => {
+    const id = getRecoveryId(null, 'tab_1');
+    await recoveryJournal.record({
+      id,
+      draftId: null,
+      fileName: '',
+      content: 'first',
+    });
+    await recoveryJournal.record({
+      id,
+      draftId: null,
+      fileName: '',
+      content: 'second',
+    });
+
+    const entries = await recoveryJournal.getEntries();
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ id, content: 'second' });
+
+    expect(await recoveryJournal.remove(id)).toBe(true);
+    expect(await recoveryJournal.getEntries()).toEqual([]);
+  });
+
+  it('should offer only entries that differ from the saved draft', async () => {
+    const changedId = (await storageService.saveDraft('Saved', 'a.md'))!;
+    const unchangedId = (await storageService.saveDraft('Same', 'b.md'))!;
+    await recoveryJournal.record({
+      id: changedId,
+      draftId: changedId,
+      fileName: 'a.md',
+      content: 'Saved and edited',
+    });
+    await recoveryJournal.record({
+      id: unchangedId,
+      draftId: unchangedId,
+      fileName: 'b.md',
+      content: 'Same',
+    });
+    await recoveryJournal.record({
+      id: 'untitled_old',
+      draftId: null,
+      fileName: '',
+      content: '# 書きかけ',
+    });
+    await recoveryJournal.record({
+      id: 'untitled_empty',
+      draftId: null,
+      fileName: '',
+      content: '  \n',
+    });
+
+    const candidates = await recoveryJournal.findRecoverable();
+
+    expect(candidates.map((c) => [c.entry.id, c.savedContent]).sort()).toEqual([
+      [changedId, 'Saved'],
+      ['untitled_old', null],
+    ]);
+    // 失われた変更がないエントリは削除される
+    expect(
+      (await recoveryJournal.getEntries()).map((e) => e.id).sort()
+    ).toEqual([changedId, 'untitled_old'].sort());
+  });
+
+  it('should treat the text of a trashed draft as untitled', async () => {
+    const id = (await storageService.saveDraft('Saved', 'a.md'))!;
+    await storageService.deleteDraft(id);
+    await recoveryJournal.record({
+      id,
+      draftId: id,
+      fileName: 'a.md',
+      content: 'Saved',
+    });
+
+    const [candidate] = await recoveryJournal.findRecoverable();
+    expect(candidate.savedContent).toBeNull();
+  });
+
+  it('should encrypt entries when encryption is on', async () => {
+    await draftCrypto.enable('pass');
+    await recoveryJournal.record({
+      id: 'untitled_x',
+      draftId: null,
+      fileName: '',
+      content: '秘密',
+    });
+
+    const db = await openDraftDatabase();
+    const [stored] = await requestToPromise<{ content: string }[]>(
+      db.transaction(RECOVERY_STORE).objectStore(RECOVERY_STORE).getAll()
+    );
+    expect(stored.content).toBe('');
+    expect(JSON.stringify(stored)).not.toContain('秘密');
+    expect((await recoveryJournal.getEntries())[0].content).toBe('秘密');
+  });
+});
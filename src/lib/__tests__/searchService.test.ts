@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { searchService, MAX_SEARCH_RESULTS } from '../searchService';
+import { storageService } from '../storageService';
+import { closeDraftDatabase } from '../draftDatabase';
+
+// テストごとに空のIndexedDBを用意する
+beforeEach(async () => {
+  await closeDraftDatabase();
+  vi.stubGlobal('indexedDB', new IDBFactory());
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('searchService', () => {
+  describe('searchDrafts', () => {
+    it('should find matches in every draft with line numbers and snippets', async () => {
+      const id1 = await storageService.saveDraft(
+        '# Title\n\nhello world',
+        'a.md'
+      );
+      const id2 = await storageService.saveDraft('Hello again', 'b.md');
+
+      const results = await searchService.searchDrafts('hello', {});
+
+      expect(results).toHaveLength(2);
+      const inA = results!.find((r) => r.draftId === id1)!;
+      expect(inA.fileName).toBe('a.md');
+      expect(inA.line).toBe(3);
+      expect(inA.from).toBe(9);
+      expect(inA.to).toBe(14);
+      expect(inA.snippet).toBe('hello world');
+      expect(inA.snippet.slice(inA.snippetMatchFrom, inA.snippetMatchTo)).toBe(
+        'hello'
+      );
+      expect(results!.some((r) => r.draftId === id2)).toBe(true);
+    });
+
+    it('should honor the case sensitive option', async () => {
+      await storageService.saveDraft('Hello hello', 'a.md');
+
+      const results = await searchService.searchDrafts('hello', {
+        caseSensitive: true,
+      });
+      expect(results!.map((r) => r.from)).toEqual([6]);
+    });
+
+    it('should honor the whole word option', async () => {
+      await storageService.saveDraft('cat concat cat', 'a.md');
+
+      const results = await searchService.searchDrafts('cat', {
+        wholeWord: true,
+      });
+      expect(results!.map((r) => r.from)).toEqual([0, 11]);
+    });
+
+    it('should support regular expressions', async () => {
+      await storageService.saveDraft('v1.2 and v10.0', 'a.md');
+
+      const results = await searchService.searchDrafts('v\\d+\\.\\d', {
+        isRegex: true,
+      });
+      expect(results!.map((r) => [r.from, r.to])).toEqual([
+        [0, 4],
+        [9, 14],
+      ]);
+    });
+
+    it('should return null for an invalid regular expression', async () => {
+      await storageService.saveDraft('content', 'a.md');
+      expect(await searchService.searchDrafts('(', { isRegex: true })).toBe(
+        null
+      );
+    });
+
+    it('should search the live content of the open draft instead of the stored copy', async () => {
+      const id = (await storageService.saveDraft('stored text', 'a.md'))!;
+
+      const results = await searchService.searchDrafts(
+        'live',
+        {},
+        {
+          id,
+          content: 'unsaved live text',
+        }
+      );
+      expect(results).toHaveLength(1);
+      expect(results![0].from).toBe(8);
+    });
+
+    it('should reflect drafts updated after a previous search', async () => {
+      const id = (await storageService.saveDraft('old', 'a.md'))!;
+      expect(await searchService.searchDrafts('new', {})).toEqual([]);
+
+      await new Promise((resolve) => setTimeout(resolve, 5)); // lastModified を変える
+      await storageService.saveDraft('new', 'a.md', id);
+      expect(await searchService.searchDrafts('new', {})).toHaveLength(1);
+    });
+
+    it('should shorten long lines around the match', async () => {
+      const line = `${'a'.repeat(100)} needle ${'b'.repeat(100)}`;
+      await storageService.saveDraft(line, 'a.md');
+
+      const [result] = (await searchService.searchDrafts('needle', {}))!;
+      expect(result.snippet.startsWith('…')).toBe(true);
+      expect(result.snippet.endsWith('…')).toBe(true);
+      expect(
+        result.snippet.slice(result.snippetMatchFrom, result.snippetMatchTo)
+      ).toBe('needle');
+    });
+
+    it('should cap the number of results', async () => {
+      await storageService.saveDraft(
+        'x'.repeat(MAX_SEARCH_RESULTS + 10),
+        'a.md'
+      );
+
+      const results = await searchService.searchDrafts('x', {});
+      expect(results).toHaveLength(MAX_SEARCH_RESULTS);
+    });
+
+    it('should return an empty array for an empty search term', async () => {
+      await storageService.saveDraft('content', 'a.md');
+      expect(await searchService.searchDrafts('', {})).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SHORTCUTS,
+  findShortcutConflict,
+  formatKey,
+  keyFromEvent,
+  matchesKey,
+  normalizeKey,
+  resolveShortcutKeys,
+} from '../shortcuts';
+
+// テスト環境 (jsdom) は macOS ではないため、Mod は Ctrl として扱われる
+describe('shortcuts', () => {
+  it('should have normalized, distinct default keys', () => {
+    const keys = resolveShortcutKeys({});
+
+    for (const { id, defaultKey } of SHORTCUTS) {
+      expect(normalizeKey(defaultKey)).toBe(defaultKey);
+      expect(findShortcutConflict(keys, id, defaultKey)).toBeNull();
+    }
+  });
+
+  it('should normalize keys and reject keys that type characters', () => {
+    expect(normalizeKey('shift-mod-S')).toBe('Mod-Shift-s');
+    expect(normalizeKey('Alt-Cmd-ArrowUp')).toBe('Meta-Alt-ArrowUp');
+    expect(normalizeKey('Mod--')).toBe('Mod--');
+    expect(normalizeKey('F5')).toBe('F5');
+    expect(normalizeKey('Shift-a')).toBeNull();
+    expect(normalizeKey('Hyper-a')).toBeNull();
+  });
+
+  it('should read keys from events by physical key', () => {
+    const event = new KeyboardEvent('keydown', {
+      key: 'S',
+      code: 'KeyS',
+      ctrlKey: true,
+      shiftKey: true,
+    });
+
+    expect(keyFromEvent(event)).toBe('Mod-Shift-s');
+    expect(matchesKey(event, 'Mod-Shift-s')).toBe(true);
+    expect(matchesKey(event, 'Mod-s')).toBe(false);
+    // Alt で文字が変わっても物理キーで判定する
+    const alt = new KeyboardEvent('keydown', {
+      key: '¡',
+      code: 'Digit1',
+      ctrlKey: true,
+      altKey: true,
+    });
+    expect(matchesKey(alt, 'Mod-Alt-1')).toBe(true);
+    expect(
+      keyFromEvent(new KeyboardEvent('keydown', { key: 'Control' }))
+    ).toBeNull();
+  });
+
+  it('should find conflicts with other actions and built-in commands', () => {
+    const keys = resolveShortcutKeys({ italic: 'Mod-Shift-i' });
+
+    expect(findShortcutConflict(keys, 'italic', 'Ctrl-b')).toBe('太字');
+    expect(findShortcutConflict(keys, 'bold', 'Mod-z')).toBe('元に戻す');
+    expect(findShortcutConflict(keys, 'bold', 'Mod-i')).toBeNull(); // 斜体は別のキーに移動済み
+    expect(findShortcutConflict(keys, 'bold', 'Mod-b')).toBeNull(); // 自分自身とは衝突しない
+  });
+
+  it('should reserve the keys of the standard editor keymaps', () => {
+    const keys = resolveShortcutKeys({});
+
+    expect(findShortcutConflict(keys, 'bold', 'Mod-d')).toBe('次の一致を選択');
+    expect(findShortcutConflict(keys, 'bold', 'Mod-/')).toBe(
+      'コメントの切り替え'
+    );
+    expect(findShortcutConflict(keys, 'bold', 'Mod-Enter')).not.toBeNull();
+    expect(findShortcutConflict(keys, 'bold', 'Mod-[')).not.toBeNull();
+    expect(findShortcutConflict(keys, 'bold', 'Mod-c')).toBe('コピー'); // キーマップにないブラウザの操作
+    // shift 付きのバインドは Shift を加えたキーも使う (単語単位の選択)
+    expect(
+      findShortcutConflict(keys, 'bold', 'Mod-Shift-ArrowLeft')
+    ).not.toBeNull();
+  });
+
+  it('should format keys for display', () => {
+    expect(formatKey('Mod-Alt-Shift-ArrowLeft')).toBe('Ctrl+Alt+Shift+←');
+    expect(formatKey("Mod-'")).toBe("Ctrl+'");
+  });
+});
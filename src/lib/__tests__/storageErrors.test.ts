@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import {
+  classifyStorageError,
+  DraftsLockedError,
+  StorageUnavailableError,
+} from '../storageErrors';
+
+describe('classifyStorageError', () => {
+  it('should classify quota errors', () => {
+    expect(
+      classifyStorageError(new DOMException('full', 'QuotaExceededError'))
+    ).toBe('quota');
+    // 旧Firefoxのエラー名
+    expect(classifyStorageError({ name: 'NS_ERROR_DOM_QUOTA_REACHED' })).toBe(
+      'quota'
+    );
+  });
+
+  it('should classify serialization errors', () => {
+    expect(
+      classifyStorageError(new DOMException('clone', 'DataCloneError'))
+    ).toBe('serialization');
+    expect(classifyStorageError(new TypeError('cyclic'))).toBe('serialization');
+  });
+
+  it('should classify unavailable storage', () => {
+    expect(classifyStorageError(new StorageUnavailableError())).toBe(
+      'unavailable'
+    );
+    expect(
+      classifyStorageError(new DOMException('blocked', 'SecurityError'))
+    ).toBe('unavailable');
+    expect(
+      classifyStorageError(new DOMException('closing', 'InvalidStateError'))
+    ).toBe('unavailable');
+  });
+
+  it('should classify access to locked drafts', () => {
+    expect(classifyStorageError(new DraftsLockedError())).toBe('locked');
+  });
+
+  it('should fall back to unknown', () => {
+    expect(classifyStorageError(new Error('boom'))).toBe('unknown');
+    expect(classifyStorageError('boom')).toBe('unknown');
+    expect(classifyStorageError(null)).toBe('unknown');
+  });
+});
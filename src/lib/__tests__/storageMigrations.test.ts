@@ -0,0 +1,236 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { storageMigrations } from '../storageMigrations';
+import {
+  runSchemaMigrations,
+  CURRENT_SCHEMA_VERSION,
+  type SchemaMigration,
+} from '../schemaMigrations';
+import { storageService } from '../storageService';
+import { historyService } from '../historyService';
+import {
+  closeDraftDatabase,
+  openDraftDatabase,
+  requestToPromise,
+  transactionDone,
+  DRAFTS_STORE,
+  META_STORE,
+  SNAPSHOTS_STORE,
+  SCHEMA_VERSION_KEY,
+} from '../draftDatabase';
+
+// localStorageのモック
+const localStorageMock = (() => {
+  let store: Record<string, string> = {};
+  return {
+    getItem: (key: string) => store[key] ?? null,
+    setItem: (key: string, value: string) => {
+      store[key] = value;
+    },
+    removeItem: (key: string) => {
+      delete store[key];
+    },
+    clear: () => {
+      store = {};
+    },
+  };
+})();
+
+// テストごとに空のIndexedDBとlocalStorageを用意する
+beforeEach(async () => {
+  await closeDraftDatabase();
+  vi.stubGlobal('localStorage', localStorageMock);
+  vi.stubGlobal('indexedDB', new IDBFactory());
+  localStorage.clear();
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'info').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+// --- ヘルパー ---
+// 旧バージョン (スキーマ v0) のデータを書き込み、次回起動を再現する
+const seedLegacyData = async (
+  drafts: unknown[],
+  snapshots: unknown[] = []
+): Promise<void> => {
+  const db = await openDraftDatabase();
+  const tx = db.transaction(
+    [DRAFTS_STORE, SNAPSHOTS_STORE, META_STORE],
+    'readwrite'
+  );
+  drafts.forEach((d) => tx.objectStore(DRAFTS_STORE).put(d));
+  snapshots.forEach((s) => tx.objectStore(SNAPSHOTS_STORE).put(s));
+  tx.objectStore(META_STORE).delete(SCHEMA_VERSION_KEY);
+  await transactionDone(tx);
+  await closeDraftDatabase();
+};
+
+const readRaw = async (storeName: string) => {
+  const db = await openDraftDatabase();
+  return requestToPromise<Record<string, unknown>[]>(
+    db.transaction(storeName).objectStore(storeName).getAll()
+  );
+};
+
+describe('storageMigrations', () => {
+  it('should stamp a new database with the current schema version', async () => {
+    expect(await storageMigrations.getSchemaVersion()).toBe(
+      CURRENT_SCHEMA_VERSION
+    );
+  });
+
+  it('should fill in fields missing from unversioned drafts', async () => {
+    await seedLegacyData([
+      {
+        id: 'old',
+        content: 'Old',
+        lastModified: '2024-01-01T00:00:00.000Z',
+      },
+    ]);
+
+    const [draft] = await readRaw(DRAFTS_STORE);
+    expect(draft).toEqual({
+      id: 'old',
+      content: 'Old',
+      lastModified: '2024-01-01T00:00:00.000Z',
+      fileName: null,
+      folderId: null,
+      tags: [],
+      deletedAt: null,
+    });
+    expect(await storageMigrations.getSchemaVersion()).toBe(
+      CURRENT_SCHEMA_VERSION
+    );
+  });
+
+  it('should quarantine malformed drafts and snapshots', async () => {
+    await seedLegacyData(
+      [
+        { id: 'ok', content: 'OK', lastModified: '2024-01-01T00:00:00.000Z' },
+        { id: 'broken', content: 42, lastModified: 'yesterday' },
+      ],
+      [
+        {
+          id: 'snap_ok',
+          draftId: 'ok',
+          content: 'OK',
+          kind: 'auto',
+          createdAt: '2024-01-01T00:00:00.000Z',
+        },
+        { id: 'snap_broken', draftId: 'ok', kind: 'weird' },
+      ]
+    );
+
+    expect((await storageService.getAllDrafts()).map((d) => d.id)).toEqual([
+      'ok',
+    ]);
+    const snapshots = await historyService.getSnapshots('ok');
+    expect(snapshots.map((s) => s.id)).toEqual(['snap_ok']);
+    expect(snapshots[0].label).toBeNull(); // 省略されたフィールドは補われる
+    expect(snapshots[0].updatedAt).toBe('2024-01-01T00:00:00.000Z');
+
+    const quarantined = await storageMigrations.getQuarantinedEntries();
+    expect(quarantined.map((q) => [q.source, q.key]).sort()).toEqual([
+      [DRAFTS_STORE, 'broken'],
+      [SNAPSHOTS_STORE, 'snap_broken'],
+    ]);
+    // 元のデータはそのまま保持される
+    expect(quarantined.find((q) => q.key === 'broken')?.data).toEqual({
+      id: 'broken',
+      content: 42,
+      lastModified: 'yesterday',
+    });
+  });
+
+  it('should quarantine an unknown theme preference', async () => {
+    await closeDraftDatabase();
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    localStorage.setItem('ai-md-editor-theme', 'neon');
+
+    await openDraftDatabase();
+    expect(localStorage.getItem('ai-md-editor-theme')).toBeNull();
+    const [entry] = await storageMigrations.getQuarantinedEntries();
+    expect(entry.data).toBe('neon');
+  });
+
+  it('should keep a valid theme preference', async () => {
+    await closeDraftDatabase();
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    localStorage.setItem('ai-md-editor-theme', 'dark');
+
+    await openDraftDatabase();
+    expect(localStorage.getItem('ai-md-editor-theme')).toBe('dark');
+    expect(await storageMigrations.getQuarantinedEntries()).toEqual([]);
+  });
+
+  it('should clear the quarantine', async () => {
+    await seedLegacyData([{ id: 'broken' }]);
+    expect(await storageMigrations.getQuarantinedEntries()).toHaveLength(1);
+
+    expect(await storageMigrations.clearQuarantine()).toBe(true);
+    expect(await storageMigrations.getQuarantinedEntries()).toEqual([]);
+  });
+
+  describe('runSchemaMigrations', () => {
+    // 実行順を記録するテスト用のマイグレーション
+    const createMigrations = (log: number[], failAt?: number) =>
+      [1, 2, 3].map(
+        (version): SchemaMigration => ({
+          version,
+          description: `step ${version}`,
+          migrate: async () => {
+            if (version === failAt) throw new Error(`step ${version} failed`);
+            log.push(version);
+          },
+        })
+      );
+
+    const setStoredVersion = async (version: number) => {
+      const db = await openDraftDatabase();
+      const tx = db.transaction(META_STORE, 'readwrite');
+      tx.objectStore(META_STORE).put(version, SCHEMA_VERSION_KEY);
+      await transactionDone(tx);
+    };
+
+    it('should run only pending steps in order', async () => {
+      const db = await openDraftDatabase();
+      await setStoredVersion(1);
+      const log: number[] = [];
+
+      expect(await runSchemaMigrations(db, createMigrations(log))).toBe(3);
+      expect(log).toEqual([2, 3]);
+
+      // 2回目は何も実行しない
+      expect(await runSchemaMigrations(db, createMigrations(log))).toBe(3);
+      expect(log).toEqual([2, 3]);
+    });
+
+    it('should keep completed steps and retry the failed one', async () => {
+      const db = await openDraftDatabase();
+      await setStoredVersion(0);
+      const log: number[] = [];
+
+      await expect(
+        runSchemaMigrations(db, createMigrations(log, 2))
+      ).rejects.toThrow('step 2 failed');
+      expect(log).toEqual([1]);
+      expect(await storageMigrations.getSchemaVersion()).toBe(1);
+
+      expect(await runSchemaMigrations(db, createMigrations(log))).toBe(3);
+      expect(log).toEqual([1, 2, 3]);
+    });
+
+    it('should leave data from a newer app version untouched', async () => {
+      const db = await openDraftDatabase();
+      await setStoredVersion(10);
+      const log: number[] = [];
+
+      expect(await runSchemaMigrations(db, createMigrations(log))).toBe(10);
+      expect(log).toEqual([]);
+    });
+  });
+});
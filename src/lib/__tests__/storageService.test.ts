@@ -1,5 +1,23 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { storageService } from '../storageService';
+import { IDBFactory, IDBObjectStore } from 'fake-indexeddb';
+import {
+  storageService,
+  DEFAULT_AUTOSAVE_SETTINGS,
+  DEFAULT_LINT_SETTINGS,
+  DEFAULT_TRASH_RETENTION_DAYS,
+} from '../storageService';
+import { historyService } from '../historyService';
+import {
+  closeDraftDatabase,
+  openDraftDatabase,
+  requestToPromise,
+  transactionDone,
+  DRAFTS_STORE,
+  FOLDERS_STORE,
+  META_STORE,
+  AUTOSAVE_SETTINGS_KEY,
+} from '../draftDatabase';
+import { storageMigrations } from '../storageMigrations';
 import type { Draft } from '@/types/editor';
 
 // localStorageのモック
@@ -19,9 +37,11 @@ const localStorageMock = (() => {
   };
 })();
 
-// vi.stubGlobalを使用してlocalStorageをモックに置き換える
-beforeEach(() => {
+// vi.stubGlobalを使用してlocalStorageとindexedDBをモックに置き換える
+beforeEach(async () => {
+  await closeDraftDatabase(); // 前のテストの接続を破棄
   vi.stubGlobal('localStorage', localStorageMock);
+  vi.stubGlobal('indexedDB', new IDBFactory()); // テストごとに空のDB
   localStorage.clear(); // 各テスト前にクリア
 });
 
@@ -29,47 +49,58 @@ afterEach(() => {
   vi.unstubAllGlobals(); // テスト後にモックを解除
 });
 
-// --- 定数 ---
-const DRAFTS_KEY = 'ai_markdown_editor_drafts';
-const CURRENT_DRAFT_ID_KEY = 'ai_markdown_editor_current_draft_id';
+// --- 定数 (旧localStorage実装のキー) ---
+const LEGACY_DRAFTS_KEY = 'markdownDrafts';
+const LEGACY_CURRENT_DRAFT_ID_KEY = 'currentDraftId';
+
+// --- ヘルパー ---
+// IndexedDBに保存されている下書きをIDをキーにしたオブジェクトとして取得
+const readStoredDrafts = async (): Promise<Record<string, Draft>> => {
+  const db = await openDraftDatabase();
+  const drafts = await requestToPromise<Draft[]>(
+    db.transaction(DRAFTS_STORE).objectStore(DRAFTS_STORE).getAll()
+  );
+  return Object.fromEntries(drafts.map((draft) => [draft.id, draft]));
+};
 
 // --- テスト ---
 describe('storageService', () => {
   describe('saveDraft', () => {
-    it('should save a new draft without a filename', () => {
+    it('should save a new draft without a filename', async () => {
       const content = 'New draft content';
-      const savedId = storageService.saveDraft(content);
+      const savedId = await storageService.saveDraft(content);
 
       expect(savedId).toBeDefined();
       expect(savedId).toMatch(/^draft_/); // ID形式の確認
 
-      const drafts = JSON.parse(localStorage.getItem(DRAFTS_KEY) || '{}');
+      const drafts = await readStoredDrafts();
       expect(drafts[savedId!]).toBeDefined();
       expect(drafts[savedId!].content).toBe(content);
       expect(drafts[savedId!].fileName).toBeNull();
-      expect(localStorage.getItem(CURRENT_DRAFT_ID_KEY)).toBe(savedId);
+      expect(await storageService.getCurrentDraftId()).toBe(savedId);
     });
 
-    it('should save a new draft with a filename', () => {
+    it('should save a new draft with a filename', async () => {
       const content = 'Another new draft';
       const fileName = 'MyFile';
-      const savedId = storageService.saveDraft(content, fileName);
+      const savedId = await storageService.saveDraft(content, fileName);
 
       expect(savedId).toBeDefined();
-      expect(savedId).toMatch(/^file_MyFile_/); // ID形式の確認
+      expect(savedId).toMatch(/^draft_/); // ID形式の確認
+      expect(savedId).not.toContain(fileName); // IDはファイル名に依存しない
 
-      const drafts = JSON.parse(localStorage.getItem(DRAFTS_KEY) || '{}');
+      const drafts = await readStoredDrafts();
       expect(drafts[savedId!]).toBeDefined();
       expect(drafts[savedId!].content).toBe(content);
       expect(drafts[savedId!].fileName).toBe(fileName);
-      expect(localStorage.getItem(CURRENT_DRAFT_ID_KEY)).toBe(savedId);
+      expect(await storageService.getCurrentDraftId()).toBe(savedId);
     });
 
-    it('should update an existing draft', () => {
+    it('should update an existing draft', async () => {
       // 既存の下書きを準備
       const initialContent = 'Initial content';
       const initialFileName = 'ExistingFile';
-      const initialId = storageService.saveDraft(
+      const initialId = await storageService.saveDraft(
         initialContent,
         initialFileName
       );
@@ -77,7 +108,7 @@ describe('storageService', () => {
 
       const updatedContent = 'Updated content';
       const updatedFileName = 'ExistingFile_Renamed'; // ファイル名も変更してみる
-      const updatedId = storageService.saveDraft(
+      const updatedId = await storageService.saveDraft(
         updatedContent,
         updatedFileName,
         initialId!
@@ -85,99 +116,141 @@ describe('storageService', () => {
 
       expect(updatedId).toBe(initialId); // IDは変わらないはず
 
-      const drafts = JSON.parse(localStorage.getItem(DRAFTS_KEY) || '{}');
+      const drafts = await readStoredDrafts();
       expect(Object.keys(drafts).length).toBe(1); // 下書きは1つのまま
       expect(drafts[updatedId!]).toBeDefined();
       expect(drafts[updatedId!].content).toBe(updatedContent);
       expect(drafts[updatedId!].fileName).toBe(updatedFileName); // ファイル名が更新されている
-      expect(localStorage.getItem(CURRENT_DRAFT_ID_KEY)).toBe(updatedId);
+      expect(await storageService.getCurrentDraftId()).toBe(updatedId);
+    });
+
+    it('should return null when IndexedDB is unavailable', async () => {
+      await closeDraftDatabase();
+      vi.stubGlobal('indexedDB', undefined);
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const savedId = await storageService.saveDraft('content');
+      expect(savedId).toBeNull();
+      expect(storageService.getLastSaveError()).toBe('unavailable');
+
+      errorSpy.mockRestore();
+    });
+
+    it('should report a quota error and clear it after a successful save', async () => {
+      await openDraftDatabase(); // 起動時のマイグレーションを先に済ませる
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const putSpy = vi
+        .spyOn(IDBObjectStore.prototype, 'put')
+        .mockImplementationOnce(() => {
+          throw new DOMException('Quota exceeded', 'QuotaExceededError');
+        });
+
+      expect(await storageService.saveDraft('content')).toBeNull();
+      expect(storageService.getLastSaveError()).toBe('quota');
+
+      putSpy.mockRestore();
+      expect(await storageService.saveDraft('content')).not.toBeNull();
+      expect(storageService.getLastSaveError()).toBeNull();
+
+      errorSpy.mockRestore();
+    });
+  });
+
+  describe('getStorageUsage', () => {
+    it('should report per-draft content and history sizes, largest first', async () => {
+      const smallId = (await storageService.saveDraft('abc', 'small.md'))!;
+      const largeId = (await storageService.saveDraft(
+        'あ'.repeat(10),
+        'large.md'
+      ))!;
+      await historyService.recordSnapshot(smallId, 'abcd', 'manual');
+
+      const { drafts } = await storageService.getStorageUsage();
+
+      expect(drafts.map((d) => d.id)).toEqual([largeId, smallId]);
+      expect(drafts[0]).toMatchObject({ contentBytes: 30, historyBytes: 0 }); // UTF-8で1文字3バイト
+      expect(drafts[1]).toMatchObject({ contentBytes: 3, historyBytes: 4 });
     });
 
-    // TODO: Add error case test if possible (e.g., localStorage full)
+    it('should return null usage and quota when the browser cannot estimate them', async () => {
+      vi.stubGlobal('navigator', { ...navigator, storage: undefined });
+
+      const usage = await storageService.getStorageUsage();
+      expect(usage.usage).toBeNull();
+      expect(usage.quota).toBeNull();
+    });
   });
 
   describe('loadDraft', () => {
     let draft1: Draft;
-    let draft2: Draft;
 
-    beforeEach(() => {
+    beforeEach(async () => {
       // テストデータを準備
-      const id1 = storageService.saveDraft('Content 1', 'File1');
-      const id2 = storageService.saveDraft('Content 2', 'File2');
-      const drafts = JSON.parse(localStorage.getItem(DRAFTS_KEY) || '{}');
+      const id1 = await storageService.saveDraft('Content 1', 'File1');
+      await storageService.saveDraft('Content 2', 'File2');
+      const drafts = await readStoredDrafts();
       draft1 = drafts[id1!];
-      draft2 = drafts[id2!];
-      localStorage.removeItem(CURRENT_DRAFT_ID_KEY); // loadDraftで設定されるか確認するためクリア
+      await storageService.clearCurrentDraftId(); // loadDraftで設定されるか確認するためクリア
     });
 
-    it('should load an existing draft and set it as current', () => {
-      const loadedDraft = storageService.loadDraft(draft1.id);
+    it('should load an existing draft and set it as current', async () => {
+      const loadedDraft = await storageService.loadDraft(draft1.id);
       expect(loadedDraft).toEqual(draft1);
-      expect(localStorage.getItem(CURRENT_DRAFT_ID_KEY)).toBe(draft1.id);
+      expect(await storageService.getCurrentDraftId()).toBe(draft1.id);
     });
 
-    it('should return null for a non-existent draft ID', () => {
-      const loadedDraft = storageService.loadDraft('non-existent-id');
+    it('should return null for a non-existent draft ID', async () => {
+      const loadedDraft = await storageService.loadDraft('non-existent-id');
       expect(loadedDraft).toBeNull();
-      expect(localStorage.getItem(CURRENT_DRAFT_ID_KEY)).toBeNull(); // current IDは設定されない
-    });
-
-    it('should handle errors during loading (e.g., corrupted data)', () => {
-      // 不正なデータをlocalStorageに設定
-      localStorage.setItem(DRAFTS_KEY, '{"invalid": "json"}');
-      const loadedDraft = storageService.loadDraft('any-id');
-      expect(loadedDraft).toBeNull();
-      // console.errorが呼ばれたことを確認したいが、ここでは省略
+      expect(await storageService.getCurrentDraftId()).toBeNull(); // current IDは設定されない
     });
   });
 
   describe('loadLastDraft', () => {
-    let draft1: Draft;
     let draft2: Draft;
 
-    beforeEach(() => {
+    beforeEach(async () => {
       // テストデータを準備
-      const id1 = storageService.saveDraft('Content 1', 'File1');
-      storageService.saveDraft('Content 2', 'File2'); // draft2を保存してcurrentを更新
-      const drafts = JSON.parse(localStorage.getItem(DRAFTS_KEY) || '{}');
-      draft1 = drafts[id1!];
-      draft2 = drafts[Object.keys(drafts).find((k) => k !== id1)!]; // draft2を取得
+      await storageService.saveDraft('Content 1', 'File1');
+      const id2 = await storageService.saveDraft('Content 2', 'File2'); // draft2を保存してcurrentを更新
+      const drafts = await readStoredDrafts();
+      draft2 = drafts[id2!];
     });
 
-    it('should load the last saved/updated draft', () => {
-      const lastDraft = storageService.loadLastDraft();
+    it('should load the last saved/updated draft', async () => {
+      const lastDraft = await storageService.loadLastDraft();
       expect(lastDraft).toEqual(draft2); // 最後にsaveDraftされたdraft2がロードされる
     });
 
-    it('should return null if current draft ID is not set', () => {
-      localStorage.removeItem(CURRENT_DRAFT_ID_KEY);
-      const lastDraft = storageService.loadLastDraft();
+    it('should return null if current draft ID is not set', async () => {
+      await storageService.clearCurrentDraftId();
+      const lastDraft = await storageService.loadLastDraft();
       expect(lastDraft).toBeNull();
     });
 
-    it('should return null if the current draft ID points to a non-existent draft', () => {
-      localStorage.setItem(CURRENT_DRAFT_ID_KEY, 'non-existent-id');
-      const lastDraft = storageService.loadLastDraft();
+    it('should return null if the current draft ID points to a non-existent draft', async () => {
+      await storageService.setCurrentDraftId('non-existent-id');
+      const lastDraft = await storageService.loadLastDraft();
       expect(lastDraft).toBeNull();
     });
   });
 
   describe('getAllDrafts', () => {
-    it('should return an empty array when no drafts exist', () => {
-      const drafts = storageService.getAllDrafts();
+    it('should return an empty array when no drafts exist', async () => {
+      const drafts = await storageService.getAllDrafts();
       expect(drafts).toEqual([]);
     });
 
     it('should return all drafts sorted by lastModified descending', async () => {
       // 異なる時間に下書きを作成
-      const id1 = storageService.saveDraft('Content 1', 'File1'); // oldest
+      const id1 = await storageService.saveDraft('Content 1', 'File1'); // oldest
       await new Promise((resolve) => setTimeout(resolve, 10)); // 少し待機
-      const id2 = storageService.saveDraft('Content 2', 'File2');
+      const id2 = await storageService.saveDraft('Content 2', 'File2');
       await new Promise((resolve) => setTimeout(resolve, 10));
-      const id3 = storageService.saveDraft('Content 3', 'File3'); // newest
+      const id3 = await storageService.saveDraft('Content 3', 'File3'); // newest
 
-      const allDrafts = storageService.getAllDrafts();
-      const storedDrafts = JSON.parse(localStorage.getItem(DRAFTS_KEY) || '{}');
+      const allDrafts = await storageService.getAllDrafts();
+      const storedDrafts = await readStoredDrafts();
 
       expect(allDrafts.length).toBe(3);
       expect(allDrafts[0]).toEqual(storedDrafts[id3!]); // newest first
@@ -190,56 +263,477 @@ describe('storageService', () => {
     let id1: string;
     let id2: string;
 
-    beforeEach(() => {
-      id1 = storageService.saveDraft('Content 1', 'File1')!;
-      id2 = storageService.saveDraft('Content 2', 'File2')!; // id2 is now current
+    beforeEach(async () => {
+      id1 = (await storageService.saveDraft('Content 1', 'File1'))!;
+      id2 = (await storageService.saveDraft('Content 2', 'File2'))!; // id2 is now current
     });
 
-    it('should delete an existing draft', () => {
-      const result = storageService.deleteDraft(id1);
+    it('should move an existing draft to the trash', async () => {
+      const result = await storageService.deleteDraft(id1);
       expect(result).toBe(true);
 
-      const drafts = JSON.parse(localStorage.getItem(DRAFTS_KEY) || '{}');
-      expect(drafts[id1]).toBeUndefined();
-      expect(drafts[id2]).toBeDefined();
-      expect(localStorage.getItem(CURRENT_DRAFT_ID_KEY)).toBe(id2); // current IDは変わらない
+      const drafts = await readStoredDrafts();
+      expect(drafts[id1].deletedAt).not.toBeNull(); // レコードは残り、削除日時が付く
+      expect(drafts[id2].deletedAt).toBeNull();
+      expect((await storageService.getAllDrafts()).map((d) => d.id)).toEqual([
+        id2,
+      ]);
+      expect(
+        await storageService.getAllDrafts({ includeTrashed: true })
+      ).toHaveLength(2);
+      expect(await storageService.getCurrentDraftId()).toBe(id2); // current IDは変わらない
     });
 
-    it('should delete the current draft and clear current ID', () => {
-      const result = storageService.deleteDraft(id2);
+    it('should trash the current draft and clear current ID', async () => {
+      const result = await storageService.deleteDraft(id2);
       expect(result).toBe(true);
-
-      const drafts = JSON.parse(localStorage.getItem(DRAFTS_KEY) || '{}');
-      expect(drafts[id1]).toBeDefined();
-      expect(drafts[id2]).toBeUndefined();
-      expect(localStorage.getItem(CURRENT_DRAFT_ID_KEY)).toBeNull(); // current IDがクリアされる
+      expect(await storageService.getCurrentDraftId()).toBeNull(); // current IDがクリアされる
+      expect(await storageService.loadDraft(id2)).toBeNull(); // ゴミ箱の下書きは開けない
     });
 
-    it('should return false for a non-existent draft ID', () => {
-      const result = storageService.deleteDraft('non-existent-id');
-      expect(result).toBe(false);
+    it('should return false for a non-existent or already trashed draft ID', async () => {
+      expect(await storageService.deleteDraft('non-existent-id')).toBe(false);
+      await storageService.deleteDraft(id1);
+      expect(await storageService.deleteDraft(id1)).toBe(false);
 
-      const drafts = JSON.parse(localStorage.getItem(DRAFTS_KEY) || '{}');
+      const drafts = await readStoredDrafts();
       expect(Object.keys(drafts).length).toBe(2); // 下書き数は変わらない
     });
   });
 
+  describe('Trash', () => {
+    let id: string;
+
+    beforeEach(async () => {
+      id = (await storageService.saveDraft('Content', 'File.md'))!;
+    });
+
+    it('should list trashed drafts and restore them', async () => {
+      await storageService.deleteDraft(id);
+      const trashed = await storageService.getTrashedDrafts();
+      expect(trashed.map((d) => d.id)).toEqual([id]);
+
+      expect(await storageService.restoreDraft(id)).toBe(true);
+      expect(await storageService.getTrashedDrafts()).toEqual([]);
+      expect((await storageService.loadDraft(id))?.content).toBe('Content');
+      expect(await storageService.restoreDraft(id)).toBe(false); // ゴミ箱にない
+    });
+
+    it('should restore to the top level when the folder no longer exists', async () => {
+      const folder = await storageService.createFolder('Work');
+      await storageService.moveDraftToFolder(id, folder!.id);
+      await storageService.deleteDraft(id);
+      const db = await openDraftDatabase();
+      const tx = db.transaction(FOLDERS_STORE, 'readwrite');
+      tx.objectStore(FOLDERS_STORE).delete(folder!.id); // フォルダだけ消えた状態
+      await transactionDone(tx);
+
+      await storageService.restoreDraft(id);
+      expect((await storageService.loadDraft(id))?.folderId).toBeNull();
+    });
+
+    it('should take a draft out of the trash when it is saved again', async () => {
+      await storageService.deleteDraft(id);
+      await storageService.saveDraft('Edited', 'File.md', id);
+
+      expect(await storageService.getTrashedDrafts()).toEqual([]);
+    });
+
+    it('should permanently delete drafts', async () => {
+      expect(await storageService.permanentlyDeleteDraft(id)).toBe(true);
+      expect(await readStoredDrafts()).toEqual({});
+      expect(await storageService.permanentlyDeleteDraft(id)).toBe(false);
+    });
+
+    it('should empty the trash', async () => {
+      const other = (await storageService.saveDraft('Other', 'Other.md'))!;
+      await storageService.deleteDraft(id);
+      await storageService.deleteDraft(other);
+
+      expect(await storageService.emptyTrash()).toBe(2);
+      expect(await readStoredDrafts()).toEqual({});
+    });
+
+    it('should purge drafts older than the retention period', async () => {
+      const recent = (await storageService.saveDraft('Recent', 'Recent.md'))!;
+      await storageService.deleteDraft(id);
+      await storageService.deleteDraft(recent);
+      expect(await storageService.getTrashRetentionDays()).toBe(
+        DEFAULT_TRASH_RETENTION_DAYS
+      );
+      expect(await storageService.setTrashRetentionDays(7)).toBe(true);
+
+      // 8日後: どちらも期限切れ / 6日後: どちらも残る
+      const day = 24 * 60 * 60 * 1000;
+      expect(
+        await storageService.purgeExpiredTrash(new Date(Date.now() + 6 * day))
+      ).toBe(0);
+      expect(
+        await storageService.purgeExpiredTrash(new Date(Date.now() + 8 * day))
+      ).toBe(2);
+      expect(await storageService.getTrashedDrafts()).toEqual([]);
+    });
+
+    it('should never purge when the retention period is 0', async () => {
+      await storageService.deleteDraft(id);
+      await storageService.setTrashRetentionDays(0);
+
+      const farFuture = new Date(Date.now() + 10 * 365 * 24 * 60 * 60 * 1000);
+      expect(await storageService.purgeExpiredTrash(farFuture)).toBe(0);
+      expect(await storageService.getTrashedDrafts()).toHaveLength(1);
+    });
+
+    it('should reject invalid retention periods', async () => {
+      expect(await storageService.setTrashRetentionDays(-1)).toBe(false);
+      expect(await storageService.setTrashRetentionDays(1.5)).toBe(false);
+    });
+  });
+
+  describe('Folders and tags', () => {
+    it('should create, rename and list folders sorted by name', async () => {
+      const b = await storageService.createFolder('  B  ');
+      const a = await storageService.createFolder('A');
+      expect(b?.name).toBe('B'); // 前後の空白は除去される
+      expect(await storageService.createFolder('   ')).toBeNull(); // 空の名前は不可
+
+      expect(await storageService.renameFolder(b!.id, 'C')).toBe(true);
+      const folders = await storageService.getAllFolders();
+      expect(folders.map((f) => f.name)).toEqual(['A', 'C']);
+      expect(folders[0].id).toBe(a!.id);
+    });
+
+    it('should move a draft into a folder while keeping it on save', async () => {
+      const folder = await storageService.createFolder('Work');
+      const id = (await storageService.saveDraft('Content', 'doc.md'))!;
+      const before = await storageService.loadDraft(id);
+
+      expect(await storageService.moveDraftToFolder(id, folder!.id)).toBe(true);
+      const moved = await storageService.loadDraft(id);
+      expect(moved?.folderId).toBe(folder!.id);
+      expect(moved?.lastModified).toBe(before?.lastModified); // 更新日時は変わらない
+
+      await storageService.saveDraft('Updated', 'doc.md', id);
+      expect((await storageService.loadDraft(id))?.folderId).toBe(folder!.id);
+    });
+
+    it('should reject moving a draft into a non-existent folder', async () => {
+      const id = (await storageService.saveDraft('Content'))!;
+      expect(await storageService.moveDraftToFolder(id, 'missing')).toBe(false);
+      expect((await storageService.loadDraft(id))?.folderId).toBeNull();
+    });
+
+    it('should normalize and persist tags', async () => {
+      const id = (await storageService.saveDraft('Content'))!;
+      expect(
+        await storageService.setDraftTags(id, [' work ', '', 'memo', 'work'])
+      ).toBe(true);
+      expect((await storageService.loadDraft(id))?.tags).toEqual([
+        'work',
+        'memo',
+      ]);
+
+      await storageService.saveDraft('Updated', null, id);
+      expect((await storageService.loadDraft(id))?.tags).toEqual([
+        'work',
+        'memo',
+      ]);
+    });
+
+    it('should not move a folder into its own subfolder', async () => {
+      const parent = await storageService.createFolder('Parent');
+      const child = await storageService.createFolder('Child', parent!.id);
+
+      expect(await storageService.moveFolder(parent!.id, child!.id)).toBe(
+        false
+      );
+      expect(await storageService.moveFolder(parent!.id, parent!.id)).toBe(
+        false
+      );
+      expect(await storageService.moveFolder(child!.id, null)).toBe(true);
+      const folders = await storageService.getAllFolders();
+      expect(folders.find((f) => f.id === child!.id)?.parentId).toBeNull();
+    });
+
+    it('should move contents to the parent when a folder is deleted', async () => {
+      const parent = await storageService.createFolder('Parent');
+      const folder = await storageService.createFolder('Folder', parent!.id);
+      const sub = await storageService.createFolder('Sub', folder!.id);
+      const id = (await storageService.saveDraft('Content'))!;
+      await storageService.moveDraftToFolder(id, folder!.id);
+
+      expect(await storageService.deleteFolder(folder!.id)).toBe(true);
+
+      const folders = await storageService.getAllFolders();
+      expect(folders.map((f) => f.id)).not.toContain(folder!.id);
+      expect(folders.find((f) => f.id === sub!.id)?.parentId).toBe(parent!.id);
+      expect((await storageService.loadDraft(id))?.folderId).toBe(parent!.id);
+    });
+  });
+
+  describe('Rename and duplicate', () => {
+    it('should rename a draft without changing its ID or timestamp', async () => {
+      const id = (await storageService.saveDraft('Content', 'old.md'))!;
+      const before = await storageService.loadDraft(id);
+
+      expect(await storageService.renameDraft(id, '  new.md  ')).toBe(true);
+      const renamed = await storageService.loadDraft(id);
+      expect(renamed?.fileName).toBe('new.md');
+      expect(renamed?.lastModified).toBe(before?.lastModified);
+
+      expect(await storageService.renameDraft(id, '   ')).toBe(false); // 空の名前は不可
+      expect(await storageService.renameDraft('missing', 'x.md')).toBe(false);
+    });
+
+    it('should keep working with IDs created by older versions', async () => {
+      const legacyId = 'file_memo.md_2024-01-01T00:00:00.000Z';
+      await storageService.importRecords([
+        {
+          id: legacyId,
+          content: 'Legacy',
+          lastModified: '2024-01-01T00:00:00.000Z',
+          fileName: 'memo.md',
+          folderId: null,
+          tags: [],
+          deletedAt: null,
+        },
+      ]);
+
+      expect(await storageService.renameDraft(legacyId, 'renamed.md')).toBe(
+        true
+      );
+      expect(
+        await storageService.saveDraft('Updated', 'renamed.md', legacyId)
+      ).toBe(legacyId);
+      expect((await storageService.loadDraft(legacyId))?.content).toBe(
+        'Updated'
+      );
+    });
+
+    it('should duplicate a draft with a new ID, folder and tags', async () => {
+      const folder = await storageService.createFolder('Work');
+      const id = (await storageService.saveDraft('Content', 'memo.md'))!;
+      await storageService.moveDraftToFolder(id, folder!.id);
+      await storageService.setDraftTags(id, ['work']);
+
+      const copy = await storageService.duplicateDraft(id);
+      expect(copy).not.toBeNull();
+      expect(copy!.id).not.toBe(id);
+      expect(copy!.fileName).toBe('memo のコピー.md');
+      expect(copy!.folderId).toBe(folder!.id);
+      expect(copy!.tags).toEqual(['work']);
+
+      const drafts = await readStoredDrafts();
+      expect(Object.keys(drafts)).toHaveLength(2);
+      expect(drafts[copy!.id].content).toBe('Content');
+    });
+
+    it('should duplicate with a given name and content', async () => {
+      const id = (await storageService.saveDraft('Saved', 'memo.md'))!;
+
+      const copy = await storageService.duplicateDraft(id, 'copy.md', 'Edited');
+      expect(copy?.fileName).toBe('copy.md');
+      expect(copy?.content).toBe('Edited');
+      expect((await storageService.loadDraft(id))?.content).toBe('Saved'); // 元の下書きは変わらない
+      expect(await storageService.duplicateDraft('missing')).toBeNull();
+    });
+  });
+
+  describe('Autosave settings', () => {
+    it('should store the autosave policy', async () => {
+      expect(await storageService.getAutosaveSettings()).toEqual(
+        DEFAULT_AUTOSAVE_SETTINGS
+      );
+      const settings = {
+        mode: 'interval' as const,
+        idleDelayMs: 5000,
+        intervalMs: 120000,
+        saveUntitled: true,
+      };
+
+      expect(await storageService.setAutosaveSettings(settings)).toBe(true);
+      expect(await storageService.getAutosaveSettings()).toEqual(settings);
+    });
+
+    it('should reject invalid settings', async () => {
+      expect(
+        await storageService.setAutosaveSettings({
+          ...DEFAULT_AUTOSAVE_SETTINGS,
+          idleDelayMs: 0,
+        })
+      ).toBe(false);
+      expect(
+        await storageService.setAutosaveSettings({
+          ...DEFAULT_AUTOSAVE_SETTINGS,
+          mode: 'sometimes' as never,
+        })
+      ).toBe(false);
+    });
+
+    it('should fall back to defaults for invalid stored fields', async () => {
+      const db = await openDraftDatabase();
+      const tx = db.transaction(META_STORE, 'readwrite');
+      tx.objectStore(META_STORE).put(
+        { mode: 'blur', intervalMs: 'soon' },
+        AUTOSAVE_SETTINGS_KEY
+      );
+      await transactionDone(tx);
+
+      expect(await storageService.getAutosaveSettings()).toEqual({
+        ...DEFAULT_AUTOSAVE_SETTINGS,
+        mode: 'blur',
+      });
+    });
+  });
+
+  describe('Lint settings', () => {
+    it('should store the enabled lint rules', async () => {
+      expect(await storageService.getLintSettings()).toEqual(
+        DEFAULT_LINT_SETTINGS
+      );
+      const settings = { ...DEFAULT_LINT_SETTINGS, 'image-alt': false };
+
+      expect(await storageService.setLintSettings(settings)).toBe(true);
+      expect(await storageService.getLintSettings()).toEqual(settings);
+    });
+
+    it('should reject unknown rules', async () => {
+      expect(
+        await storageService.setLintSettings({
+          ...DEFAULT_LINT_SETTINGS,
+          'no-emoji': true,
+        } as never)
+      ).toBe(false);
+    });
+  });
+
+  describe('Keybinding mode', () => {
+    it('should store the keybinding mode', async () => {
+      expect(await storageService.getKeybindingMode()).toBe('default');
+
+      expect(await storageService.setKeybindingMode('vim')).toBe(true);
+      expect(await storageService.getKeybindingMode()).toBe('vim');
+      expect(await storageService.setKeybindingMode('nano' as never)).toBe(
+        false
+      );
+      expect(await storageService.getKeybindingMode()).toBe('vim');
+    });
+  });
+
+  describe('Shortcut overrides', () => {
+    it('should store normalized overrides and reject invalid keys', async () => {
+      expect(await storageService.getShortcutOverrides()).toEqual({});
+
+      // 保存した形 (正規化済み) を返す
+      expect(
+        await storageService.setShortcutOverrides({ bold: 'shift-mod-B' })
+      ).toEqual({ bold: 'Mod-Shift-b' });
+      expect(await storageService.getShortcutOverrides()).toEqual({
+        bold: 'Mod-Shift-b',
+      });
+      // 修飾キーのないキーは文字入力を妨げるため保存しない
+      expect(
+        await storageService.setShortcutOverrides({ italic: 'i' })
+      ).toBeNull();
+      expect(
+        await storageService.setShortcutOverrides({ unknown: 'Mod-u' } as never)
+      ).toBeNull();
+      expect(await storageService.getShortcutOverrides()).toEqual({
+        bold: 'Mod-Shift-b',
+      });
+    });
+  });
+
   describe('Current Draft ID Management', () => {
-    it('should get the current draft ID', () => {
-      expect(storageService.getCurrentDraftId()).toBeNull(); // Initially null
-      localStorage.setItem(CURRENT_DRAFT_ID_KEY, 'test-id');
-      expect(storageService.getCurrentDraftId()).toBe('test-id');
+    it('should get the current draft ID', async () => {
+      expect(await storageService.getCurrentDraftId()).toBeNull(); // Initially null
+      await storageService.setCurrentDraftId('test-id');
+      expect(await storageService.getCurrentDraftId()).toBe('test-id');
     });
 
-    it('should set the current draft ID', () => {
-      storageService.setCurrentDraftId('new-test-id');
-      expect(localStorage.getItem(CURRENT_DRAFT_ID_KEY)).toBe('new-test-id');
+    it('should set the current draft ID', async () => {
+      await storageService.setCurrentDraftId('new-test-id');
+      expect(await storageService.getCurrentDraftId()).toBe('new-test-id');
     });
 
-    it('should clear the current draft ID', () => {
-      localStorage.setItem(CURRENT_DRAFT_ID_KEY, 'test-id');
-      storageService.clearCurrentDraftId();
-      expect(localStorage.getItem(CURRENT_DRAFT_ID_KEY)).toBeNull();
+    it('should clear the current draft ID', async () => {
+      await storageService.setCurrentDraftId('test-id');
+      await storageService.clearCurrentDraftId();
+      expect(await storageService.getCurrentDraftId()).toBeNull();
+    });
+  });
+
+  describe('Migration from localStorage', () => {
+    // 旧形式の下書きには folderId / tags がない
+    const legacyDrafts: Record<
+      string,
+      Omit<Draft, 'folderId' | 'tags' | 'deletedAt'>
+    > = {
+      draft1: {
+        id: 'draft1',
+        content: 'Legacy 1',
+        lastModified: '2024-01-01T00:00:00.000Z',
+        fileName: 'legacy1.md',
+      },
+      draft2: {
+        id: 'draft2',
+        content: 'Legacy 2',
+        lastModified: '2024-01-02T00:00:00.000Z',
+        fileName: null,
+      },
+    };
+
+    it('should move legacy drafts and current ID into IndexedDB', async () => {
+      localStorage.setItem(LEGACY_DRAFTS_KEY, JSON.stringify(legacyDrafts));
+      localStorage.setItem(LEGACY_CURRENT_DRAFT_ID_KEY, 'draft1');
+
+      const drafts = await storageService.getAllDrafts();
+      expect(drafts).toEqual([
+        { ...legacyDrafts.draft2, folderId: null, tags: [], deletedAt: null },
+        { ...legacyDrafts.draft1, folderId: null, tags: [], deletedAt: null },
+      ]);
+      expect(await storageService.getCurrentDraftId()).toBe('draft1');
+
+      // 移行後は旧キーが削除される
+      expect(localStorage.getItem(LEGACY_DRAFTS_KEY)).toBeNull();
+      expect(localStorage.getItem(LEGACY_CURRENT_DRAFT_ID_KEY)).toBeNull();
+    });
+
+    it('should keep newer IndexedDB records over older legacy copies', async () => {
+      await storageService.saveDraft('Newer content', 'legacy1.md', 'draft1');
+      await closeDraftDatabase(); // 次回起動を再現
+      localStorage.setItem(LEGACY_DRAFTS_KEY, JSON.stringify(legacyDrafts));
+
+      const draft = await storageService.loadDraft('draft1');
+      expect(draft?.content).toBe('Newer content');
+      expect((await storageService.loadDraft('draft2'))?.content).toBe(
+        'Legacy 2'
+      );
+    });
+
+    it('should quarantine unreadable legacy data', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      localStorage.setItem(LEGACY_DRAFTS_KEY, '{invalid json');
+
+      expect(await storageService.getAllDrafts()).toEqual([]);
+      expect(localStorage.getItem(LEGACY_DRAFTS_KEY)).toBeNull();
+      // 読めなかったデータは隔離領域にそのまま残る
+      const [entry] = await storageMigrations.getQuarantinedEntries();
+      expect(entry.key).toBe(LEGACY_DRAFTS_KEY);
+      expect(entry.data).toBe('{invalid json');
+
+      errorSpy.mockRestore();
+    });
+
+    it('should quarantine malformed legacy entries and move the rest', async () => {
+      localStorage.setItem(
+        LEGACY_DRAFTS_KEY,
+        JSON.stringify({ ...legacyDrafts, bad: { content: 'no id' } })
+      );
+
+      expect(await storageService.getAllDrafts()).toHaveLength(2);
+      const [entry] = await storageMigrations.getQuarantinedEntries();
+      expect(entry.key).toBe('bad');
+      expect(entry.data).toEqual({ content: 'no id' });
     });
   });
 });
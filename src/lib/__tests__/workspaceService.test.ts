@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import { workspaceService } from '../workspaceService';
+import type { WorkspaceArchive } from '../workspaceService';
+import { storageService } from '../storageService';
+import { closeDraftDatabase } from '../draftDatabase';
+import { imageStore } from '../imageStore';
+
+// テストごとに空のIndexedDBを用意する
+beforeEach(async () => {
+  await closeDraftDatabase();
+  vi.stubGlobal('indexedDB', new IDBFactory());
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+// --- ヘルパー ---
+// BlobをUint8Arrayとして読み込む (jsdomのBlobにはarrayBuffer()がない場合がある)
+const readBlob = (blob: Blob): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+// エクスポートしてすぐ読み戻す
+const exportAndRead = async (): Promise<WorkspaceArchive> => {
+  const blob = await workspaceService.exportWorkspace();
+  expect(blob).not.toBeNull();
+  return workspaceService.readArchive(await readBlob(blob!))!;
+};
+
+describe('workspaceService', () => {
+  describe('exportWorkspace', () => {
+    it('should write every draft as a .md file plus a manifest', async () => {
+      await storageService.saveDraft('# A', 'a.md');
+      await storageService.saveDraft('# Untitled');
+
+      const files = unzipSync(
+        await readBlob((await workspaceService.exportWorkspace())!)
+      );
+      const paths = Object.keys(files).sort();
+      expect(paths).toContain('manifest.json');
+      expect(paths).toContain('drafts/a.md');
+      expect(paths.filter((p) => p.endsWith('.md'))).toHaveLength(2);
+    });
+
+    it('should give drafts with the same file name unique paths', async () => {
+      await storageService.saveDraft('one', 'same.md');
+      await storageService.saveDraft('two', 'same.md');
+
+      const files = unzipSync(
+        await readBlob((await workspaceService.exportWorkspace())!)
+      );
+      expect(Object.keys(files)).toEqual(
+        expect.arrayContaining(['drafts/same.md', 'drafts/same-2.md'])
+      );
+    });
+
+    it('should export only the given drafts', async () => {
+      const id = (await storageService.saveDraft('keep', 'keep.md'))!;
+      await storageService.saveDraft('other', 'other.md');
+
+      const blob = await workspaceService.exportWorkspace([id]);
+      const archive = workspaceService.readArchive(await readBlob(blob!))!;
+      expect(archive.drafts.map((d) => d.id)).toEqual([id]);
+    });
+
+    it('should add referenced images as files and keep the references', async () => {
+      const hash = (await imageStore.saveImage(
+        new Blob(['png'], { type: 'image/png' })
+      ))!;
+      await imageStore.saveImage(new Blob(['unused'], { type: 'image/png' }));
+      await storageService.saveDraft(`![図](local-image:${hash})`, 'img.md');
+
+      const files = unzipSync(
+        await readBlob((await workspaceService.exportWorkspace())!)
+      );
+      // 参照されている画像だけをファイルとして含める
+      expect(Object.keys(files).filter((p) => p.startsWith('images/'))).toEqual(
+        [`images/${hash}.png`]
+      );
+      expect(strFromU8(files[`images/${hash}.png`])).toBe('png');
+      expect(strFromU8(files['drafts/img.md'])).toBe(
+        `![図](local-image:${hash})`
+      );
+    });
+  });
+
+  describe('readArchive', () => {
+    it('should round-trip drafts with their IDs, timestamps, folders and tags', async () => {
+      const folder = await storageService.createFolder('Work');
+      const id = (await storageService.saveDraft('Body', 'note.md'))!;
+      await storageService.moveDraftToFolder(id, folder!.id);
+      await storageService.setDraftTags(id, ['tag']);
+      const original = await storageService.loadDraft(id);
+
+      const archive = await exportAndRead();
+      expect(archive.drafts).toEqual([original]);
+      expect(archive.folders).toEqual([folder]);
+    });
+
+    it('should restore images under their hashes on import', async () => {
+      const hash = (await imageStore.saveImage(
+        new Blob(['png'], { type: 'image/png' })
+      ))!;
+      await storageService.saveDraft(`![図](local-image:${hash})`, 'img.md');
+      const archive = await exportAndRead();
+      expect(archive.images.map((image) => image.hash)).toEqual([hash]);
+
+      // 別のブラウザ (空のIndexedDB) に取り込む
+      await closeDraftDatabase();
+      vi.stubGlobal('indexedDB', new IDBFactory());
+      // 内容とハッシュが一致しない画像は取り込まない
+      archive.images.push({
+        ...archive.images[0],
+        hash: 'ffffffffffffffff',
+      });
+      expect(await workspaceService.importArchive(archive, 'skip')).not.toBe(
+        null
+      );
+      expect((await imageStore.getImage(hash))?.type).toBe('image/png');
+      expect(await imageStore.getImage('ffffffffffffffff')).toBeNull();
+    });
+
+    it('should return null for a zip without a manifest', () => {
+      const data = zipSync({ 'a.md': strToU8('x') });
+      expect(workspaceService.readArchive(data)).toBeNull();
+    });
+
+    it('should return null for data that is not a zip', () => {
+      expect(workspaceService.readArchive(strToU8('not a zip'))).toBeNull();
+    });
+  });
+
+  describe('importArchive', () => {
+    let archive: WorkspaceArchive;
+    let existingId: string;
+
+    beforeEach(async () => {
+      existingId = (await storageService.saveDraft('Original', 'doc.md'))!;
+      archive = await exportAndRead();
+      archive.drafts[0] = { ...archive.drafts[0], content: 'From archive' };
+      archive.drafts.push({
+        id: 'draft_new',
+        content: 'New draft',
+        fileName: 'new.md',
+        lastModified: '2024-01-01T00:00:00.000Z',
+        folderId: 'missing-folder',
+        tags: [],
+        deletedAt: null,
+      });
+    });
+
+    it('should detect drafts whose IDs already exist', async () => {
+      const conflicts = await workspaceService.findConflicts(archive);
+      expect(conflicts.map((d) => d.id)).toEqual([existingId]);
+    });
+
+    it('should treat drafts in the trash as conflicts', async () => {
+      await storageService.deleteDraft(existingId);
+      const conflicts = await workspaceService.findConflicts(archive);
+      expect(conflicts.map((d) => d.id)).toEqual([existingId]);
+    });
+
+    it('should skip conflicting drafts', async () => {
+      const summary = await workspaceService.importArchive(archive, 'skip');
+
+      expect(summary).toEqual({
+        added: 1,
+        overwritten: 0,
+        skipped: 1,
+        copied: 0,
+      });
+      expect((await storageService.loadDraft(existingId))?.content).toBe(
+        'Original'
+      );
+      const added = await storageService.loadDraft('draft_new');
+      expect(added?.content).toBe('New draft');
+      expect(added?.lastModified).toBe('2024-01-01T00:00:00.000Z'); // 元の日時を維持
+      expect(added?.folderId).toBeNull(); // 存在しないフォルダは解除される
+    });
+
+    it('should overwrite conflicting drafts', async () => {
+      const summary = await workspaceService.importArchive(
+        archive,
+        'overwrite'
+      );
+
+      expect(summary?.overwritten).toBe(1);
+      expect((await storageService.loadDraft(existingId))?.content).toBe(
+        'From archive'
+      );
+    });
+
+    it('should keep both copies under a new ID and file name', async () => {
+      const summary = await workspaceService.importArchive(archive, 'keepBoth');
+
+      expect(summary?.copied).toBe(1);
+      const drafts = await storageService.getAllDrafts();
+      expect(drafts).toHaveLength(3);
+      expect((await storageService.loadDraft(existingId))?.content).toBe(
+        'Original'
+      );
+      const copy = drafts.find(
+        (d) => d.id !== existingId && d.content === 'From archive'
+      );
+      expect(copy?.fileName).toBe('doc (2).md');
+    });
+  });
+});
@@ -1,6 +1,15 @@
-import { EditorView, KeyBinding } from '@codemirror/view';
-import { EditorSelection, Transaction, Line } from '@codemirror/state';
+import { Command, EditorView, KeyBinding } from '@codemirror/view';
+import {
+  ChangeSpec,
+  EditorSelection,
+  EditorState,
+  Extension,
+  Transaction,
+  Line,
+  Text,
+} from '@codemirror/state';
 import { indentMore, indentLess } from '@codemirror/commands';
+import { syntaxTree } from '@codemirror/language';
 import {
   SearchQuery,
   findNext as cmFindNext,
@@ -9,6 +18,37 @@ import {
   replaceAll as cmReplaceAll,
   setSearchQuery
 } from '@codemirror/search';
+import {
+  MarkdownTable,
+  TableAlignment,
+  createTable,
+  formatTable,
+  getCellIndex,
+  getCellRange,
+  isDelimiterRow,
+  isTableLine,
+  parseTable,
+} from '@/lib/markdownTable';
+import {
+  analyzeListLines,
+  bulletForLevel,
+  formatMarker,
+  isListBlockLine,
+  parseListItem,
+  renumberListLines,
+} from '@/lib/markdownList';
+import {
+  getHeadingLevels,
+  getSection,
+  getSectionAt,
+  getSiblingSection,
+  parseHeadingLine,
+  Section,
+} from '@/lib/markdownHeadings';
+import { Diagnostic, linter } from '@codemirror/lint';
+import { lintMarkdown, LintIssue } from '@/lib/markdownLint';
+import type { LintSettings, ShortcutId } from '@/types/editor';
+import { SHORTCUTS } from '@/lib/shortcuts';
 
 /**
  * Helper function to toggle surrounding characters around the selection.
@@ -332,9 +372,858 @@ export const toggleCodeBlock: (view: EditorView) => boolean = (view) => {
   return true;
 };
 
+/**
+ * Creates a CodeMirror command that replaces the whole document in a single
+ * transaction, so the change can be reverted with undo (e.g. restoring a snapshot).
+ * @param content - The new document content.
+ * @returns A CodeMirror command function.
+ */
+export const replaceDocumentCommand = (
+  content: string
+): ((view: EditorView) => boolean) => {
+  return (view: EditorView): boolean => {
+    const { state, dispatch } = view;
+    if (state.doc.toString() === content) return false; // Nothing to change
+    dispatch(
+      state.update({
+        changes: { from: 0, to: state.doc.length, insert: content },
+        selection: EditorSelection.cursor(0),
+        scrollIntoView: true,
+        userEvent: 'input.restore',
+      })
+    );
+    return true;
+  };
+};
+
+// --- Table Commands ---
+
+// The pipe table around a position, with the cell the position is in
+interface TableContext {
+  from: number; // Start of the header line
+  to: number; // End of the last body row
+  indent: string; // Leading whitespace of the header line (e.g. a table inside a list)
+  table: MarkdownTable;
+  row: number; // Body row index, or -1 for the header and delimiter rows
+  column: number;
+  offset: number; // Cursor offset within the cell content
+}
+
+// A cell to put the cursor in after a table edit
+interface CellTarget {
+  row: number; // Body row index, or -1 for the header
+  column: number;
+  offset?: number; // Cursor offset within the cell content; selects the content if omitted
+}
+
+/**
+ * Finds the pipe table (header, delimiter row and body rows) containing a position.
+ * @param state - The editor state.
+ * @param pos - The document position.
+ * @returns The table and the cell at the position, or null outside a table.
+ */
+const findTableAt = (state: EditorState, pos: number): TableContext | null => {
+  const { doc } = state;
+  const line = doc.lineAt(pos);
+  if (!isTableLine(line.text)) return null;
+
+  // Expand to the block of consecutive table-like lines
+  let first = line.number;
+  while (first > 1 && isTableLine(doc.line(first - 1).text)) first--;
+  let last = line.number;
+  while (last < doc.lines && isTableLine(doc.line(last + 1).text)) last++;
+
+  // The table starts at the line above the first delimiter row
+  let header = -1;
+  for (let i = first + 1; i <= last; i++) {
+    if (isDelimiterRow(doc.line(i).text)) {
+      header = i - 1;
+      break;
+    }
+  }
+  if (header === -1 || line.number < header) return null;
+
+  const lines: string[] = [];
+  for (let i = header; i <= last; i++) lines.push(doc.line(i).text);
+  const table = parseTable(lines);
+  if (!table) return null;
+
+  const headerLine = doc.line(header);
+  const column = Math.min(
+    getCellIndex(line.text, pos - line.from),
+    table.header.length - 1
+  );
+  const cell = getCellRange(line.text, column);
+  return {
+    from: headerLine.from,
+    to: doc.line(last).to,
+    indent: /^\s*/.exec(headerLine.text)![0],
+    table,
+    row: Math.max(-1, line.number - header - 2),
+    column,
+    offset: cell ? Math.max(0, pos - line.from - cell.from) : 0,
+  };
+};
+
+/**
+ * Checks whether the main cursor is inside a pipe table.
+ * @param state - The editor state.
+ */
+export const isInTable = (state: EditorState): boolean =>
+  findTableAt(state, state.selection.main.head) !== null;
+
+/**
+ * Replaces a table with its formatted version in a single transaction and
+ * moves the cursor into a cell.
+ * @param view - The editor view.
+ * @param context - The table being edited.
+ * @param table - The edited table.
+ * @param target - The cell to move to.
+ */
+const replaceTable = (
+  view: EditorView,
+  context: TableContext,
+  table: MarkdownTable,
+  target: CellTarget
+): void => {
+  const lines = formatTable(table).map((line) => context.indent + line);
+  const lineIndex = target.row === -1 ? 0 : target.row + 2;
+  const lineStart =
+    context.from +
+    lines.slice(0, lineIndex).reduce((sum, line) => sum + line.length + 1, 0);
+  const cell = getCellRange(lines[lineIndex], target.column)!;
+  const selection =
+    target.offset === undefined
+      ? EditorSelection.range(lineStart + cell.from, lineStart + cell.to)
+      : EditorSelection.cursor(
+          lineStart + cell.from + Math.min(target.offset, cell.to - cell.from)
+        );
+  view.dispatch(
+    view.state.update({
+      changes: { from: context.from, to: context.to, insert: lines.join('\n') },
+      selection,
+      scrollIntoView: true,
+      userEvent: 'input',
+    })
+  );
+};
+
+/**
+ * Creates a CodeMirror command that edits the table at the cursor.
+ * @param edit - Returns the edited table and the cell to move to, or null if the edit does not apply.
+ * @returns A CodeMirror command function (false outside a table).
+ */
+const tableCommand = (
+  edit: (
+    context: TableContext,
+    table: MarkdownTable
+  ) => { table: MarkdownTable; target: CellTarget } | null
+): ((view: EditorView) => boolean) => {
+  return (view: EditorView): boolean => {
+    const context = findTableAt(view.state, view.state.selection.main.head);
+    if (!context) return false;
+    // Work on a copy so the edit can mutate freely
+    const table: MarkdownTable = {
+      header: [...context.table.header],
+      alignments: [...context.table.alignments],
+      rows: context.table.rows.map((row) => [...row]),
+    };
+    const result = edit(context, table);
+    if (!result) return false;
+    replaceTable(view, context, result.table, result.target);
+    return true;
+  };
+};
+
+const emptyRow = (table: MarkdownTable) =>
+  Array<string>(table.header.length).fill('');
+
+/**
+ * Creates a CodeMirror command that inserts an empty table below the current
+ * line (or in place of an empty line) and selects the first header cell.
+ * @param rowCount - Number of body rows.
+ * @param columnCount - Number of columns.
+ * @returns A CodeMirror command function.
+ */
+export const insertTableCommand = (
+  rowCount: number,
+  columnCount: number
+): ((view: EditorView) => boolean) => {
+  return (view: EditorView): boolean => {
+    const { state } = view;
+    const line = state.doc.lineAt(state.selection.main.head);
+    const text = formatTable(createTable(rowCount, columnCount)).join('\n');
+    // Keep a blank line between the table and the surrounding text
+    const isBlank = line.text.trim() === '';
+    const prevLine = line.number > 1 ? state.doc.line(line.number - 1) : null;
+    const nextLine =
+      line.number < state.doc.lines ? state.doc.line(line.number + 1) : null;
+    const before = !isBlank
+      ? '\n\n'
+      : prevLine && prevLine.text.trim() !== ''
+        ? '\n'
+        : '';
+    const after = nextLine && nextLine.text.trim() !== '' ? '\n' : '';
+    const from = isBlank ? line.from : line.to;
+    const insert = before + text + after;
+    const cell = getCellRange(text.split('\n')[0], 0)!;
+    view.dispatch(
+      state.update({
+        changes: { from, to: line.to, insert },
+        selection: EditorSelection.range(
+          from + before.length + cell.from,
+          from + before.length + cell.to
+        ),
+        scrollIntoView: true,
+        userEvent: 'input',
+      })
+    );
+    return true;
+  };
+};
+
+// Reformats the table so its columns line up, keeping the cursor in place
+export const formatTableCommand = tableCommand((context, table) => ({
+  table,
+  target: { row: context.row, column: context.column, offset: context.offset },
+}));
+
+// Adds an empty row below the current one (the first body row when in the header)
+export const addTableRowCommand = tableCommand((context, table) => {
+  const row = context.row + 1;
+  table.rows.splice(row, 0, emptyRow(table));
+  return { table, target: { row, column: context.column } };
+});
+
+// Deletes the current body row (the header row cannot be deleted)
+export const deleteTableRowCommand = tableCommand((context, table) => {
+  if (context.row === -1) return null;
+  table.rows.splice(context.row, 1);
+  const row = Math.min(context.row, table.rows.length - 1);
+  return { table, target: { row, column: context.column } };
+});
+
+// Adds an empty column to the right of the current one
+export const addTableColumnCommand = tableCommand((context, table) => {
+  const column = context.column + 1;
+  table.header.splice(column, 0, '');
+  table.alignments.splice(column, 0, null);
+  table.rows.forEach((row) => row.splice(column, 0, ''));
+  return { table, target: { row: context.row, column } };
+});
+
+// Deletes the current column (a table keeps at least one column)
+export const deleteTableColumnCommand = tableCommand((context, table) => {
+  if (table.header.length === 1) return null;
+  const remove = <T>(cells: T[]) => cells.splice(context.column, 1);
+  remove(table.header);
+  remove(table.alignments);
+  table.rows.forEach(remove);
+  const column = Math.min(context.column, table.header.length - 1);
+  return { table, target: { row: context.row, column } };
+});
+
+/**
+ * Creates a CodeMirror command that swaps the current column with its neighbour.
+ * @param direction - -1 to move the column left, 1 to move it right.
+ * @returns A CodeMirror command function (false at the edge of the table).
+ */
+export const moveTableColumnCommand = (direction: -1 | 1) =>
+  tableCommand((context, table) => {
+    const column = context.column + direction;
+    if (column < 0 || column >= table.header.length) return null;
+    const swap = <T>(cells: T[]) => {
+      [cells[context.column], cells[column]] = [
+        cells[column],
+        cells[context.column],
+      ];
+    };
+    swap(table.header);
+    swap(table.alignments);
+    table.rows.forEach(swap);
+    return {
+      table,
+      target: { row: context.row, column, offset: context.offset },
+    };
+  });
+
+/**
+ * Creates a CodeMirror command that sets the alignment of the current column.
+ * @param alignment - The new alignment (null removes it).
+ * @returns A CodeMirror command function.
+ */
+export const setTableAlignmentCommand = (alignment: TableAlignment) =>
+  tableCommand((context, table) => {
+    table.alignments[context.column] = alignment;
+    return {
+      table,
+      target: {
+        row: context.row,
+        column: context.column,
+        offset: context.offset,
+      },
+    };
+  });
+
+// Tab: reformat and move to the next cell, adding a row after the last cell
+const nextTableCell = tableCommand((context, table) => {
+  const columns = table.header.length;
+  if (context.column < columns - 1) {
+    return { table, target: { row: context.row, column: context.column + 1 } };
+  }
+  const row = context.row + 1;
+  if (row === table.rows.length) table.rows.push(emptyRow(table));
+  return { table, target: { row, column: 0 } };
+});
+
+// Shift-Tab: reformat and move to the previous cell
+const previousTableCell = tableCommand((context, table) => {
+  if (context.column > 0) {
+    return { table, target: { row: context.row, column: context.column - 1 } };
+  }
+  const row = Math.max(-1, context.row - 1);
+  const column = context.row === -1 ? 0 : table.header.length - 1;
+  return { table, target: { row, column } };
+});
+
+/**
+ * Enter in a table: reformats and moves to the same column in the next row,
+ * adding a row at the end. Enter on an empty last row removes it and leaves
+ * the table.
+ */
+const tableEnter = (view: EditorView): boolean => {
+  const { state } = view;
+  if (state.selection.ranges.length > 1) return false;
+  const context = findTableAt(state, state.selection.main.head);
+  if (!context) return false;
+  const { table } = context;
+  const isLastRow = context.row === table.rows.length - 1 && context.row >= 0;
+  if (isLastRow && table.rows[context.row].every((cell) => cell === '')) {
+    const rows = table.rows.slice(0, -1);
+    const lines = formatTable({ ...table, rows }).map(
+      (line) => context.indent + line
+    );
+    const insert = lines.join('\n') + '\n';
+    view.dispatch(
+      state.update({
+        changes: { from: context.from, to: context.to, insert },
+        selection: EditorSelection.cursor(context.from + insert.length),
+        scrollIntoView: true,
+        userEvent: 'input',
+      })
+    );
+    return true;
+  }
+  return tableCommand((_, copy) => {
+    const row = context.row + 1;
+    if (row === copy.rows.length) copy.rows.push(emptyRow(copy));
+    return { table: copy, target: { row, column: context.column } };
+  })(view);
+};
+
+// --- List Commands ---
+
+/**
+ * Checks whether a position is inside a fenced or indented code block,
+ * where list markers are just text.
+ * @param state - The editor state.
+ * @param pos - The document position.
+ */
+const isInCodeBlock = (state: EditorState, pos: number): boolean => {
+  const inner = syntaxTree(state).resolveInner(pos, -1);
+  for (let node: typeof inner | null = inner; node; node = node.parent) {
+    if (node.name === 'FencedCode' || node.name === 'CodeBlock') return true;
+  }
+  return false;
+};
+
+/**
+ * Finds the lines of the list around a range of lines: consecutive list
+ * lines, including blank lines between them (loose lists).
+ * @param doc - The document.
+ * @param fromLine - First line number of the range.
+ * @param toLine - Last line number of the range.
+ * @returns The first and last line numbers of the list block.
+ */
+const findListBlock = (
+  doc: Text,
+  fromLine: number,
+  toLine: number
+): { first: number; last: number } => {
+  const belongs = (n: number, step: -1 | 1): boolean => {
+    // Skip blank lines if the list goes on after them
+    while (n >= 1 && n <= doc.lines && doc.line(n).text.trim() === '') {
+      n += step;
+    }
+    return n >= 1 && n <= doc.lines && isListBlockLine(doc.line(n).text);
+  };
+  let first = fromLine;
+  while (first > 1 && belongs(first - 1, -1)) first--;
+  let last = toLine;
+  while (last < doc.lines && belongs(last + 1, 1)) last++;
+  return { first, last };
+};
+
+const blockLines = (doc: Text, first: number, last: number): string[] => {
+  const lines: string[] = [];
+  for (let n = first; n <= last; n++) lines.push(doc.line(n).text);
+  return lines;
+};
+
+// User events after which ordered lists are renumbered (not undo/redo or loaded text)
+const RENUMBER_EVENTS = ['input', 'delete', 'move'];
+
+/**
+ * Keeps ordered lists numbered consecutively: after an edit, the lists
+ * around the changed lines are renumbered in the same transaction, so a
+ * single undo reverts both.
+ */
+export const orderedListRenumbering: Extension =
+  EditorState.transactionFilter.of((tr) => {
+    if (
+      !tr.docChanged ||
+      !RENUMBER_EVENTS.some((event) => tr.isUserEvent(event))
+    ) {
+      return tr;
+    }
+    const doc = tr.newDoc;
+    const blocks = new Map<number, number>(); // First line -> last line
+    tr.changes.iterChangedRanges((_fromA, _toA, fromB, toB) => {
+      const { first, last } = findListBlock(
+        doc,
+        doc.lineAt(fromB).number,
+        doc.lineAt(toB).number
+      );
+      blocks.set(first, Math.max(last, blocks.get(first) ?? last));
+    });
+
+    const changes: ChangeSpec[] = [];
+    let coveredTo = 0; // Last line already renumbered (blocks may overlap)
+    [...blocks.entries()]
+      .sort(([a], [b]) => a - b)
+      .forEach(([first, last]) => {
+        if (last <= coveredTo) return;
+        const start = Math.max(first, coveredTo + 1);
+        renumberListLines(blockLines(doc, start, last)).forEach((change) => {
+          const line = doc.line(start + change.line);
+          changes.push({
+            from: line.from + change.from,
+            to: line.from + change.to,
+            insert: change.insert,
+          });
+        });
+        coveredTo = last;
+      });
+    return changes.length > 0 ? [tr, { changes, sequential: true }] : tr;
+  });
+
+/**
+ * Enter in a list item: continues the list with a new item of the same kind
+ * (the next number, an unchecked box for task items), moving the text after
+ * the cursor into it. Enter on an empty item removes the marker and ends the list.
+ */
+export const continueListCommand = (view: EditorView): boolean => {
+  const { state } = view;
+  const range = state.selection.main;
+  if (state.selection.ranges.length > 1 || !range.empty) return false;
+  const line = state.doc.lineAt(range.head);
+  const item = parseListItem(line.text);
+  if (!item || range.head < line.from + item.contentStart) return false;
+  if (isInCodeBlock(state, range.head)) return false;
+
+  if (line.text.slice(item.contentStart).trim() === '') {
+    view.dispatch(
+      state.update({
+        changes: { from: line.from, to: line.to, insert: '' },
+        selection: EditorSelection.cursor(line.from),
+        scrollIntoView: true,
+        userEvent: 'delete',
+      })
+    );
+    return true;
+  }
+
+  const marker = formatMarker(
+    item.number === null ? item : { ...item, number: item.number + 1 }
+  );
+  const checkbox = item.task ? '[ ] ' : '';
+  const insert = `\n${line.text.slice(0, item.indent)}${marker} ${checkbox}`;
+  // The moved text starts right after the new marker
+  const rest = line.text.slice(range.head - line.from);
+  const skipped = rest.length - rest.trimStart().length;
+  view.dispatch(
+    state.update({
+      changes: { from: range.head, to: range.head + skipped, insert },
+      selection: EditorSelection.cursor(range.head + insert.length),
+      scrollIntoView: true,
+      userEvent: 'input',
+    })
+  );
+  return true;
+};
+
+/**
+ * Creates a CodeMirror command that indents or outdents the selected list
+ * items together with their nested content. Indenting nests the items under
+ * the previous item, outdenting moves them next to their parent; bullets
+ * change to the style of their new nesting level.
+ * @param direction - 1 to indent, -1 to outdent.
+ * @returns A CodeMirror command function (false outside a list).
+ */
+const shiftListItems = (direction: -1 | 1): ((view: EditorView) => boolean) => {
+  return (view: EditorView): boolean => {
+    const { state } = view;
+    const { doc } = state;
+    const range = state.selection.main;
+    const firstLine = doc.lineAt(range.from);
+    const item = parseListItem(firstLine.text);
+    if (!item || isInCodeBlock(state, range.from)) return false;
+    const lastLine =
+      !range.empty && range.to === doc.lineAt(range.to).from
+        ? doc.lineAt(range.to - 1)
+        : doc.lineAt(range.to);
+
+    const block = findListBlock(doc, firstLine.number, lastLine.number);
+    const lines = blockLines(doc, block.first, block.last);
+    const info = analyzeListLines(lines);
+    const start = firstLine.number - block.first;
+
+    // Take the nested content of the selected items along
+    const isNested = (text: string) =>
+      /^\s*/.exec(text)![0].length > item.indent;
+    let end = lastLine.number - block.first;
+    while (
+      end + 1 < lines.length &&
+      (lines[end + 1].trim() === '' || isNested(lines[end + 1]))
+    ) {
+      end++;
+    }
+    while (end > start && lines[end].trim() === '') end--;
+
+    let delta: number;
+    if (direction === 1) {
+      const sibling = info[start].previousSibling;
+      if (sibling === -1) return true; // The first item has nothing to nest under
+      delta = info[sibling].item!.childIndent - item.indent;
+    } else {
+      const parent = info[start].parent;
+      if (parent === -1) return true; // Already at the top level
+      delta = info[parent].item!.indent - item.indent;
+    }
+
+    const shift = (text: string) =>
+      delta > 0
+        ? ' '.repeat(delta) + text
+        : text.slice(Math.min(-delta, /^\s*/.exec(text)![0].length));
+    const shifted = lines.map((text, i) =>
+      i >= start && i <= end && text.trim() !== '' ? shift(text) : text
+    );
+    const shiftedInfo = analyzeListLines(shifted);
+
+    const changes: ChangeSpec[] = [];
+    for (let i = start; i <= end; i++) {
+      const line = doc.line(block.first + i);
+      if (line.text.trim() === '') continue;
+      const removable = /^\s*/.exec(line.text)![0].length;
+      changes.push(
+        delta > 0
+          ? { from: line.from, insert: ' '.repeat(delta) }
+          : { from: line.from, to: line.from + Math.min(-delta, removable) }
+      );
+      const oldItem = parseListItem(line.text);
+      const { item: newItem, level, previousSibling } = shiftedInfo[i];
+      if (!oldItem || !newItem) continue;
+      const marker =
+        newItem.number === null
+          ? bulletForLevel(level)
+          : formatMarker({
+              ...newItem,
+              // A list that starts here is numbered from 1
+              number: previousSibling === -1 ? 1 : newItem.number,
+            });
+      if (marker !== formatMarker(oldItem)) {
+        changes.push({
+          from: line.from + oldItem.markerFrom,
+          to: line.from + oldItem.markerTo,
+          insert: marker,
+        });
+      }
+    }
+    view.dispatch(
+      state.update({
+        changes,
+        scrollIntoView: true,
+        userEvent: direction === 1 ? 'input.indent' : 'delete.dedent',
+      })
+    );
+    return true;
+  };
+};
+
+export const indentListItemCommand = shiftListItems(1);
+export const outdentListItemCommand = shiftListItems(-1);
+
+/**
+ * CodeMirror command to toggle an ordered list on the selected lines.
+ * Adding numbers the non-empty lines 1, 2, 3...; if the first line is
+ * already an ordered item, the numbers are removed from every line.
+ */
+export const toggleOrderedListCommand: (view: EditorView) => boolean = (
+  view
+) => {
+  const { state } = view;
+  const range = state.selection.main;
+  const fromLine = state.doc.lineAt(range.from);
+  const toLine =
+    !range.empty && range.to === state.doc.lineAt(range.to).from
+      ? state.doc.lineAt(range.to - 1)
+      : state.doc.lineAt(range.to);
+  const shouldRemove = parseListItem(fromLine.text)?.number != null;
+
+  const changes: ChangeSpec[] = [];
+  let number = 1;
+  for (let n = fromLine.number; n <= toLine.number; n++) {
+    const line = state.doc.line(n);
+    const item = parseListItem(line.text);
+    if (shouldRemove) {
+      if (item && item.number !== null) {
+        changes.push({
+          from: line.from + item.markerFrom,
+          to: line.from + item.childIndent,
+        });
+      }
+    } else if (line.text.trim() !== '' || fromLine.number === toLine.number) {
+      changes.push({ from: line.from, insert: `${number++}. ` });
+    }
+  }
+  if (changes.length === 0) return false;
+  view.dispatch(
+    state.update({ changes, scrollIntoView: true, userEvent: 'input' })
+  );
+  return true;
+};
+
+// --- Heading Commands ---
+
+/**
+ * Line numbers (1-based) covered by the main selection. A selection ending at
+ * the start of a line does not include that line.
+ * @param state - The editor state.
+ */
+const selectedLineRange = (state: EditorState): { from: Line; to: Line } => {
+  const range = state.selection.main;
+  const from = state.doc.lineAt(range.from);
+  const to =
+    !range.empty && range.to === state.doc.lineAt(range.to).from
+      ? state.doc.lineAt(range.to - 1)
+      : state.doc.lineAt(range.to);
+  return { from, to: to.number < from.number ? from : to };
+};
+
+/**
+ * Creates a CodeMirror command that turns the selected lines into headings of
+ * a level (replacing any existing heading marker).
+ * @param level - 1-6, or 0 to turn headings back into plain paragraphs.
+ * @returns A CodeMirror command function.
+ */
+export const setHeadingLevelCommand = (
+  level: number
+): ((view: EditorView) => boolean) => {
+  return (view: EditorView): boolean => {
+    const { state } = view;
+    if (isInCodeBlock(state, state.selection.main.head)) return false;
+    const { from, to } = selectedLineRange(state);
+    const prefix = level > 0 ? '#'.repeat(level) + ' ' : '';
+    const changes: ChangeSpec[] = [];
+    for (let n = from.number; n <= to.number; n++) {
+      const line = state.doc.line(n);
+      if (line.text.trim() === '' && from.number !== to.number) continue;
+      const heading = parseHeadingLine(line.text);
+      const markerEnd = heading ? heading.markerEnd : 0;
+      if (line.text.slice(0, markerEnd) === prefix) continue; // Already at this level
+      changes.push({
+        from: line.from,
+        to: line.from + markerEnd,
+        insert: prefix,
+      });
+    }
+    if (changes.length === 0) return false;
+    view.dispatch(
+      state.update({ changes, scrollIntoView: true, userEvent: 'input' })
+    );
+    return true;
+  };
+};
+
+/**
+ * Creates a CodeMirror command that raises or lowers heading levels. It
+ * applies to the headings in the selection, or to the heading of the section
+ * the cursor is in.
+ * @param delta - -1 to promote (## → #), 1 to demote (# → ##).
+ * @param withSubsections - Also shift the headings of the subsections, keeping the outline's shape.
+ * @returns A CodeMirror command function (false if a heading would leave levels 1-6).
+ */
+export const shiftHeadingLevelCommand = (
+  delta: -1 | 1,
+  withSubsections = false
+): ((view: EditorView) => boolean) => {
+  return (view: EditorView): boolean => {
+    const { state } = view;
+    const levels = getHeadingLevels(state.doc.toJSON());
+    const { from, to } = selectedLineRange(state);
+
+    let targets: number[] = [];
+    for (let i = from.number - 1; i < to.number; i++) {
+      if (levels[i] > 0) targets.push(i);
+    }
+    if (targets.length === 0) {
+      const section = getSectionAt(levels, from.number - 1);
+      if (!section) return false;
+      targets = [section.start];
+    }
+    if (withSubsections) {
+      const all = new Set<number>();
+      targets.forEach((start) => {
+        const { end } = getSection(levels, start);
+        for (let i = start; i <= end; i++) if (levels[i] > 0) all.add(i);
+      });
+      targets = [...all].sort((a, b) => a - b);
+    }
+    if (targets.some((i) => levels[i] + delta < 1 || levels[i] + delta > 6)) {
+      return false;
+    }
+
+    const changes = targets.map((i) => {
+      const line = state.doc.line(i + 1);
+      const hashes = line.from + line.text.indexOf('#');
+      return {
+        from: hashes,
+        to: hashes + levels[i],
+        insert: '#'.repeat(levels[i] + delta),
+      };
+    });
+    view.dispatch(
+      state.update({ changes, scrollIntoView: true, userEvent: 'input' })
+    );
+    return true;
+  };
+};
+
+/**
+ * Creates a CodeMirror command that swaps the section at the cursor (its
+ * heading, body and subsections) with the previous or next section of the
+ * same level. Blank lines between the sections stay in place.
+ * @param direction - -1 to move up, 1 to move down.
+ * @returns A CodeMirror command function (false if there is no sibling section to move past).
+ */
+export const moveSectionCommand = (
+  direction: -1 | 1
+): ((view: EditorView) => boolean) => {
+  return (view: EditorView): boolean => {
+    const { state } = view;
+    const { doc } = state;
+    const lines = doc.toJSON();
+    const levels = getHeadingLevels(lines);
+    const head = state.selection.main.head;
+    const section = getSectionAt(levels, doc.lineAt(head).number - 1);
+    if (!section) return false;
+    const sibling = getSiblingSection(levels, section, direction);
+    if (!sibling) return false;
+
+    // Trailing blank lines separate the sections and are not moved
+    const contentEnd = ({ start, end }: Section) => {
+      while (end > start && lines[end].trim() === '') end--;
+      return doc.line(end + 1).to;
+    };
+    const [first, second] =
+      direction === -1 ? [sibling, section] : [section, sibling];
+    const from = doc.line(first.start + 1).from;
+    const firstText = doc.sliceString(from, contentEnd(first));
+    const between = doc.sliceString(
+      contentEnd(first),
+      doc.line(second.start + 1).from
+    );
+    const secondFrom = doc.line(second.start + 1).from;
+    const secondText = doc.sliceString(secondFrom, contentEnd(second));
+
+    // Keep the cursor at the same place within the moved section
+    const sectionFrom = direction === -1 ? secondFrom : from;
+    const movedText = direction === -1 ? secondText : firstText;
+    const offset = Math.min(head - sectionFrom, movedText.length);
+    const newStart =
+      direction === -1 ? from : from + secondText.length + between.length;
+    view.dispatch(
+      state.update({
+        changes: {
+          from,
+          to: contentEnd(second),
+          insert: secondText + between + firstText,
+        },
+        selection: EditorSelection.cursor(newStart + offset),
+        scrollIntoView: true,
+        userEvent: 'move.section',
+      })
+    );
+    return true;
+  };
+};
+
+// --- Lint ---
+
+/**
+ * Applies the fix of a lint issue. The document is checked again first, so
+ * the fix is based on the current text even if it changed since the issue
+ * was reported.
+ * @param view - The editor view.
+ * @param issue - The reported issue.
+ * @param from - The start of the issue, mapped through later changes.
+ * @param settings - The enabled rules.
+ */
+const applyLintFix = (
+  view: EditorView,
+  issue: LintIssue,
+  from: number,
+  settings: LintSettings
+) => {
+  const current = lintMarkdown(view.state.doc.toString(), {
+    ...settings,
+    [issue.rule]: true,
+  }).find((i) => i.rule === issue.rule && i.from === from);
+  if (!current?.fix) return;
+  view.dispatch({ changes: current.fix.changes, userEvent: 'input.lint' });
+};
+
+/**
+ * Creates the Markdown linter. Issues with a fix get a button that applies it.
+ * @param getSettings - Returns the enabled rules (read on every check).
+ * @returns The linter extension.
+ */
+export const markdownLinter = (getSettings: () => LintSettings): Extension =>
+  linter(
+    (view): Diagnostic[] => {
+      const settings = getSettings();
+      return lintMarkdown(view.state.doc.toString(), settings).map((issue) => ({
+        from: issue.from,
+        to: issue.to,
+        severity: issue.severity,
+        message: issue.message,
+        source: issue.rule,
+        actions: issue.fix
+          ? [
+              {
+                name: issue.fix.label,
+                apply: (view, from) =>
+                  applyLintFix(view, issue, from, settings),
+              },
+            ]
+          : [],
+      }));
+    },
+    { delay: 500 }
+  );
+
 // --- Specific Command Exports ---
 export const toggleBulletListCommand = toggleLinePrefix('- ');
-export const toggleOrderedListCommand = toggleLinePrefix('1. '); // Basic implementation
 export const toggleQuoteCommand = toggleLinePrefix('> ');
 export const toggleCodeBlockCommand = toggleCodeBlock;
 
@@ -449,18 +1338,78 @@ export const replaceAllCommand = (
 };
 
 
+/**
+ * Finds every match of a search term in a document without needing an editor view.
+ * Uses the same matching rules as the editor search commands.
+ * @param doc - The document text.
+ * @param searchTerm - The text or regular expression to search for.
+ * @param options - Search options (regex, case sensitivity, whole word).
+ * @returns The match ranges in document order, or null if the query is invalid (e.g. a broken regex).
+ */
+export const findAllMatches = (
+  doc: Text,
+  searchTerm: string,
+  options: SearchOptions
+): { from: number; to: number }[] | null => {
+  if (!searchTerm) return [];
+  const query = createSearchQueryInstance(searchTerm, options);
+  if (!query.valid) return null;
+
+  const matches: { from: number; to: number }[] = [];
+  const cursor = query.getCursor(doc);
+  for (let next = cursor.next(); !next.done; next = cursor.next()) {
+    matches.push({ from: next.value.from, to: next.value.to });
+  }
+  return matches;
+};
+
 // --- Combined Keymap for Editor ---
-export const markdownKeymap: readonly KeyBinding[] = [
-  { key: 'Mod-b', run: toggleSurroundingCharacters('**') },
-  { key: 'Mod-i', run: toggleSurroundingCharacters('_') },
-  { key: 'Mod-Shift-x', run: toggleSurroundingCharacters('~~') }, // Example for strikethrough
-  { key: 'Mod-e', run: toggleSurroundingCharacters('`') }, // Example for inline code
-  { key: 'Mod-k', run: insertLinkCommand },
-  // { key: "Mod-/", run: toggleComment }, // Often included in defaultKeymap
-  // { key: "Tab", run: indentMore }, // Included in defaultKeymap or indentWithTab
-  // { key: "Shift-Tab", run: indentLess }, // Included in defaultKeymap
-  // New block formatting shortcuts
-  { key: 'Mod-l', run: toggleBulletListCommand }, // Cmd/Ctrl + L for bullet list
-  { key: "Mod-'", run: toggleQuoteCommand }, // Cmd/Ctrl + ' for quote
-  { key: 'Mod-Alt-c', run: toggleCodeBlockCommand }, // Cmd/Ctrl + Alt + C for code block
+// Commands of the editor actions in the shortcut registry (see lib/shortcuts)
+export const EDITOR_SHORTCUT_COMMANDS: Partial<Record<ShortcutId, Command>> = {
+  bold: toggleSurroundingCharacters('**'),
+  italic: toggleSurroundingCharacters('_'),
+  strikethrough: toggleSurroundingCharacters('~~'),
+  inlineCode: toggleSurroundingCharacters('`'),
+  link: insertLinkCommand,
+  bulletList: toggleBulletListCommand,
+  quote: toggleQuoteCommand,
+  codeBlock: toggleCodeBlockCommand,
+  heading1: setHeadingLevelCommand(1),
+  heading2: setHeadingLevelCommand(2),
+  heading3: setHeadingLevelCommand(3),
+  heading4: setHeadingLevelCommand(4),
+  heading5: setHeadingLevelCommand(5),
+  heading6: setHeadingLevelCommand(6),
+  promoteHeading: shiftHeadingLevelCommand(-1),
+  demoteHeading: shiftHeadingLevelCommand(1),
+  promoteSection: shiftHeadingLevelCommand(-1, true),
+  demoteSection: shiftHeadingLevelCommand(1, true),
+  moveSectionUp: moveSectionCommand(-1),
+  moveSectionDown: moveSectionCommand(1),
+  formatTable: formatTableCommand, // Falls through outside tables
+};
+
+/**
+ * Builds the keymap of the Markdown formatting and structure commands.
+ * @param keys - The key of every action (see resolveShortcutKeys).
+ * @returns The key bindings of the editor actions.
+ */
+export const createMarkdownKeymap = (
+  keys: Record<ShortcutId, string>
+): KeyBinding[] =>
+  SHORTCUTS.filter((shortcut) => shortcut.scope === 'editor').map(({ id }) => ({
+    key: keys[id],
+    run: EDITOR_SHORTCUT_COMMANDS[id],
+  }));
+
+// List editing; these fall through to the normal Enter/Tab behaviour outside lists
+export const listKeymap: readonly KeyBinding[] = [
+  { key: 'Enter', run: continueListCommand },
+  { key: 'Tab', run: indentListItemCommand, shift: outdentListItemCommand },
+];
+
+// Table navigation; these fall through to the normal Tab/Enter behaviour outside tables
+export const tableKeymap: readonly KeyBinding[] = [
+  { key: 'Tab', run: nextTableCell, shift: previousTableCell },
+  { key: 'Enter', run: tableEnter },
 ];
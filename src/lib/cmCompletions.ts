@@ -0,0 +1,171 @@
+import {
+  Completion,
+  CompletionContext,
+  CompletionResult,
+  CompletionSource,
+} from '@codemirror/autocomplete';
+import { syntaxTree } from '@codemirror/language';
+import { EditorState, Extension } from '@codemirror/state';
+import hljs from 'highlight.js';
+import type { HeadingItem } from '@/types/editor';
+
+// Where the completion sources get the data that is not in the document
+export interface MarkdownCompletionOptions {
+  getHeadings: () => HeadingItem[]; // Headings of the current document, with their anchor IDs
+  getDraftNames: () => Promise<string[]>; // File names of the other drafts
+}
+
+const FOOTNOTE_DEFINITION = /^ {0,3}\[\^([^\]\s]+)\]:/;
+
+/**
+ * Finds the code block (fenced or indented) containing a position.
+ * @param state - The editor state.
+ * @param pos - The position.
+ * @returns The code block node, or null outside code blocks.
+ */
+const codeBlockAt = (state: EditorState, pos: number) => {
+  const inner = syntaxTree(state).resolveInner(pos, -1);
+  for (let node: typeof inner | null = inner; node; node = node.parent) {
+    if (node.name === 'FencedCode' || node.name === 'CodeBlock') return node;
+  }
+  return null;
+};
+
+/**
+ * Completes heading anchors in link targets: `](#`.
+ * @param getHeadings - Returns the headings of the current document.
+ */
+export const anchorCompletionSource =
+  (getHeadings: () => HeadingItem[]): CompletionSource =>
+  (context: CompletionContext): CompletionResult | null => {
+    const match = context.matchBefore(/\]\(#[^)\s]*$/);
+    if (!match || codeBlockAt(context.state, context.pos)) return null;
+    return {
+      from: match.from + 3, // After "](#"
+      options: getHeadings().map(
+        (heading): Completion => ({
+          label: heading.id,
+          detail: heading.text,
+          type: 'keyword',
+          boost: -heading.level, // Higher-level headings first
+        })
+      ),
+      validFor: /^[^)\s]*$/,
+    };
+  };
+
+let languageOptions: Completion[] | null = null;
+
+/**
+ * Names and aliases of the languages highlight.js can highlight, built on first use.
+ */
+const getLanguageOptions = (): Completion[] => {
+  if (!languageOptions) {
+    const names = new Map<string, string>(); // Name or alias -> language name
+    for (const name of hljs.listLanguages()) {
+      names.set(name, hljs.getLanguage(name)?.name ?? name);
+      for (const alias of hljs.getLanguage(name)?.aliases ?? []) {
+        if (!names.has(alias)) names.set(alias, hljs.getLanguage(name)!.name!);
+      }
+    }
+    languageOptions = [...names].map(([label, detail]) => ({
+      label,
+      detail,
+      type: 'type',
+    }));
+  }
+  return languageOptions;
+};
+
+/**
+ * Completes the language of a code block after an opening fence ("```" or "~~~").
+ * Closing fences and lines inside code blocks are left alone.
+ */
+export const fenceLanguageCompletionSource: CompletionSource = (
+  context: CompletionContext
+): CompletionResult | null => {
+  const match = context.matchBefore(/^ {0,3}(?:`{3,}|~{3,})[\w+#.-]*$/);
+  if (!match) return null;
+  const block = codeBlockAt(context.state, context.pos);
+  const line = context.state.doc.lineAt(context.pos);
+  if (block && block.from < line.from) return null; // Closing fence or code
+  const word = /[\w+#.-]*$/.exec(match.text)![0];
+  return {
+    from: context.pos - word.length,
+    options: getLanguageOptions(),
+    validFor: /^[\w+#.-]*$/,
+  };
+};
+
+/**
+ * Completes the file names of other drafts in link targets: `](`.
+ * Names with spaces are wrapped in "<...>" so the link stays valid.
+ * @param getDraftNames - Returns the file names of the other drafts.
+ */
+export const draftLinkCompletionSource =
+  (getDraftNames: () => Promise<string[]>): CompletionSource =>
+  async (context: CompletionContext): Promise<CompletionResult | null> => {
+    const match = context.matchBefore(/\]\((?!#)[^)\s]*$/);
+    if (!match || codeBlockAt(context.state, context.pos)) return null;
+    const names = await getDraftNames();
+    return {
+      from: match.from + 2, // After "]("
+      options: names.map(
+        (name): Completion => ({
+          label: name,
+          apply: /\s/.test(name) ? `<${name}>` : name,
+          type: 'text',
+        })
+      ),
+      validFor: /^(?!#)[^)\s]*$/,
+    };
+  };
+
+/**
+ * Completes footnote references with the labels defined in the document: `[^`.
+ * The closing "]" is added unless it is already there.
+ */
+export const footnoteCompletionSource: CompletionSource = (
+  context: CompletionContext
+): CompletionResult | null => {
+  const match = context.matchBefore(/\[\^[^\]\s]*$/);
+  if (!match || codeBlockAt(context.state, context.pos)) return null;
+  const { doc } = context.state;
+  const current = doc.lineAt(context.pos).number;
+  const labels = new Set<string>();
+  for (let i = 1; i <= doc.lines; i++) {
+    const definition = FOOTNOTE_DEFINITION.exec(doc.line(i).text);
+    // The definition being typed is not a suggestion
+    if (definition && i !== current) labels.add(definition[1]);
+  }
+  if (labels.size === 0) return null;
+  const closed = doc.sliceString(context.pos, context.pos + 1) === ']';
+  return {
+    from: match.from + 2, // After "[^"
+    options: [...labels].map((label) => ({
+      label,
+      apply: closed ? label : `${label}]`,
+      type: 'variable',
+    })),
+    validFor: /^[^\]\s]*$/,
+  };
+};
+
+/**
+ * Registers the Markdown completion sources for the whole document.
+ * They are added to the language data, so they work next to the sources of
+ * the Markdown language itself.
+ * @param options - Where to get the headings and draft names.
+ * @returns The extension.
+ */
+export const markdownCompletions = (
+  options: MarkdownCompletionOptions
+): Extension => {
+  const data = [
+    { autocomplete: anchorCompletionSource(options.getHeadings) },
+    { autocomplete: fenceLanguageCompletionSource },
+    { autocomplete: draftLinkCompletionSource(options.getDraftNames) },
+    { autocomplete: footnoteCompletionSource },
+  ];
+  return EditorState.languageData.of(() => data);
+};
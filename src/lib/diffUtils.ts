@@ -1,4 +1,4 @@
-import { diffLines, type Change } from 'diff'; // Import Change type from 'diff'
+import { diffArrays, diffLines, type Change } from 'diff'; // Import Change type from 'diff'
 
 /**
  * Escapes HTML special characters in a string.
@@ -78,3 +78,167 @@ export const getDiffHtml = (
     return '<div class="p-4 text-destructive">差分の計算中にエラーが発生しました。</div>';
   }
 };
+
+// A section of a three-way merge: either agreed text or a conflict to resolve
+export type MergeChunk =
+  | { type: 'resolved'; lines: string[] } // Unchanged, or changed on one side only (or identically)
+  | { type: 'conflict'; base: string[]; mine: string[]; theirs: string[] }; // Both sides changed differently
+
+// How a conflict chunk is resolved
+export type MergeChoice = 'mine' | 'theirs' | 'both';
+
+// A replacement of base lines [start, end) by new lines
+interface LineHunk {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+/**
+ * Lists the changes from base to a modified version as hunks over base line ranges.
+ * @param base - Lines of the common base.
+ * @param modified - Lines of the modified version.
+ * @returns The hunks, ordered by position.
+ */
+const collectHunks = (base: string[], modified: string[]): LineHunk[] => {
+  const hunks: LineHunk[] = [];
+  let basePos = 0;
+  let open: LineHunk | null = null;
+  for (const part of diffArrays(base, modified)) {
+    if (!part.added && !part.removed) {
+      open = null; // Unchanged lines end the current hunk
+      basePos += part.value.length;
+      continue;
+    }
+    if (!open) {
+      open = { start: basePos, end: basePos, lines: [] };
+      hunks.push(open);
+    }
+    if (part.removed) {
+      basePos += part.value.length;
+      open.end = basePos;
+    } else {
+      open.lines.push(...part.value);
+    }
+  }
+  return hunks;
+};
+
+/**
+ * Applies one side's hunks to the base lines of a region.
+ * @param base - Lines of the common base.
+ * @param start - Region start (base line index).
+ * @param end - Region end (exclusive).
+ * @param hunks - That side's hunks inside the region.
+ * @returns The side's version of the region.
+ */
+const applyHunks = (
+  base: string[],
+  start: number,
+  end: number,
+  hunks: LineHunk[]
+): string[] => {
+  const result: string[] = [];
+  let pos = start;
+  hunks.forEach((hunk) => {
+    result.push(...base.slice(pos, hunk.start), ...hunk.lines);
+    pos = hunk.end;
+  });
+  result.push(...base.slice(pos, end));
+  return result;
+};
+
+/**
+ * Performs a line-based three-way merge of two versions against their common base.
+ * Changes made on only one side are taken automatically; regions changed on
+ * both sides (including directly adjacent changes) become conflicts unless
+ * both sides made the same change.
+ * @param base - The common ancestor text.
+ * @param mine - The local version.
+ * @param theirs - The other version.
+ * @returns The merge as a list of resolved and conflicting chunks.
+ */
+export const mergeThreeWay = (
+  base: string,
+  mine: string,
+  theirs: string
+): MergeChunk[] => {
+  const baseLines = base.split('\n');
+  const hunks = [
+    ...collectHunks(baseLines, mine.split('\n')).map((h) => ({
+      ...h,
+      side: 'mine' as const,
+    })),
+    ...collectHunks(baseLines, theirs.split('\n')).map((h) => ({
+      ...h,
+      side: 'theirs' as const,
+    })),
+  ].sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const chunks: MergeChunk[] = [];
+  const pushResolved = (lines: string[]) => {
+    if (lines.length === 0) return;
+    const last = chunks[chunks.length - 1];
+    if (last?.type === 'resolved') last.lines.push(...lines);
+    else chunks.push({ type: 'resolved', lines: [...lines] });
+  };
+
+  let pos = 0;
+  let i = 0;
+  while (i < hunks.length) {
+    // Group hunks whose base ranges overlap or touch
+    const group = [hunks[i]];
+    let end = hunks[i].end;
+    for (i++; i < hunks.length && hunks[i].start <= end; i++) {
+      group.push(hunks[i]);
+      end = Math.max(end, hunks[i].end);
+    }
+    const start = group[0].start;
+    pushResolved(baseLines.slice(pos, start));
+
+    const mineHunks = group.filter((h) => h.side === 'mine');
+    const theirHunks = group.filter((h) => h.side === 'theirs');
+    const mineLines = applyHunks(baseLines, start, end, mineHunks);
+    const theirLines = applyHunks(baseLines, start, end, theirHunks);
+    if (theirHunks.length === 0) {
+      pushResolved(mineLines);
+    } else if (
+      mineHunks.length === 0 ||
+      mineLines.join('\n') === theirLines.join('\n')
+    ) {
+      pushResolved(theirLines);
+    } else {
+      chunks.push({
+        type: 'conflict',
+        base: baseLines.slice(start, end),
+        mine: mineLines,
+        theirs: theirLines,
+      });
+    }
+    pos = end;
+  }
+  pushResolved(baseLines.slice(pos));
+  return chunks;
+};
+
+/**
+ * Builds the merged text from merge chunks and the choices for their conflicts.
+ * @param chunks - The result of mergeThreeWay.
+ * @param choices - One choice per conflict chunk, in order (missing choices keep mine).
+ * @returns The merged text.
+ */
+export const buildMergedText = (
+  chunks: MergeChunk[],
+  choices: MergeChoice[]
+): string => {
+  let conflictIndex = 0;
+  return chunks
+    .flatMap((chunk) => {
+      if (chunk.type === 'resolved') return chunk.lines;
+      const choice = choices[conflictIndex++] ?? 'mine';
+      if (choice === 'theirs') return chunk.theirs;
+      if (choice === 'both') return [...chunk.mine, ...chunk.theirs];
+      return chunk.mine;
+    })
+    .join('\n');
+};
@@ -0,0 +1,515 @@
+import {
+  openDraftDatabase,
+  requestToPromise,
+  transactionDone,
+  DRAFTS_STORE,
+  META_STORE,
+  SNAPSHOTS_STORE,
+  RECOVERY_STORE,
+  IMAGES_STORE,
+  ENCRYPTION_SETTINGS_KEY,
+} from '@/lib/draftDatabase';
+import { DraftsLockedError } from '@/lib/storageErrors';
+
+// PBKDF2 work factor for newly derived keys (stored with the settings)
+const PBKDF2_ITERATIONS = 310_000;
+// Known text encrypted with the key, used to tell whether a passphrase is right
+const CHECK_TEXT = 'openMdEditor';
+
+// AES-GCM ciphertext with its IV, both Base64 encoded
+export interface EncryptedText {
+  iv: string;
+  data: string;
+}
+
+// Encryption settings kept in the meta store while encryption is on
+interface EncryptionSettings {
+  salt: string; // Base64 PBKDF2 salt
+  iterations: number; // PBKDF2 iterations used for the key
+  check: EncryptedText; // CHECK_TEXT encrypted with the key
+}
+
+// Stored record whose content may be encrypted (drafts, snapshots and recovery entries).
+// Encrypted records keep an empty `content` and the ciphertext in `encryptedContent`.
+interface ContentRecord {
+  content: string;
+  encryptedContent?: EncryptedText;
+}
+
+// Stored record whose bytes may be encrypted (images).
+// Encrypted records keep the ciphertext in `data` and its IV in `iv`.
+interface BinaryRecord {
+  data: ArrayBuffer;
+  iv?: string;
+}
+
+// Object stores whose records carry (possibly encrypted) content
+const CONTENT_STORES = [DRAFTS_STORE, SNAPSHOTS_STORE, RECOVERY_STORE];
+
+// Key derived from the passphrase for this session (null while locked or unencrypted)
+let activeKey: CryptoKey | null = null;
+
+// Re-encryption of every record in progress (writes wait for it to finish)
+let pendingRewrite: Promise<void> | null = null;
+// Writes in progress (a re-encryption waits for them before reading the records)
+const activeWrites = new Set<Promise<void>>();
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Convert in chunks to stay below the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (base64: string): Uint8Array =>
+  Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+
+/**
+ * Derives an AES-GCM key from a passphrase with PBKDF2 (SHA-256).
+ * @param passphrase - The user's passphrase.
+ * @param salt - The random salt.
+ * @param iterations - The PBKDF2 iteration count.
+ */
+const deriveKey = async (
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number
+): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const encryptText = async (
+  key: CryptoKey,
+  text: string
+): Promise<EncryptedText> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(text)
+  );
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+/**
+ * Decrypts text encrypted by encryptText.
+ * @throws If the key is wrong or the data has been tampered with.
+ */
+const decryptText = async (
+  key: CryptoKey,
+  payload: EncryptedText
+): Promise<string> => {
+  const data = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(payload.iv) },
+    key,
+    fromBase64(payload.data)
+  );
+  return new TextDecoder().decode(data);
+};
+
+const readSettings = async (): Promise<EncryptionSettings | null> => {
+  const db = await openDraftDatabase();
+  const settings = await requestToPromise<EncryptionSettings | undefined>(
+    db
+      .transaction(META_STORE)
+      .objectStore(META_STORE)
+      .get(ENCRYPTION_SETTINGS_KEY)
+  );
+  return settings ?? null;
+};
+
+/**
+ * Derives the key for a passphrase and checks it against the stored settings.
+ * @param settings - The stored encryption settings.
+ * @param passphrase - The passphrase to check.
+ * @returns The key, or null if the passphrase is wrong.
+ */
+const verifyPassphrase = async (
+  settings: EncryptionSettings,
+  passphrase: string
+): Promise<CryptoKey | null> => {
+  const key = await deriveKey(
+    passphrase,
+    fromBase64(settings.salt),
+    settings.iterations
+  );
+  try {
+    return (await decryptText(key, settings.check)) === CHECK_TEXT ? key : null;
+  } catch {
+    return null; // AES-GCM authentication fails for a wrong key
+  }
+};
+
+/**
+ * Creates settings (with a fresh salt) and the key for a new passphrase.
+ * @param passphrase - The new passphrase.
+ */
+const createSettings = async (
+  passphrase: string
+): Promise<{ settings: EncryptionSettings; key: CryptoKey }> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  return {
+    key,
+    settings: {
+      salt: toBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      check: await encryptText(key, CHECK_TEXT),
+    },
+  };
+};
+
+/**
+ * Decodes a record with `fromKey` and encodes it again with `toKey`.
+ * @param record - The stored record.
+ * @param fromKey - The key the record is currently encrypted with.
+ * @param toKey - The key to encrypt with, or null to store plain text.
+ */
+const reencode = async <T extends ContentRecord>(
+  record: T,
+  fromKey: CryptoKey | null,
+  toKey: CryptoKey | null
+): Promise<T> => {
+  const { encryptedContent, ...rest } = record;
+  let content = record.content;
+  if (encryptedContent) {
+    if (!fromKey) throw new DraftsLockedError();
+    content = await decryptText(fromKey, encryptedContent);
+  }
+  if (!toKey) return { ...rest, content } as T;
+  return {
+    ...rest,
+    content: '',
+    encryptedContent: await encryptText(toKey, content),
+  } as T;
+};
+
+/**
+ * Decodes the bytes of a record with `fromKey` and encodes them again with `toKey`.
+ * @param record - The stored record.
+ * @param fromKey - The key the record is currently encrypted with.
+ * @param toKey - The key to encrypt with, or null to store plain bytes.
+ */
+const reencodeBytes = async <T extends BinaryRecord>(
+  record: T,
+  fromKey: CryptoKey | null,
+  toKey: CryptoKey | null
+): Promise<T> => {
+  const { iv, ...rest } = record;
+  let data = record.data;
+  if (iv) {
+    if (!fromKey) throw new DraftsLockedError();
+    data = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(iv) },
+      fromKey,
+      new Uint8Array(data)
+    );
+  }
+  if (!toKey) return { ...rest, data } as T;
+  const nextIv = crypto.getRandomValues(new Uint8Array(12));
+  return {
+    ...rest,
+    data: await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv: nextIv },
+      toKey,
+      new Uint8Array(data)
+    ),
+    iv: toBase64(nextIv),
+  } as T;
+};
+
+/**
+ * Rewrites every draft, snapshot, recovery entry and image for a new key (or
+ * as plain data) and stores the matching settings, all in one transaction.
+ * All encryption is done before the transaction starts so it cannot
+ * auto-commit halfway.
+ * @param nextKey - The new key, or null to turn encryption off.
+ * @param nextSettings - The settings for the new key, or null to remove them.
+ */
+const rewriteAllRecords = async (
+  nextKey: CryptoKey | null,
+  nextSettings: EncryptionSettings | null
+): Promise<void> => {
+  const db = await openDraftDatabase();
+  const readTx = db.transaction(CONTENT_STORES);
+  const records = await Promise.all(
+    CONTENT_STORES.map((name) =>
+      requestToPromise<ContentRecord[]>(readTx.objectStore(name).getAll())
+    )
+  );
+  const images = await requestToPromise<BinaryRecord[]>(
+    db.transaction(IMAGES_STORE).objectStore(IMAGES_STORE).getAll()
+  );
+  const nextRecords = await Promise.all(
+    records.map((list) =>
+      Promise.all(list.map((r) => reencode(r, activeKey, nextKey)))
+    )
+  );
+  const nextImages = await Promise.all(
+    images.map((image) => reencodeBytes(image, activeKey, nextKey))
+  );
+
+  const tx = db.transaction(
+    [...CONTENT_STORES, IMAGES_STORE, META_STORE],
+    'readwrite'
+  );
+  CONTENT_STORES.forEach((name, i) =>
+    nextRecords[i].forEach((r) => tx.objectStore(name).put(r))
+  );
+  nextImages.forEach((image) => tx.objectStore(IMAGES_STORE).put(image));
+  if (nextSettings) {
+    tx.objectStore(META_STORE).put(nextSettings, ENCRYPTION_SETTINGS_KEY);
+  } else {
+    tx.objectStore(META_STORE).delete(ENCRYPTION_SETTINGS_KEY);
+  }
+  await transactionDone(tx);
+  activeKey = nextKey;
+  console.info(
+    `[draftCrypto] Rewrote ${records[0].length} draft(s), ${records[1].length} snapshot(s) and ${images.length} image(s) ${nextKey ? 'encrypted' : 'as plain data'}`
+  );
+};
+
+/**
+ * Runs rewriteAllRecords with the stores to itself: it starts once the
+ * writes already running have finished, and writes started meanwhile wait
+ * for it (see beginWrite). Otherwise a record saved while the rewrite runs
+ * would be overwritten with the copy read before the save, or stored with
+ * the old key.
+ * @param nextKey - The new key, or null to turn encryption off.
+ * @param nextSettings - The settings for the new key, or null to remove them.
+ */
+const rewriteExclusively = async (
+  nextKey: CryptoKey | null,
+  nextSettings: EncryptionSettings | null
+): Promise<void> => {
+  // Checked again after every wait; nothing may be awaited between the check and the claim
+  while (pendingRewrite) await pendingRewrite.catch(() => {});
+  const rewrite = Promise.all(activeWrites).then(() =>
+    rewriteAllRecords(nextKey, nextSettings)
+  );
+  pendingRewrite = rewrite;
+  try {
+    await rewrite;
+  } finally {
+    pendingRewrite = null;
+  }
+};
+
+/**
+ * Service object for the optional passphrase encryption of draft content at
+ * rest. Content is encrypted with AES-GCM using a key derived from the
+ * passphrase (PBKDF2); the passphrase itself is never stored.
+ * storageService and historyService pass every record through
+ * encodeRecord/decodeRecord, and imageStore every image through
+ * encodeImage/decodeImage, so the rest of the app only sees plain data.
+ */
+export const draftCrypto = {
+  /**
+   * Whether draft content is stored encrypted.
+   * @returns True if a passphrase has been set.
+   */
+  async isEnabled(): Promise<boolean> {
+    try {
+      return (await readSettings()) !== null;
+    } catch (e) {
+      console.error('[draftCrypto] Error reading encryption settings:', e);
+      return false;
+    }
+  },
+
+  /**
+   * Whether the passphrase still has to be entered in this session.
+   * @returns True if content is encrypted and not yet unlocked.
+   */
+  async isLocked(): Promise<boolean> {
+    return !activeKey && (await this.isEnabled());
+  },
+
+  /**
+   * Unlocks encrypted content for this session.
+   * @param passphrase - The passphrase.
+   * @returns True if the passphrase is correct (or encryption is off).
+   */
+  async unlock(passphrase: string): Promise<boolean> {
+    try {
+      const settings = await readSettings();
+      if (!settings) return true;
+      const key = await verifyPassphrase(settings, passphrase);
+      if (!key) return false;
+      activeKey = key;
+      return true;
+    } catch (e) {
+      console.error('[draftCrypto] Error unlocking drafts:', e);
+      return false;
+    }
+  },
+
+  /**
+   * Forgets the key of this session. Encrypted content cannot be read or
+   * written again until unlock is called.
+   */
+  lock(): void {
+    activeKey = null;
+  },
+
+  /**
+   * Turns encryption on and encrypts every stored draft, snapshot and image.
+   * @param passphrase - The new passphrase (must not be empty).
+   * @returns True on success, false if already enabled or on error.
+   */
+  async enable(passphrase: string): Promise<boolean> {
+    if (!passphrase) return false;
+    try {
+      if (await readSettings()) return false; // Use changePassphrase instead
+      const { settings, key } = await createSettings(passphrase);
+      await rewriteExclusively(key, settings);
+      return true;
+    } catch (e) {
+      console.error('[draftCrypto] Error enabling encryption:', e);
+      return false;
+    }
+  },
+
+  /**
+   * Re-encrypts everything with a key derived from a new passphrase.
+   * @param currentPassphrase - The passphrase in use.
+   * @param nextPassphrase - The new passphrase (must not be empty).
+   * @returns True on success, false if the current passphrase is wrong or on error.
+   */
+  async changePassphrase(
+    currentPassphrase: string,
+    nextPassphrase: string
+  ): Promise<boolean> {
+    if (!nextPassphrase) return false;
+    try {
+      const current = await readSettings();
+      if (!current) return false;
+      const currentKey = await verifyPassphrase(current, currentPassphrase);
+      if (!currentKey) return false;
+      activeKey = currentKey;
+      const { settings, key } = await createSettings(nextPassphrase);
+      await rewriteExclusively(key, settings);
+      return true;
+    } catch (e) {
+      console.error('[draftCrypto] Error changing passphrase:', e);
+      return false;
+    }
+  },
+
+  /**
+   * Turns encryption off and stores every draft, snapshot and image unencrypted.
+   * @param passphrase - The passphrase in use.
+   * @returns True on success, false if the passphrase is wrong or on error.
+   */
+  async disable(passphrase: string): Promise<boolean> {
+    try {
+      const current = await readSettings();
+      if (!current) return true;
+      const currentKey = await verifyPassphrase(current, passphrase);
+      if (!currentKey) return false;
+      activeKey = currentKey;
+      await rewriteExclusively(null, null);
+      return true;
+    } catch (e) {
+      console.error('[draftCrypto] Error disabling encryption:', e);
+      return false;
+    }
+  },
+
+  /**
+   * Announces a write to the draft, snapshot, recovery or image stores.
+   * Waits while every record is being re-encrypted; a re-encryption started
+   * later waits until the returned function is called. Take it before
+   * reading a record that is written back, and do not nest writes (the inner
+   * one could wait for a re-encryption that waits for the outer one).
+   * @returns A function to call once the write has committed or failed
+   *   (calling it again does nothing).
+   */
+  async beginWrite(): Promise<() => void> {
+    while (pendingRewrite) await pendingRewrite.catch(() => {}); // A failed rewrite counts as finished
+    let finish!: () => void;
+    const write = new Promise<void>((resolve) => {
+      finish = resolve;
+    });
+    activeWrites.add(write);
+    return () => {
+      activeWrites.delete(write);
+      finish();
+    };
+  },
+
+  /**
+   * Prepares a record for storage, encrypting its content when encryption is on.
+   * Call before opening the write transaction (encryption is asynchronous).
+   * @param record - A draft or snapshot with plain content.
+   * @returns The record to store.
+   * @throws DraftsLockedError if encryption is on but not unlocked.
+   */
+  async encodeRecord<T extends ContentRecord>(record: T): Promise<T> {
+    if (!activeKey && (await readSettings())) throw new DraftsLockedError();
+    return reencode(
+      { ...record, encryptedContent: undefined },
+      null,
+      activeKey
+    );
+  },
+
+  /**
+   * Restores the plain content of a stored record.
+   * @param record - A draft or snapshot as stored.
+   * @returns The record with plain content.
+   * @throws DraftsLockedError if the record is encrypted and not unlocked.
+   */
+  async decodeRecord<T extends ContentRecord>(record: T): Promise<T> {
+    if (!record.encryptedContent) return record;
+    return reencode(record, activeKey, null);
+  },
+
+  /**
+   * Prepares an image for storage, encrypting its bytes when encryption is on.
+   * Call before opening the write transaction (encryption is asynchronous).
+   * @param record - An image with plain bytes.
+   * @returns The record to store.
+   * @throws DraftsLockedError if encryption is on but not unlocked.
+   */
+  async encodeImage<T extends BinaryRecord>(record: T): Promise<T> {
+    if (!activeKey && (await readSettings())) throw new DraftsLockedError();
+    return reencodeBytes({ ...record, iv: undefined }, null, activeKey);
+  },
+
+  /**
+   * Restores the plain bytes of a stored image.
+   * @param record - An image as stored.
+   * @returns The image with plain bytes.
+   * @throws DraftsLockedError if the image is encrypted and not unlocked.
+   */
+  async decodeImage<T extends BinaryRecord>(record: T): Promise<T> {
+    if (!record.iv) return record;
+    return reencodeBytes(record, activeKey, null);
+  },
+
+  /**
+   * Size in bytes of a record's content as stored (ciphertext when encrypted).
+   * @param record - A draft or snapshot as stored.
+   */
+  storedContentBytes(record: ContentRecord): number {
+    return record.encryptedContent
+      ? record.encryptedContent.data.length
+      : new TextEncoder().encode(record.content).length;
+  },
+};
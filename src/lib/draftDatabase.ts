@@ -0,0 +1,203 @@
+import type { Draft } from '@/types/editor'; // Import the Draft type definition
+import { StorageUnavailableError } from '@/lib/storageErrors';
+import {
+  requestToPromise,
+  transactionDone,
+  DRAFTS_STORE,
+  META_STORE,
+  SNAPSHOTS_STORE,
+  FOLDERS_STORE,
+  QUARANTINE_STORE,
+  RECOVERY_STORE,
+  IMAGES_STORE,
+  CURRENT_DRAFT_ID_KEY,
+} from '@/lib/draftStores';
+import {
+  createQuarantineEntry,
+  runSchemaMigrations,
+} from '@/lib/schemaMigrations';
+
+// Re-exported so callers keep importing the stores and helpers from here
+export * from '@/lib/draftStores';
+
+// IndexedDB database settings
+const DB_NAME = 'openMdEditor';
+const DB_VERSION = 6;
+
+// Legacy localStorage keys used before drafts moved to IndexedDB
+const LEGACY_DRAFTS_KEY = 'markdownDrafts';
+const LEGACY_CURRENT_DRAFT_ID_KEY = 'currentDraftId';
+
+// Cached connection promise so the database is opened (and migrated) only once
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Moves drafts saved by the old localStorage implementation into IndexedDB.
+ * The legacy keys are removed only after the transaction has committed, so a
+ * failed migration leaves the original data untouched and is retried on the next start.
+ * Records already present in IndexedDB are kept unless the legacy copy is newer.
+ * Unreadable data and malformed entries are moved to the quarantine store.
+ * @param db - The open database.
+ */
+const migrateFromLocalStorage = async (db: IDBDatabase): Promise<void> => {
+  let legacyJson: string | null;
+  let legacyCurrentId: string | null;
+  try {
+    legacyJson = localStorage.getItem(LEGACY_DRAFTS_KEY);
+    legacyCurrentId = localStorage.getItem(LEGACY_CURRENT_DRAFT_ID_KEY);
+  } catch (e) {
+    console.warn('[draftDatabase] localStorage is not accessible:', e);
+    return;
+  }
+  if (legacyJson === null && legacyCurrentId === null) return; // Nothing to migrate
+
+  let legacyDrafts: Record<string, Draft> = {};
+  let parseError: string | null = null;
+  if (legacyJson) {
+    try {
+      const parsed: unknown = JSON.parse(legacyJson);
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new TypeError('Legacy drafts are not an object');
+      }
+      legacyDrafts = parsed as Record<string, Draft>;
+    } catch (e) {
+      console.error('[draftDatabase] Legacy drafts could not be parsed:', e);
+      parseError = String(e);
+    }
+  }
+
+  const tx = db.transaction(
+    [DRAFTS_STORE, META_STORE, QUARANTINE_STORE],
+    'readwrite'
+  );
+  const draftsStore = tx.objectStore(DRAFTS_STORE);
+  const quarantineStore = tx.objectStore(QUARANTINE_STORE);
+  const done = transactionDone(tx);
+
+  if (parseError !== null) {
+    // Keep the unreadable data in the quarantine rather than discarding it
+    quarantineStore.add(
+      createQuarantineEntry(
+        `localStorage:${LEGACY_DRAFTS_KEY}`,
+        LEGACY_DRAFTS_KEY,
+        legacyJson,
+        parseError
+      )
+    );
+  }
+  for (const [key, draft] of Object.entries(legacyDrafts)) {
+    if (!draft || typeof draft.id !== 'string') {
+      quarantineStore.add(
+        createQuarantineEntry(
+          `localStorage:${LEGACY_DRAFTS_KEY}`,
+          key,
+          draft,
+          'Malformed legacy draft'
+        )
+      );
+      continue;
+    }
+    const existing = await requestToPromise<Draft | undefined>(
+      draftsStore.get(draft.id)
+    );
+    if (
+      !existing ||
+      new Date(draft.lastModified).getTime() >
+        new Date(existing.lastModified).getTime()
+    ) {
+      draftsStore.put(draft);
+    }
+  }
+  if (legacyCurrentId) {
+    tx.objectStore(META_STORE).put(legacyCurrentId, CURRENT_DRAFT_ID_KEY);
+  }
+
+  await done;
+
+  localStorage.removeItem(LEGACY_DRAFTS_KEY);
+  localStorage.removeItem(LEGACY_CURRENT_DRAFT_ID_KEY);
+  console.info(
+    `[draftDatabase] Migrated ${Object.keys(legacyDrafts).length} draft(s) from localStorage.`
+  );
+};
+
+/**
+ * Opens the drafts database, creating object stores on first use, running
+ * the one-time migration from localStorage and then any pending schema migrations.
+ * @returns A promise resolving with the shared database connection.
+ */
+export const openDraftDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new StorageUnavailableError());
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(DRAFTS_STORE)) {
+        db.createObjectStore(DRAFTS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE);
+      }
+      if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+        const snapshots = db.createObjectStore(SNAPSHOTS_STORE, {
+          keyPath: 'id',
+        });
+        snapshots.createIndex('draftId', 'draftId');
+      }
+      if (!db.objectStoreNames.contains(FOLDERS_STORE)) {
+        db.createObjectStore(FOLDERS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(QUARANTINE_STORE)) {
+        db.createObjectStore(QUARANTINE_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(RECOVERY_STORE)) {
+        db.createObjectStore(RECOVERY_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(IMAGES_STORE)) {
+        db.createObjectStore(IMAGES_STORE, { keyPath: 'hash' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  })
+    .then(async (db) => {
+      try {
+        await migrateFromLocalStorage(db);
+      } catch (e) {
+        console.error('[draftDatabase] Migration from localStorage failed:', e);
+      }
+      try {
+        await runSchemaMigrations(db);
+      } catch (e) {
+        // The failed step is retried on the next start
+        console.error('[draftDatabase] Schema migration failed:', e);
+      }
+      return db;
+    })
+    .catch((e) => {
+      dbPromise = null; // Allow a later call to retry opening
+      throw e;
+    });
+
+  return dbPromise;
+};
+
+/**
+ * Closes the shared connection and forgets it, so the next call to
+ * openDraftDatabase opens a fresh one. Mainly useful for tests.
+ */
+export const closeDraftDatabase = async (): Promise<void> => {
+  if (!dbPromise) return;
+  const pending = dbPromise;
+  dbPromise = null;
+  try {
+    (await pending).close();
+  } catch {
+    // Opening had already failed; nothing to close
+  }
+};
@@ -0,0 +1,51 @@
+// Object store names, meta keys and request helpers of the drafts database.
+// Kept apart from draftDatabase so that the schema migrations it runs can use
+// them without importing it back.
+
+// Object store names
+export const DRAFTS_STORE = 'drafts'; // Draft records keyed by draft.id
+export const META_STORE = 'meta'; // Small key/value entries (e.g. current draft ID)
+export const SNAPSHOTS_STORE = 'snapshots'; // Version history snapshots, indexed by draftId
+export const FOLDERS_STORE = 'folders'; // Folders used to organize drafts, keyed by folder.id
+export const QUARANTINE_STORE = 'quarantine'; // Corrupt entries set aside by migrations, keyed by id
+export const RECOVERY_STORE = 'recovery'; // Unsaved editor text kept for crash recovery, keyed by id
+export const IMAGES_STORE = 'images'; // Pasted and dropped images, keyed by content hash
+
+// Key of the data schema version inside the meta store (see schemaMigrations)
+export const SCHEMA_VERSION_KEY = 'schemaVersion';
+// Key of the current draft ID inside the meta store
+export const CURRENT_DRAFT_ID_KEY = 'currentDraftId';
+// Key of the trash retention period (in days) inside the meta store
+export const TRASH_RETENTION_DAYS_KEY = 'trashRetentionDays';
+// Key of the passphrase encryption settings inside the meta store (absent = not encrypted)
+export const ENCRYPTION_SETTINGS_KEY = 'encryption';
+// Key of the autosave policy inside the meta store
+export const AUTOSAVE_SETTINGS_KEY = 'autosave';
+// Key of the enabled Markdown lint rules inside the meta store
+export const LINT_SETTINGS_KEY = 'lint';
+// Key of the editor keybinding mode inside the meta store
+export const KEYBINDING_MODE_KEY = 'keybindingMode';
+// Key of the user's keyboard shortcut overrides inside the meta store
+export const SHORTCUTS_KEY = 'shortcuts';
+
+/**
+ * Wraps an IDBRequest in a Promise.
+ * @param request - The IndexedDB request.
+ * @returns A promise resolving with the request result.
+ */
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Resolves once a transaction has committed, rejects if it fails or is aborted.
+ * @param tx - The IndexedDB transaction.
+ */
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
@@ -0,0 +1,103 @@
+/**
+ * Cross-tab notifications about saved drafts, so a tab can notice when the
+ * draft it has open was changed by the editor running in another tab.
+ * Uses BroadcastChannel where available and falls back to the `storage` event.
+ */
+
+// Message announcing that a draft was written by some tab
+export interface DraftSavedMessage {
+  type: 'draftSaved';
+  draftId: string;
+  lastModified: string; // ISO 8601 timestamp of the saved version
+  tabId: string; // Tab that performed the save
+}
+
+const CHANNEL_NAME = 'openmdeditor-drafts';
+// localStorage key written only to trigger `storage` events in other tabs
+const STORAGE_EVENT_KEY = 'openmdeditor:draftSaved';
+
+// Identifier of this tab; messages sent by this tab are ignored here
+export const TAB_ID = `tab_${Date.now().toString(36)}_${Math.random()
+  .toString(36)
+  .slice(2, 8)}`;
+
+// Lazily created channel (null when BroadcastChannel is not supported)
+let channel: BroadcastChannel | null | undefined;
+
+const getChannel = (): BroadcastChannel | null => {
+  if (channel === undefined) {
+    channel =
+      typeof BroadcastChannel === 'undefined'
+        ? null
+        : new BroadcastChannel(CHANNEL_NAME);
+  }
+  return channel;
+};
+
+/**
+ * Checks that a received value is a save announcement from another tab.
+ * @param data - The received message data.
+ */
+const isForeignSaveMessage = (data: unknown): data is DraftSavedMessage =>
+  !!data &&
+  typeof data === 'object' &&
+  (data as DraftSavedMessage).type === 'draftSaved' &&
+  typeof (data as DraftSavedMessage).draftId === 'string' &&
+  (data as DraftSavedMessage).tabId !== TAB_ID;
+
+/**
+ * Service object for announcing and observing draft saves across tabs.
+ */
+export const draftSync = {
+  /**
+   * Tells other tabs that a draft has been saved.
+   * @param draftId - The saved draft's ID.
+   * @param lastModified - The saved version's timestamp.
+   */
+  announceSave(draftId: string, lastModified: string): void {
+    const message: DraftSavedMessage = {
+      type: 'draftSaved',
+      draftId,
+      lastModified,
+      tabId: TAB_ID,
+    };
+    try {
+      const broadcast = getChannel();
+      if (broadcast) {
+        broadcast.postMessage(message);
+      } else {
+        localStorage.setItem(STORAGE_EVENT_KEY, JSON.stringify(message));
+      }
+    } catch (e) {
+      console.warn('[draftSync] Could not announce save:', e);
+    }
+  },
+
+  /**
+   * Listens for saves announced by other tabs.
+   * @param listener - Called with each announcement from another tab.
+   * @returns A function that stops listening.
+   */
+  subscribe(listener: (message: DraftSavedMessage) => void): () => void {
+    const broadcast = getChannel();
+    if (broadcast) {
+      const handleMessage = (event: MessageEvent) => {
+        if (isForeignSaveMessage(event.data)) listener(event.data);
+      };
+      broadcast.addEventListener('message', handleMessage);
+      return () => broadcast.removeEventListener('message', handleMessage);
+    }
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== STORAGE_EVENT_KEY || !event.newValue) return;
+      try {
+        const data: unknown = JSON.parse(event.newValue);
+        if (isForeignSaveMessage(data)) listener(data);
+      } catch {
+        // Ignore values not written by announceSave
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  },
+};
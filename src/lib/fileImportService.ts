@@ -0,0 +1,138 @@
+import type { Draft } from '@/types/editor';
+import { storageService } from '@/lib/storageService';
+
+// Extensions of the files that can be imported as drafts
+const IMPORTABLE_EXTENSIONS = ['.md', '.markdown', '.txt'];
+
+// Text decoded from a file, with the encoding it was detected as
+export interface DecodedText {
+  text: string;
+  encoding: 'UTF-8' | 'UTF-8 (BOM)' | 'UTF-16LE' | 'UTF-16BE' | 'Shift_JIS';
+}
+
+// A file that was not imported, with the reason shown to the user
+export interface SkippedFile {
+  name: string;
+  reason: string;
+}
+
+// Result of importing a batch of files
+export interface ImportResult {
+  imported: Draft[]; // Created drafts, in the order of the files
+  skipped: SkippedFile[];
+}
+
+/**
+ * Checks whether a file has one of the importable extensions.
+ * @param name - The file name.
+ */
+export const isImportableFileName = (name: string): boolean => {
+  const lower = name.toLowerCase();
+  return IMPORTABLE_EXTENSIONS.some((ext) => lower.endsWith(ext));
+};
+
+/**
+ * Decodes the bytes of a text file. A byte order mark decides the encoding;
+ * without one, strict UTF-8 is tried first and Shift_JIS second.
+ * @param bytes - The raw file content.
+ * @returns The text, or null if the content is binary or in an unknown encoding.
+ */
+export const decodeTextFile = (bytes: Uint8Array): DecodedText | null => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return {
+      text: new TextDecoder('utf-8').decode(bytes.subarray(3)),
+      encoding: 'UTF-8 (BOM)',
+    };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return {
+      text: new TextDecoder('utf-16le').decode(bytes.subarray(2)),
+      encoding: 'UTF-16LE',
+    };
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return {
+      text: new TextDecoder('utf-16be').decode(bytes.subarray(2)),
+      encoding: 'UTF-16BE',
+    };
+  }
+  if (bytes.includes(0)) return null; // NUL bytes only appear in binary files here
+
+  for (const encoding of ['UTF-8', 'Shift_JIS'] as const) {
+    try {
+      const text = new TextDecoder(encoding, { fatal: true }).decode(bytes);
+      return { text, encoding };
+    } catch {
+      // Not valid in this encoding, try the next one
+    }
+  }
+  return null;
+};
+
+/**
+ * Reads the raw content of a file.
+ * @param file - The file to read.
+ */
+const readBytes = (file: File): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(file);
+  });
+
+/**
+ * Service object for importing Markdown and text files (e.g. dropped onto
+ * the editor or the explorer) as new drafts.
+ */
+export const fileImportService = {
+  /**
+   * Creates one draft per importable file, named after the file.
+   * Files with other extensions or undecodable content are skipped.
+   * @param files - The files to import.
+   * @param folderId - The folder to put the drafts in (null for the top level).
+   * @returns The created drafts and the skipped files.
+   */
+  async importFiles(
+    files: File[],
+    folderId: string | null = null
+  ): Promise<ImportResult> {
+    const result: ImportResult = { imported: [], skipped: [] };
+    for (const file of files) {
+      if (!isImportableFileName(file.name)) {
+        result.skipped.push({ name: file.name, reason: '対応していない形式' });
+        continue;
+      }
+      let decoded: DecodedText | null;
+      try {
+        decoded = decodeTextFile(await readBytes(file));
+      } catch (e) {
+        console.error(`[fileImportService] Error reading ${file.name}:`, e);
+        result.skipped.push({ name: file.name, reason: '読み込みエラー' });
+        continue;
+      }
+      if (!decoded) {
+        result.skipped.push({
+          name: file.name,
+          reason: '文字コードを判別できません',
+        });
+        continue;
+      }
+
+      const draft = await storageService.createDraft(
+        decoded.text,
+        file.name,
+        folderId
+      );
+      if (!draft) {
+        result.skipped.push({ name: file.name, reason: '保存に失敗しました' });
+        continue;
+      }
+      console.debug(
+        `[fileImportService] Imported ${file.name} (${decoded.encoding})`
+      );
+      result.imported.push(draft);
+    }
+    return result;
+  },
+};
@@ -0,0 +1,231 @@
+import {
+  openDraftDatabase,
+  requestToPromise,
+  transactionDone,
+  META_STORE,
+} from '@/lib/draftDatabase';
+import { downloadBlob } from '@/lib/downloadFile';
+
+// Prefix of the meta store keys holding the file handle linked to a draft
+const FILE_HANDLE_KEY_PREFIX = 'fileHandle:';
+
+// File types offered by the pickers
+const MARKDOWN_FILE_TYPES = [
+  {
+    description: 'Markdown',
+    accept: {
+      'text/markdown': ['.md', '.markdown'],
+      'text/plain': ['.txt'],
+    },
+  },
+];
+const ACCEPT_ATTRIBUTE = '.md,.markdown,.txt,text/markdown,text/plain';
+
+// Parts of the File System Access API not yet covered by lib.dom
+interface FilePickerOptions {
+  types?: typeof MARKDOWN_FILE_TYPES;
+  suggestedName?: string;
+}
+interface FileSystemAccessWindow {
+  showOpenFilePicker?: (
+    options?: FilePickerOptions
+  ) => Promise<FileSystemFileHandle[]>;
+  showSaveFilePicker?: (
+    options?: FilePickerOptions
+  ) => Promise<FileSystemFileHandle>;
+}
+interface PermissionAwareHandle {
+  queryPermission?: (descriptor: {
+    mode: 'read' | 'readwrite';
+  }) => Promise<PermissionState>;
+  requestPermission?: (descriptor: {
+    mode: 'read' | 'readwrite';
+  }) => Promise<PermissionState>;
+}
+
+// A file read from disk
+export interface OpenedFile {
+  name: string; // File name including the extension
+  content: string; // Text content
+  handle: FileSystemFileHandle | null; // Handle for writing back (null in the upload fallback)
+}
+
+// Result of writing a file
+export interface SavedFile {
+  name: string; // Name of the written file
+  handle: FileSystemFileHandle | null; // Handle for later writes (null when downloaded)
+}
+
+const pickerWindow = (): FileSystemAccessWindow =>
+  window as unknown as FileSystemAccessWindow;
+
+/**
+ * Checks whether an error means the user dismissed a picker or permission prompt.
+ * @param error - The caught error.
+ */
+const isUserCancel = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * Lets the user pick a file with a temporary <input type="file">.
+ * @returns The chosen file, or null if the dialog was cancelled.
+ */
+const pickFileWithInput = (): Promise<File | null> =>
+  new Promise((resolve) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = ACCEPT_ATTRIBUTE;
+    input.addEventListener('change', () => resolve(input.files?.[0] ?? null));
+    input.addEventListener('cancel', () => resolve(null));
+    input.click();
+  });
+
+/**
+ * Makes sure the page may write to a handle, asking the user if necessary.
+ * @param handle - The file handle.
+ * @returns True if write access is granted.
+ */
+const ensureWritePermission = async (
+  handle: FileSystemFileHandle
+): Promise<boolean> => {
+  const permissionHandle = handle as FileSystemFileHandle &
+    PermissionAwareHandle;
+  if (!permissionHandle.queryPermission) return true; // Browser does not gate writes
+  const descriptor = { mode: 'readwrite' as const };
+  if ((await permissionHandle.queryPermission(descriptor)) === 'granted') {
+    return true;
+  }
+  return (await permissionHandle.requestPermission?.(descriptor)) === 'granted';
+};
+
+/**
+ * Service object for reading and writing Markdown files on disk.
+ * Uses the File System Access API where available and falls back to
+ * file upload and download elsewhere.
+ */
+export const fileSystemService = {
+  /**
+   * Whether files can be written back in place (File System Access API).
+   */
+  isSupported(): boolean {
+    return typeof pickerWindow().showOpenFilePicker === 'function';
+  },
+
+  /**
+   * Asks the user for a Markdown file and reads it.
+   * @returns The file, or null if the user cancelled.
+   * @throws If the file cannot be read.
+   */
+  async openFile(): Promise<OpenedFile | null> {
+    const { showOpenFilePicker } = pickerWindow();
+    if (showOpenFilePicker) {
+      try {
+        const [handle] = await showOpenFilePicker({
+          types: MARKDOWN_FILE_TYPES,
+        });
+        const file = await handle.getFile();
+        return { name: file.name, content: await file.text(), handle };
+      } catch (e) {
+        if (isUserCancel(e)) return null;
+        throw e;
+      }
+    }
+    const file = await pickFileWithInput();
+    if (!file) return null;
+    return { name: file.name, content: await file.text(), handle: null };
+  },
+
+  /**
+   * Writes Markdown to disk: into the given handle, into a file chosen in a
+   * save picker, or (without the File System Access API) as a download.
+   * @param content - The text to write.
+   * @param handle - The file to write back to, or null to ask for a location.
+   * @param suggestedName - File name proposed in the picker or used for the download.
+   * @returns The written file, or null if the user cancelled.
+   * @throws If writing fails or permission is denied.
+   */
+  async saveFile(
+    content: string,
+    handle: FileSystemFileHandle | null,
+    suggestedName: string
+  ): Promise<SavedFile | null> {
+    const { showSaveFilePicker } = pickerWindow();
+    if (!handle && !showSaveFilePicker) {
+      downloadBlob(
+        new Blob([content], { type: 'text/markdown;charset=utf-8' }),
+        suggestedName
+      );
+      return { name: suggestedName, handle: null };
+    }
+    try {
+      const target =
+        handle ??
+        (await showSaveFilePicker!({
+          suggestedName,
+          types: MARKDOWN_FILE_TYPES,
+        }));
+      if (!(await ensureWritePermission(target))) {
+        throw new DOMException(
+          'Write permission was denied',
+          'NotAllowedError'
+        );
+      }
+      const writable = await target.createWritable();
+      await writable.write(content);
+      await writable.close();
+      console.debug(`[fileSystemService] Wrote file: ${target.name}`);
+      return { name: target.name, handle: target };
+    } catch (e) {
+      if (isUserCancel(e)) return null;
+      throw e;
+    }
+  },
+
+  /**
+   * Remembers the file a draft was opened from or saved to.
+   * @param draftId - The draft ID.
+   * @param handle - The file handle (stored in IndexedDB).
+   */
+  async rememberHandle(
+    draftId: string,
+    handle: FileSystemFileHandle
+  ): Promise<void> {
+    try {
+      const db = await openDraftDatabase();
+      const tx = db.transaction(META_STORE, 'readwrite');
+      tx.objectStore(META_STORE).put(handle, FILE_HANDLE_KEY_PREFIX + draftId);
+      await transactionDone(tx);
+    } catch (e) {
+      console.error(
+        `[fileSystemService] Error remembering file of draft ${draftId}:`,
+        e
+      );
+    }
+  },
+
+  /**
+   * Gets the file handle remembered for a draft.
+   * @param draftId - The draft ID.
+   * @returns The handle, or null if the draft is not linked to a file.
+   */
+  async getRememberedHandle(
+    draftId: string
+  ): Promise<FileSystemFileHandle | null> {
+    try {
+      const db = await openDraftDatabase();
+      const handle = await requestToPromise<FileSystemFileHandle | undefined>(
+        db
+          .transaction(META_STORE)
+          .objectStore(META_STORE)
+          .get(FILE_HANDLE_KEY_PREFIX + draftId)
+      );
+      return handle ?? null;
+    } catch (e) {
+      console.error(
+        `[fileSystemService] Error reading file of draft ${draftId}:`,
+        e
+      );
+      return null;
+    }
+  },
+};
@@ -0,0 +1,208 @@
+import type { DraftSnapshot, SnapshotKind } from '@/types/editor';
+import {
+  openDraftDatabase,
+  requestToPromise,
+  transactionDone,
+  SNAPSHOTS_STORE,
+} from '@/lib/draftDatabase';
+import { draftCrypto } from '@/lib/draftCrypto';
+
+// Autosaves within this window of the latest auto snapshot update it in place
+export const AUTO_SNAPSHOT_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+// Upper bounds on the number of snapshots kept per draft
+export const MAX_AUTO_SNAPSHOTS = 30;
+export const MAX_MANUAL_SNAPSHOTS = 20;
+
+/**
+ * Sorts snapshots newest first by their last update time.
+ * @param snapshots - The snapshots to sort (sorted in place).
+ * @returns The same array, sorted.
+ */
+const sortNewestFirst = (snapshots: DraftSnapshot[]): DraftSnapshot[] =>
+  snapshots.sort(
+    (a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+  );
+
+/**
+ * Reads every snapshot recorded for a draft as stored (content may still be encrypted).
+ * @param db - The open database.
+ * @param draftId - The draft ID.
+ * @returns The snapshot records.
+ */
+const readStoredSnapshots = (
+  db: IDBDatabase,
+  draftId: string
+): Promise<DraftSnapshot[]> =>
+  requestToPromise<DraftSnapshot[]>(
+    db
+      .transaction(SNAPSHOTS_STORE)
+      .objectStore(SNAPSHOTS_STORE)
+      .index('draftId')
+      .getAll(draftId)
+  );
+
+/**
+ * Reads every snapshot recorded for a draft with its content decrypted.
+ * @param db - The open database.
+ * @param draftId - The draft ID.
+ * @returns The snapshots, newest first.
+ */
+const readSnapshots = async (
+  db: IDBDatabase,
+  draftId: string
+): Promise<DraftSnapshot[]> => {
+  const snapshots = await readStoredSnapshots(db, draftId);
+  return sortNewestFirst(
+    await Promise.all(snapshots.map((s) => draftCrypto.decodeRecord(s)))
+  );
+};
+
+/**
+ * Service object for the per-draft version history stored in IndexedDB.
+ */
+export const historyService = {
+  /**
+   * Records a snapshot of a draft's content.
+   * Auto snapshots are coalesced: if the newest snapshot is an auto snapshot
+   * created less than AUTO_SNAPSHOT_INTERVAL_MS ago, it is updated instead of
+   * adding a new one. Manual snapshots are always kept as separate checkpoints.
+   * Oldest snapshots beyond the per-kind limits are pruned.
+   * @param draftId - The draft the snapshot belongs to.
+   * @param content - The Markdown content to record.
+   * @param kind - 'auto' for autosaves, 'manual' for explicit saves.
+   * @param label - Optional checkpoint name for manual snapshots.
+   * @returns The recorded snapshot, or null if nothing was recorded or on error.
+   */
+  async recordSnapshot(
+    draftId: string,
+    content: string,
+    kind: SnapshotKind,
+    label: string | null = null
+  ): Promise<DraftSnapshot | null> {
+    const release = await draftCrypto.beginWrite(); // Waits while the records are being re-encrypted
+    try {
+      const db = await openDraftDatabase();
+      const existing = await readSnapshots(db, draftId);
+      const now = new Date();
+      const timestamp = now.toISOString();
+      const latest = existing[0];
+
+      // Skip autosaves that do not change anything since the newest snapshot
+      if (kind === 'auto' && latest && latest.content === content) {
+        return null;
+      }
+
+      let snapshot: DraftSnapshot;
+      if (
+        kind === 'auto' &&
+        latest?.kind === 'auto' &&
+        now.getTime() - new Date(latest.createdAt).getTime() <
+          AUTO_SNAPSHOT_INTERVAL_MS
+      ) {
+        snapshot = { ...latest, content, updatedAt: timestamp }; // Coalesce
+      } else {
+        snapshot = {
+          id: `snapshot_${timestamp}_${Math.random().toString(36).slice(2, 8)}`,
+          draftId,
+          content,
+          kind,
+          label: kind === 'manual' ? label : null,
+          createdAt: timestamp,
+          updatedAt: timestamp,
+        };
+      }
+
+      // Determine which old snapshots fall outside the limits
+      const others = existing.filter((s) => s.id !== snapshot.id);
+      const limit = kind === 'auto' ? MAX_AUTO_SNAPSHOTS : MAX_MANUAL_SNAPSHOTS;
+      const expired = others.filter((s) => s.kind === kind).slice(limit - 1);
+
+      const record = await draftCrypto.encodeRecord(snapshot); // Encrypt before the transaction starts
+      const tx = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+      const store = tx.objectStore(SNAPSHOTS_STORE);
+      store.put(record);
+      expired.forEach((s) => store.delete(s.id));
+      await transactionDone(tx);
+
+      console.debug(
+        `[historyService] Recorded ${kind} snapshot for draft: ${draftId}`
+      );
+      return snapshot;
+    } catch (e) {
+      console.error(
+        `[historyService] Error recording snapshot for draft ${draftId}:`,
+        e
+      );
+      return null;
+    } finally {
+      release();
+    }
+  },
+
+  /**
+   * Retrieves the snapshots of a draft, newest first.
+   * @param draftId - The draft ID.
+   * @returns An array of snapshots, or an empty array on error.
+   */
+  async getSnapshots(draftId: string): Promise<DraftSnapshot[]> {
+    try {
+      const db = await openDraftDatabase();
+      return await readSnapshots(db, draftId);
+    } catch (e) {
+      console.error(
+        `[historyService] Error getting snapshots for draft ${draftId}:`,
+        e
+      );
+      return [];
+    }
+  },
+
+  /**
+   * Deletes every snapshot of a draft (used when the draft itself is deleted).
+   * @param draftId - The draft ID.
+   * @returns True on success, false otherwise.
+   */
+  async deleteSnapshots(draftId: string): Promise<boolean> {
+    const release = await draftCrypto.beginWrite();
+    try {
+      const db = await openDraftDatabase();
+      const snapshots = await readStoredSnapshots(db, draftId);
+      const tx = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+      const store = tx.objectStore(SNAPSHOTS_STORE);
+      snapshots.forEach((s) => store.delete(s.id));
+      await transactionDone(tx);
+      return true;
+    } catch (e) {
+      console.error(
+        `[historyService] Error deleting snapshots for draft ${draftId}:`,
+        e
+      );
+      return false;
+    } finally {
+      release();
+    }
+  },
+  /**
+   * Sums the stored size of every draft's snapshots.
+   * @returns A map from draft ID to the stored byte size of its snapshot contents,
+   *   or an empty map on error.
+   */
+  async getHistorySizes(): Promise<Map<string, number>> {
+    const sizes = new Map<string, number>();
+    try {
+      const db = await openDraftDatabase();
+      const snapshots = await requestToPromise<DraftSnapshot[]>(
+        db.transaction(SNAPSHOTS_STORE).objectStore(SNAPSHOTS_STORE).getAll()
+      );
+      snapshots.forEach((s) =>
+        sizes.set(
+          s.draftId,
+          (sizes.get(s.draftId) ?? 0) + draftCrypto.storedContentBytes(s)
+        )
+      );
+    } catch (e) {
+      console.error('[historyService] Error measuring snapshot sizes:', e);
+    }
+    return sizes;
+  },
+};
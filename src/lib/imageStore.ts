@@ -0,0 +1,233 @@
+import type { LocalImage } from '@/types/editor';
+import {
+  openDraftDatabase,
+  requestToPromise,
+  transactionDone,
+  IMAGES_STORE,
+} from '@/lib/draftDatabase';
+import { draftCrypto } from '@/lib/draftCrypto';
+
+// URL scheme of references to stored images, e.g. "local-image:3f2a9c0d1b7e4a56"
+export const LOCAL_IMAGE_SCHEME = 'local-image:';
+// Largest image accepted from paste or drop (10 MB)
+export const MAX_IMAGE_SIZE = 10 * 1024 * 1024;
+// Hex digits of the SHA-256 hash kept in references
+const HASH_LENGTH = 16;
+
+// Image references in link destinations and reference definitions
+const LOCAL_IMAGE_REFERENCE =
+  /(\]\(\s*<?|^ {0,3}\[[^\]]+\]:[ \t]*<?)local-image:([0-9a-f]+)/gm;
+
+// Object URLs of images already loaded, by hash (images never change, so they are kept)
+const objectUrls = new Map<string, Promise<string | null>>();
+
+/**
+ * Reads a Blob with FileReader, as raw bytes or as a data: URL.
+ * @param blob - The Blob to read.
+ * @param as - 'buffer' for an ArrayBuffer, 'dataUrl' for a string.
+ */
+const readBlob = <T extends ArrayBuffer | string>(
+  blob: Blob,
+  as: T extends string ? 'dataUrl' : 'buffer'
+): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as T);
+    reader.onerror = () => reject(reader.error);
+    if (as === 'buffer') reader.readAsArrayBuffer(blob);
+    else reader.readAsDataURL(blob);
+  });
+
+/**
+ * Computes the hash images are stored under: the first hex digits of the
+ * SHA-256 of their content.
+ * @param data - The image bytes.
+ */
+const hashImageData = async (data: ArrayBuffer): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new Uint8Array(data));
+  return Array.from(new Uint8Array(digest), (b) =>
+    b.toString(16).padStart(2, '0')
+  )
+    .join('')
+    .slice(0, HASH_LENGTH);
+};
+
+/**
+ * Stores an image record unless one with the same hash is already stored.
+ * Encryption (when on) happens before the write transaction opens, since
+ * the transaction would auto-commit while waiting for it.
+ * @param image - The image with plain bytes.
+ */
+const putImageIfMissing = async (image: LocalImage): Promise<void> => {
+  const release = await draftCrypto.beginWrite(); // Waits while the images are being re-encrypted
+  try {
+    const db = await openDraftDatabase();
+    const existing = await requestToPromise(
+      db.transaction(IMAGES_STORE).objectStore(IMAGES_STORE).getKey(image.hash)
+    );
+    if (existing !== undefined) return;
+    const record = await draftCrypto.encodeImage(image);
+    const tx = db.transaction(IMAGES_STORE, 'readwrite');
+    tx.objectStore(IMAGES_STORE).put(record);
+    await transactionDone(tx);
+  } finally {
+    release();
+  }
+};
+
+/**
+ * Lists the stored images a document references, in order of first use.
+ * @param markdown - The document text.
+ * @returns The hashes, without duplicates.
+ */
+export const findLocalImageHashes = (markdown: string): string[] => [
+  ...new Set([...markdown.matchAll(LOCAL_IMAGE_REFERENCE)].map((m) => m[2])),
+];
+
+/**
+ * Gets the hash of a local image reference.
+ * @param url - A link destination, e.g. "local-image:3f2a9c0d1b7e4a56".
+ * @returns The hash, or null if the URL is not a local image reference.
+ */
+export const getLocalImageHash = (url: string): string | null =>
+  url.startsWith(LOCAL_IMAGE_SCHEME) &&
+  /^[0-9a-f]+$/.test(url.slice(LOCAL_IMAGE_SCHEME.length))
+    ? url.slice(LOCAL_IMAGE_SCHEME.length)
+    : null;
+
+/**
+ * Builds the Markdown of a stored image.
+ * @param alt - The alternative text (brackets are removed).
+ * @param hash - The image hash.
+ */
+export const createImageMarkdown = (alt: string, hash: string): string =>
+  `![${alt.replace(/[[\]]/g, '')}](${LOCAL_IMAGE_SCHEME}${hash})`;
+
+/**
+ * Service object for images pasted or dropped into the editor. Images are
+ * stored in IndexedDB under a hash of their content, so the same image is
+ * stored only once however often it is inserted. When passphrase
+ * encryption is on, the image bytes are encrypted like draft content.
+ */
+export const imageStore = {
+  /**
+   * Stores an image unless an identical one is already stored.
+   * @param blob - The image data (its type is kept).
+   * @returns The hash to reference the image with, or null on error (e.g. while drafts are locked).
+   */
+  async saveImage(blob: Blob): Promise<string | null> {
+    try {
+      const data = await readBlob<ArrayBuffer>(blob, 'buffer');
+      const hash = await hashImageData(data);
+      await putImageIfMissing({
+        hash,
+        type: blob.type || 'application/octet-stream',
+        data,
+        createdAt: new Date().toISOString(),
+      });
+      return hash;
+    } catch (e) {
+      console.error('[imageStore] Error saving image:', e);
+      return null;
+    }
+  },
+
+  /**
+   * Loads a stored image.
+   * @param hash - The image hash.
+   * @returns The image as a Blob, or null if it is not stored or on error.
+   */
+  async getImage(hash: string): Promise<Blob | null> {
+    const image = await imageStore.getImageRecord(hash);
+    return image ? new Blob([image.data], { type: image.type }) : null;
+  },
+
+  /**
+   * Loads a stored image with its metadata (e.g. to export it).
+   * @param hash - The image hash.
+   * @returns The image with plain bytes, or null if it is not stored or on error.
+   */
+  async getImageRecord(hash: string): Promise<LocalImage | null> {
+    try {
+      const db = await openDraftDatabase();
+      const stored = await requestToPromise<LocalImage | undefined>(
+        db.transaction(IMAGES_STORE).objectStore(IMAGES_STORE).get(hash)
+      );
+      return stored ? await draftCrypto.decodeImage(stored) : null;
+    } catch (e) {
+      console.error('[imageStore] Error loading image:', e);
+      return null;
+    }
+  },
+
+  /**
+   * Stores images exported from another workspace (see workspaceService).
+   * Images whose content does not match their hash are skipped, so a
+   * reference always shows the image it was made for.
+   * @param images - The images with plain bytes.
+   * @returns True if every valid image is stored, false on error.
+   */
+  async importImages(images: LocalImage[]): Promise<boolean> {
+    try {
+      for (const image of images) {
+        if ((await hashImageData(image.data)) !== image.hash) {
+          console.warn(
+            `[imageStore] Skipping image with wrong hash: ${image.hash}`
+          );
+          continue;
+        }
+        await putImageIfMissing(image);
+      }
+      return true;
+    } catch (e) {
+      console.error('[imageStore] Error importing images:', e);
+      return false;
+    }
+  },
+
+  /**
+   * Gets an object URL for a stored image, to show it in the preview.
+   * URLs are created once per image and reused.
+   * @param hash - The image hash.
+   * @returns The object URL, or null if the image is not stored.
+   */
+  getObjectUrl(hash: string): Promise<string | null> {
+    let url = objectUrls.get(hash);
+    if (!url) {
+      url = imageStore
+        .getImage(hash)
+        .then((blob) => (blob ? URL.createObjectURL(blob) : null));
+      // Images that are missing now may be stored later (e.g. by an import)
+      url.then((u) => u === null && objectUrls.delete(hash));
+      objectUrls.set(hash, url);
+    }
+    return url;
+  },
+
+  /**
+   * Replaces the local image references of a document with data: URLs, so
+   * a single document can be used outside the app (e.g. saved to a file).
+   * Workspace exports carry the images as separate files instead.
+   * References to images that are not stored are left as they are.
+   * @param markdown - The document text.
+   * @returns The text with the images inlined.
+   */
+  async inlineImages(markdown: string): Promise<string> {
+    const hashes = findLocalImageHashes(markdown);
+    if (hashes.length === 0) return markdown;
+    const dataUrls = new Map<string, string>();
+    for (const hash of hashes) {
+      const blob = await imageStore.getImage(hash);
+      if (blob) {
+        dataUrls.set(hash, await readBlob<string>(blob, 'dataUrl'));
+      } else {
+        console.warn(`[imageStore] Image not found for export: ${hash}`);
+      }
+    }
+    return markdown.replace(
+      LOCAL_IMAGE_REFERENCE,
+      (reference, prefix: string, hash: string) =>
+        dataUrls.has(hash) ? prefix + dataUrls.get(hash) : reference
+    );
+  },
+};
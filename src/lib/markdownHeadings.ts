@@ -0,0 +1,179 @@
+// An ATX heading line (e.g. "## Title")
+export interface HeadingLine {
+  level: number; // 1-6
+  markerEnd: number; // Offset of the heading text (after the "#"s and spaces)
+}
+
+// A heading and the lines under it, up to the next heading of the same or a higher level
+export interface Section {
+  start: number; // Line index of the heading
+  end: number; // Line index of the last line of the section (subsections included)
+  level: number;
+}
+
+// A heading with the anchor ID the preview gives it
+export interface HeadingAnchor {
+  line: number; // Line index of the heading
+  level: number;
+  text: string; // Heading text without the markers and inline syntax
+  id: string; // Anchor ID, with "-1", "-2"... appended to duplicates
+}
+
+const HEADING = /^ {0,3}(#{1,6})(?:[ \t]+|$)/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * Generates a URL-friendly slug from a text string.
+ * Basic implementation: converts to lowercase, replaces spaces with hyphens,
+ * removes non-alphanumeric characters (except hyphens).
+ * @param text - The input text.
+ * @returns The generated slug.
+ */
+export const slugify = (text: string): string => {
+  // Remove HTML tags before slugifying
+  const plainText = text.replace(/<[^>]*>/g, '').trim();
+  return plainText
+    .toString()
+    .toLowerCase()
+    .replace(/\s+/g, '-') // Replace spaces with hyphens
+    .replace(/[^\p{L}\p{N}\p{M}-]+/gu, '') // Remove non-letter/number/mark/hyphen chars (Unicode aware)
+    .replace(/-+/g, '-') // Replace multiple hyphens with single
+    .replace(/^-+|-+$/g, ''); // Trim leading/trailing hyphens
+};
+
+/**
+ * Parses an ATX heading line.
+ * @param line - The line text.
+ * @returns The heading, or null if the line is not a heading.
+ */
+export const parseHeadingLine = (line: string): HeadingLine | null => {
+  const match = HEADING.exec(line);
+  return match ? { level: match[1].length, markerEnd: match[0].length } : null;
+};
+
+/**
+ * Finds the heading level of every line, ignoring "#" lines inside fenced code blocks.
+ * @param lines - The document lines.
+ * @returns The level per line, or 0 for lines that are not headings.
+ */
+export const getHeadingLevels = (lines: string[]): number[] => {
+  let fence: string | null = null; // Opening fence of the code block we are in
+  return lines.map((line) => {
+    const fenceMatch = FENCE.exec(line);
+    if (fence) {
+      // A closing fence uses the same character and is at least as long
+      if (
+        fenceMatch &&
+        fenceMatch[1][0] === fence[0] &&
+        fenceMatch[1].length >= fence.length &&
+        line.trim() === fenceMatch[1]
+      ) {
+        fence = null;
+      }
+      return 0;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      return 0;
+    }
+    return parseHeadingLine(line)?.level ?? 0;
+  });
+};
+
+/**
+ * Finds the section containing a line: the nearest heading at or above it
+ * and everything up to the next heading of the same or a higher level.
+ * @param levels - Heading levels per line (see getHeadingLevels).
+ * @param line - The line index.
+ * @returns The section, or null if the line is above the first heading.
+ */
+export const getSectionAt = (
+  levels: number[],
+  line: number
+): Section | null => {
+  let start = line;
+  while (start >= 0 && levels[start] === 0) start--;
+  if (start < 0) return null;
+  return getSection(levels, start);
+};
+
+/**
+ * Gets the section that starts at a heading line.
+ * @param levels - Heading levels per line (see getHeadingLevels).
+ * @param start - The line index of the heading.
+ */
+export const getSection = (levels: number[], start: number): Section => {
+  const level = levels[start];
+  let end = start + 1;
+  while (end < levels.length && (levels[end] === 0 || levels[end] > level)) {
+    end++;
+  }
+  return { start, end: end - 1, level };
+};
+
+/**
+ * Finds the sibling section (same level, same parent) next to a section.
+ * @param levels - Heading levels per line (see getHeadingLevels).
+ * @param section - The section to start from.
+ * @param direction - -1 for the previous sibling, 1 for the next one.
+ * @returns The sibling, or null if the section is the first/last one under its parent.
+ */
+export const getSiblingSection = (
+  levels: number[],
+  section: Section,
+  direction: -1 | 1
+): Section | null => {
+  if (direction === 1) {
+    const next = section.end + 1;
+    return next < levels.length && levels[next] === section.level
+      ? getSection(levels, next)
+      : null;
+  }
+  let previous = section.start - 1;
+  while (
+    previous >= 0 &&
+    (levels[previous] === 0 || levels[previous] > section.level)
+  ) {
+    previous--;
+  }
+  return previous >= 0 && levels[previous] === section.level
+    ? getSection(levels, previous)
+    : null;
+};
+
+/**
+ * Strips the closing "#"s and inline syntax (links, images, emphasis, code)
+ * from the text of a heading line, leaving the text the preview shows.
+ * @param text - The line text after the heading marker.
+ */
+const headingText = (text: string): string =>
+  text
+    .replace(/[ \t]+#+[ \t]*$|^#+[ \t]*$/, '') // Closing sequence
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1') // Links and images keep their text
+    .replace(/[*_~`]/g, '')
+    .trim();
+
+/**
+ * Lists the headings of a document with the anchor IDs the preview gives
+ * them, numbering duplicates the same way (first "id", then "id-1", "id-2"...).
+ * @param lines - The document lines.
+ */
+export const getHeadingAnchors = (lines: string[]): HeadingAnchor[] => {
+  const counts: Record<string, number> = {};
+  const anchors: HeadingAnchor[] = [];
+  getHeadingLevels(lines).forEach((level, line) => {
+    if (level === 0) return;
+    const text = headingText(
+      lines[line].slice(parseHeadingLine(lines[line])!.markerEnd)
+    );
+    let id = slugify(text || `heading-${level}`);
+    if (counts[id] !== undefined) {
+      counts[id]++;
+      id = `${id}-${counts[id]}`;
+    } else {
+      counts[id] = 0;
+    }
+    anchors.push({ line, level, text, id });
+  });
+  return anchors;
+};
@@ -0,0 +1,245 @@
+import type { LintRuleId, LintSettings } from '@/types/editor';
+import {
+  getHeadingAnchors,
+  parseHeadingLine,
+  slugify,
+} from './markdownHeadings';
+import { analyzeListLines } from './markdownList';
+
+// A text change that fixes a lint issue (offsets into the document)
+export interface LintChange {
+  from: number;
+  to: number;
+  insert: string;
+}
+
+// A problem found by a lint rule
+export interface LintIssue {
+  rule: LintRuleId;
+  from: number;
+  to: number;
+  severity: 'info' | 'warning' | 'error';
+  message: string;
+  fix?: { label: string; changes: LintChange[] }; // One-click fix, if the rule has one
+}
+
+// Lint rules in the order they are listed in the settings
+export const LINT_RULES: { id: LintRuleId; label: string }[] = [
+  { id: 'heading-increment', label: '見出しレベルの飛び' },
+  { id: 'duplicate-heading', label: '見出しの重複' },
+  { id: 'trailing-whitespace', label: '行末の空白' },
+  { id: 'bullet-style', label: 'リスト記号の不統一' },
+  { id: 'unclosed-fence', label: '閉じていないコードブロック' },
+  { id: 'image-alt', label: '画像の代替テキスト' },
+];
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const IMAGE_WITHOUT_ALT = /!\[\s*\]\(\s*<?([^)\s>]*)[^)]*\)/g;
+
+// Fenced code blocks of a document
+interface CodeBlocks {
+  inCode: boolean[]; // Per line: inside a code block, fences included
+  unclosed: { line: number; fence: string } | null; // Opening fence of a block that is never closed
+}
+
+const findCodeBlocks = (lines: string[]): CodeBlocks => {
+  let open: { line: number; fence: string } | null = null;
+  const inCode = lines.map((line, i) => {
+    const match = FENCE.exec(line);
+    if (open) {
+      // A closing fence uses the same character and is at least as long
+      if (
+        match &&
+        match[1][0] === open.fence[0] &&
+        match[1].length >= open.fence.length &&
+        line.trim() === match[1]
+      ) {
+        open = null;
+      }
+      return true;
+    }
+    if (match) open = { line: i, fence: match[1] };
+    return match !== null;
+  });
+  return { inCode, unclosed: open };
+};
+
+/**
+ * Suggests alternative text for an image from its file name (e.g. "cat" for "img/cat.png").
+ * @param url - The image URL.
+ */
+const altTextFor = (url: string): string => {
+  const name = url.split(/[?#]/)[0].split('/').pop() ?? '';
+  let base = name.replace(/\.[^.]+$/, '');
+  try {
+    base = decodeURIComponent(base);
+  } catch {
+    // Keep the name as written if it is not valid percent-encoding
+  }
+  return base.replace(/[-_]+/g, ' ').trim() || '画像';
+};
+
+/**
+ * Checks a Markdown document against the enabled lint rules.
+ * Lines inside fenced code blocks are not checked.
+ * @param text - The document text.
+ * @param settings - Which rules are enabled.
+ * @returns The issues found, in document order per rule.
+ */
+export const lintMarkdown = (
+  text: string,
+  settings: LintSettings
+): LintIssue[] => {
+  const lines = text.split('\n');
+  const lineStarts: number[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    lineStarts.push(offset);
+    offset += line.length + 1;
+  }
+  const { inCode, unclosed } = findCodeBlocks(lines);
+  const issues: LintIssue[] = [];
+
+  if (settings['heading-increment'] || settings['duplicate-heading']) {
+    const anchors = getHeadingAnchors(lines);
+    const seen = new Set<string>();
+    anchors.forEach((anchor, i) => {
+      const line = lines[anchor.line];
+      const from = lineStarts[anchor.line];
+      const previous = i > 0 ? anchors[i - 1].level : anchor.level;
+      if (settings['heading-increment'] && anchor.level > previous + 1) {
+        const hashes = line.indexOf('#');
+        issues.push({
+          rule: 'heading-increment',
+          from,
+          to: from + line.length,
+          severity: 'warning',
+          message: `見出しレベルが ${previous} から ${anchor.level} に飛んでいます`,
+          fix: {
+            label: `レベル ${previous + 1} に変更`,
+            changes: [
+              {
+                from: from + hashes,
+                to: from + hashes + anchor.level,
+                insert: '#'.repeat(previous + 1),
+              },
+            ],
+          },
+        });
+      }
+      const slug = slugify(anchor.text || `heading-${anchor.level}`);
+      if (settings['duplicate-heading'] && seen.has(slug)) {
+        issues.push({
+          rule: 'duplicate-heading',
+          from: from + parseHeadingLine(line)!.markerEnd,
+          to: from + line.length,
+          severity: 'warning',
+          message: `同じアンカー (#${slug}) の見出しが前にあります。この見出しへのリンクは #${anchor.id} になります`,
+        });
+      }
+      seen.add(slug);
+    });
+  }
+
+  if (settings['trailing-whitespace']) {
+    lines.forEach((line, i) => {
+      if (inCode[i]) return;
+      const match = /[ \t]+$/.exec(line);
+      if (!match) return;
+      // Two or more spaces after text are a hard line break: keep exactly two
+      const hardBreak = line.trim() !== '' && /^ {2,}$/.test(match[0]);
+      if (hardBreak && match[0].length === 2) return;
+      const from = lineStarts[i] + match.index + (hardBreak ? 2 : 0);
+      const to = lineStarts[i] + line.length;
+      issues.push({
+        rule: 'trailing-whitespace',
+        from,
+        to,
+        severity: 'info',
+        message: hardBreak
+          ? '改行 (行末の半角スペース2つ) の後に余分な空白があります'
+          : '行末に空白があります',
+        fix: {
+          label: hardBreak ? '余分な空白を削除' : '空白を削除',
+          changes: [{ from, to, insert: '' }],
+        },
+      });
+    });
+  }
+
+  if (settings['bullet-style']) {
+    // Code lines count as blank so that they do not end the list around them
+    const firstBullets: (string | null)[] = [];
+    analyzeListLines(
+      lines.map((line, i) => (inCode[i] && !FENCE.test(line) ? '' : line))
+    ).forEach(({ item, previousSibling }, i) => {
+      if (!item?.bullet) return;
+      const expected =
+        previousSibling === -1 ? item.bullet : firstBullets[previousSibling]!;
+      firstBullets[i] = expected;
+      if (item.bullet === expected) return;
+      const from = lineStarts[i] + item.markerFrom;
+      issues.push({
+        rule: 'bullet-style',
+        from,
+        to: from + 1,
+        severity: 'warning',
+        message: `リストの記号が揃っていません (このリストでは「${expected}」を使っています)`,
+        fix: {
+          label: `「${expected}」に統一`,
+          changes: [{ from, to: from + 1, insert: expected }],
+        },
+      });
+    });
+  }
+
+  if (settings['unclosed-fence'] && unclosed) {
+    const from = lineStarts[unclosed.line];
+    issues.push({
+      rule: 'unclosed-fence',
+      from,
+      to: from + lines[unclosed.line].length,
+      severity: 'error',
+      message: 'コードブロックが閉じられていません',
+      fix: {
+        label: '文書の末尾で閉じる',
+        changes: [
+          {
+            from: text.length,
+            to: text.length,
+            insert: `${text.endsWith('\n') ? '' : '\n'}${unclosed.fence}\n`,
+          },
+        ],
+      },
+    });
+  }
+
+  if (settings['image-alt']) {
+    lines.forEach((line, i) => {
+      if (inCode[i]) return;
+      for (const match of line.matchAll(IMAGE_WITHOUT_ALT)) {
+        const from = lineStarts[i] + match.index!;
+        const alt = altTextFor(match[1]);
+        issues.push({
+          rule: 'image-alt',
+          from,
+          to: from + match[0].length,
+          severity: 'warning',
+          message: '画像に代替テキストがありません',
+          fix: {
+            label: `「${alt}」を代替テキストにする`,
+            changes: [
+              {
+                from: from + 2, // After "!["
+                to: from + match[0].indexOf(']'),
+                insert: alt,
+              },
+            ],
+          },
+        });
+      }
+    });
+  }
+
+  return issues;
+};
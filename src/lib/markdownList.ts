@@ -0,0 +1,154 @@
+// A list item marker at the start of a line
+export interface ListItem {
+  indent: number; // Leading whitespace before the marker
+  markerFrom: number; // Offset of the marker within the line
+  markerTo: number;
+  bullet: string | null; // "-", "*" or "+" for bullet items
+  number: number | null; // Number of ordered items
+  delimiter: '.' | ')' | null; // Delimiter after the number of ordered items
+  task: 'unchecked' | 'checked' | null; // Task list checkbox
+  childIndent: number; // Indentation of the item's content (where nested lists start)
+  contentStart: number; // Offset of the text after the marker and checkbox
+}
+
+// Nesting of a line within the list lines around it
+export interface ListLineInfo {
+  item: ListItem | null; // null for blank and continuation lines
+  level: number; // Number of ancestor items (-1 for lines that are not items)
+  parent: number; // Line index of the parent item, or -1
+  previousSibling: number; // Line index of the previous item of the same list, or -1
+}
+
+// Change to the number of an ordered item, relative to its line
+export interface RenumberChange {
+  line: number; // Index into the given lines
+  from: number;
+  to: number;
+  insert: string;
+}
+
+// Bullet characters used by nesting level, cycling for deeper levels
+const BULLETS = ['-', '*', '+'];
+
+const LIST_ITEM =
+  /^(\s*)([-*+]|(\d{1,9})([.)]))([ \t]+|$)(\[([ xX])\](?:[ \t]+|$))?/;
+
+/**
+ * Parses the list marker (and task checkbox) at the start of a line.
+ * @param line - The line text.
+ * @returns The item, or null if the line is not a list item.
+ */
+export const parseListItem = (line: string): ListItem | null => {
+  const match = LIST_ITEM.exec(line);
+  if (!match) return null;
+  const [whole, indent, marker, number, delimiter, space, checkbox, check] =
+    match;
+  const markerTo = indent.length + marker.length;
+  // Four or more spaces after the marker make the content an indented code block
+  const spaceWidth = space.length === 0 || space.length > 4 ? 1 : space.length;
+  return {
+    indent: indent.length,
+    markerFrom: indent.length,
+    markerTo,
+    bullet: number ? null : marker,
+    number: number ? Number(number) : null,
+    delimiter: number ? (delimiter as '.' | ')') : null,
+    task: checkbox ? (check === ' ' ? 'unchecked' : 'checked') : null,
+    childIndent: markerTo + spaceWidth,
+    contentStart: whole.length,
+  };
+};
+
+/**
+ * Bullet character for a nesting level ("-", then "*", then "+").
+ * @param level - Number of ancestor items.
+ */
+export const bulletForLevel = (level: number): string =>
+  BULLETS[level % BULLETS.length];
+
+/**
+ * Text of an item's marker (e.g. "-" or "3.").
+ * @param item - The list item.
+ */
+export const formatMarker = (item: ListItem): string =>
+  item.number === null ? item.bullet! : `${item.number}${item.delimiter}`;
+
+const indentOf = (line: string) => /^\s*/.exec(line)![0].length;
+
+/**
+ * Checks whether a line can be part of a list: an item, or a non-blank
+ * indented line (the continuation of an item or a nested block).
+ * Blank lines are decided by the lines around them.
+ * @param line - The line text.
+ */
+export const isListBlockLine = (line: string): boolean =>
+  parseListItem(line) !== null || (line.trim() !== '' && indentOf(line) > 0);
+
+const isSameList = (a: ListItem, b: ListItem) =>
+  (a.number === null) === (b.number === null) && a.delimiter === b.delimiter;
+
+/**
+ * Works out how the items in a run of lines nest: an item indented to its
+ * parent's content is a child, one at the parent's own indentation a sibling.
+ * @param lines - The lines, from the start of the list.
+ */
+export const analyzeListLines = (lines: string[]): ListLineInfo[] => {
+  const stack: number[] = []; // Line indices of the open items, outermost first
+  const items = lines.map(parseListItem);
+  return lines.map((line, i) => {
+    const item = items[i];
+    if (!item) {
+      // Text outside an item's content closes it
+      const indent = indentOf(line);
+      while (
+        line.trim() !== '' &&
+        stack.length > 0 &&
+        indent < items[stack[stack.length - 1]]!.childIndent
+      ) {
+        stack.pop();
+      }
+      return { item, level: -1, parent: -1, previousSibling: -1 };
+    }
+
+    let previousSibling = -1;
+    while (stack.length > 0) {
+      const top = items[stack[stack.length - 1]]!;
+      if (item.indent >= top.childIndent) break; // Child of the open item
+      const index = stack.pop()!;
+      if (item.indent >= top.indent) {
+        if (isSameList(top, item)) previousSibling = index;
+        break;
+      }
+    }
+    const parent = stack.length > 0 ? stack[stack.length - 1] : -1;
+    const level = stack.length;
+    stack.push(i);
+    return { item, level, parent, previousSibling };
+  });
+};
+
+/**
+ * Numbers the items of each ordered list consecutively, starting from the
+ * number of the list's first item.
+ * @param lines - The lines, from the start of the list.
+ * @returns The number changes needed, in line order.
+ */
+export const renumberListLines = (lines: string[]): RenumberChange[] => {
+  const numbers: number[] = [];
+  const changes: RenumberChange[] = [];
+  analyzeListLines(lines).forEach(({ item, previousSibling }, i) => {
+    if (!item || item.number === null) return;
+    const expected =
+      previousSibling === -1 ? item.number : numbers[previousSibling] + 1;
+    numbers[i] = expected;
+    if (expected !== item.number) {
+      changes.push({
+        line: i,
+        from: item.markerFrom,
+        to: item.markerTo - 1, // Keep the delimiter
+        insert: String(expected),
+      });
+    }
+  });
+  return changes;
+};
@@ -2,6 +2,8 @@ import { marked, Renderer } from 'marked';
 import DOMPurify from 'dompurify';
 import hljs from 'highlight.js';
 import type { HeadingItem } from '@/types/editor'; // Import type definition
+import { slugify } from './markdownHeadings';
+import { getLocalImageHash } from './imageStore';
 
 // Type definition for the return value of the parser function
 interface ParseResult {
@@ -9,25 +11,6 @@ interface ParseResult {
   headings: HeadingItem[];
 }
 
-/**
- * Generates a URL-friendly slug from a text string.
- * Basic implementation: converts to lowercase, replaces spaces with hyphens,
- * removes non-alphanumeric characters (except hyphens).
- * @param text - The input text.
- * @returns The generated slug.
- */
-const slugify = (text: string): string => {
-  // Remove HTML tags before slugifying
-  const plainText = text.replace(/<[^>]*>/g, '').trim();
-  return plainText
-    .toString()
-    .toLowerCase()
-    .replace(/\s+/g, '-') // Replace spaces with hyphens
-    .replace(/[^\p{L}\p{N}\p{M}-]+/gu, '') // Remove non-letter/number/mark/hyphen chars (Unicode aware)
-    .replace(/-+/g, '-') // Replace multiple hyphens with single
-    .replace(/^-+|-+$/g, ''); // Trim leading/trailing hyphens
-};
-
 /**
  * Configures and returns a Markdown parsing function using 'marked'.
  * This function parses Markdown to HTML, sanitizes the HTML,
@@ -101,9 +84,14 @@ export const configureMarkdownParser = (): ((
   // --- Customize Other Elements (Optional but Recommended) ---
   // Image rendering with classes and lazy loading
   renderer.image = (href, title, text): string => {
-    const cleanHref = DOMPurify.sanitize(href || '');
     const cleanTitle = title ? DOMPurify.sanitize(title) : '';
     const cleanText = DOMPurify.sanitize(text);
+    // Stored images get their object URL from the preview (DOMPurify drops unknown URL schemes)
+    const localHash = getLocalImageHash(href || '');
+    if (localHash) {
+      return `<img data-local-image="${localHash}" alt="${cleanText}" title="${cleanTitle}" class="max-w-full h-auto rounded my-2" />`;
+    }
+    const cleanHref = DOMPurify.sanitize(href || '');
     return `<img src="${cleanHref}" alt="${cleanText}" title="${cleanTitle}" class="max-w-full h-auto rounded my-2" loading="lazy" />`;
   };
 
@@ -0,0 +1,244 @@
+// Column alignment of a GFM pipe table (null = not specified)
+export type TableAlignment = 'left' | 'center' | 'right' | null;
+
+// A GFM pipe table split into cells
+export interface MarkdownTable {
+  header: string[];
+  alignments: TableAlignment[];
+  rows: string[][];
+}
+
+// Minimum width of a column (the delimiter row needs at least three dashes)
+const MIN_COLUMN_WIDTH = 3;
+
+const DELIMITER_CELL = /^:?-+:?$/;
+
+/**
+ * Width of text in a monospace font: East Asian wide and fullwidth
+ * characters (and other characters outside the BMP) take two columns.
+ * @param text - The text to measure.
+ */
+export const displayWidth = (text: string): number => {
+  let width = 0;
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    const isWide =
+      (code >= 0x1100 && code <= 0x115f) ||
+      (code >= 0x2e80 && code <= 0xa4cf) ||
+      (code >= 0xac00 && code <= 0xd7a3) ||
+      (code >= 0xf900 && code <= 0xfaff) ||
+      (code >= 0xfe30 && code <= 0xfe4f) ||
+      (code >= 0xff00 && code <= 0xff60) ||
+      (code >= 0xffe0 && code <= 0xffe6) ||
+      code > 0xffff;
+    width += isWide ? 2 : 1;
+  }
+  return width;
+};
+
+/**
+ * Positions of the cell-separating pipes in a table line (escaped pipes and
+ * pipes inside code spans are part of the cell text).
+ * @param line - The line text.
+ */
+export const findCellSeparators = (line: string): number[] => {
+  const separators: number[] = [];
+  let inCode = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '\\') {
+      i++; // Skip the escaped character
+    } else if (char === '`') {
+      inCode = !inCode;
+    } else if (char === '|' && !inCode) {
+      separators.push(i);
+    }
+  }
+  return separators;
+};
+
+/**
+ * Offsets that delimit the cells of a table line: cell i lies between
+ * bounds[i] and bounds[i + 1]. Leading and trailing pipes are optional.
+ * @param line - The line text.
+ */
+const getCellBounds = (line: string): number[] => {
+  const separators = findCellSeparators(line);
+  const hasLeadingPipe = separators[0] === line.search(/\S/);
+  const hasTrailingPipe =
+    separators[separators.length - 1] === line.trimEnd().length - 1;
+  return [
+    ...(hasLeadingPipe ? [] : [-1]),
+    ...separators,
+    ...(hasTrailingPipe ? [] : [line.length]),
+  ];
+};
+
+/**
+ * Splits a table line into trimmed cells. Leading and trailing pipes are optional.
+ * @param line - The line text.
+ */
+export const parseTableRow = (line: string): string[] => {
+  const bounds = getCellBounds(line);
+  return bounds.slice(1).map((end, i) => line.slice(bounds[i] + 1, end).trim());
+};
+
+/**
+ * Checks whether a line could be part of a pipe table.
+ * @param line - The line text.
+ */
+export const isTableLine = (line: string): boolean =>
+  line.trim() !== '' && findCellSeparators(line).length > 0;
+
+/**
+ * Checks whether a line is the delimiter row below a table header (e.g. `| --- | :-: |`).
+ * @param line - The line text.
+ */
+export const isDelimiterRow = (line: string): boolean => {
+  if (!isTableLine(line)) return false;
+  const cells = parseTableRow(line);
+  return cells.length > 0 && cells.every((cell) => DELIMITER_CELL.test(cell));
+};
+
+const parseAlignment = (cell: string): TableAlignment => {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  if (left && right) return 'center';
+  if (left) return 'left';
+  if (right) return 'right';
+  return null;
+};
+
+/**
+ * Parses the lines of a pipe table (header, delimiter row, body rows).
+ * Rows are padded with empty cells to the widest row.
+ * @param lines - The table lines.
+ * @returns The table, or null if the second line is not a delimiter row.
+ */
+export const parseTable = (lines: string[]): MarkdownTable | null => {
+  if (lines.length < 2 || !isDelimiterRow(lines[1])) return null;
+  const header = parseTableRow(lines[0]);
+  const alignments = parseTableRow(lines[1]).map(parseAlignment);
+  const rows = lines.slice(2).map(parseTableRow);
+  const columnCount = Math.max(
+    header.length,
+    alignments.length,
+    ...rows.map((row) => row.length)
+  );
+  const pad = <T>(cells: T[], fill: T) => [
+    ...cells,
+    ...Array<T>(columnCount - cells.length).fill(fill),
+  ];
+  return {
+    header: pad(header, ''),
+    alignments: pad(alignments, null),
+    rows: rows.map((row) => pad(row, '')),
+  };
+};
+
+/**
+ * Creates an empty table with placeholder headers.
+ * @param rowCount - Number of body rows.
+ * @param columnCount - Number of columns.
+ */
+export const createTable = (
+  rowCount: number,
+  columnCount: number
+): MarkdownTable => ({
+  header: Array.from({ length: columnCount }, (_, i) => `見出し${i + 1}`),
+  alignments: Array<TableAlignment>(columnCount).fill(null),
+  rows: Array.from({ length: rowCount }, () =>
+    Array<string>(columnCount).fill('')
+  ),
+});
+
+const padCell = (text: string, width: number, alignment: TableAlignment) => {
+  const space = width - displayWidth(text);
+  if (alignment === 'right') return ' '.repeat(space) + text;
+  if (alignment === 'center') {
+    const before = Math.floor(space / 2);
+    return ' '.repeat(before) + text + ' '.repeat(space - before);
+  }
+  return text + ' '.repeat(space);
+};
+
+const delimiterCell = (width: number, alignment: TableAlignment) => {
+  switch (alignment) {
+    case 'left':
+      return ':' + '-'.repeat(width - 1);
+    case 'center':
+      return ':' + '-'.repeat(width - 2) + ':';
+    case 'right':
+      return '-'.repeat(width - 1) + ':';
+    default:
+      return '-'.repeat(width);
+  }
+};
+
+/**
+ * Lays out a table with leading and trailing pipes and columns padded to
+ * the same width, honoring each column's alignment.
+ * @param table - The table to format.
+ * @returns The header, the delimiter row and the body rows.
+ */
+export const formatTable = (table: MarkdownTable): string[] => {
+  const widths = table.header.map((_, col) =>
+    Math.max(
+      MIN_COLUMN_WIDTH,
+      displayWidth(table.header[col]),
+      ...table.rows.map((row) => displayWidth(row[col]))
+    )
+  );
+  const joinCells = (cells: string[]) => `| ${cells.join(' | ')} |`;
+  const formatRow = (cells: string[]) =>
+    joinCells(
+      cells.map((cell, col) =>
+        padCell(cell, widths[col], table.alignments[col])
+      )
+    );
+  return [
+    formatRow(table.header),
+    joinCells(
+      widths.map((width, col) => delimiterCell(width, table.alignments[col]))
+    ),
+    ...table.rows.map(formatRow),
+  ];
+};
+
+/**
+ * Finds the column of a table line that contains an offset.
+ * @param line - The line text.
+ * @param offset - The offset within the line.
+ * @returns The zero-based column index (not clamped to the table width).
+ */
+export const getCellIndex = (line: string, offset: number): number => {
+  const bounds = getCellBounds(line);
+  const next = bounds.findIndex((bound) => bound >= offset);
+  // Past the trailing pipe counts as the last cell
+  return next === -1 ? Math.max(0, bounds.length - 2) : Math.max(0, next - 1);
+};
+
+/**
+ * Finds the trimmed content of a cell in a table line. For an empty cell the
+ * range is the empty spot after the separator and its padding space.
+ * @param line - The line text.
+ * @param column - The zero-based column index.
+ * @returns The offsets of the content within the line, or null if the column does not exist.
+ */
+export const getCellRange = (
+  line: string,
+  column: number
+): { from: number; to: number } | null => {
+  const bounds = getCellBounds(line);
+  if (column < 0 || column + 1 >= bounds.length) return null;
+  const start = bounds[column] + 1;
+  const end = bounds[column + 1];
+  const text = line.slice(start, end);
+  const content = text.trim();
+  if (!content) {
+    const spot = Math.min(start + 1, end);
+    return { from: spot, to: spot };
+  }
+  const from = start + text.indexOf(content);
+  return { from, to: from + content.length };
+};
@@ -0,0 +1,118 @@
+import type { RecoveryCandidate, RecoveryEntry } from '@/types/editor';
+import {
+  openDraftDatabase,
+  requestToPromise,
+  transactionDone,
+  RECOVERY_STORE,
+} from '@/lib/draftDatabase';
+import { draftCrypto } from '@/lib/draftCrypto';
+import { storageService } from '@/lib/storageService';
+
+/**
+ * Journal key of a document: its draft ID, or the ID of its editor tab while untitled.
+ * @param draftId - The ID of the open draft (null for an untitled document).
+ * @param tabId - The ID of the tab showing the document.
+ */
+export const getRecoveryId = (draftId: string | null, tabId: string): string =>
+  draftId ?? `untitled_${tabId}`;
+
+/**
+ * Service object for the crash-recovery journal: the unsaved editor text is
+ * recorded continuously (independently of explicit saves and autosave), and
+ * on the next start any entry that differs from the saved draft is offered
+ * for recovery. Content is encrypted like drafts when encryption is on.
+ */
+export const recoveryJournal = {
+  /**
+   * Records the current unsaved text of a document, replacing its previous entry.
+   * @param entry - The document's text and identity.
+   * @returns True on success, false otherwise.
+   */
+  async record(entry: Omit<RecoveryEntry, 'updatedAt'>): Promise<boolean> {
+    const release = await draftCrypto.beginWrite(); // Waits while the records are being re-encrypted
+    try {
+      const db = await openDraftDatabase();
+      const stored = await draftCrypto.encodeRecord({
+        ...entry,
+        updatedAt: new Date().toISOString(),
+      });
+      const tx = db.transaction(RECOVERY_STORE, 'readwrite');
+      tx.objectStore(RECOVERY_STORE).put(stored);
+      await transactionDone(tx);
+      return true;
+    } catch (e) {
+      console.error('[recoveryJournal] Error recording entry:', e);
+      return false;
+    } finally {
+      release();
+    }
+  },
+
+  /**
+   * Deletes the entry of a document (e.g. once its text has been saved).
+   * @param id - The journal key (see getRecoveryId).
+   * @returns True on success, false otherwise.
+   */
+  async remove(id: string): Promise<boolean> {
+    const release = await draftCrypto.beginWrite();
+    try {
+      const db = await openDraftDatabase();
+      const tx = db.transaction(RECOVERY_STORE, 'readwrite');
+      tx.objectStore(RECOVERY_STORE).delete(id);
+      await transactionDone(tx);
+      return true;
+    } catch (e) {
+      console.error('[recoveryJournal] Error removing entry:', e);
+      return false;
+    } finally {
+      release();
+    }
+  },
+
+  /**
+   * Retrieves every journal entry with its content decrypted, newest first.
+   * Entries that cannot be decrypted are skipped.
+   * @returns The entries, or an empty array on error.
+   */
+  async getEntries(): Promise<RecoveryEntry[]> {
+    try {
+      const db = await openDraftDatabase();
+      const stored = await requestToPromise<RecoveryEntry[]>(
+        db.transaction(RECOVERY_STORE).objectStore(RECOVERY_STORE).getAll()
+      );
+      const entries = await Promise.all(
+        stored.map((entry) => draftCrypto.decodeRecord(entry).catch(() => null))
+      );
+      return entries
+        .filter((entry): entry is RecoveryEntry => entry !== null)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    } catch (e) {
+      console.error('[recoveryJournal] Error reading entries:', e);
+      return [];
+    }
+  },
+
+  /**
+   * Finds the entries worth offering for recovery at startup. Entries whose
+   * text matches the saved draft (or that are empty) are deleted instead.
+   * @returns The candidates with the saved content to compare against, newest first.
+   */
+  async findRecoverable(): Promise<RecoveryCandidate[]> {
+    const entries = await this.getEntries();
+    if (entries.length === 0) return [];
+    // Drafts in the trash cannot be opened; their text is recovered as untitled
+    const drafts = new Map(
+      (await storageService.getAllDrafts()).map((d) => [d.id, d])
+    );
+    const candidates: RecoveryCandidate[] = [];
+    for (const entry of entries) {
+      const saved = entry.draftId ? drafts.get(entry.draftId) : undefined;
+      if (saved ? saved.content === entry.content : !entry.content.trim()) {
+        await this.remove(entry.id); // Nothing was lost
+        continue;
+      }
+      candidates.push({ entry, savedContent: saved?.content ?? null });
+    }
+    return candidates;
+  },
+};
@@ -0,0 +1,225 @@
+import type { Draft, DraftSnapshot, QuarantinedEntry } from '@/types/editor';
+import {
+  requestToPromise,
+  transactionDone,
+  DRAFTS_STORE,
+  META_STORE,
+  SNAPSHOTS_STORE,
+  QUARANTINE_STORE,
+  SCHEMA_VERSION_KEY,
+} from '@/lib/draftStores';
+
+// localStorage key of the theme preference (passed to ThemeProvider in main.tsx)
+const THEME_STORAGE_KEY = 'ai-md-editor-theme';
+const VALID_THEMES = ['light', 'dark', 'system'];
+
+// A step that upgrades stored data from the previous schema version to `version`
+export interface SchemaMigration {
+  version: number; // Schema version reached after this step
+  description: string; // What the step changes (for logs)
+  migrate: (db: IDBDatabase) => Promise<void>; // Must be safe to re-run if it fails midway
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isTimestamp = (value: unknown): value is string =>
+  typeof value === 'string' && !Number.isNaN(Date.parse(value));
+
+/**
+ * Creates a quarantine record for an entry that cannot be used.
+ * @param source - Where the entry was found (object store or localStorage key).
+ * @param key - The entry's key in its source.
+ * @param data - The entry as found.
+ * @param reason - Why it is quarantined.
+ */
+export const createQuarantineEntry = (
+  source: string,
+  key: IDBValidKey | null,
+  data: unknown,
+  reason: string
+): QuarantinedEntry => {
+  const timestamp = new Date().toISOString();
+  return {
+    id: `quarantine_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 10)}`,
+    source,
+    key: key === null ? null : String(key),
+    data,
+    reason,
+    quarantinedAt: timestamp,
+  };
+};
+
+/**
+ * Checks a stored draft record and fills in fields added by later versions.
+ * @param value - The stored value.
+ * @returns The normalized draft, or a reason why it cannot be used.
+ */
+const validateDraft = (value: unknown): Draft | string => {
+  if (!isObject(value)) return 'Not an object';
+  if (typeof value.id !== 'string' || !value.id) return 'Missing id';
+  if (typeof value.content !== 'string') return 'Content is not a string';
+  if (!isTimestamp(value.lastModified)) return 'Invalid lastModified';
+  if (value.fileName != null && typeof value.fileName !== 'string') {
+    return 'Invalid fileName';
+  }
+  return {
+    ...(value as unknown as Draft),
+    fileName: (value.fileName as string | null | undefined) ?? null,
+    folderId: typeof value.folderId === 'string' ? value.folderId : null,
+    tags: Array.isArray(value.tags)
+      ? value.tags.filter((t): t is string => typeof t === 'string')
+      : [],
+    deletedAt: isTimestamp(value.deletedAt) ? value.deletedAt : null,
+  };
+};
+
+/**
+ * Checks a stored snapshot record and fills in optional fields.
+ * @param value - The stored value.
+ * @returns The normalized snapshot, or a reason why it cannot be used.
+ */
+const validateSnapshot = (value: unknown): DraftSnapshot | string => {
+  if (!isObject(value)) return 'Not an object';
+  if (typeof value.id !== 'string' || !value.id) return 'Missing id';
+  if (typeof value.draftId !== 'string') return 'Missing draftId';
+  if (typeof value.content !== 'string') return 'Content is not a string';
+  if (value.kind !== 'auto' && value.kind !== 'manual') return 'Invalid kind';
+  if (!isTimestamp(value.createdAt)) return 'Invalid createdAt';
+  return {
+    ...(value as unknown as DraftSnapshot),
+    label: typeof value.label === 'string' ? value.label : null,
+    updatedAt: isTimestamp(value.updatedAt) ? value.updatedAt : value.createdAt,
+  };
+};
+
+/**
+ * Validates every record of an object store in one transaction: usable
+ * records are rewritten normalized, the others are moved to the quarantine.
+ * @param db - The open database.
+ * @param storeName - The object store to check.
+ * @param validate - Returns the normalized record or a reason to quarantine it.
+ */
+const normalizeStore = async <T>(
+  db: IDBDatabase,
+  storeName: string,
+  validate: (value: unknown) => T | string
+): Promise<void> => {
+  const readStore = db.transaction(storeName).objectStore(storeName);
+  const [values, keys] = await Promise.all([
+    requestToPromise<unknown[]>(readStore.getAll()),
+    requestToPromise<IDBValidKey[]>(readStore.getAllKeys()),
+  ]);
+
+  const tx = db.transaction([storeName, QUARANTINE_STORE], 'readwrite');
+  const store = tx.objectStore(storeName);
+  const quarantine = tx.objectStore(QUARANTINE_STORE);
+  values.forEach((value, index) => {
+    const result = validate(value);
+    if (typeof result === 'string') {
+      quarantine.add(
+        createQuarantineEntry(storeName, keys[index], value, result)
+      );
+      store.delete(keys[index]);
+      console.warn(
+        `[schemaMigrations] Quarantined ${storeName} entry ${String(keys[index])}: ${result}`
+      );
+    } else {
+      store.put(result);
+    }
+  });
+  await transactionDone(tx);
+};
+
+/**
+ * Ordered list of schema migrations. Append new steps with the next version
+ * number; never change or reorder steps that have been released.
+ */
+export const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+  {
+    version: 1,
+    description:
+      'Fill in folderId, tags and deletedAt of drafts; quarantine malformed drafts and snapshots',
+    migrate: async (db) => {
+      await normalizeStore(db, DRAFTS_STORE, validateDraft);
+      await normalizeStore(db, SNAPSHOTS_STORE, validateSnapshot);
+    },
+  },
+  {
+    version: 2,
+    description: 'Quarantine an unknown theme preference',
+    migrate: async (db) => {
+      let theme: string | null;
+      try {
+        theme = localStorage.getItem(THEME_STORAGE_KEY);
+      } catch {
+        return; // localStorage is blocked; nothing to check
+      }
+      if (theme === null || VALID_THEMES.includes(theme)) return;
+
+      const tx = db.transaction(QUARANTINE_STORE, 'readwrite');
+      tx.objectStore(QUARANTINE_STORE).add(
+        createQuarantineEntry(
+          `localStorage:${THEME_STORAGE_KEY}`,
+          THEME_STORAGE_KEY,
+          theme,
+          'Unknown theme'
+        )
+      );
+      await transactionDone(tx);
+      localStorage.removeItem(THEME_STORAGE_KEY); // Fall back to the default theme
+    },
+  },
+];
+
+// Schema version written by this version of the app
+export const CURRENT_SCHEMA_VERSION =
+  SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1].version;
+
+/**
+ * Reads the schema version stored with the data.
+ * @param db - The open database.
+ * @returns The version (0 for data written before versioning was introduced).
+ */
+export const readSchemaVersion = async (db: IDBDatabase): Promise<number> => {
+  const version = await requestToPromise<number | undefined>(
+    db.transaction(META_STORE).objectStore(META_STORE).get(SCHEMA_VERSION_KEY)
+  );
+  return typeof version === 'number' ? version : 0;
+};
+
+/**
+ * Runs, in order, every migration newer than the stored schema version and
+ * records the version after each step, so a failed step is retried (and the
+ * completed ones are not) on the next start.
+ * @param db - The open database.
+ * @param migrations - The migrations to apply (sorted by version).
+ * @returns The schema version of the data afterwards.
+ * @throws If a migration step fails.
+ */
+export const runSchemaMigrations = async (
+  db: IDBDatabase,
+  migrations: SchemaMigration[] = SCHEMA_MIGRATIONS
+): Promise<number> => {
+  let version = await readSchemaVersion(db);
+  const latest = migrations[migrations.length - 1]?.version ?? 0;
+  if (version > latest) {
+    console.warn(
+      `[schemaMigrations] Stored schema v${version} is newer than this app (v${latest})`
+    );
+    return version;
+  }
+
+  for (const migration of migrations) {
+    if (migration.version <= version) continue;
+    await migration.migrate(db);
+    const tx = db.transaction(META_STORE, 'readwrite');
+    tx.objectStore(META_STORE).put(migration.version, SCHEMA_VERSION_KEY);
+    await transactionDone(tx);
+    version = migration.version;
+    console.info(
+      `[schemaMigrations] Migrated storage to schema v${version}: ${migration.description}`
+    );
+  }
+  return version;
+};
@@ -0,0 +1,113 @@
+import { Text } from '@codemirror/state';
+import type { DraftSearchResult } from '@/types/editor';
+import { storageService } from '@/lib/storageService';
+import { findAllMatches } from '@/lib/cmCommands';
+import type { SearchOptions } from '@/lib/cmCommands';
+
+// Maximum number of matches returned by a single search
+export const MAX_SEARCH_RESULTS = 500;
+// Number of characters of context kept on each side of a match in snippets
+const SNIPPET_CONTEXT_CHARS = 40;
+
+// Parsed draft contents keyed by draft ID, rebuilt only when a draft changes
+const textIndex = new Map<string, { lastModified: string; text: Text }>();
+
+/**
+ * Returns the indexed document for a draft, (re)building it when the draft changed.
+ * @param id - The draft ID.
+ * @param lastModified - The draft's last modification timestamp.
+ * @param content - The draft content.
+ * @returns The CodeMirror Text for the content.
+ */
+const getIndexedText = (
+  id: string,
+  lastModified: string,
+  content: string
+): Text => {
+  const cached = textIndex.get(id);
+  if (cached && cached.lastModified === lastModified) return cached.text;
+  const text = Text.of(content.split('\n'));
+  textIndex.set(id, { lastModified, text });
+  return text;
+};
+
+/**
+ * Builds a one-line snippet around a match, shortened with ellipses if the line is long.
+ * @param text - The document.
+ * @param from - Match start.
+ * @param to - Match end.
+ * @returns The snippet and the match range within it.
+ */
+const buildSnippet = (
+  text: Text,
+  from: number,
+  to: number
+): Pick<
+  DraftSearchResult,
+  'snippet' | 'snippetMatchFrom' | 'snippetMatchTo'
+> => {
+  const line = text.lineAt(from);
+  const matchEnd = Math.min(to, line.to); // Multi-line matches are cut at the line end
+  const start = Math.max(line.from, from - SNIPPET_CONTEXT_CHARS);
+  const end = Math.min(line.to, matchEnd + SNIPPET_CONTEXT_CHARS);
+  const prefix = start > line.from ? '…' : '';
+  const suffix = end < line.to ? '…' : '';
+  return {
+    snippet: prefix + text.sliceString(start, end) + suffix,
+    snippetMatchFrom: prefix.length + from - start,
+    snippetMatchTo: prefix.length + matchEnd - start,
+  };
+};
+
+/**
+ * Service object for searching the contents of every saved draft.
+ */
+export const searchService = {
+  /**
+   * Searches all drafts returned by storageService.getAllDrafts().
+   * @param searchTerm - The text or regular expression to search for.
+   * @param options - Search options (regex, case sensitivity, whole word).
+   * @param openDraft - The draft open in the editor; its live content is searched
+   *   instead of the stored copy so unsaved edits are found at the right positions.
+   * @returns Matches grouped by draft (newest draft first), at most MAX_SEARCH_RESULTS,
+   *   or null if the search term is not a valid query.
+   */
+  async searchDrafts(
+    searchTerm: string,
+    options: SearchOptions,
+    openDraft?: { id: string; content: string }
+  ): Promise<DraftSearchResult[] | null> {
+    if (!searchTerm) return [];
+    const drafts = await storageService.getAllDrafts();
+
+    // Forget drafts that no longer exist
+    const ids = new Set(drafts.map((d) => d.id));
+    [...textIndex.keys()]
+      .filter((id) => !ids.has(id))
+      .forEach((id) => textIndex.delete(id));
+
+    const results: DraftSearchResult[] = [];
+    for (const draft of drafts) {
+      const text =
+        openDraft?.id === draft.id
+          ? Text.of(openDraft.content.split('\n'))
+          : getIndexedText(draft.id, draft.lastModified, draft.content);
+      const matches = findAllMatches(text, searchTerm, options);
+      if (matches === null) return null; // Invalid query
+
+      for (const { from, to } of matches) {
+        results.push({
+          draftId: draft.id,
+          fileName: draft.fileName,
+          lastModified: draft.lastModified,
+          line: text.lineAt(from).number,
+          from,
+          to,
+          ...buildSnippet(text, from, to),
+        });
+        if (results.length >= MAX_SEARCH_RESULTS) return results;
+      }
+    }
+    return results;
+  },
+};
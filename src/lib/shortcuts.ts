@@ -0,0 +1,409 @@
+import type { KeyBinding } from '@codemirror/view';
+import { defaultKeymap, historyKeymap } from '@codemirror/commands';
+import { foldKeymap } from '@codemirror/language';
+import {
+  closeBracketsKeymap,
+  completionKeymap,
+} from '@codemirror/autocomplete';
+import { searchKeymap } from '@codemirror/search';
+import { lintKeymap } from '@codemirror/lint';
+import type { ShortcutId, ShortcutOverrides } from '@/types/editor';
+
+// Where a shortcut is handled: anywhere on the page, or in the editor only
+export type ShortcutScope = 'global' | 'editor';
+
+// An action that can be bound to a key
+export interface ShortcutDefinition {
+  id: ShortcutId;
+  label: string; // Shown in the settings and in conflict messages
+  scope: ShortcutScope;
+  defaultKey: string; // In CodeMirror notation ("Mod" is Cmd on macOS, Ctrl elsewhere)
+}
+
+// Every action that can be bound to a key, in the order they are listed in the settings.
+// The global handler (EditorPage) and the editor keymap (cmCommands) both read their keys from here.
+export const SHORTCUTS: ShortcutDefinition[] = [
+  { id: 'save', label: '保存', scope: 'global', defaultKey: 'Mod-s' },
+  {
+    id: 'saveAs',
+    label: '名前を付けてファイルに保存',
+    scope: 'global',
+    defaultKey: 'Mod-Shift-s',
+  },
+  { id: 'newFile', label: '新規作成', scope: 'global', defaultKey: 'Mod-n' },
+  {
+    id: 'openFile',
+    label: 'ファイルを開く',
+    scope: 'global',
+    defaultKey: 'Mod-o',
+  },
+  {
+    id: 'globalSearch',
+    label: 'すべての下書きを検索',
+    scope: 'global',
+    defaultKey: 'Mod-Shift-f',
+  },
+  {
+    id: 'toggleChat',
+    label: 'AI チャットの表示切り替え',
+    scope: 'global',
+    defaultKey: 'Mod-.',
+  },
+  {
+    id: 'viewEdit',
+    label: '編集ビュー',
+    scope: 'global',
+    defaultKey: 'Mod-Alt-1',
+  },
+  {
+    id: 'viewSplit',
+    label: '分割ビュー',
+    scope: 'global',
+    defaultKey: 'Mod-Alt-2',
+  },
+  {
+    id: 'viewPreview',
+    label: 'プレビュー',
+    scope: 'global',
+    defaultKey: 'Mod-Alt-3',
+  },
+  { id: 'bold', label: '太字', scope: 'editor', defaultKey: 'Mod-b' },
+  { id: 'italic', label: '斜体', scope: 'editor', defaultKey: 'Mod-i' },
+  {
+    id: 'strikethrough',
+    label: '取り消し線',
+    scope: 'editor',
+    defaultKey: 'Mod-Shift-x',
+  },
+  {
+    id: 'inlineCode',
+    label: 'インラインコード',
+    scope: 'editor',
+    defaultKey: 'Mod-e',
+  },
+  { id: 'link', label: 'リンク挿入', scope: 'editor', defaultKey: 'Mod-k' },
+  {
+    id: 'bulletList',
+    label: '箇条書き',
+    scope: 'editor',
+    defaultKey: 'Mod-l',
+  },
+  { id: 'quote', label: '引用', scope: 'editor', defaultKey: "Mod-'" },
+  {
+    id: 'codeBlock',
+    label: 'コードブロック',
+    scope: 'editor',
+    defaultKey: 'Mod-Alt-c',
+  },
+  { id: 'heading1', label: '見出し 1', scope: 'editor', defaultKey: 'Mod-1' },
+  { id: 'heading2', label: '見出し 2', scope: 'editor', defaultKey: 'Mod-2' },
+  { id: 'heading3', label: '見出し 3', scope: 'editor', defaultKey: 'Mod-3' },
+  { id: 'heading4', label: '見出し 4', scope: 'editor', defaultKey: 'Mod-4' },
+  { id: 'heading5', label: '見出し 5', scope: 'editor', defaultKey: 'Mod-5' },
+  { id: 'heading6', label: '見出し 6', scope: 'editor', defaultKey: 'Mod-6' },
+  {
+    id: 'promoteHeading',
+    label: '見出しレベルを上げる',
+    scope: 'editor',
+    defaultKey: 'Mod-Alt-ArrowLeft',
+  },
+  {
+    id: 'demoteHeading',
+    label: '見出しレベルを下げる',
+    scope: 'editor',
+    defaultKey: 'Mod-Alt-ArrowRight',
+  },
+  {
+    id: 'promoteSection',
+    label: '見出しレベルを上げる (サブセクションも)',
+    scope: 'editor',
+    defaultKey: 'Mod-Alt-Shift-ArrowLeft',
+  },
+  {
+    id: 'demoteSection',
+    label: '見出しレベルを下げる (サブセクションも)',
+    scope: 'editor',
+    defaultKey: 'Mod-Alt-Shift-ArrowRight',
+  },
+  {
+    id: 'moveSectionUp',
+    label: 'セクションを上へ移動',
+    scope: 'editor',
+    defaultKey: 'Mod-Alt-ArrowUp',
+  },
+  {
+    id: 'moveSectionDown',
+    label: 'セクションを下へ移動',
+    scope: 'editor',
+    defaultKey: 'Mod-Alt-ArrowDown',
+  },
+  {
+    id: 'formatTable',
+    label: '表を整形',
+    scope: 'editor',
+    defaultKey: 'Mod-Alt-f',
+  },
+];
+
+export const IS_MAC =
+  typeof navigator !== 'undefined' &&
+  /Mac|iPhone|iPad/.test(navigator.platform);
+
+const IS_WINDOWS =
+  typeof navigator !== 'undefined' && /Win/.test(navigator.platform);
+
+// The standard CodeMirror keymaps the editor installs (before its own Tab handling)
+export const STANDARD_KEYBINDINGS: readonly KeyBinding[] = [
+  ...defaultKeymap,
+  ...historyKeymap,
+  ...closeBracketsKeymap,
+  ...completionKeymap,
+  ...searchKeymap,
+  ...foldKeymap,
+  ...lintKeymap,
+];
+
+// Names of the built-in commands users are most likely to run into
+const BUILT_IN_LABELS: Record<string, string> = {
+  'Mod-z': '元に戻す',
+  'Mod-y': 'やり直し',
+  'Mod-Shift-z': 'やり直し',
+  'Mod-a': 'すべて選択',
+  'Mod-f': 'エディタ内の検索',
+  'Mod-d': '次の一致を選択',
+  'Mod-/': 'コメントの切り替え',
+  'Mod-Enter': '空行を挿入',
+  'Mod-[': 'インデントを減らす',
+  'Mod-]': 'インデントを増やす',
+};
+
+const MODIFIERS = ['Mod', 'Ctrl', 'Meta', 'Alt', 'Shift'] as const;
+type Modifier = (typeof MODIFIERS)[number];
+
+// Other spellings of the modifiers that CodeMirror accepts
+const MODIFIER_ALIASES: Record<string, Modifier> = {
+  mod: 'Mod',
+  ctrl: 'Ctrl',
+  control: 'Ctrl',
+  c: 'Ctrl',
+  meta: 'Meta',
+  cmd: 'Meta',
+  m: 'Meta',
+  alt: 'Alt',
+  a: 'Alt',
+  shift: 'Shift',
+  s: 'Shift',
+};
+
+// Unshifted characters of punctuation keys, by KeyboardEvent.code
+const CODE_CHARACTERS: Record<string, string> = {
+  Minus: '-',
+  Equal: '=',
+  BracketLeft: '[',
+  BracketRight: ']',
+  Backslash: '\\',
+  Semicolon: ';',
+  Quote: "'",
+  Backquote: '`',
+  Comma: ',',
+  Period: '.',
+  Slash: '/',
+};
+
+const KEY_SYMBOLS: Record<string, string> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Enter: '↵',
+  Space: 'Space',
+};
+
+/**
+ * Brings a key to one spelling, so that keys can be compared: modifiers in
+ * the order Mod-Ctrl-Meta-Alt-Shift, letters in lower case.
+ * @param key - A key in CodeMirror notation (e.g. "shift-mod-S").
+ * @returns The normalized key, or null if it cannot be used as a shortcut
+ *   (unknown modifier, or a key that would type a character: one without
+ *   Mod, Ctrl, Meta or Alt, except function keys).
+ */
+export const normalizeKey = (key: string): string | null => {
+  const parts = key.split(/-(?!$)/);
+  let name = parts.pop();
+  if (!name) return null;
+  const modifiers = new Set<Modifier>();
+  for (const part of parts) {
+    const modifier = MODIFIER_ALIASES[part.toLowerCase()];
+    if (!modifier) return null;
+    modifiers.add(modifier);
+  }
+  if (name === ' ') name = 'Space';
+  if (name.length === 1) name = name.toLowerCase();
+  const isFunctionKey = /^F\d{1,2}$/.test(name);
+  if (
+    !isFunctionKey &&
+    !['Mod', 'Ctrl', 'Meta', 'Alt'].some((m) => modifiers.has(m as Modifier))
+  ) {
+    return null;
+  }
+  return [...MODIFIERS.filter((m) => modifiers.has(m)), name].join('-');
+};
+
+/**
+ * Turns "Mod" into the modifier it stands for on this platform, so that
+ * e.g. "Mod-b" and "Ctrl-b" are recognized as the same key outside macOS.
+ * @param key - A normalized key.
+ */
+const platformKey = (key: string): string =>
+  normalizeKey(key.replace(/^Mod(?=-)/, IS_MAC ? 'Meta' : 'Ctrl')) ?? key;
+
+/**
+ * Lists the keys the standard keymaps bind on this platform, so that an
+ * action rebound to one of them does not silently shadow a built-in command.
+ * Keys that are an action's default are left out: the registry overrides
+ * those on purpose (e.g. Mod-i, which CodeMirror uses to select the parent node).
+ */
+const collectReservedKeys = (): { key: string; label: string }[] => {
+  const defaults = new Set(SHORTCUTS.map((s) => platformKey(s.defaultKey)));
+  // Clipboard keys are handled by the browser, not by a keymap
+  const reserved = [
+    { key: 'Mod-x', label: '切り取り' },
+    { key: 'Mod-c', label: 'コピー' },
+    { key: 'Mod-v', label: '貼り付け' },
+  ];
+  const seen = new Set(reserved.map((r) => platformKey(r.key)));
+  for (const binding of STANDARD_KEYBINDINGS) {
+    const key =
+      (IS_MAC ? binding.mac : IS_WINDOWS ? binding.win : binding.linux) ??
+      binding.key;
+    if (!key) continue;
+    const variants = binding.shift ? [key, `Shift-${key}`] : [key];
+    for (const variant of variants) {
+      const normalized = normalizeKey(variant);
+      if (!normalized) continue;
+      const target = platformKey(normalized);
+      if (defaults.has(target) || seen.has(target)) continue;
+      seen.add(target);
+      const known = Object.keys(BUILT_IN_LABELS).find(
+        (k) => platformKey(k) === target
+      );
+      reserved.push({
+        key: normalized,
+        label: known ? BUILT_IN_LABELS[known] : 'エディタの標準操作',
+      });
+    }
+  }
+  return reserved;
+};
+
+// Keys of built-in editor commands that cannot be rebound
+export const RESERVED_KEYS = collectReservedKeys();
+
+/**
+ * Gets the key of a keyboard event in the notation of the registry.
+ * Letters, digits and punctuation are taken from the physical key, so that
+ * Shift and Alt (which change the typed character) do not change the name.
+ * @param event - The keydown event.
+ * @returns The normalized key, or null for modifier keys alone or keys that
+ *   cannot be shortcuts.
+ */
+export const keyFromEvent = (event: KeyboardEvent): string | null => {
+  if (['Shift', 'Control', 'Alt', 'Meta', 'OS'].includes(event.key)) {
+    return null;
+  }
+  let name = event.key;
+  if (/^Key[A-Z]$/.test(event.code)) name = event.code.slice(3);
+  else if (/^Digit\d$/.test(event.code)) name = event.code.slice(5);
+  else if (CODE_CHARACTERS[event.code]) name = CODE_CHARACTERS[event.code];
+  const modifiers: string[] = [];
+  if (IS_MAC ? event.metaKey : event.ctrlKey) modifiers.push('Mod');
+  if (IS_MAC ? event.ctrlKey : event.metaKey) {
+    modifiers.push(IS_MAC ? 'Ctrl' : 'Meta');
+  }
+  if (event.altKey) modifiers.push('Alt');
+  if (event.shiftKey) modifiers.push('Shift');
+  return normalizeKey([...modifiers, name].join('-'));
+};
+
+/**
+ * Checks whether a keyboard event is a key of the registry.
+ * @param event - The keydown event.
+ * @param key - A key in CodeMirror notation.
+ */
+export const matchesKey = (event: KeyboardEvent, key: string): boolean => {
+  const pressed = keyFromEvent(event);
+  const normalized = normalizeKey(key);
+  return (
+    pressed !== null &&
+    normalized !== null &&
+    platformKey(pressed) === platformKey(normalized)
+  );
+};
+
+/**
+ * Gets the key of every action: the user's key where one is set, the default otherwise.
+ * @param overrides - The keys set by the user.
+ */
+export const resolveShortcutKeys = (
+  overrides: ShortcutOverrides
+): Record<ShortcutId, string> =>
+  Object.fromEntries(
+    SHORTCUTS.map(({ id, defaultKey }) => [id, overrides[id] ?? defaultKey])
+  ) as Record<ShortcutId, string>;
+
+/**
+ * Finds what a key is already used for, other than the given action.
+ * @param keys - The key of every action (see resolveShortcutKeys).
+ * @param id - The action the key is meant for.
+ * @param key - The key.
+ * @returns The label of the action or built-in command using the key, or null if it is free.
+ */
+export const findShortcutConflict = (
+  keys: Record<ShortcutId, string>,
+  id: ShortcutId,
+  key: string
+): string | null => {
+  const target = platformKey(key);
+  const reserved = RESERVED_KEYS.find((r) => platformKey(r.key) === target);
+  if (reserved) return reserved.label;
+  const other = SHORTCUTS.find(
+    (shortcut) =>
+      shortcut.id !== id && platformKey(keys[shortcut.id]) === target
+  );
+  return other?.label ?? null;
+};
+
+/**
+ * Formats a key for display: "⌥⇧⌘F" on macOS, "Ctrl+Alt+Shift+F" elsewhere.
+ * @param key - A key in CodeMirror notation.
+ */
+export const formatKey = (key: string): string => {
+  const parts = (normalizeKey(key) ?? key).split(/-(?!$)/);
+  const name = parts.pop()!;
+  const label =
+    KEY_SYMBOLS[name] ?? (name.length === 1 ? name.toUpperCase() : name);
+  if (IS_MAC) {
+    const symbols: Record<string, string> = {
+      Ctrl: '⌃',
+      Alt: '⌥',
+      Shift: '⇧',
+      Mod: '⌘',
+      Meta: '⌘',
+    };
+    // macOS lists modifiers in the order Control, Option, Shift, Command
+    return (
+      ['Ctrl', 'Alt', 'Shift', 'Mod', 'Meta']
+        .filter((m) => parts.includes(m))
+        .map((m) => symbols[m])
+        .join('') + label
+    );
+  }
+  const names: Record<string, string> = {
+    Mod: 'Ctrl',
+    Ctrl: 'Ctrl',
+    Meta: 'Win',
+    Alt: 'Alt',
+    Shift: 'Shift',
+  };
+  return [...parts.map((m) => names[m]), label].join('+');
+};
@@ -0,0 +1,77 @@
+/**
+ * Classification of storage (IndexedDB) failures so callers can explain
+ * what went wrong instead of showing a generic error.
+ */
+
+// Kinds of storage failures
+export type StorageErrorKind =
+  | 'quota' // The browser's storage quota is exhausted
+  | 'serialization' // The data could not be stored (e.g. not cloneable)
+  | 'unavailable' // IndexedDB is missing, blocked or in a broken state
+  | 'locked' // Drafts are encrypted and the passphrase has not been entered
+  | 'unknown'; // Anything else
+
+// Error thrown when IndexedDB cannot be used at all
+export class StorageUnavailableError extends Error {
+  constructor(message = 'IndexedDB is not available in this environment') {
+    super(message);
+    this.name = 'StorageUnavailableError';
+  }
+}
+
+// Error thrown when encrypted drafts are accessed before unlocking them
+export class DraftsLockedError extends Error {
+  constructor(message = 'Drafts are encrypted and have not been unlocked') {
+    super(message);
+    this.name = 'DraftsLockedError';
+  }
+}
+
+// DOMException names mapped to their kind
+const ERROR_NAME_KINDS: Record<string, StorageErrorKind> = {
+  QuotaExceededError: 'quota',
+  NS_ERROR_DOM_QUOTA_REACHED: 'quota', // Older Firefox
+  DataCloneError: 'serialization',
+  DataError: 'serialization',
+  StorageUnavailableError: 'unavailable',
+  InvalidStateError: 'unavailable', // Connection closed or database deleted
+  SecurityError: 'unavailable', // Storage blocked (e.g. private mode, site settings)
+  UnknownError: 'unavailable', // Browser-level storage failure
+  VersionError: 'unavailable', // Database opened by a newer version of the app
+  DraftsLockedError: 'locked',
+};
+
+/**
+ * Determines the kind of a storage error.
+ * @param error - The caught error (DOMException, Error or anything else).
+ * @returns The classified kind.
+ */
+export const classifyStorageError = (error: unknown): StorageErrorKind => {
+  if (error && typeof error === 'object' && 'name' in error) {
+    const kind = ERROR_NAME_KINDS[String(error.name)];
+    if (kind) return kind;
+  }
+  if (error instanceof TypeError || error instanceof SyntaxError) {
+    return 'serialization'; // e.g. JSON conversion of unexpected values
+  }
+  return 'unknown';
+};
+
+/**
+ * Returns a user-facing (Japanese) explanation for an error kind.
+ * @param kind - The classified kind.
+ */
+export const describeStorageError = (kind: StorageErrorKind): string => {
+  switch (kind) {
+    case 'quota':
+      return 'ブラウザの保存容量が不足しています';
+    case 'serialization':
+      return 'データを保存できる形式に変換できませんでした';
+    case 'unavailable':
+      return 'ブラウザのストレージを利用できません';
+    case 'locked':
+      return '下書きは暗号化されています。パスフレーズを入力してください';
+    default:
+      return '不明なエラーが発生しました';
+  }
+};
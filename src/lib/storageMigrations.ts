@@ -0,0 +1,62 @@
+import type { QuarantinedEntry } from '@/types/editor';
+import {
+  openDraftDatabase,
+  requestToPromise,
+  transactionDone,
+  QUARANTINE_STORE,
+} from '@/lib/draftDatabase';
+import { readSchemaVersion } from '@/lib/schemaMigrations';
+
+/**
+ * Service object for inspecting the storage schema and quarantined entries.
+ */
+export const storageMigrations = {
+  /**
+   * Gets the schema version of the stored data.
+   * @returns The version, or null on error.
+   */
+  async getSchemaVersion(): Promise<number | null> {
+    try {
+      return await readSchemaVersion(await openDraftDatabase());
+    } catch (e) {
+      console.error('[storageMigrations] Error reading schema version:', e);
+      return null;
+    }
+  },
+
+  /**
+   * Retrieves every quarantined entry, newest first.
+   * @returns The entries, or an empty array on error.
+   */
+  async getQuarantinedEntries(): Promise<QuarantinedEntry[]> {
+    try {
+      const db = await openDraftDatabase();
+      const entries = await requestToPromise<QuarantinedEntry[]>(
+        db.transaction(QUARANTINE_STORE).objectStore(QUARANTINE_STORE).getAll()
+      );
+      return entries.sort((a, b) =>
+        b.quarantinedAt.localeCompare(a.quarantinedAt)
+      );
+    } catch (e) {
+      console.error('[storageMigrations] Error reading quarantine:', e);
+      return [];
+    }
+  },
+
+  /**
+   * Deletes every quarantined entry.
+   * @returns True on success, false otherwise.
+   */
+  async clearQuarantine(): Promise<boolean> {
+    try {
+      const db = await openDraftDatabase();
+      const tx = db.transaction(QUARANTINE_STORE, 'readwrite');
+      tx.objectStore(QUARANTINE_STORE).clear();
+      await transactionDone(tx);
+      return true;
+    } catch (e) {
+      console.error('[storageMigrations] Error clearing quarantine:', e);
+      return false;
+    }
+  },
+};
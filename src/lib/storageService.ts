@@ -1,84 +1,331 @@
-import type { Draft } from '@/types/editor'; // Import the Draft type definition
+import type {
+  AutosaveSettings,
+  Draft,
+  DraftFolder,
+  KeybindingMode,
+  LintSettings,
+  ShortcutId,
+  ShortcutOverrides,
+  StorageUsage,
+} from '@/types/editor'; // Import the Draft type definitions
+import {
+  openDraftDatabase,
+  requestToPromise,
+  transactionDone,
+  DRAFTS_STORE,
+  META_STORE,
+  FOLDERS_STORE,
+  CURRENT_DRAFT_ID_KEY,
+  TRASH_RETENTION_DAYS_KEY,
+  AUTOSAVE_SETTINGS_KEY,
+  LINT_SETTINGS_KEY,
+  KEYBINDING_MODE_KEY,
+  SHORTCUTS_KEY,
+} from '@/lib/draftDatabase';
+import { historyService } from '@/lib/historyService';
+import { classifyStorageError } from '@/lib/storageErrors';
+import { draftSync } from '@/lib/draftSync';
+import { draftCrypto } from '@/lib/draftCrypto';
+import type { StorageErrorKind } from '@/lib/storageErrors';
+import { SHORTCUTS, normalizeKey } from '@/lib/shortcuts';
 
-// Constants for localStorage keys
-const DRAFTS_KEY = 'markdownDrafts';
-const CURRENT_DRAFT_ID_KEY = 'currentDraftId';
+// Days a trashed draft is kept before it is purged automatically (0 = keep forever)
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Autosave policy used until the user changes it
+export const DEFAULT_AUTOSAVE_SETTINGS: AutosaveSettings = {
+  mode: 'idle',
+  idleDelayMs: 3000,
+  intervalMs: 60000,
+  saveUntitled: false,
+};
+const AUTOSAVE_MODES: AutosaveSettings['mode'][] = [
+  'off',
+  'idle',
+  'blur',
+  'interval',
+];
+// Shortest delay or interval accepted for autosave
+const MIN_AUTOSAVE_DELAY_MS = 500;
+
+/**
+ * Checks a stored or entered autosave policy, field by field.
+ * @param value - The value to check.
+ * @returns The valid fields of the value.
+ */
+const pickValidAutosaveSettings = (
+  value: unknown
+): Partial<AutosaveSettings> => {
+  if (typeof value !== 'object' || value === null) return {};
+  const settings = value as Record<string, unknown>;
+  const isDelay = (ms: unknown): ms is number =>
+    Number.isInteger(ms) && (ms as number) >= MIN_AUTOSAVE_DELAY_MS;
+  const valid: Partial<AutosaveSettings> = {};
+  if (AUTOSAVE_MODES.includes(settings.mode as AutosaveSettings['mode'])) {
+    valid.mode = settings.mode as AutosaveSettings['mode'];
+  }
+  if (isDelay(settings.idleDelayMs)) valid.idleDelayMs = settings.idleDelayMs;
+  if (isDelay(settings.intervalMs)) valid.intervalMs = settings.intervalMs;
+  if (typeof settings.saveUntitled === 'boolean') {
+    valid.saveUntitled = settings.saveUntitled;
+  }
+  return valid;
+};
+
+// Markdown lint rules enabled until the user changes them
+export const DEFAULT_LINT_SETTINGS: LintSettings = {
+  'heading-increment': true,
+  'duplicate-heading': true,
+  'trailing-whitespace': true,
+  'bullet-style': true,
+  'unclosed-fence': true,
+  'image-alt': true,
+};
+
+const KEYBINDING_MODES: KeybindingMode[] = ['default', 'vim', 'emacs'];
 
 /**
- * Helper function to safely parse JSON from localStorage.
- * @param key - The localStorage key.
- * @returns The parsed object or null if parsing fails or key doesn't exist.
+ * Checks stored or entered lint settings, rule by rule.
+ * @param value - The value to check.
+ * @returns The valid rules of the value.
  */
-const safelyParseJson = <T>(key: string): T | null => {
-  try {
-    const jsonString = localStorage.getItem(key);
-    if (!jsonString) return null;
-    return JSON.parse(jsonString) as T;
-  } catch (error) {
-    console.error(`Error parsing JSON from localStorage key "${key}":`, error);
-    // Optionally remove the invalid item
-    // localStorage.removeItem(key);
-    return null;
+const pickValidLintSettings = (value: unknown): Partial<LintSettings> => {
+  if (typeof value !== 'object' || value === null) return {};
+  const settings = value as Record<string, unknown>;
+  const valid: Partial<LintSettings> = {};
+  for (const rule of Object.keys(DEFAULT_LINT_SETTINGS)) {
+    if (typeof settings[rule] === 'boolean') {
+      valid[rule as keyof LintSettings] = settings[rule] as boolean;
+    }
   }
+  return valid;
 };
 
 /**
- * Service object for interacting with localStorage to manage Markdown drafts.
+ * Checks stored or entered shortcut overrides, action by action.
+ * Keys are kept normalized (see normalizeKey).
+ * @param value - The value to check.
+ * @returns The overrides of known actions with usable keys.
+ */
+const pickValidShortcutOverrides = (value: unknown): ShortcutOverrides => {
+  if (typeof value !== 'object' || value === null) return {};
+  const overrides = value as Record<string, unknown>;
+  const valid: ShortcutOverrides = {};
+  for (const { id } of SHORTCUTS) {
+    const key = overrides[id];
+    const normalized = typeof key === 'string' ? normalizeKey(key) : null;
+    if (normalized) valid[id as ShortcutId] = normalized;
+  }
+  return valid;
+};
+
+// Kind of the error that made the most recent saveDraft/duplicateDraft call fail (null after a success)
+let lastSaveError: StorageErrorKind | null = null;
+
+/**
+ * Fills in organization fields missing from drafts saved by older versions.
+ * @param draft - The stored draft record.
+ * @returns The draft with folderId, tags and deletedAt set.
+ */
+const normalizeDraft = (draft: Draft): Draft => ({
+  ...draft,
+  folderId: draft.folderId ?? null,
+  tags: Array.isArray(draft.tags) ? draft.tags : [],
+  deletedAt: draft.deletedAt ?? null,
+});
+
+/**
+ * Generates a new draft ID. IDs are opaque and never derived from the file
+ * name, so drafts can be renamed freely. IDs created by older versions
+ * (`file_<name>_<timestamp>`, `draft_<timestamp>`) remain valid as-is.
+ * @returns A unique draft ID.
+ */
+const createDraftId = (): string =>
+  `draft_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Builds the default name of a copy: "memo.md" becomes "memo のコピー.md".
+ * @param fileName - The name of the original draft (null if untitled).
+ * @returns The name for the copy.
+ */
+export const getCopyFileName = (fileName: string | null): string => {
+  if (!fileName) return '無題 のコピー';
+  const match = /^(.+?)(\.[^.]+)?$/.exec(fileName);
+  return `${match?.[1] ?? fileName} のコピー${match?.[2] ?? ''}`;
+};
+
+/**
+ * Trims tags, drops empty ones and removes duplicates (keeping the first occurrence).
+ * @param tags - The raw tag list.
+ * @returns The cleaned tag list.
+ */
+const normalizeTags = (tags: string[]): string[] => [
+  ...new Set(tags.map((tag) => tag.trim()).filter(Boolean)),
+];
+
+/**
+ * Reads a single draft record as stored. Its content may still be encrypted,
+ * so use it only for updates that leave the content untouched.
+ * @param db - The open database.
+ * @param id - The draft ID.
+ * @returns The normalized record, or null if it does not exist.
+ */
+const readStoredDraft = async (
+  db: IDBDatabase,
+  id: string
+): Promise<Draft | null> => {
+  const draft = await requestToPromise<Draft | undefined>(
+    db.transaction(DRAFTS_STORE).objectStore(DRAFTS_STORE).get(id)
+  );
+  return draft ? normalizeDraft(draft) : null;
+};
+
+/**
+ * Reads a single draft with its content decrypted.
+ * @param db - The open database.
+ * @param id - The draft ID.
+ * @returns The normalized draft, or null if it does not exist.
+ * @throws DraftsLockedError if the content is encrypted and not unlocked.
+ */
+const readDraft = async (
+  db: IDBDatabase,
+  id: string
+): Promise<Draft | null> => {
+  const draft = await readStoredDraft(db, id);
+  return draft ? draftCrypto.decodeRecord(draft) : null;
+};
+
+/**
+ * Reads every folder record.
+ * @param db - The open database.
+ * @returns All folders in storage order.
+ */
+const readFolders = (db: IDBDatabase): Promise<DraftFolder[]> =>
+  requestToPromise<DraftFolder[]>(
+    db.transaction(FOLDERS_STORE).objectStore(FOLDERS_STORE).getAll()
+  );
+
+/**
+ * Service object for interacting with IndexedDB to manage Markdown drafts.
+ * Every method is asynchronous; callers should await the result.
  */
 export const storageService = {
   /**
-   * Saves a draft to localStorage. Updates existing draft if existingId is provided.
+   * Saves a draft to IndexedDB. Updates existing draft if existingId is provided.
    * @param content - The Markdown content.
    * @param fileName - The optional file name for the draft.
    * @param existingId - The ID of an existing draft to update.
    * @returns The ID of the saved/updated draft, or null on failure.
    */
-  saveDraft(
+  async saveDraft(
     content: string,
     fileName: string | null = null,
     existingId?: string
-  ): string | null {
+  ): Promise<string | null> {
+    const release = await draftCrypto.beginWrite(); // Waits while the records are being re-encrypted
     try {
       const timestamp = new Date().toISOString();
-      // Generate ID: Use existing, or create based on filename/timestamp
-      const id =
-        existingId ||
-        (fileName ? `file_${fileName}_${timestamp}` : `draft_${timestamp}`);
-
-      const draft: Draft = { id, content, lastModified: timestamp, fileName };
+      const id = existingId || createDraftId(); // Keep the ID of an existing draft
 
-      // Load existing drafts safely
-      const drafts = safelyParseJson<Record<string, Draft>>(DRAFTS_KEY) || {};
+      const db = await openDraftDatabase();
+      // Keep the folder and tags of an existing draft
+      const existing = existingId
+        ? await readStoredDraft(db, existingId)
+        : null;
+      const draft: Draft = {
+        id,
+        content,
+        lastModified: timestamp,
+        fileName,
+        folderId: existing?.folderId ?? null,
+        tags: existing?.tags ?? [],
+        deletedAt: null, // Saving a trashed draft brings it back
+      };
 
-      drafts[id] = draft; // Add or update the draft
-
-      localStorage.setItem(DRAFTS_KEY, JSON.stringify(drafts));
-      localStorage.setItem(CURRENT_DRAFT_ID_KEY, id); // Mark as currently edited
+      const record = await draftCrypto.encodeRecord(draft); // Encrypt before the transaction starts
+      const tx = db.transaction([DRAFTS_STORE, META_STORE], 'readwrite');
+      tx.objectStore(DRAFTS_STORE).put(record); // Add or update the draft
+      tx.objectStore(META_STORE).put(id, CURRENT_DRAFT_ID_KEY); // Mark as currently edited
+      await transactionDone(tx);
 
       console.debug(`[storageService] Saved draft: ${id}`);
+      lastSaveError = null;
+      draftSync.announceSave(id, timestamp); // Let other tabs detect the change
       return id;
     } catch (e) {
       console.error('[storageService] Error saving draft:', e);
-      // Consider user notification here (e.g., using toast)
+      lastSaveError = classifyStorageError(e); // Reported via getLastSaveError()
       return null;
+    } finally {
+      release();
     }
   },
 
+  /**
+   * Adds a new draft without making it the current one (e.g. for imported files).
+   * @param content - The Markdown content.
+   * @param fileName - The file name of the draft.
+   * @param folderId - The folder to put the draft in (null for the top level).
+   * @returns The new draft, or null on failure.
+   */
+  async createDraft(
+    content: string,
+    fileName: string,
+    folderId: string | null = null
+  ): Promise<Draft | null> {
+    const release = await draftCrypto.beginWrite();
+    try {
+      const draft: Draft = {
+        id: createDraftId(),
+        content,
+        lastModified: new Date().toISOString(),
+        fileName,
+        folderId,
+        tags: [],
+        deletedAt: null,
+      };
+
+      const db = await openDraftDatabase();
+      const record = await draftCrypto.encodeRecord(draft);
+      const tx = db.transaction(DRAFTS_STORE, 'readwrite');
+      tx.objectStore(DRAFTS_STORE).add(record);
+      await transactionDone(tx);
+      console.debug(`[storageService] Created draft: ${draft.id}`);
+      lastSaveError = null;
+      return draft;
+    } catch (e) {
+      console.error('[storageService] Error creating draft:', e);
+      lastSaveError = classifyStorageError(e);
+      return null;
+    } finally {
+      release();
+    }
+  },
+
+  /**
+   * Returns why the most recent saveDraft, createDraft or duplicateDraft call failed.
+   * @returns The classified error kind, or null if the last save succeeded.
+   */
+  getLastSaveError(): StorageErrorKind | null {
+    return lastSaveError;
+  },
+
   /**
    * Loads a specific draft by its ID. Sets it as the current draft if found.
    * @param id - The ID of the draft to load.
-   * @returns The loaded Draft object, or null if not found or on error.
+   * @returns The loaded Draft object, or null if not found, in the trash or on error.
    */
-  loadDraft(id: string): Draft | null {
+  async loadDraft(id: string): Promise<Draft | null> {
     try {
-      const drafts = safelyParseJson<Record<string, Draft>>(DRAFTS_KEY);
-      const draft = drafts?.[id] || null;
-      if (draft) {
-        localStorage.setItem(CURRENT_DRAFT_ID_KEY, id); // Set as current
-        console.debug(`[storageService] Loaded draft: ${id}`);
-      } else {
+      const db = await openDraftDatabase();
+      const draft = await readDraft(db, id);
+      if (!draft || draft.deletedAt) {
         console.warn(`[storageService] Draft not found: ${id}`);
+        return null; // Trashed drafts must be restored before they can be opened
       }
+      await this.setCurrentDraftId(id); // Set as current
+      console.debug(`[storageService] Loaded draft: ${id}`);
       return draft;
     } catch (e) {
       console.error(`[storageService] Error loading draft ${id}:`, e);
@@ -86,18 +333,32 @@ export const storageService = {
     }
   },
 
+  /**
+   * Reads a draft by its ID without making it the current draft.
+   * @param id - The ID of the draft.
+   * @returns The draft (even if it is in the trash), or null if not found or on error.
+   */
+  async getDraft(id: string): Promise<Draft | null> {
+    try {
+      return await readDraft(await openDraftDatabase(), id);
+    } catch (e) {
+      console.error(`[storageService] Error reading draft ${id}:`, e);
+      return null;
+    }
+  },
+
   /**
    * Loads the draft that was last being edited (based on stored ID).
    * @returns The last edited Draft object, or null if none or on error.
    */
-  loadLastDraft(): Draft | null {
+  async loadLastDraft(): Promise<Draft | null> {
     try {
-      const currentId = localStorage.getItem(CURRENT_DRAFT_ID_KEY);
+      const currentId = await this.getCurrentDraftId();
       if (!currentId) return null;
       console.debug(
         `[storageService] Attempting to load last draft: ${currentId}`
       );
-      return this.loadDraft(currentId); // Use loadDraft to also set current ID
+      return await this.loadDraft(currentId); // Use loadDraft to also set current ID
     } catch (e) {
       console.error('[storageService] Error loading last draft:', e);
       return null;
@@ -106,18 +367,28 @@ export const storageService = {
 
   /**
    * Retrieves all saved drafts, sorted by last modified date (newest first).
+   * @param options - Set includeTrashed to also return drafts in the trash.
    * @returns An array of Draft objects, or an empty array on error.
    */
-  getAllDrafts(): Draft[] {
+  async getAllDrafts(
+    options: { includeTrashed?: boolean } = {}
+  ): Promise<Draft[]> {
     try {
-      const drafts = safelyParseJson<Record<string, Draft>>(DRAFTS_KEY);
-      if (!drafts) return [];
+      const db = await openDraftDatabase();
+      const drafts = await requestToPromise<Draft[]>(
+        db.transaction(DRAFTS_STORE).objectStore(DRAFTS_STORE).getAll()
+      );
 
-      return Object.values(drafts).sort(
-        (a, b) =>
-          new Date(b.lastModified).getTime() -
-          new Date(a.lastModified).getTime()
+      const decoded = await Promise.all(
+        drafts.map((d) => draftCrypto.decodeRecord(normalizeDraft(d)))
       );
+      return decoded
+        .filter((d) => options.includeTrashed || !d.deletedAt)
+        .sort(
+          (a, b) =>
+            new Date(b.lastModified).getTime() -
+            new Date(a.lastModified).getTime()
+        );
     } catch (e) {
       console.error('[storageService] Error getting all drafts:', e);
       return [];
@@ -125,41 +396,776 @@ export const storageService = {
   },
 
   /**
-   * Deletes a draft by its ID. Clears the current draft ID if it matches.
+   * Measures how much storage the drafts use, together with the browser's
+   * estimate of the origin's total usage and quota.
+   * @returns The usage with per-draft sizes sorted largest first.
+   */
+  async getStorageUsage(): Promise<StorageUsage> {
+    const [drafts, historySizes] = await Promise.all([
+      this.getAllDrafts({ includeTrashed: true }), // Trashed drafts still take up space
+      historyService.getHistorySizes(),
+    ]);
+    const encoder = new TextEncoder();
+    const sizes = drafts
+      .map((d) => ({
+        id: d.id,
+        fileName: d.fileName,
+        lastModified: d.lastModified,
+        contentBytes: encoder.encode(d.content).length,
+        historyBytes: historySizes.get(d.id) ?? 0,
+        deletedAt: d.deletedAt,
+      }))
+      .sort(
+        (a, b) =>
+          b.contentBytes + b.historyBytes - (a.contentBytes + a.historyBytes)
+      );
+
+    let usage: number | null = null;
+    let quota: number | null = null;
+    try {
+      const estimate = await navigator.storage?.estimate?.();
+      usage = estimate?.usage ?? null;
+      quota = estimate?.quota ?? null;
+    } catch (e) {
+      console.warn('[storageService] Could not estimate storage usage:', e);
+    }
+    return { usage, quota, drafts: sizes };
+  },
+
+  /**
+   * Moves a draft to the trash. It is hidden from getAllDrafts() but can be
+   * restored until it is purged. Clears the current draft ID if it matches.
+   * @param id - The ID of the draft to delete.
+   * @returns True if the draft was moved to the trash, false otherwise.
+   */
+  async deleteDraft(id: string): Promise<boolean> {
+    const release = await draftCrypto.beginWrite();
+    try {
+      const db = await openDraftDatabase();
+      const existing = await readStoredDraft(db, id);
+      if (!existing || existing.deletedAt) {
+        console.warn(
+          `[storageService] Attempted to delete non-existent draft: ${id}`
+        );
+        return false; // Draft doesn't exist (or is already in the trash)
+      }
+
+      const tx = db.transaction(DRAFTS_STORE, 'readwrite');
+      tx.objectStore(DRAFTS_STORE).put({
+        ...existing,
+        deletedAt: new Date().toISOString(),
+      });
+      await transactionDone(tx);
+
+      // If the deleted draft was the current one, clear the current ID
+      if ((await this.getCurrentDraftId()) === id) {
+        await this.clearCurrentDraftId();
+      }
+      console.debug(`[storageService] Moved draft to trash: ${id}`);
+      return true;
+    } catch (e) {
+      console.error(`[storageService] Error deleting draft ${id}:`, e);
+      return false;
+    } finally {
+      release();
+    }
+  },
+
+  /**
+   * Retrieves the drafts in the trash, most recently deleted first.
+   * @returns An array of trashed Draft objects, or an empty array on error.
+   */
+  async getTrashedDrafts(): Promise<Draft[]> {
+    const drafts = await this.getAllDrafts({ includeTrashed: true });
+    return drafts
+      .filter((d) => d.deletedAt)
+      .sort(
+        (a, b) =>
+          new Date(b.deletedAt!).getTime() - new Date(a.deletedAt!).getTime()
+      );
+  },
+
+  /**
+   * Takes a draft out of the trash. If its folder no longer exists, the
+   * draft is restored to the top level.
+   * @param id - The ID of the trashed draft.
+   * @returns True on success, false if the draft is not in the trash or on error.
+   */
+  async restoreDraft(id: string): Promise<boolean> {
+    const release = await draftCrypto.beginWrite();
+    try {
+      const db = await openDraftDatabase();
+      const draft = await readStoredDraft(db, id);
+      if (!draft?.deletedAt) {
+        console.warn(`[storageService] Draft not in trash: ${id}`);
+        return false;
+      }
+      const folderExists =
+        !!draft.folderId &&
+        (await readFolders(db)).some((f) => f.id === draft.folderId);
+
+      const tx = db.transaction(DRAFTS_STORE, 'readwrite');
+      tx.objectStore(DRAFTS_STORE).put({
+        ...draft,
+        deletedAt: null,
+        folderId: folderExists ? draft.folderId : null,
+      });
+      await transactionDone(tx);
+      console.debug(`[storageService] Restored draft from trash: ${id}`);
+      return true;
+    } catch (e) {
+      console.error(`[storageService] Error restoring draft ${id}:`, e);
+      return false;
+    } finally {
+      release();
+    }
+  },
+
+  /**
+   * Permanently deletes a draft and its version history by ID, whether or not
+   * it is in the trash. Clears the current draft ID if it matches.
    * @param id - The ID of the draft to delete.
    * @returns True if deletion was successful, false otherwise.
    */
-  deleteDraft(id: string): boolean {
+  async permanentlyDeleteDraft(id: string): Promise<boolean> {
+    const release = await draftCrypto.beginWrite();
     try {
-      const drafts = safelyParseJson<Record<string, Draft>>(DRAFTS_KEY);
-      if (!drafts || !drafts[id]) {
+      const db = await openDraftDatabase();
+      const existing = await readStoredDraft(db, id);
+      if (!existing) {
         console.warn(
           `[storageService] Attempted to delete non-existent draft: ${id}`
         );
         return false; // Draft doesn't exist
       }
 
-      delete drafts[id]; // Remove the draft
-      localStorage.setItem(DRAFTS_KEY, JSON.stringify(drafts));
+      const tx = db.transaction(DRAFTS_STORE, 'readwrite');
+      tx.objectStore(DRAFTS_STORE).delete(id); // Remove the draft
+      await transactionDone(tx);
+      release(); // deleteSnapshots announces its own write
+      await historyService.deleteSnapshots(id); // Drop its version history too
 
       // If the deleted draft was the current one, clear the current ID
-      if (localStorage.getItem(CURRENT_DRAFT_ID_KEY) === id) {
-        this.clearCurrentDraftId();
+      if ((await this.getCurrentDraftId()) === id) {
+        await this.clearCurrentDraftId();
       }
-      console.debug(`[storageService] Deleted draft: ${id}`);
+      console.debug(`[storageService] Permanently deleted draft: ${id}`);
       return true;
     } catch (e) {
       console.error(`[storageService] Error deleting draft ${id}:`, e);
       return false;
+    } finally {
+      release();
+    }
+  },
+
+  /**
+   * Permanently deletes every draft in the trash.
+   * @returns The number of drafts deleted.
+   */
+  async emptyTrash(): Promise<number> {
+    const trashed = await this.getTrashedDrafts();
+    const results = await Promise.all(
+      trashed.map((d) => this.permanentlyDeleteDraft(d.id))
+    );
+    return results.filter(Boolean).length;
+  },
+
+  /**
+   * Permanently deletes trashed drafts older than the retention period.
+   * @param now - The reference time (defaults to the current time).
+   * @returns The number of drafts purged.
+   */
+  async purgeExpiredTrash(now: Date = new Date()): Promise<number> {
+    const retentionDays = await this.getTrashRetentionDays();
+    if (retentionDays <= 0) return 0; // Automatic purge is turned off
+    const cutoff = now.getTime() - retentionDays * DAY_MS;
+    const expired = (await this.getTrashedDrafts()).filter(
+      (d) => new Date(d.deletedAt!).getTime() < cutoff
+    );
+    const results = await Promise.all(
+      expired.map((d) => this.permanentlyDeleteDraft(d.id))
+    );
+    const purged = results.filter(Boolean).length;
+    if (purged > 0) {
+      console.debug(`[storageService] Purged ${purged} expired draft(s)`);
+    }
+    return purged;
+  },
+
+  /**
+   * Gets how many days trashed drafts are kept before being purged.
+   * @returns The retention period in days (0 = never purge), or the default on error.
+   */
+  async getTrashRetentionDays(): Promise<number> {
+    try {
+      const db = await openDraftDatabase();
+      const days = await requestToPromise<number | undefined>(
+        db
+          .transaction(META_STORE)
+          .objectStore(META_STORE)
+          .get(TRASH_RETENTION_DAYS_KEY)
+      );
+      return typeof days === 'number' ? days : DEFAULT_TRASH_RETENTION_DAYS;
+    } catch (e) {
+      console.error('[storageService] Error getting trash retention:', e);
+      return DEFAULT_TRASH_RETENTION_DAYS;
+    }
+  },
+
+  /**
+   * Sets how many days trashed drafts are kept before being purged.
+   * @param days - The retention period in days (0 = never purge).
+   * @returns True on success, false otherwise.
+   */
+  async setTrashRetentionDays(days: number): Promise<boolean> {
+    if (!Number.isInteger(days) || days < 0) return false;
+    try {
+      const db = await openDraftDatabase();
+      const tx = db.transaction(META_STORE, 'readwrite');
+      tx.objectStore(META_STORE).put(days, TRASH_RETENTION_DAYS_KEY);
+      await transactionDone(tx);
+      return true;
+    } catch (e) {
+      console.error('[storageService] Error setting trash retention:', e);
+      return false;
+    }
+  },
+
+  /**
+   * Gets the autosave policy. Missing or invalid fields take their defaults.
+   * @returns The autosave settings, or the defaults on error.
+   */
+  async getAutosaveSettings(): Promise<AutosaveSettings> {
+    try {
+      const db = await openDraftDatabase();
+      const stored = await requestToPromise<unknown>(
+        db
+          .transaction(META_STORE)
+          .objectStore(META_STORE)
+          .get(AUTOSAVE_SETTINGS_KEY)
+      );
+      return {
+        ...DEFAULT_AUTOSAVE_SETTINGS,
+        ...pickValidAutosaveSettings(stored),
+      };
+    } catch (e) {
+      console.error('[storageService] Error getting autosave settings:', e);
+      return DEFAULT_AUTOSAVE_SETTINGS;
+    }
+  },
+
+  /**
+   * Sets the autosave policy.
+   * @param settings - The new settings (delays of at least 500 ms).
+   * @returns True on success, false if a field is invalid or on error.
+   */
+  async setAutosaveSettings(settings: AutosaveSettings): Promise<boolean> {
+    const valid = pickValidAutosaveSettings(settings);
+    if (Object.keys(valid).length !== Object.keys(settings).length) {
+      return false;
+    }
+    try {
+      const db = await openDraftDatabase();
+      const tx = db.transaction(META_STORE, 'readwrite');
+      tx.objectStore(META_STORE).put(valid, AUTOSAVE_SETTINGS_KEY);
+      await transactionDone(tx);
+      return true;
+    } catch (e) {
+      console.error('[storageService] Error setting autosave settings:', e);
+      return false;
+    }
+  },
+
+  /**
+   * Gets the enabled Markdown lint rules. Missing or invalid rules take their defaults.
+   * @returns The lint settings, or the defaults on error.
+   */
+  async getLintSettings(): Promise<LintSettings> {
+    try {
+      const db = await openDraftDatabase();
+      const stored = await requestToPromise<unknown>(
+        db
+          .transaction(META_STORE)
+          .objectStore(META_STORE)
+          .get(LINT_SETTINGS_KEY)
+      );
+      return { ...DEFAULT_LINT_SETTINGS, ...pickValidLintSettings(stored) };
+    } catch (e) {
+      console.error('[storageService] Error getting lint settings:', e);
+      return DEFAULT_LINT_SETTINGS;
+    }
+  },
+
+  /**
+   * Sets the enabled Markdown lint rules.
+   * @param settings - Whether each rule is enabled.
+   * @returns True on success, false if a rule is invalid or on error.
+   */
+  async setLintSettings(settings: LintSettings): Promise<boolean> {
+    const valid = pickValidLintSettings(settings);
+    if (Object.keys(valid).length !== Object.keys(settings).length) {
+      return false;
+    }
+    try {
+      const db = await openDraftDatabase();
+      const tx = db.transaction(META_STORE, 'readwrite');
+      tx.objectStore(META_STORE).put(valid, LINT_SETTINGS_KEY);
+      await transactionDone(tx);
+      return true;
+    } catch (e) {
+      console.error('[storageService] Error setting lint settings:', e);
+      return false;
+    }
+  },
+
+  /**
+   * Gets the keybinding mode of the editor.
+   * @returns The mode, or 'default' if none is stored or on error.
+   */
+  async getKeybindingMode(): Promise<KeybindingMode> {
+    try {
+      const db = await openDraftDatabase();
+      const mode = await requestToPromise<unknown>(
+        db
+          .transaction(META_STORE)
+          .objectStore(META_STORE)
+          .get(KEYBINDING_MODE_KEY)
+      );
+      return KEYBINDING_MODES.includes(mode as KeybindingMode)
+        ? (mode as KeybindingMode)
+        : 'default';
+    } catch (e) {
+      console.error('[storageService] Error getting keybinding mode:', e);
+      return 'default';
+    }
+  },
+
+  /**
+   * Sets the keybinding mode of the editor.
+   * @param mode - 'default', 'vim' or 'emacs'.
+   * @returns True on success, false if the mode is unknown or on error.
+   */
+  async setKeybindingMode(mode: KeybindingMode): Promise<boolean> {
+    if (!KEYBINDING_MODES.includes(mode)) return false;
+    try {
+      const db = await openDraftDatabase();
+      const tx = db.transaction(META_STORE, 'readwrite');
+      tx.objectStore(META_STORE).put(mode, KEYBINDING_MODE_KEY);
+      await transactionDone(tx);
+      return true;
+    } catch (e) {
+      console.error('[storageService] Error setting keybinding mode:', e);
+      return false;
+    }
+  },
+
+  /**
+   * Gets the keyboard shortcuts the user has rebound. Invalid entries are dropped.
+   * @returns The overrides, or none on error.
+   */
+  async getShortcutOverrides(): Promise<ShortcutOverrides> {
+    try {
+      const db = await openDraftDatabase();
+      const stored = await requestToPromise<unknown>(
+        db.transaction(META_STORE).objectStore(META_STORE).get(SHORTCUTS_KEY)
+      );
+      return pickValidShortcutOverrides(stored);
+    } catch (e) {
+      console.error('[storageService] Error getting shortcut overrides:', e);
+      return {};
+    }
+  },
+
+  /**
+   * Sets the keyboard shortcuts the user has rebound (replacing the previous ones).
+   * @param overrides - Keys per action; actions left out use their default key.
+   * @returns The overrides as stored (keys normalized, see normalizeKey),
+   *   or null if an action or key is invalid or on error.
+   */
+  async setShortcutOverrides(
+    overrides: ShortcutOverrides
+  ): Promise<ShortcutOverrides | null> {
+    const valid = pickValidShortcutOverrides(overrides);
+    if (Object.keys(valid).length !== Object.keys(overrides).length) {
+      return null;
+    }
+    try {
+      const db = await openDraftDatabase();
+      const tx = db.transaction(META_STORE, 'readwrite');
+      tx.objectStore(META_STORE).put(valid, SHORTCUTS_KEY);
+      await transactionDone(tx);
+      return valid;
+    } catch (e) {
+      console.error('[storageService] Error setting shortcut overrides:', e);
+      return null;
+    }
+  },
+
+  /**
+   * Writes draft and folder records as-is, keeping their IDs and timestamps.
+   * Existing records with the same IDs are replaced. Used by workspace import.
+   * @param drafts - The drafts to write.
+   * @param folders - The folders to write.
+   * @returns True if everything was written in one transaction, false otherwise.
+   */
+  async importRecords(
+    drafts: Draft[],
+    folders: DraftFolder[] = []
+  ): Promise<boolean> {
+    const release = await draftCrypto.beginWrite();
+    try {
+      const db = await openDraftDatabase();
+      const records = await Promise.all(
+        drafts.map((draft) => draftCrypto.encodeRecord(normalizeDraft(draft)))
+      );
+      const tx = db.transaction([DRAFTS_STORE, FOLDERS_STORE], 'readwrite');
+      const draftsStore = tx.objectStore(DRAFTS_STORE);
+      const foldersStore = tx.objectStore(FOLDERS_STORE);
+      folders.forEach((folder) => foldersStore.put(folder));
+      records.forEach((record) => draftsStore.put(record));
+      await transactionDone(tx);
+      console.debug(
+        `[storageService] Imported ${drafts.length} draft(s) and ${folders.length} folder(s)`
+      );
+      return true;
+    } catch (e) {
+      console.error('[storageService] Error importing records:', e);
+      return false;
+    } finally {
+      release();
+    }
+  },
+
+  /**
+   * Moves a draft into a folder. The draft's lastModified is left unchanged.
+   * @param draftId - The ID of the draft to move.
+   * @param folderId - The target folder ID, or null for the top level.
+   * @returns True on success, false if the draft or folder does not exist or on error.
+   */
+  async moveDraftToFolder(
+    draftId: string,
+    folderId: string | null
+  ): Promise<boolean> {
+    const release = await draftCrypto.beginWrite();
+    try {
+      const db = await openDraftDatabase();
+      const draft = await readStoredDraft(db, draftId);
+      if (!draft) {
+        console.warn(`[storageService] Draft not found: ${draftId}`);
+        return false;
+      }
+      if (folderId && !(await readFolders(db)).some((f) => f.id === folderId)) {
+        console.warn(`[storageService] Folder not found: ${folderId}`);
+        return false;
+      }
+
+      const tx = db.transaction(DRAFTS_STORE, 'readwrite');
+      tx.objectStore(DRAFTS_STORE).put({ ...draft, folderId });
+      await transactionDone(tx);
+      console.debug(
+        `[storageService] Moved draft ${draftId} to folder: ${folderId}`
+      );
+      return true;
+    } catch (e) {
+      console.error(`[storageService] Error moving draft ${draftId}:`, e);
+      return false;
+    } finally {
+      release();
+    }
+  },
+
+  /**
+   * Replaces the tags of a draft. Tags are trimmed and de-duplicated.
+   * @param draftId - The ID of the draft.
+   * @param tags - The new tag list.
+   * @returns True on success, false if the draft does not exist or on error.
+   */
+  async setDraftTags(draftId: string, tags: string[]): Promise<boolean> {
+    const release = await draftCrypto.beginWrite();
+    try {
+      const db = await openDraftDatabase();
+      const draft = await readStoredDraft(db, draftId);
+      if (!draft) {
+        console.warn(`[storageService] Draft not found: ${draftId}`);
+        return false;
+      }
+
+      const tx = db.transaction(DRAFTS_STORE, 'readwrite');
+      tx.objectStore(DRAFTS_STORE).put({ ...draft, tags: normalizeTags(tags) });
+      await transactionDone(tx);
+      return true;
+    } catch (e) {
+      console.error(
+        `[storageService] Error setting tags of draft ${draftId}:`,
+        e
+      );
+      return false;
+    } finally {
+      release();
+    }
+  },
+
+  /**
+   * Renames a draft. The draft keeps its ID, content and lastModified.
+   * @param id - The draft ID.
+   * @param fileName - The new name (trimmed; must not be empty).
+   * @returns True on success, false if the draft does not exist or on error.
+   */
+  async renameDraft(id: string, fileName: string): Promise<boolean> {
+    const trimmed = fileName.trim();
+    if (!trimmed) return false;
+    const release = await draftCrypto.beginWrite();
+    try {
+      const db = await openDraftDatabase();
+      const draft = await readStoredDraft(db, id);
+      if (!draft) {
+        console.warn(`[storageService] Draft not found: ${id}`);
+        return false;
+      }
+
+      const tx = db.transaction(DRAFTS_STORE, 'readwrite');
+      tx.objectStore(DRAFTS_STORE).put({ ...draft, fileName: trimmed });
+      await transactionDone(tx);
+      console.debug(`[storageService] Renamed draft ${id} to: ${trimmed}`);
+      draftSync.announceSave(id, draft.lastModified); // Let other tabs pick up the new name
+      return true;
+    } catch (e) {
+      console.error(`[storageService] Error renaming draft ${id}:`, e);
+      return false;
+    } finally {
+      release();
+    }
+  },
+
+  /**
+   * Copies a draft into a new draft with its own ID. The copy keeps the
+   * folder and tags of the original but not its version history.
+   * @param id - The ID of the draft to copy.
+   * @param fileName - Name of the copy (defaults to "<name> のコピー").
+   * @param content - Content of the copy (defaults to the stored content).
+   * @returns The new draft, or null if the original does not exist or on error.
+   */
+  async duplicateDraft(
+    id: string,
+    fileName?: string,
+    content?: string
+  ): Promise<Draft | null> {
+    const release = await draftCrypto.beginWrite();
+    try {
+      const db = await openDraftDatabase();
+      const original = await readDraft(db, id);
+      if (!original) {
+        console.warn(`[storageService] Draft not found: ${id}`);
+        return null;
+      }
+      const copy: Draft = {
+        ...original,
+        id: createDraftId(),
+        content: content ?? original.content,
+        lastModified: new Date().toISOString(),
+        fileName: fileName?.trim() || getCopyFileName(original.fileName),
+        deletedAt: null,
+      };
+
+      const record = await draftCrypto.encodeRecord(copy);
+      const tx = db.transaction(DRAFTS_STORE, 'readwrite');
+      tx.objectStore(DRAFTS_STORE).add(record);
+      await transactionDone(tx);
+      console.debug(`[storageService] Duplicated draft ${id} as: ${copy.id}`);
+      lastSaveError = null;
+      return copy;
+    } catch (e) {
+      console.error(`[storageService] Error duplicating draft ${id}:`, e);
+      lastSaveError = classifyStorageError(e); // A copy can hit the quota like any save
+      return null;
+    } finally {
+      release();
+    }
+  },
+
+  /**
+   * Retrieves all folders, sorted by name.
+   * @returns An array of DraftFolder objects, or an empty array on error.
+   */
+  async getAllFolders(): Promise<DraftFolder[]> {
+    try {
+      const db = await openDraftDatabase();
+      const folders = await readFolders(db);
+      return folders.sort((a, b) => a.name.localeCompare(b.name));
+    } catch (e) {
+      console.error('[storageService] Error getting all folders:', e);
+      return [];
+    }
+  },
+
+  /**
+   * Creates a new folder.
+   * @param name - The folder name (trimmed; must not be empty).
+   * @param parentId - The parent folder ID, or null for the top level.
+   * @returns The created folder, or null on failure.
+   */
+  async createFolder(
+    name: string,
+    parentId: string | null = null
+  ): Promise<DraftFolder | null> {
+    const trimmed = name.trim();
+    if (!trimmed) return null;
+    try {
+      const db = await openDraftDatabase();
+      if (parentId && !(await readFolders(db)).some((f) => f.id === parentId)) {
+        console.warn(`[storageService] Parent folder not found: ${parentId}`);
+        return null;
+      }
+      const timestamp = new Date().toISOString();
+      const folder: DraftFolder = {
+        id: `folder_${timestamp}_${Math.random().toString(36).slice(2, 8)}`,
+        name: trimmed,
+        parentId,
+        createdAt: timestamp,
+      };
+
+      const tx = db.transaction(FOLDERS_STORE, 'readwrite');
+      tx.objectStore(FOLDERS_STORE).add(folder);
+      await transactionDone(tx);
+      console.debug(`[storageService] Created folder: ${folder.id}`);
+      return folder;
+    } catch (e) {
+      console.error('[storageService] Error creating folder:', e);
+      return null;
+    }
+  },
+
+  /**
+   * Renames a folder.
+   * @param id - The folder ID.
+   * @param name - The new name (trimmed; must not be empty).
+   * @returns True on success, false otherwise.
+   */
+  async renameFolder(id: string, name: string): Promise<boolean> {
+    const trimmed = name.trim();
+    if (!trimmed) return false;
+    try {
+      const db = await openDraftDatabase();
+      const folder = (await readFolders(db)).find((f) => f.id === id);
+      if (!folder) {
+        console.warn(`[storageService] Folder not found: ${id}`);
+        return false;
+      }
+
+      const tx = db.transaction(FOLDERS_STORE, 'readwrite');
+      tx.objectStore(FOLDERS_STORE).put({ ...folder, name: trimmed });
+      await transactionDone(tx);
+      return true;
+    } catch (e) {
+      console.error(`[storageService] Error renaming folder ${id}:`, e);
+      return false;
+    }
+  },
+
+  /**
+   * Moves a folder under another folder. Moving a folder into itself or
+   * one of its own subfolders is rejected.
+   * @param id - The folder ID.
+   * @param parentId - The new parent folder ID, or null for the top level.
+   * @returns True on success, false otherwise.
+   */
+  async moveFolder(id: string, parentId: string | null): Promise<boolean> {
+    try {
+      const db = await openDraftDatabase();
+      const folders = await readFolders(db);
+      const folder = folders.find((f) => f.id === id);
+      if (!folder) {
+        console.warn(`[storageService] Folder not found: ${id}`);
+        return false;
+      }
+      // Walk up from the target to make sure it is not inside the moved folder
+      let ancestorId = parentId;
+      while (ancestorId) {
+        if (ancestorId === id) {
+          console.warn(
+            `[storageService] Cannot move folder ${id} into its own subfolder`
+          );
+          return false;
+        }
+        const ancestor = folders.find((f) => f.id === ancestorId);
+        if (!ancestor) {
+          console.warn(`[storageService] Folder not found: ${ancestorId}`);
+          return false;
+        }
+        ancestorId = ancestor.parentId;
+      }
+
+      const tx = db.transaction(FOLDERS_STORE, 'readwrite');
+      tx.objectStore(FOLDERS_STORE).put({ ...folder, parentId });
+      await transactionDone(tx);
+      return true;
+    } catch (e) {
+      console.error(`[storageService] Error moving folder ${id}:`, e);
+      return false;
+    }
+  },
+
+  /**
+   * Deletes a folder. Its drafts and subfolders are moved to the folder's
+   * parent, so no draft is lost.
+   * @param id - The folder ID.
+   * @returns True on success, false otherwise.
+   */
+  async deleteFolder(id: string): Promise<boolean> {
+    const release = await draftCrypto.beginWrite();
+    try {
+      const db = await openDraftDatabase();
+      const folders = await readFolders(db);
+      const folder = folders.find((f) => f.id === id);
+      if (!folder) {
+        console.warn(`[storageService] Folder not found: ${id}`);
+        return false;
+      }
+      // Stored records: only folderId changes, so content is left as stored
+      const drafts = await requestToPromise<Draft[]>(
+        db.transaction(DRAFTS_STORE).objectStore(DRAFTS_STORE).getAll()
+      );
+
+      const tx = db.transaction([DRAFTS_STORE, FOLDERS_STORE], 'readwrite');
+      const draftsStore = tx.objectStore(DRAFTS_STORE);
+      const foldersStore = tx.objectStore(FOLDERS_STORE);
+      drafts
+        .filter((d) => d.folderId === id)
+        .forEach((d) => draftsStore.put({ ...d, folderId: folder.parentId }));
+      folders
+        .filter((f) => f.parentId === id)
+        .forEach((f) => foldersStore.put({ ...f, parentId: folder.parentId }));
+      foldersStore.delete(id);
+      await transactionDone(tx);
+      console.debug(`[storageService] Deleted folder: ${id}`);
+      return true;
+    } catch (e) {
+      console.error(`[storageService] Error deleting folder ${id}:`, e);
+      return false;
+    } finally {
+      release();
     }
   },
 
   /**
    * Gets the ID of the currently marked draft.
-   * @returns The current draft ID string, or null if not set.
+   * @returns The current draft ID string, or null if not set or on error.
    */
-  getCurrentDraftId(): string | null {
-    return localStorage.getItem(CURRENT_DRAFT_ID_KEY);
+  async getCurrentDraftId(): Promise<string | null> {
+    try {
+      const db = await openDraftDatabase();
+      const id = await requestToPromise<string | undefined>(
+        db
+          .transaction(META_STORE)
+          .objectStore(META_STORE)
+          .get(CURRENT_DRAFT_ID_KEY)
+      );
+      return id ?? null;
+    } catch (e) {
+      console.error('[storageService] Error getting current draft ID:', e);
+      return null;
+    }
   },
 
   /**
@@ -167,9 +1173,12 @@ export const storageService = {
    * Used internally by loadDraft, but can be called externally if needed.
    * @param id - The ID to set as current.
    */
-  setCurrentDraftId(id: string): void {
+  async setCurrentDraftId(id: string): Promise<void> {
     try {
-      localStorage.setItem(CURRENT_DRAFT_ID_KEY, id);
+      const db = await openDraftDatabase();
+      const tx = db.transaction(META_STORE, 'readwrite');
+      tx.objectStore(META_STORE).put(id, CURRENT_DRAFT_ID_KEY);
+      await transactionDone(tx);
     } catch (e) {
       console.error(
         `[storageService] Error setting current draft ID to ${id}:`,
@@ -179,11 +1188,14 @@ export const storageService = {
   },
 
   /**
-   * Clears the currently marked draft ID from localStorage.
+   * Clears the currently marked draft ID.
    */
-  clearCurrentDraftId(): void {
+  async clearCurrentDraftId(): Promise<void> {
     try {
-      localStorage.removeItem(CURRENT_DRAFT_ID_KEY);
+      const db = await openDraftDatabase();
+      const tx = db.transaction(META_STORE, 'readwrite');
+      tx.objectStore(META_STORE).delete(CURRENT_DRAFT_ID_KEY);
+      await transactionDone(tx);
       console.debug(`[storageService] Cleared current draft ID.`);
     } catch (e) {
       console.error('[storageService] Error clearing current draft ID:', e);
@@ -0,0 +1,331 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import type {
+  Draft,
+  DraftFolder,
+  ImportConflictStrategy,
+  LocalImage,
+  WorkspaceImportSummary,
+} from '@/types/editor';
+import { storageService } from '@/lib/storageService';
+import { findLocalImageHashes, imageStore } from '@/lib/imageStore';
+
+// Archive layout: one Markdown file per draft, one file per stored image
+// the drafts reference, plus a JSON manifest
+const MANIFEST_PATH = 'manifest.json';
+const DRAFTS_DIR = 'drafts/';
+const IMAGES_DIR = 'images/';
+const ARCHIVE_FORMAT = 'openmdeditor-workspace';
+const ARCHIVE_VERSION = 2; // 2: images stored as files (version 1 has none)
+
+// Shape of manifest.json inside the archive
+interface WorkspaceManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string; // ISO 8601 timestamp of the export
+  drafts: {
+    id: string;
+    path: string; // Path of the draft's .md file inside the archive
+    fileName: string | null;
+    lastModified: string;
+    folderId: string | null;
+    tags: string[];
+  }[];
+  folders: DraftFolder[];
+  images?: {
+    hash: string; // Content hash the drafts reference ("local-image:<hash>")
+    path: string; // Path of the image file inside the archive
+    type: string;
+    createdAt: string;
+  }[];
+}
+
+// Contents of a workspace archive after it has been read
+export interface WorkspaceArchive {
+  exportedAt: string;
+  drafts: Draft[];
+  folders: DraftFolder[];
+  images: LocalImage[];
+}
+
+/**
+ * Builds a file name that is safe inside a zip and unique within the archive.
+ * @param draft - The draft.
+ * @param used - Paths already taken (updated in place).
+ * @returns The archive path for the draft.
+ */
+const buildDraftPath = (draft: Draft, used: Set<string>): string => {
+  const base =
+    (draft.fileName ?? draft.id)
+      .replace(/\.(md|markdown)$/i, '')
+      .replace(/[\\/:*?"<>|\u0000-\u001f]/g, '_')
+      .trim() || 'untitled';
+  let path = `${DRAFTS_DIR}${base}.md`;
+  for (let n = 2; used.has(path); n++) {
+    path = `${DRAFTS_DIR}${base}-${n}.md`;
+  }
+  used.add(path);
+  return path;
+};
+
+/**
+ * Builds the archive path of an image from its hash and type, e.g. "images/3f2a9c0d1b7e4a56.png".
+ * @param image - The image.
+ */
+const buildImagePath = (image: LocalImage): string =>
+  `${IMAGES_DIR}${image.hash}.${/^image\/([a-z0-9]+)/.exec(image.type)?.[1] ?? 'bin'}`;
+
+/**
+ * Inserts " (n)" before the extension of a file name, e.g. "a.md" -> "a (2).md".
+ * @param fileName - The original file name.
+ * @param taken - File names already in use.
+ * @returns A file name not contained in taken.
+ */
+const makeCopyFileName = (fileName: string, taken: Set<string>): string => {
+  const match = /^(.*?)(\.[^.]*)?$/.exec(fileName)!;
+  const stem = match[1];
+  const ext = match[2] ?? '';
+  let candidate = fileName;
+  for (let n = 2; taken.has(candidate); n++) {
+    candidate = `${stem} (${n})${ext}`;
+  }
+  return candidate;
+};
+
+/**
+ * Service object for exporting and importing the whole workspace as a zip archive.
+ */
+export const workspaceService = {
+  /**
+   * Packs every draft (except those in the trash) as a .md file plus
+   * manifest.json into a zip archive. Stored images the drafts reference are
+   * added as files, so they can be restored under the same hashes.
+   * @param draftIds - Optional IDs limiting the export to these drafts
+   *   (all folders are still included so the structure can be restored).
+   * @returns The archive as a Blob, or null on error.
+   */
+  async exportWorkspace(draftIds?: string[]): Promise<Blob | null> {
+    try {
+      const [allDrafts, folders] = await Promise.all([
+        storageService.getAllDrafts(),
+        storageService.getAllFolders(),
+      ]);
+      const drafts = draftIds
+        ? allDrafts.filter((d) => draftIds.includes(d.id))
+        : allDrafts;
+      // Stored images go along so the archive does not depend on this browser
+      const hashes = findLocalImageHashes(
+        drafts.map((d) => d.content).join('\n')
+      );
+      const images: LocalImage[] = [];
+      for (const hash of hashes) {
+        const image = await imageStore.getImageRecord(hash);
+        if (!image) {
+          console.warn(
+            `[workspaceService] Image not found for export: ${hash}`
+          );
+          continue;
+        }
+        images.push(image);
+      }
+      const usedPaths = new Set<string>();
+      const files: Record<string, Uint8Array> = {};
+      const manifest: WorkspaceManifest = {
+        format: ARCHIVE_FORMAT,
+        version: ARCHIVE_VERSION,
+        exportedAt: new Date().toISOString(),
+        drafts: drafts.map((draft) => {
+          const path = buildDraftPath(draft, usedPaths);
+          files[path] = strToU8(draft.content);
+          return {
+            id: draft.id,
+            path,
+            fileName: draft.fileName,
+            lastModified: draft.lastModified,
+            folderId: draft.folderId,
+            tags: draft.tags,
+          };
+        }),
+        folders,
+        images: images.map((image) => {
+          const path = buildImagePath(image);
+          files[path] = new Uint8Array(image.data);
+          return {
+            hash: image.hash,
+            path,
+            type: image.type,
+            createdAt: image.createdAt,
+          };
+        }),
+      };
+      files[MANIFEST_PATH] = strToU8(JSON.stringify(manifest, null, 2));
+
+      const zipped = zipSync(files, { level: 6 });
+      console.debug(
+        `[workspaceService] Exported ${drafts.length} draft(s) to archive`
+      );
+      return new Blob([zipped], { type: 'application/zip' });
+    } catch (e) {
+      console.error('[workspaceService] Error exporting workspace:', e);
+      return null;
+    }
+  },
+
+  /**
+   * Reads a workspace archive created by exportWorkspace.
+   * @param data - The raw zip file contents.
+   * @returns The drafts, folders and images in the archive, or null if it is not a valid workspace archive.
+   */
+  readArchive(data: Uint8Array): WorkspaceArchive | null {
+    try {
+      const files = unzipSync(data);
+      const manifestData = files[MANIFEST_PATH];
+      if (!manifestData) {
+        console.warn('[workspaceService] Archive has no manifest');
+        return null;
+      }
+      const manifest = JSON.parse(strFromU8(manifestData)) as WorkspaceManifest;
+      if (
+        manifest.format !== ARCHIVE_FORMAT ||
+        manifest.version > ARCHIVE_VERSION ||
+        !Array.isArray(manifest.drafts)
+      ) {
+        console.warn('[workspaceService] Unsupported archive manifest');
+        return null;
+      }
+
+      const drafts: Draft[] = [];
+      for (const entry of manifest.drafts) {
+        const content = files[entry.path];
+        if (typeof entry.id !== 'string' || !content) {
+          console.warn(
+            `[workspaceService] Skipping manifest entry without file: ${entry.path}`
+          );
+          continue;
+        }
+        drafts.push({
+          id: entry.id,
+          content: strFromU8(content),
+          fileName: entry.fileName ?? null,
+          lastModified: entry.lastModified,
+          folderId: entry.folderId ?? null,
+          tags: Array.isArray(entry.tags) ? entry.tags : [],
+          deletedAt: null,
+        });
+      }
+      // Version 1 archives have no images
+      const imageEntries = Array.isArray(manifest.images)
+        ? manifest.images
+        : [];
+      const images: LocalImage[] = [];
+      for (const entry of imageEntries) {
+        const data = files[entry.path];
+        if (typeof entry.hash !== 'string' || !data) {
+          console.warn(
+            `[workspaceService] Skipping image entry without file: ${entry.path}`
+          );
+          continue;
+        }
+        images.push({
+          hash: entry.hash,
+          type: entry.type,
+          data: data.slice().buffer,
+          createdAt: entry.createdAt,
+        });
+      }
+      return {
+        exportedAt: manifest.exportedAt,
+        drafts,
+        folders: Array.isArray(manifest.folders) ? manifest.folders : [],
+        images,
+      };
+    } catch (e) {
+      console.error('[workspaceService] Error reading archive:', e);
+      return null;
+    }
+  },
+
+  /**
+   * Finds the archive drafts whose IDs already exist in storage (including the trash).
+   * @param archive - The archive contents.
+   * @returns The conflicting drafts from the archive.
+   */
+  async findConflicts(archive: WorkspaceArchive): Promise<Draft[]> {
+    const existingIds = new Set(
+      (await storageService.getAllDrafts({ includeTrashed: true })).map(
+        (d) => d.id
+      )
+    );
+    return archive.drafts.filter((d) => existingIds.has(d.id));
+  },
+
+  /**
+   * Imports an archive through storageService.
+   * Folders that do not exist yet are added; existing folders are kept.
+   * Images are added unless an image with the same hash is already stored.
+   * @param archive - The archive contents.
+   * @param strategy - What to do with drafts whose IDs already exist:
+   *   'skip' keeps the stored draft, 'overwrite' replaces it, and
+   *   'keepBoth' imports the archived draft under a new ID and file name.
+   * @returns Counts of what was imported, or null if writing failed.
+   */
+  async importArchive(
+    archive: WorkspaceArchive,
+    strategy: ImportConflictStrategy
+  ): Promise<WorkspaceImportSummary | null> {
+    const [existingDrafts, existingFolders] = await Promise.all([
+      storageService.getAllDrafts({ includeTrashed: true }),
+      storageService.getAllFolders(),
+    ]);
+    const existingIds = new Set(existingDrafts.map((d) => d.id));
+    const takenNames = new Set(
+      existingDrafts.map((d) => d.fileName).filter((n): n is string => !!n)
+    );
+    const folderIds = new Set(existingFolders.map((f) => f.id));
+    const newFolders = archive.folders.filter((f) => !folderIds.has(f.id));
+    newFolders.forEach((f) => folderIds.add(f.id));
+
+    const summary: WorkspaceImportSummary = {
+      added: 0,
+      overwritten: 0,
+      skipped: 0,
+      copied: 0,
+    };
+    const toWrite: Draft[] = [];
+    archive.drafts.forEach((draft, index) => {
+      // Drop references to folders that are neither stored nor in the archive
+      const record: Draft = {
+        ...draft,
+        folderId:
+          draft.folderId && folderIds.has(draft.folderId)
+            ? draft.folderId
+            : null,
+      };
+      if (!existingIds.has(draft.id)) {
+        summary.added++;
+        toWrite.push(record);
+      } else if (strategy === 'overwrite') {
+        summary.overwritten++;
+        toWrite.push(record);
+      } else if (strategy === 'keepBoth') {
+        summary.copied++;
+        const fileName = draft.fileName
+          ? makeCopyFileName(draft.fileName, takenNames)
+          : null;
+        if (fileName) takenNames.add(fileName);
+        toWrite.push({
+          ...record,
+          id: `${draft.id}_import_${Date.now().toString(36)}_${index}`,
+          fileName,
+        });
+      } else {
+        summary.skipped++;
+      }
+    });
+
+    if (!(await imageStore.importImages(archive.images))) return null;
+    if (!(await storageService.importRecords(toWrite, newFolders))) {
+      return null;
+    }
+    return summary;
+  },
+};
@@ -4,6 +4,7 @@ import { StrictMode } from 'react';
 // import App from './App.tsx';
 import EditorPage from './pages/EditorPage.tsx'; // Import the main page component
 import { ThemeProvider } from '@/components/providers/ThemeProvider'; // Import the theme provider
+import { PassphraseGate } from '@/components/PassphraseGate'; // Unlocks encrypted drafts before the editor loads them
 // Import index.css which includes Tailwind directives and globals.css
 import './index.css';
 
@@ -24,7 +25,9 @@ root.render(
     {/* Wrap the entire application with the ThemeProvider */}
     <ThemeProvider defaultTheme="system" storageKey="ai-md-editor-theme">
       {/* Render the main page component (or App component) */}
-      <EditorPage />
+      <PassphraseGate>
+        <EditorPage />
+      </PassphraseGate>
       {/* <App /> */}
     </ThemeProvider>
   </StrictMode>
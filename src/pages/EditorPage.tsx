@@ -1,13 +1,24 @@
 import { useEffect, useRef, useCallback } from 'react';
 import { EditorHeader } from '@/components/EditorHeader';
 import { EditorToolbar } from '@/components/EditorToolbar';
+import { DraftConflictBanner } from '@/components/DraftConflictBanner';
+import { DocumentTabs } from '@/components/DocumentTabs';
 import { EditorLayoutContent } from '@/components/EditorLayoutContent'; // Renamed from EditorLayout
 import { EditorStatusBar } from '@/components/EditorStatusBar';
 import { AiChatPanel } from '@/components/AiChatPanel';
 import { AiSuggestionDialog } from '@/components/AiSuggestionDialog';
 import { SearchReplaceDialog } from '@/components/SearchReplaceDialog'; // <-- Import here
+import { DraftHistoryDialog } from '@/components/DraftHistoryDialog';
+import { GlobalSearchDialog } from '@/components/GlobalSearchDialog';
+import { StorageManagerDialog } from '@/components/StorageManagerDialog';
+import { TrashDialog } from '@/components/TrashDialog';
+import { EncryptionSettingsDialog } from '@/components/EncryptionSettingsDialog';
+import { AutosaveSettingsDialog } from '@/components/AutosaveSettingsDialog';
+import { ShortcutSettingsDialog } from '@/components/ShortcutSettingsDialog';
+import { RecoveryDialog } from '@/components/RecoveryDialog';
 import { Toaster } from '@/components/ui/sonner'; // Use Shadcn Sonner for notifications
 import { TableOfContents } from '@/components/TableOfContents';
+import { DraftExplorer } from '@/components/DraftExplorer';
 import {
   ResizableHandle,
   ResizablePanel,
@@ -16,7 +27,12 @@ import {
 import { EditorContextMenu } from '@/components/EditorContextMenu'; // Import Context Menu
 import { useEditorStore } from '@/store/editorStore'; // Import stores
 import { useUIStore } from '@/store/uiStore';
+import { useDraftStore } from '@/store/draftStore';
 import type { PreviewPaneRef } from '@/components/PreviewPane';
+import { draftSync } from '@/lib/draftSync';
+import { SHORTCUTS, matchesKey, resolveShortcutKeys } from '@/lib/shortcuts';
+import type { ShortcutId } from '@/types/editor';
+import { useRecoveryJournal } from '@/hooks/useRecoveryJournal';
 
 /**
  * Main application page component that orchestrates the editor layout and features.
@@ -29,22 +45,71 @@ const EditorPage: React.FC = () => {
     saveCurrentDraft: saveAction,
     createNewFile: createAction,
     loadLastOpenedDraft,
+    loadAutosaveSettings,
+    loadLintSettings,
+    loadKeybindingMode,
+    shortcutOverrides,
+    loadShortcutOverrides,
+    checkRecovery,
+    recoveryCandidates,
+    handleExternalSave,
+    openFile,
+    saveToFile,
   } = useEditorStore();
-  const { isChatOpen, setChatOpen, setActiveTab } = useUIStore();
+  const { isChatOpen, setChatOpen, setActiveTab, openGlobalSearchDialog } =
+    useUIStore();
+  const purgeExpiredTrash = useDraftStore((state) => state.purgeExpiredTrash);
 
   // --- Effects ---
-  // Load the last opened draft when the application mounts
+  // Load the last opened draft when the application mounts,
+  // then offer any unsaved text the previous session left behind
   useEffect(() => {
-    loadLastOpenedDraft();
-  }, [loadLastOpenedDraft]); // Dependency: loadLastOpenedDraft action
+    loadLastOpenedDraft().then(checkRecovery);
+  }, [loadLastOpenedDraft, checkRecovery]);
+
+  // Apply the user's autosave policy
+  useEffect(() => {
+    loadAutosaveSettings();
+  }, [loadAutosaveSettings]);
+
+  // Apply the user's choice of Markdown lint rules
+  useEffect(() => {
+    loadLintSettings();
+  }, [loadLintSettings]);
+
+  // Apply the user's keybinding mode (default, Vim or Emacs)
+  useEffect(() => {
+    loadKeybindingMode();
+  }, [loadKeybindingMode]);
+
+  // Apply the user's keyboard shortcuts
+  useEffect(() => {
+    loadShortcutOverrides();
+  }, [loadShortcutOverrides]);
+
+  // Record unsaved text for crash recovery once the previous session's entries are handled
+  useRecoveryJournal(recoveryCandidates?.length === 0);
+
+  // Purge trashed drafts whose retention period has passed
+  useEffect(() => {
+    purgeExpiredTrash();
+  }, [purgeExpiredTrash]);
+
+  // Watch for other tabs saving the open draft
+  useEffect(
+    () => draftSync.subscribe(({ draftId }) => handleExternalSave(draftId)),
+    [handleExternalSave]
+  );
 
   // --- Global Shortcut Actions (memoized with useCallback) ---
-  // Wrapper for save action to be used in shortcuts
+  // Wrapper for save action to be used in shortcuts.
+  // A draft opened from (or saved to) a file on disk is written back to that file.
   const saveCurrentDraft = useCallback(() => {
-    saveAction().catch((err) =>
-      console.error('Save failed from shortcut', err)
-    );
-  }, [saveAction]);
+    const save = useEditorStore.getState().fileHandle
+      ? saveToFile()
+      : saveAction();
+    save.catch((err) => console.error('Save failed from shortcut', err));
+  }, [saveAction, saveToFile]);
 
   // Wrapper for new file action
   const createNewFile = useCallback(() => {
@@ -53,6 +118,19 @@ const EditorPage: React.FC = () => {
 
   // --- Global Keyboard Shortcut Handler ---
   useEffect(() => {
+    // Actions of the global shortcuts in the registry
+    const globalActions: Partial<Record<ShortcutId, () => void>> = {
+      save: saveCurrentDraft,
+      saveAs: () => saveToFile(true),
+      newFile: createNewFile,
+      openFile,
+      globalSearch: openGlobalSearchDialog,
+      toggleChat: () => setChatOpen(!isChatOpen),
+      viewEdit: () => setActiveTab('edit'),
+      viewSplit: () => setActiveTab('split'),
+      viewPreview: () => setActiveTab('preview'),
+    };
+
     const handleKeyDown = (event: KeyboardEvent) => {
       // Check if focus is inside an input/textarea to avoid overriding typing
       const target = event.target as HTMLElement;
@@ -73,46 +151,31 @@ const EditorPage: React.FC = () => {
         }
       }
 
-      // File Operations
-      if ((event.metaKey || event.ctrlKey) && event.key === 's') {
-        event.preventDefault();
-        saveCurrentDraft();
-      }
-      if ((event.metaKey || event.ctrlKey) && event.key === 'n') {
-        event.preventDefault();
-        createNewFile();
-      }
-      // Add Cmd/Ctrl+O later if needed for "Open" modal
-
-      // UI Toggles
-      if ((event.metaKey || event.ctrlKey) && event.key === '.') {
+      // Run the global action bound to the key, if any (keys come from the shortcut registry)
+      const keys = resolveShortcutKeys(shortcutOverrides);
+      const shortcut = SHORTCUTS.find(
+        ({ id, scope }) => scope === 'global' && matchesKey(event, keys[id])
+      );
+      if (shortcut) {
         event.preventDefault();
-        setChatOpen(!isChatOpen);
-      }
-
-      // View Mode Switching (Example: Cmd/Ctrl+Alt+1/2/3)
-      if ((event.metaKey || event.ctrlKey) && event.altKey) {
-        switch (event.key) {
-          case '1':
-            event.preventDefault();
-            setActiveTab('edit');
-            break;
-          case '2':
-            event.preventDefault();
-            setActiveTab('split');
-            break;
-          case '3':
-            event.preventDefault();
-            setActiveTab('preview');
-            break;
-        }
+        globalActions[shortcut.id]?.();
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     // Cleanup listener on unmount
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [saveCurrentDraft, createNewFile, isChatOpen, setChatOpen, setActiveTab]); // Dependencies for the effect
+  }, [
+    saveCurrentDraft,
+    createNewFile,
+    openFile,
+    saveToFile,
+    isChatOpen,
+    setChatOpen,
+    setActiveTab,
+    openGlobalSearchDialog,
+    shortcutOverrides,
+  ]); // Dependencies for the effect
 
   // --- Table of Contents Click Handler ---
   // Scrolls the preview pane to the clicked heading
@@ -130,6 +193,8 @@ const EditorPage: React.FC = () => {
       <EditorHeader />
       {/* Toolbar Component */}
       <EditorToolbar />
+      {/* Banner shown when another tab saved the open draft over local edits */}
+      <DraftConflictBanner />
       {/* Resizable Main Content Area */}
       <ResizablePanelGroup
         direction="horizontal"
@@ -137,16 +202,26 @@ const EditorPage: React.FC = () => {
       >
         {' '}
         {/* flex-grow and overflow */}
-        {/* Left Panel: Table of Contents */}
+        {/* Left Panel: Draft Explorer and Table of Contents */}
         <ResizablePanel
           defaultSize={20}
           minSize={15}
           maxSize={30}
-          className="h-full overflow-y-auto bg-muted/20"
+          className="h-full bg-muted/20"
         >
-          {' '}
-          {/* Added bg and scroll */}
-          <TableOfContents onHeadingClick={handleTocHeadingClick} />
+          <ResizablePanelGroup direction="vertical">
+            <ResizablePanel defaultSize={50} minSize={20}>
+              <DraftExplorer />
+            </ResizablePanel>
+            <ResizableHandle />
+            <ResizablePanel
+              defaultSize={50}
+              minSize={20}
+              className="overflow-y-auto"
+            >
+              <TableOfContents onHeadingClick={handleTocHeadingClick} />
+            </ResizablePanel>
+          </ResizablePanelGroup>
         </ResizablePanel>
         {/* Handle for resizing */}
         <ResizableHandle withHandle />
@@ -154,6 +229,8 @@ const EditorPage: React.FC = () => {
         <ResizablePanel defaultSize={80} className="h-full flex flex-col">
           {' '}
           {/* flex-col needed for layout content */}
+          {/* Tabs of the open documents */}
+          <DocumentTabs />
           {/* Component containing Editor/Preview layout logic */}
           <EditorLayoutContent previewPaneRef={previewPaneRef} />
         </ResizablePanel>
@@ -168,6 +245,22 @@ const EditorPage: React.FC = () => {
       <EditorContextMenu />
       {/* Search and Replace Dialog (conditionally rendered based on store state) */}
       <SearchReplaceDialog />
+      {/* Version History Dialog (conditionally rendered based on store state) */}
+      <DraftHistoryDialog />
+      {/* Search All Drafts Dialog (conditionally rendered based on store state) */}
+      <GlobalSearchDialog />
+      {/* Storage Usage and Cleanup Dialog (opened from the workspace menu or after a failed save) */}
+      <StorageManagerDialog />
+      {/* Trash Dialog (conditionally rendered based on store state) */}
+      <TrashDialog />
+      {/* Passphrase Encryption Settings Dialog */}
+      <EncryptionSettingsDialog />
+      {/* Autosave Policy Settings Dialog */}
+      <AutosaveSettingsDialog />
+      {/* Keyboard Shortcut Settings Dialog */}
+      <ShortcutSettingsDialog />
+      {/* Crash Recovery Dialog (shown at startup when unsaved text was left behind) */}
+      <RecoveryDialog />
       {/* Notification Toaster Component */}
       <Toaster richColors position="top-right" closeButton />{' '}
       {/* Added closeButton */}
@@ -6,6 +6,7 @@ import { toast } from 'sonner'; // Mock this
 
 // --- Mocks ---
 vi.mock('@/lib/storageService'); // Mock the entire storage service
+vi.mock('@/lib/historyService'); // Snapshots are not recorded in store tests
 vi.mock('sonner', () => ({
   // Mock sonner toast
   toast: {
@@ -37,19 +38,22 @@ describe('editorStore', () => {
     // Reset mocks
     vi.clearAllMocks();
     // Reset storageService mock implementations if necessary
-    vi.mocked(storageService.saveDraft).mockReturnValue('mock-id');
-    vi.mocked(storageService.loadDraft).mockImplementation((id) =>
+    vi.mocked(storageService.saveDraft).mockResolvedValue('mock-id');
+    vi.mocked(storageService.loadDraft).mockImplementation(async (id) =>
       id === 'mock-id'
         ? {
             id: 'mock-id',
             content: 'loaded content',
             fileName: 'loaded.md',
             lastModified: new Date().toISOString(),
+            folderId: null,
+            tags: [],
+            deletedAt: null,
           }
         : null
     );
-    vi.mocked(storageService.loadLastDraft).mockReturnValue(null); // Default to no last draft
-    vi.mocked(storageService.getCurrentDraftId).mockReturnValue(null);
+    vi.mocked(storageService.loadLastDraft).mockResolvedValue(null); // Default to no last draft
+    vi.mocked(storageService.getCurrentDraftId).mockResolvedValue(null);
   });
 
   afterEach(() => {
@@ -138,6 +142,9 @@ describe('editorStore', () => {
       content: 'Loaded draft content',
       fileName: 'my draft.md',
       lastModified: '2024-01-01T00:00:00Z',
+      folderId: null,
+      tags: [],
+      deletedAt: null,
     };
     useEditorStore.getState().setCurrentFile(draft);
     const state = useEditorStore.getState();
@@ -165,13 +172,16 @@ describe('editorStore', () => {
   // --- File Action Tests ---
 
   it('saveCurrentDraft should call storageService.saveDraft and update state', async () => {
-    useEditorStore.getState().setMarkdown('Content to save');
     useEditorStore.getState().setCurrentFile({
       id: 'existing-id',
       content: '',
       fileName: 'existing.md',
       lastModified: '',
+      folderId: null,
+      tags: [],
+      deletedAt: null,
     }); // Set existing ID/name
+    useEditorStore.getState().setMarkdown('Content to save');
 
     const result = await useEditorStore.getState().saveCurrentDraft();
 
@@ -181,19 +191,20 @@ describe('editorStore', () => {
       'existing.md',
       'existing-id'
     );
-    // setCurrentFile should be called internally after successful save/load
-    expect(storageService.loadDraft).toHaveBeenCalledWith('mock-id'); // Assuming saveDraft returned 'mock-id'
     expect(toast.success).toHaveBeenCalledWith(
       '下書き "existing.md" を保存しました'
     );
-    // Check if state was updated by the internal setCurrentFile call
-    expect(useEditorStore.getState().content).toBe('loaded content'); // From mocked loadDraft
-    expect(useEditorStore.getState().isSaved).toBe(true);
+    // The saved text stays in the editor and is marked as saved
+    const state = useEditorStore.getState();
+    expect(state.markdown).toBe('Content to save');
+    expect(state.baseContent).toBe('Content to save');
+    expect(state.currentDraftId).toBe('mock-id'); // Returned by saveDraft
+    expect(state.isSaved).toBe(true);
   });
 
   it('saveCurrentDraft should prompt for filename if missing and save', async () => {
-    useEditorStore.getState().setMarkdown('Needs filename');
     useEditorStore.getState().setCurrentFile(null); // Ensure no filename/id initially
+    useEditorStore.getState().setMarkdown('Needs filename');
     const promptSpy = vi.spyOn(window, 'prompt').mockReturnValue('new-file.md'); // Mock prompt
 
     const result = await useEditorStore.getState().saveCurrentDraft();
@@ -208,11 +219,44 @@ describe('editorStore', () => {
     expect(toast.success).toHaveBeenCalledWith(
       '下書き "new-file.md" を保存しました'
     );
-    expect(useEditorStore.getState().currentFileName).toBe('loaded.md'); // From mocked loadDraft
+    expect(useEditorStore.getState().currentFileName).toBe('new-file.md');
 
     promptSpy.mockRestore();
   });
 
+  it('saveCurrentDraft should keep text typed while the save is running', async () => {
+    const handle = {} as FileSystemFileHandle;
+    useEditorStore.getState().setCurrentFile({
+      id: 'existing-id',
+      content: '',
+      fileName: 'existing.md',
+      lastModified: '',
+      folderId: null,
+      tags: [],
+      deletedAt: null,
+    });
+    useEditorStore.setState({ fileHandle: handle });
+    useEditorStore.getState().setMarkdown('saved text');
+    // 保存の完了を待たせ、その間に入力を続ける
+    let finishSave!: (id: string) => void;
+    vi.mocked(storageService.saveDraft).mockReturnValue(
+      new Promise((resolve) => {
+        finishSave = resolve;
+      })
+    );
+
+    const saving = useEditorStore.getState().saveCurrentDraft();
+    useEditorStore.getState().setMarkdown('saved text and more');
+    finishSave('existing-id');
+    expect(await saving).toBe(true);
+
+    const state = useEditorStore.getState();
+    expect(state.markdown).toBe('saved text and more');
+    expect(state.baseContent).toBe('saved text');
+    expect(state.isSaved).toBe(false); // 保存後の入力は未保存のまま
+    expect(state.fileHandle).toBe(handle);
+  });
+
   it('saveCurrentDraft should cancel if prompt is cancelled', async () => {
     useEditorStore.getState().setMarkdown('Needs filename');
     useEditorStore.getState().setCurrentFile(null);
@@ -230,18 +274,22 @@ describe('editorStore', () => {
     promptSpy.mockRestore();
   });
 
-  it('createNewFile should reset state after confirmation if unsaved', () => {
+  it('createNewFile should open a new tab and keep unsaved changes', () => {
     useEditorStore.getState().setMarkdown('unsaved changes'); // isSaved becomes false
-    const confirmSpy = vi.spyOn(window, 'confirm').mockReturnValue(true); // Confirm discard
+    const confirmSpy = vi.spyOn(window, 'confirm');
 
     useEditorStore.getState().createNewFile();
 
-    expect(confirmSpy).toHaveBeenCalled();
-    expect(useEditorStore.getState().markdown).toBe('# 新しいドキュメント\n\n');
-    expect(useEditorStore.getState().currentDraftId).toBeNull();
+    expect(confirmSpy).not.toHaveBeenCalled();
+    const state = useEditorStore.getState();
+    expect(state.markdown).toBe('# 新しいドキュメント\n\n');
+    expect(state.currentDraftId).toBeNull();
+    expect(state.tabs).toHaveLength(2);
+    expect(state.tabs[0]).toMatchObject({
+      markdown: 'unsaved changes',
+      isSaved: false,
+    });
     expect(toast.info).toHaveBeenCalledWith('新規ファイルを作成しました');
-
-    confirmSpy.mockRestore();
   });
 
   it('createNewFile should reset state directly if saved', () => {
@@ -255,20 +303,24 @@ describe('editorStore', () => {
     expect(toast.info).toHaveBeenCalledWith('新規ファイルを作成しました');
   });
 
-  it('loadDraft should load draft into state after confirmation if unsaved', () => {
+  it('loadDraft should open the draft in a new tab without discarding unsaved changes', async () => {
     useEditorStore.getState().setMarkdown('unsaved changes');
-    const confirmSpy = vi.spyOn(window, 'confirm').mockReturnValue(true);
+    const confirmSpy = vi.spyOn(window, 'confirm');
     const draftToLoad: Draft = {
       id: 'load-id',
       content: 'Loaded!',
       fileName: 'loaded.md',
       lastModified: '',
+      folderId: null,
+      tags: [],
+      deletedAt: null,
     };
-    vi.mocked(storageService.loadDraft).mockReturnValue(draftToLoad);
+    vi.mocked(storageService.loadDraft).mockResolvedValue(draftToLoad);
 
-    useEditorStore.getState().loadDraft('load-id');
+    await useEditorStore.getState().loadDraft('load-id');
 
-    expect(confirmSpy).toHaveBeenCalled();
+    expect(confirmSpy).not.toHaveBeenCalled();
+    expect(useEditorStore.getState().tabs).toHaveLength(2);
     expect(storageService.loadDraft).toHaveBeenCalledWith('load-id');
     expect(useEditorStore.getState().markdown).toBe(draftToLoad.content);
     expect(useEditorStore.getState().currentDraftId).toBe(draftToLoad.id);
@@ -279,29 +331,32 @@ describe('editorStore', () => {
     confirmSpy.mockRestore();
   });
 
-  it('loadLastOpenedDraft should load the last draft from storage on init (mocked)', () => {
+  it('loadLastOpenedDraft should load the last draft from storage on init (mocked)', async () => {
     const lastDraft: Draft = {
       id: 'last-id',
       content: 'Last opened',
       fileName: 'last.md',
       lastModified: '',
+      folderId: null,
+      tags: [],
+      deletedAt: null,
     };
-    vi.mocked(storageService.loadLastDraft).mockReturnValue(lastDraft);
+    vi.mocked(storageService.loadLastDraft).mockResolvedValue(lastDraft);
 
     // Reset and trigger initial load logic again
     useEditorStore.setState(initialState, true);
-    useEditorStore.getState().loadLastOpenedDraft(); // Manually trigger for test
+    await useEditorStore.getState().loadLastOpenedDraft(); // Manually trigger for test
 
     expect(storageService.loadLastDraft).toHaveBeenCalled();
     expect(useEditorStore.getState().markdown).toBe(lastDraft.content);
     expect(useEditorStore.getState().currentDraftId).toBe(lastDraft.id);
   });
 
-  it('loadLastOpenedDraft should calculate counts for initial state if no last draft', () => {
-    vi.mocked(storageService.loadLastDraft).mockReturnValue(null); // No last draft
+  it('loadLastOpenedDraft should calculate counts for initial state if no last draft', async () => {
+    vi.mocked(storageService.loadLastDraft).mockResolvedValue(null); // No last draft
 
     useEditorStore.setState(initialState, true); // Reset to initial state
-    useEditorStore.getState().loadLastOpenedDraft(); // Trigger load
+    await useEditorStore.getState().loadLastOpenedDraft(); // Trigger load
 
     expect(storageService.loadLastDraft).toHaveBeenCalled();
     const state = useEditorStore.getState();
@@ -312,6 +367,128 @@ describe('editorStore', () => {
     expect(state.currentDraftId).toBeNull();
   });
 
+  // --- Tab Tests ---
+  describe('tabs', () => {
+    const draft = (id: string, content: string): Draft => ({
+      id,
+      content,
+      fileName: `${id}.md`,
+      lastModified: '',
+      folderId: null,
+      tags: [],
+      deletedAt: null,
+    });
+
+    beforeEach(() => {
+      vi.mocked(storageService.loadDraft).mockImplementation(async (id) =>
+        draft(id, `content of ${id}`)
+      );
+    });
+
+    it('should keep the text and dirty flag of each tab when switching', async () => {
+      await useEditorStore.getState().loadDraft('a');
+      useEditorStore.getState().setMarkdown('edited a');
+      await useEditorStore.getState().loadDraft('b');
+
+      let state = useEditorStore.getState();
+      expect(state.markdown).toBe('content of b');
+      expect(state.isSaved).toBe(true);
+
+      const tabA = state.tabs.find((t) => t.draftId === 'a')!;
+      state.switchTab(tabA.id);
+      state = useEditorStore.getState();
+      expect(state.activeTabId).toBe(tabA.id);
+      expect(state.markdown).toBe('edited a');
+      expect(state.isSaved).toBe(false);
+      expect(state.currentFileName).toBe('a.md');
+    });
+
+    it('should switch to a draft that is already open instead of opening it again', async () => {
+      await useEditorStore.getState().loadDraft('a');
+      await useEditorStore.getState().loadDraft('b');
+      await useEditorStore.getState().loadDraft('a');
+
+      const state = useEditorStore.getState();
+      expect(state.tabs.filter((t) => t.draftId === 'a')).toHaveLength(1);
+      expect(state.currentDraftId).toBe('a');
+    });
+
+    it('should reuse an untouched untitled tab', async () => {
+      useEditorStore.getState().setCurrentFile(null);
+      await useEditorStore.getState().loadDraft('a');
+
+      expect(useEditorStore.getState().tabs).toHaveLength(1);
+    });
+
+    it('should show the neighbouring tab after closing the active one', async () => {
+      await useEditorStore.getState().loadDraft('a');
+      await useEditorStore.getState().loadDraft('b');
+      const { tabs, activeTabId, closeTab } = useEditorStore.getState();
+      expect(activeTabId).toBe(tabs[tabs.length - 1].id);
+
+      closeTab(activeTabId);
+
+      const state = useEditorStore.getState();
+      expect(state.tabs).toHaveLength(tabs.length - 1);
+      expect(state.currentDraftId).toBe('a');
+      expect(state.markdown).toBe('content of a');
+    });
+
+    it('should leave an untitled document when the last tab is closed', () => {
+      const { activeTabId, closeTab } = useEditorStore.getState();
+
+      closeTab(activeTabId);
+
+      const state = useEditorStore.getState();
+      expect(state.tabs).toHaveLength(1);
+      expect(state.activeTabId).not.toBe(activeTabId);
+      expect(state.currentDraftId).toBeNull();
+      expect(state.markdown).toBe('# 新しいドキュメント\n\n');
+    });
+
+    it('should follow a save from another browser tab in a background tab', async () => {
+      await useEditorStore.getState().loadDraft('a');
+      await useEditorStore.getState().loadDraft('b');
+      vi.mocked(storageService.getDraft).mockResolvedValue(
+        draft('a', 'saved elsewhere')
+      );
+
+      await useEditorStore.getState().handleExternalSave('a');
+
+      const tabA = useEditorStore
+        .getState()
+        .tabs.find((t) => t.draftId === 'a')!;
+      expect(tabA.markdown).toBe('saved elsewhere');
+      expect(tabA.isSaved).toBe(true);
+      expect(useEditorStore.getState().markdown).toBe('content of b'); // 表示中のタブは変わらない
+    });
+
+    it('should follow a save from another browser tab in the active tab without reopening it', async () => {
+      await useEditorStore.getState().loadDraft('a');
+      vi.mocked(storageService.loadDraft).mockClear();
+      vi.mocked(storageService.getDraft).mockResolvedValue(
+        draft('a', 'saved elsewhere')
+      );
+
+      await useEditorStore.getState().handleExternalSave('a');
+
+      expect(useEditorStore.getState().markdown).toBe('saved elsewhere');
+      expect(storageService.loadDraft).not.toHaveBeenCalled(); // 最後に開いた下書きを書き換えない
+    });
+
+    it('should ignore a save from another browser tab that moved the draft to the trash', async () => {
+      await useEditorStore.getState().loadDraft('a');
+      vi.mocked(storageService.getDraft).mockResolvedValue({
+        ...draft('a', 'saved elsewhere'),
+        deletedAt: new Date().toISOString(),
+      });
+
+      await useEditorStore.getState().handleExternalSave('a');
+
+      expect(useEditorStore.getState().markdown).toBe('content of a');
+    });
+  });
+
   // --- Scroll Action Test ---
   it('scrollToPosition should dispatch scrollIntoView effect if view exists', () => {
     const scrollToPos = 100;
@@ -0,0 +1,245 @@
+import { create } from 'zustand';
+import type { Draft, DraftFolder } from '@/types/editor'; // Import types
+import {
+  storageService,
+  DEFAULT_TRASH_RETENTION_DAYS,
+} from '@/lib/storageService'; // Import storage service
+import { fileImportService } from '@/lib/fileImportService';
+import { useEditorStore } from '@/store/editorStore';
+import { toast } from 'sonner'; // Import toast for notifications
+
+// Define the shape of the draft organization state and its actions
+interface DraftState {
+  // Organization data loaded from storage
+  drafts: Draft[]; // All saved drafts, newest first
+  folders: DraftFolder[]; // All folders, sorted by name
+  trashedDrafts: Draft[]; // Drafts in the trash, most recently deleted first
+  trashRetentionDays: number; // Days before trashed drafts are purged (0 = never)
+
+  // --- Actions ---
+  refreshDrafts: () => Promise<void>; // Reload drafts and folders from storage
+  createFolder: (name: string, parentId?: string | null) => Promise<boolean>; // Create a (sub)folder
+  renameFolder: (id: string, name: string) => Promise<boolean>; // Rename a folder
+  moveFolder: (id: string, parentId: string | null) => Promise<boolean>; // Move a folder under another
+  deleteFolder: (id: string) => Promise<boolean>; // Delete a folder (contents move up)
+  moveDraft: (draftId: string, folderId: string | null) => Promise<boolean>; // Move a draft into a folder
+  setDraftTags: (draftId: string, tags: string[]) => Promise<boolean>; // Replace the tags of a draft
+  renameDraft: (draftId: string, fileName: string) => Promise<boolean>; // Rename a draft (its ID stays the same)
+  duplicateDraft: (draftId: string) => Promise<boolean>; // Copy a saved draft as "<name> のコピー"
+  importFiles: (
+    files: File[],
+    options?: { folderId?: string | null; open?: boolean }
+  ) => Promise<number>; // Create drafts from dropped Markdown/text files (returns how many were imported)
+  trashDraft: (draftId: string) => Promise<boolean>; // Move a draft to the trash (undoable from the toast)
+  restoreDraft: (draftId: string) => Promise<boolean>; // Take a draft out of the trash
+  deleteDraftPermanently: (draftId: string) => Promise<boolean>; // Delete a draft and its history for good
+  emptyTrash: () => Promise<void>; // Permanently delete everything in the trash
+  purgeExpiredTrash: () => Promise<void>; // Delete trashed drafts older than the retention period
+  setTrashRetentionDays: (days: number) => Promise<boolean>; // Change the retention period
+}
+
+// Create the Zustand store for drafts and folders
+export const useDraftStore = create<DraftState>((set, get) => ({
+  // --- Initial State ---
+  drafts: [],
+  folders: [],
+  trashedDrafts: [],
+  trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
+
+  // --- Actions Implementation ---
+  refreshDrafts: async () => {
+    const [drafts, folders, trashedDrafts, trashRetentionDays] =
+      await Promise.all([
+        storageService.getAllDrafts(),
+        storageService.getAllFolders(),
+        storageService.getTrashedDrafts(),
+        storageService.getTrashRetentionDays(),
+      ]);
+    set({ drafts, folders, trashedDrafts, trashRetentionDays });
+  },
+
+  createFolder: async (name, parentId = null) => {
+    const folder = await storageService.createFolder(name, parentId);
+    if (!folder) {
+      toast.error('フォルダの作成に失敗しました');
+      return false;
+    }
+    await get().refreshDrafts();
+    toast.success(`フォルダ "${folder.name}" を作成しました`);
+    return true;
+  },
+
+  renameFolder: async (id, name) => {
+    if (!(await storageService.renameFolder(id, name))) {
+      toast.error('フォルダ名の変更に失敗しました');
+      return false;
+    }
+    await get().refreshDrafts();
+    return true;
+  },
+
+  moveFolder: async (id, parentId) => {
+    if (!(await storageService.moveFolder(id, parentId))) {
+      toast.error('フォルダを移動できませんでした');
+      return false;
+    }
+    await get().refreshDrafts();
+    return true;
+  },
+
+  deleteFolder: async (id) => {
+    const folder = get().folders.find((f) => f.id === id);
+    if (!(await storageService.deleteFolder(id))) {
+      toast.error('フォルダの削除に失敗しました');
+      return false;
+    }
+    await get().refreshDrafts();
+    toast.success(`フォルダ "${folder?.name ?? id}" を削除しました`);
+    return true;
+  },
+
+  moveDraft: async (draftId, folderId) => {
+    if (!(await storageService.moveDraftToFolder(draftId, folderId))) {
+      toast.error('下書きを移動できませんでした');
+      return false;
+    }
+    await get().refreshDrafts();
+    return true;
+  },
+
+  setDraftTags: async (draftId, tags) => {
+    if (!(await storageService.setDraftTags(draftId, tags))) {
+      toast.error('タグの更新に失敗しました');
+      return false;
+    }
+    await get().refreshDrafts();
+    return true;
+  },
+
+  renameDraft: async (draftId, fileName) => {
+    if (!(await storageService.renameDraft(draftId, fileName))) {
+      toast.error('下書きの名前を変更できませんでした');
+      return false;
+    }
+    useEditorStore.getState().applyDraftRename(draftId, fileName.trim());
+    await get().refreshDrafts();
+    return true;
+  },
+
+  duplicateDraft: async (draftId) => {
+    const copy = await storageService.duplicateDraft(draftId);
+    if (!copy) {
+      useEditorStore
+        .getState()
+        .notifySaveFailure('下書きを複製できませんでした');
+      return false;
+    }
+    await get().refreshDrafts();
+    toast.success(`下書き "${copy.fileName}" を作成しました`, {
+      action: {
+        label: '開く',
+        onClick: () => useEditorStore.getState().loadDraft(copy.id),
+      },
+    });
+    return true;
+  },
+
+  importFiles: async (files, { folderId = null, open = false } = {}) => {
+    if (files.length === 0) return 0;
+    const { imported, skipped } = await fileImportService.importFiles(
+      files,
+      folderId
+    );
+    if (imported.length > 0) await get().refreshDrafts();
+    if (open) {
+      imported.forEach((draft) => useEditorStore.getState().openTab(draft));
+    }
+
+    // One toast summarizing the whole batch
+    const summary = [
+      imported.length > 0 &&
+        `読み込み: ${imported.map((d) => d.fileName).join(', ')}`,
+      skipped.length > 0 &&
+        `スキップ: ${skipped.map((f) => `${f.name} (${f.reason})`).join(', ')}`,
+    ]
+      .filter(Boolean)
+      .join(' / ');
+    if (imported.length === 0) {
+      toast.error('ファイルを読み込めませんでした', { description: summary });
+    } else if (skipped.length > 0) {
+      toast.warning(
+        `${imported.length} 件を読み込み、${skipped.length} 件をスキップしました`,
+        { description: summary }
+      );
+    } else {
+      toast.success(`${imported.length} 件のファイルを読み込みました`, {
+        description: summary,
+      });
+    }
+    return imported.length;
+  },
+
+  trashDraft: async (draftId) => {
+    const draft = get().drafts.find((d) => d.id === draftId);
+    if (!(await storageService.deleteDraft(draftId))) {
+      toast.error('下書きの削除に失敗しました');
+      return false;
+    }
+    await get().refreshDrafts();
+    toast.success(
+      `下書き "${draft?.fileName || draftId}" をゴミ箱に移動しました`,
+      {
+        action: {
+          label: '元に戻す',
+          onClick: () => get().restoreDraft(draftId),
+        },
+      }
+    );
+    return true;
+  },
+
+  restoreDraft: async (draftId) => {
+    if (!(await storageService.restoreDraft(draftId))) {
+      toast.error('下書きを復元できませんでした');
+      return false;
+    }
+    await get().refreshDrafts();
+    toast.success('下書きを復元しました');
+    return true;
+  },
+
+  deleteDraftPermanently: async (draftId) => {
+    if (!(await storageService.permanentlyDeleteDraft(draftId))) {
+      toast.error('下書きの削除に失敗しました');
+      return false;
+    }
+    await get().refreshDrafts();
+    return true;
+  },
+
+  emptyTrash: async () => {
+    const count = await storageService.emptyTrash();
+    await get().refreshDrafts();
+    if (get().trashedDrafts.length > 0) {
+      toast.error('一部の下書きを削除できませんでした');
+    } else {
+      toast.success(`ゴミ箱を空にしました (${count} 件)`);
+    }
+  },
+
+  purgeExpiredTrash: async () => {
+    if ((await storageService.purgeExpiredTrash()) > 0) {
+      await get().refreshDrafts();
+    }
+  },
+
+  setTrashRetentionDays: async (days) => {
+    if (!(await storageService.setTrashRetentionDays(days))) {
+      toast.error('保持期間の変更に失敗しました');
+      return false;
+    }
+    set({ trashRetentionDays: days });
+    await get().purgeExpiredTrash(); // Apply the new period right away
+    return true;
+  },
+}));
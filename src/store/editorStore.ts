@@ -1,8 +1,35 @@
 import { create } from 'zustand';
-import type { HeadingItem, SelectionRange, Draft } from '@/types/editor'; // Import types
+import type {
+  AutosaveSettings,
+  AutosaveStatus,
+  HeadingItem,
+  KeybindingMode,
+  LintSettings,
+  SelectionRange,
+  Draft,
+  DraftConflict,
+  DraftSnapshot,
+  OpenDocument,
+  RecoveryCandidate,
+  ShortcutOverrides,
+} from '@/types/editor'; // Import types
 import { EditorView, ViewPlugin } from '@codemirror/view';
-import { StateEffect } from '@codemirror/state';
-import { storageService } from '@/lib/storageService'; // Import storage service
+import { forceLinting } from '@codemirror/lint';
+import {
+  StateEffect,
+  type EditorState as CodeMirrorState,
+} from '@codemirror/state';
+import {
+  storageService,
+  DEFAULT_AUTOSAVE_SETTINGS,
+  DEFAULT_LINT_SETTINGS,
+} from '@/lib/storageService'; // Import storage service
+import { historyService } from '@/lib/historyService'; // Import version history service
+import { describeStorageError } from '@/lib/storageErrors';
+import { fileSystemService } from '@/lib/fileSystemService';
+import { imageStore } from '@/lib/imageStore';
+import { getRecoveryId, recoveryJournal } from '@/lib/recoveryJournal';
+import { useUIStore } from '@/store/uiStore';
 // Import commands from the dedicated file
 import {
   toggleBulletListCommand,
@@ -11,7 +38,20 @@ import {
   toggleCodeBlockCommand,
   toggleSurroundingCharacters,
   insertLinkCommand,
+  replaceDocumentCommand,
+  insertTableCommand,
+  addTableRowCommand,
+  deleteTableRowCommand,
+  addTableColumnCommand,
+  deleteTableColumnCommand,
+  moveTableColumnCommand,
+  setTableAlignmentCommand,
+  formatTableCommand,
+  setHeadingLevelCommand,
+  shiftHeadingLevelCommand,
+  moveSectionCommand,
 } from '@/lib/cmCommands';
+import type { TableAlignment } from '@/lib/markdownTable';
 import { toast } from 'sonner'; // Import toast for notifications
 
 // Define the shape of the editor state and its actions
@@ -21,6 +61,8 @@ interface EditorState {
   currentFileName: string;
   currentDraftId: string | null; // ID of the draft currently loaded/saved
   isSaved: boolean; // Whether the current content matches the saved version
+  fileHandle: FileSystemFileHandle | null; // File on disk linked to the draft (File System Access API)
+  isFileSaved: boolean; // Whether the linked file on disk has the current content
 
   // Selection and derived info
   selectedText: string;
@@ -35,6 +77,34 @@ interface EditorState {
   // State for external scroll control (used by scroll sync)
   scrollToPercent: number | null;
 
+  // Selection waiting for the editor view to receive the current markdown
+  pendingSelection: SelectionRange | null;
+
+  // Multi-tab conflict tracking
+  baseContent: string; // Stored content the current text derives from (common base for merges)
+  conflict: DraftConflict | null; // Newer version saved by another tab while there were local edits
+
+  // Open documents (editor tabs). The active tab's document lives in the fields
+  // above; its entry in `tabs` is only brought up to date when it is deactivated.
+  tabs: OpenDocument[];
+  activeTabId: string;
+
+  // Autosave
+  autosaveStatus: AutosaveStatus; // Reported by useAutosave for the status bar
+  autosaveSettings: AutosaveSettings; // When autosave runs (loaded from storage)
+
+  // Markdown lint
+  lintSettings: LintSettings; // Enabled lint rules (loaded from storage)
+  lintProblemCount: number; // Problems reported by the linter for the active document
+
+  // Keybindings
+  keybindingMode: KeybindingMode; // Default, Vim or Emacs keybindings (loaded from storage)
+  keybindingStatus: string | null; // Mode shown in the status bar (e.g. "NORMAL" in Vim)
+  shortcutOverrides: ShortcutOverrides; // Keyboard shortcuts rebound by the user (loaded from storage)
+
+  // Crash recovery
+  recoveryCandidates: RecoveryCandidate[] | null; // Unsaved text left by the previous session (null until checked)
+
   // --- Actions ---
   setView: (view: EditorView | null) => void; // Set/clear the CodeMirror view instance
   runCommand: (command: (view: EditorView) => boolean, focus?: boolean) => void; // Execute a CodeMirror command
@@ -42,17 +112,58 @@ interface EditorState {
   setHeadings: (headings: HeadingItem[]) => void; // Update the extracted headings list
   updateSelection: (text: string, range: SelectionRange) => void; // Update selection info
   setIsSaved: (saved: boolean) => void; // Manually set the saved status
+  markSaved: (
+    tabId: string,
+    draftId: string,
+    content: string,
+    fileName?: string
+  ) => void; // Record that a tab's content was written to storage (e.g. by autosave); fileName names an untitled document
+  setAutosaveStatus: (status: AutosaveStatus) => void; // Publish the autosave status
+  loadAutosaveSettings: () => Promise<void>; // Read the autosave policy from storage
+  updateAutosaveSettings: (settings: AutosaveSettings) => Promise<boolean>; // Change and persist the autosave policy
+  loadLintSettings: () => Promise<void>; // Read the enabled lint rules from storage
+  updateLintSettings: (settings: LintSettings) => Promise<boolean>; // Change and persist the enabled lint rules, then lint again
+  setLintProblemCount: (count: number) => void; // Publish the number of lint problems
+  loadKeybindingMode: () => Promise<void>; // Read the keybinding mode from storage
+  setKeybindingMode: (mode: KeybindingMode) => Promise<boolean>; // Change and persist the keybinding mode
+  setKeybindingStatus: (status: string | null) => void; // Publish the mode of the keybindings (e.g. Vim's)
+  loadShortcutOverrides: () => Promise<void>; // Read the rebound keyboard shortcuts from storage
+  updateShortcutOverrides: (overrides: ShortcutOverrides) => Promise<boolean>; // Change and persist the rebound keyboard shortcuts
   setCurrentFile: (draft: Draft | null) => void; // Load a draft or reset for a new file
   setScrollToPercent: (percent: number | null) => void; // Action used by scroll sync
 
+  // --- Tab Actions ---
+  openTab: (draft: Draft | null) => void; // Open a draft (or a new untitled document) in a new tab
+  switchTab: (tabId: string) => void; // Make another open tab the active one
+  closeTab: (tabId: string) => void; // Close a tab, discarding its unsaved changes
+  saveEditorState: (
+    tabId: string,
+    editorState: CodeMirrorState,
+    scrollTop: number
+  ) => void; // Keep a tab's CodeMirror state while another tab is shown
+
   // --- File Actions ---
-  saveCurrentDraft: () => Promise<boolean>; // Save the current content as a draft
+  saveCurrentDraft: (checkpointLabel?: string) => Promise<boolean>; // Save the current content as a draft (and a history checkpoint)
   createNewFile: () => void; // Reset editor state for a new file
-  loadDraft: (id: string) => void; // Load a specific draft by ID
-  loadLastOpenedDraft: () => void; // Load the last opened/saved draft on startup
+  loadDraft: (id: string) => Promise<void>; // Load a specific draft by ID
+  loadLastOpenedDraft: () => Promise<void>; // Load the last opened/saved draft on startup
+  restoreSnapshot: (snapshot: DraftSnapshot) => void; // Replace content with a history snapshot (undoable)
+  saveAsCopy: (fileName: string) => Promise<boolean>; // Save the current content as a new draft and switch to it
+  applyDraftRename: (draftId: string, fileName: string) => void; // Show the new name if the renamed draft is open
+  openFile: () => Promise<void>; // Open a Markdown file from disk as a draft
+  saveToFile: (saveAs?: boolean) => Promise<boolean>; // Write to the linked file (or a newly chosen one)
+  handleExternalSave: (draftId: string) => Promise<void>; // React to another tab saving a draft
+  resolveConflict: (resolution: 'theirs' | 'mine') => Promise<void>; // Take the other tab's version or overwrite it
+  applyMergedContent: (content: string) => Promise<boolean>; // Resolve a conflict with merged text and save it
+  notifySaveFailure: (title: string) => void; // Explain why the last save failed (offers cleanup when storage is full)
+  checkRecovery: () => Promise<void>; // Look for unsaved text left by a crashed or closed session
+  recoverUnsavedChanges: (candidate: RecoveryCandidate) => Promise<void>; // Open the recovered text as unsaved changes
+  discardRecovery: (candidate: RecoveryCandidate) => Promise<void>; // Delete a recovery entry without restoring it
 
   // --- Scroll Action ---
   scrollToPosition: (pos: number, yAlign?: 'start' | 'center' | 'end') => void; // Scroll editor to a specific position
+  selectRange: (from: number, to: number) => void; // Select a range and scroll it into view
+  applyPendingSelection: () => void; // Apply a deferred selection once the view shows the current markdown
 
   // --- Formatting Actions ---
   toggleBoldSelection: () => void;
@@ -60,8 +171,25 @@ interface EditorState {
   toggleCodeSelection: () => void;
   insertLink: () => void;
   toggleBulletList: () => void;
+  toggleOrderedList: () => void;
   toggleQuote: () => void;
   toggleCodeBlock: () => void;
+
+  // --- Heading Actions ---
+  setHeadingLevel: (level: number) => void; // Turn the selected lines into headings of a level (0 = paragraph)
+  promoteHeading: (withSubsections?: boolean) => void; // Raise the heading level (## → #)
+  demoteHeading: (withSubsections?: boolean) => void; // Lower the heading level (# → ##)
+  moveSection: (direction: -1 | 1) => void; // Move the section at the cursor past its previous (-1) or next (1) sibling
+
+  // --- Table Actions ---
+  insertTable: (rows: number, columns: number) => void; // Insert an empty table with the given number of body rows and columns
+  addTableRow: () => void;
+  deleteTableRow: () => void;
+  addTableColumn: () => void;
+  deleteTableColumn: () => void;
+  moveTableColumn: (direction: -1 | 1) => void; // Swap the current column with its left (-1) or right (1) neighbour
+  setTableAlignment: (alignment: TableAlignment) => void;
+  formatTable: () => void; // Line up the columns of the table at the cursor
 }
 
 // Helper function to calculate word and character counts
@@ -76,6 +204,95 @@ const calculateCounts = (
   };
 };
 
+// Content of a new untitled document
+const NEW_DOCUMENT_MARKDOWN = '# 新しいドキュメント\n\n';
+
+const createTabId = (): string =>
+  `tab_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Creates the tab record of a freshly loaded draft or a new untitled document.
+ * @param draft - The draft to show, or null for a new untitled document.
+ */
+const createDocument = (draft: Draft | null): OpenDocument => {
+  const content = draft ? draft.content : NEW_DOCUMENT_MARKDOWN;
+  return {
+    id: createTabId(),
+    draftId: draft?.id ?? null,
+    fileName: draft
+      ? draft.fileName || `無題 (${draft.id.substring(0, 6)})`
+      : '',
+    markdown: content,
+    isSaved: true,
+    baseContent: content,
+    fileHandle: null,
+    isFileSaved: true,
+    conflict: null,
+    editorState: null,
+    scrollTop: 0,
+  };
+};
+
+/**
+ * Store fields that show a document as the active one.
+ * @param doc - The document to show.
+ */
+const documentFields = (doc: OpenDocument) => ({
+  markdown: doc.markdown,
+  currentFileName: doc.fileName,
+  currentDraftId: doc.draftId,
+  isSaved: doc.isSaved,
+  baseContent: doc.baseContent,
+  conflict: doc.conflict,
+  fileHandle: doc.fileHandle,
+  isFileSaved: doc.isFileSaved,
+  selectedText: '',
+  selectionRange: { from: 0, to: 0 },
+  ...calculateCounts(doc.markdown),
+  headings: [], // Headings will be recalculated by PreviewPane
+});
+
+/**
+ * The tab list with the active tab's entry brought up to date from the store fields.
+ * @param state - The current store state.
+ */
+const syncActiveTab = (state: EditorState): OpenDocument[] =>
+  state.tabs.map((tab) =>
+    tab.id === state.activeTabId
+      ? {
+          ...tab,
+          draftId: state.currentDraftId,
+          fileName: state.currentFileName,
+          markdown: state.markdown,
+          isSaved: state.isSaved,
+          baseContent: state.baseContent,
+          fileHandle: state.fileHandle,
+          isFileSaved: state.isFileSaved,
+          conflict: state.conflict,
+        }
+      : tab
+  );
+
+/**
+ * Name proposed for an untitled document when it is first saved.
+ * @param date - The time of the save.
+ */
+export const getUntitledFileName = (date: Date = new Date()): string =>
+  `無題_${date.toLocaleDateString()}.md`;
+
+/**
+ * Remembers which draft is open so it is reopened on the next start.
+ * @param draftId - The draft of the active tab (null for an untitled document).
+ */
+const rememberCurrentDraft = (draftId: string | null): void => {
+  void (draftId
+    ? storageService.setCurrentDraftId(draftId)
+    : storageService.clearCurrentDraftId());
+};
+
+// Tab shown when the editor starts (filled by loadLastOpenedDraft)
+const initialTab = createDocument(null);
+
 // Create the Zustand store
 export const useEditorStore = create<EditorState>((set, get) => ({
   // --- Initial State ---
@@ -83,6 +300,8 @@ export const useEditorStore = create<EditorState>((set, get) => ({
   currentFileName: '',
   currentDraftId: null,
   isSaved: true,
+  fileHandle: null,
+  isFileSaved: true,
   selectedText: '',
   selectionRange: { from: 0, to: 0 },
   headings: [],
@@ -90,9 +309,25 @@ export const useEditorStore = create<EditorState>((set, get) => ({
   wordCount: 0, // Will be calculated after initial load
   charCount: 0, // Will be calculated after initial load
   scrollToPercent: null,
+  pendingSelection: null,
+  baseContent: '',
+  conflict: null,
+  tabs: [initialTab],
+  activeTabId: initialTab.id,
+  autosaveStatus: { state: 'idle' },
+  autosaveSettings: DEFAULT_AUTOSAVE_SETTINGS,
+  lintSettings: DEFAULT_LINT_SETTINGS,
+  lintProblemCount: 0,
+  keybindingMode: 'default',
+  keybindingStatus: null,
+  shortcutOverrides: {},
+  recoveryCandidates: null,
 
   // --- Actions Implementation ---
-  setView: (view) => set({ view }),
+  setView: (view) => {
+    set({ view });
+    get().applyPendingSelection(); // A newly mounted view may have a selection waiting
+  },
 
   runCommand: (command, focus = true) => {
     const view = get().view;
@@ -106,7 +341,13 @@ export const useEditorStore = create<EditorState>((set, get) => ({
 
   setMarkdown: (value) => {
     const { wordCount, charCount } = calculateCounts(value);
-    set({ markdown: value, isSaved: false, wordCount, charCount }); // Update state, mark as unsaved
+    set({
+      markdown: value,
+      isSaved: false,
+      isFileSaved: false,
+      wordCount,
+      charCount,
+    }); // Update state, mark as unsaved
   },
 
   setHeadings: (headings) => set({ headings }),
@@ -116,61 +357,186 @@ export const useEditorStore = create<EditorState>((set, get) => ({
 
   setIsSaved: (saved) => set({ isSaved: saved }),
 
-  setCurrentFile: (draft) => {
-    if (draft) {
-      // Loading an existing draft
-      const { wordCount, charCount } = calculateCounts(draft.content);
+  markSaved: (tabId, draftId, content, fileName) => {
+    const state = get();
+    if (tabId !== state.activeTabId) {
+      // Saved while flushing a tab that is no longer shown
       set({
-        markdown: draft.content,
-        currentFileName: draft.fileName || `無題 (${draft.id.substring(0, 6)})`,
-        currentDraftId: draft.id,
-        isSaved: true, // Assume loaded content is "saved" initially
-        selectedText: '',
-        selectionRange: { from: 0, to: 0 },
-        wordCount,
-        charCount,
-        headings: [], // Headings will be recalculated by PreviewPane
+        tabs: state.tabs.map((t) =>
+          t.id === tabId
+            ? {
+                ...t,
+                draftId,
+                fileName: t.fileName || fileName || '',
+                baseContent: content,
+                isSaved: t.markdown === content,
+              }
+            : t
+        ),
       });
-      storageService.setCurrentDraftId(draft.id); // Update the last opened ID in storage
-    } else {
-      // Resetting for a new file
-      const initialMarkdown = '# 新しいドキュメント\n\n';
-      const { wordCount, charCount } = calculateCounts(initialMarkdown);
-      set({
-        markdown: initialMarkdown,
-        currentFileName: '', // No filename initially
-        currentDraftId: null,
-        isSaved: true,
-        selectedText: '',
-        selectionRange: { from: 0, to: 0 },
-        wordCount,
-        charCount,
-        headings: [],
+      return;
+    }
+    if (state.currentDraftId !== draftId) {
+      // An untitled document got its draft ID from this save
+      set({ currentDraftId: draftId });
+      rememberCurrentDraft(draftId);
+    }
+    if (!state.currentFileName && fileName) {
+      set({ currentFileName: fileName });
+    }
+    // Text typed while the save was running is still unsaved
+    set({ isSaved: state.markdown === content, baseContent: content });
+  },
+
+  setAutosaveStatus: (status) => set({ autosaveStatus: status }),
+
+  loadAutosaveSettings: async () => {
+    set({ autosaveSettings: await storageService.getAutosaveSettings() });
+  },
+
+  updateAutosaveSettings: async (settings) => {
+    if (!(await storageService.setAutosaveSettings(settings))) {
+      toast.error('自動保存の設定を保存できませんでした');
+      return false;
+    }
+    set({ autosaveSettings: settings });
+    return true;
+  },
+
+  loadLintSettings: async () => {
+    set({ lintSettings: await storageService.getLintSettings() });
+  },
+
+  updateLintSettings: async (settings) => {
+    if (!(await storageService.setLintSettings(settings))) {
+      toast.error('チェック項目の設定を保存できませんでした');
+      return false;
+    }
+    set({ lintSettings: settings });
+    const view = get().view;
+    if (view) forceLinting(view); // The linter reads the settings on every check
+    return true;
+  },
+
+  setLintProblemCount: (count) => set({ lintProblemCount: count }),
+
+  loadKeybindingMode: async () => {
+    set({ keybindingMode: await storageService.getKeybindingMode() });
+  },
+
+  setKeybindingMode: async (mode) => {
+    set({ keybindingMode: mode }); // The editor swaps its keymaps when this changes
+    if (!(await storageService.setKeybindingMode(mode))) {
+      toast.error('キー操作の設定を保存できませんでした');
+      return false;
+    }
+    return true;
+  },
+
+  setKeybindingStatus: (status) => set({ keybindingStatus: status }),
+
+  loadShortcutOverrides: async () => {
+    set({ shortcutOverrides: await storageService.getShortcutOverrides() });
+  },
+
+  updateShortcutOverrides: async (overrides) => {
+    const saved = await storageService.setShortcutOverrides(overrides);
+    if (!saved) {
+      toast.error('ショートカットの設定を保存できませんでした');
+      return false;
+    }
+    set({ shortcutOverrides: saved }); // Normalized as stored; the editor swaps its keymaps when this changes
+    return true;
+  },
+
+  setCurrentFile: (draft) => {
+    set(documentFields(createDocument(draft))); // Replaces the document of the active tab
+    rememberCurrentDraft(draft?.id ?? null); // Update the last opened ID in storage
+    if (draft && fileSystemService.isSupported()) {
+      // Restore the link to the file on disk the draft came from, if any
+      void fileSystemService.getRememberedHandle(draft.id).then((handle) => {
+        if (handle && get().currentDraftId === draft.id) {
+          set({ fileHandle: handle });
+        }
       });
-      storageService.clearCurrentDraftId(); // Clear the last opened ID
     }
   },
 
   setScrollToPercent: (percent) => set({ scrollToPercent: percent }),
 
+  // --- Tab Actions Implementation ---
+  openTab: (draft) => {
+    const state = get();
+    const doc = createDocument(draft);
+    // Reuse an untouched untitled tab instead of piling up empty ones
+    const replaceActive = !!draft && !state.currentDraftId && state.isSaved;
+    set({
+      tabs: replaceActive
+        ? state.tabs.map((t) => (t.id === state.activeTabId ? doc : t))
+        : [...syncActiveTab(state), doc],
+      activeTabId: doc.id,
+      ...documentFields(doc),
+    });
+    get().setCurrentFile(draft); // Remembers the draft and restores its file link
+  },
+
+  switchTab: (tabId) => {
+    const state = get();
+    const target = state.tabs.find((t) => t.id === tabId);
+    if (!target || tabId === state.activeTabId) return;
+    set({
+      tabs: syncActiveTab(state),
+      activeTabId: tabId,
+      ...documentFields(target),
+    });
+    rememberCurrentDraft(target.draftId);
+  },
+
+  closeTab: (tabId) => {
+    const state = get();
+    const index = state.tabs.findIndex((t) => t.id === tabId);
+    if (index === -1) return;
+    const closed = state.tabs[index];
+    const isActive = tabId === state.activeTabId;
+    const tabs = state.tabs.filter((t) => t.id !== tabId);
+    if (!isActive) {
+      set({ tabs });
+      // Its unsaved text is discarded, so it no longer needs crash recovery
+      // (useRecoveryJournal takes care of the active tab)
+      void recoveryJournal.remove(getRecoveryId(closed.draftId, tabId));
+      return;
+    }
+    // Show the neighbouring tab, or a new untitled document when none is left
+    const next = tabs[Math.min(index, tabs.length - 1)] ?? createDocument(null);
+    set({
+      tabs: tabs.length > 0 ? tabs : [next],
+      activeTabId: next.id,
+      ...documentFields(next),
+    });
+    rememberCurrentDraft(next.draftId);
+  },
+
+  saveEditorState: (tabId, editorState, scrollTop) =>
+    set((state) => ({
+      tabs: state.tabs.map((t) =>
+        t.id === tabId ? { ...t, editorState, scrollTop } : t
+      ),
+    })),
+
   // --- File Actions Implementation ---
-  saveCurrentDraft: async () => {
-    const {
-      markdown,
-      currentFileName,
-      currentDraftId,
-      setIsSaved,
-      setCurrentFile,
-    } = get();
+  saveCurrentDraft: async (checkpointLabel) => {
+    const { markdown, currentFileName, currentDraftId, activeTabId } = get();
     let fileNameToSave = currentFileName;
 
     // Prompt for filename if it's missing
     if (!fileNameToSave) {
-      const defaultName = `無題_${new Date().toLocaleDateString()}.md`;
-      const name = window.prompt('ファイル名を入力してください:', defaultName);
+      const name = window.prompt(
+        'ファイル名を入力してください:',
+        getUntitledFileName()
+      );
       if (name) {
         fileNameToSave = name;
-        // No need to set filename here, setCurrentFile will do it after save
+        // No need to set filename here, markSaved will do it after save
       } else {
         toast.warning(
           'ファイル名が入力されなかったため、保存をキャンセルしました'
@@ -181,69 +547,230 @@ export const useEditorStore = create<EditorState>((set, get) => ({
 
     try {
       // Call storage service to save
-      const savedId = storageService.saveDraft(
+      const savedId = await storageService.saveDraft(
         markdown,
         fileNameToSave,
         currentDraftId || undefined
       );
-      if (savedId) {
-        // Reload the saved draft into the store to ensure consistency
-        const savedDraft = storageService.loadDraft(savedId);
-        if (savedDraft) {
-          setCurrentFile(savedDraft); // This updates state including isSaved=true
-          toast.success(`下書き "${fileNameToSave}" を保存しました`);
-          return true; // Indicate success
-        }
+      if (!savedId) {
+        throw new Error('Failed to get saved draft ID.');
       }
-      // Throw error if save ID or re-load fails
-      throw new Error(
-        'Failed to get saved draft ID or load draft after saving.'
+      // Keep the manually saved content as a checkpoint in the version history
+      await historyService.recordSnapshot(
+        savedId,
+        markdown,
+        'manual',
+        checkpointLabel ?? null
       );
+      // Text typed while saving stays unsaved; the file link and conflict are kept
+      get().markSaved(activeTabId, savedId, markdown, fileNameToSave);
+      toast.success(`下書き "${fileNameToSave}" を保存しました`);
+      return true; // Indicate success
     } catch (error) {
       console.error('[editorStore] Save draft error:', error);
-      toast.error('下書きの保存に失敗しました');
+      get().notifySaveFailure('下書きの保存に失敗しました');
       return false; // Indicate failure
     }
   },
 
+  notifySaveFailure: (title) => {
+    const kind = storageService.getLastSaveError();
+    if (kind === 'quota') {
+      // Storage is full: offer the cleanup dialog, which can retry the save
+      toast.error(title, {
+        description: describeStorageError(kind),
+        action: {
+          label: '容量を整理',
+          onClick: () => useUIStore.getState().openStorageManager(true),
+        },
+      });
+      return;
+    }
+    toast.error(
+      title,
+      kind ? { description: describeStorageError(kind) } : undefined
+    );
+  },
+
   createNewFile: () => {
-    const { setCurrentFile } = get(); // Get only the action to reset state
-    // 常に確認ダイアログを表示
-    if (
-      !window.confirm(
-        '編集中の内容は破棄されます。新しいファイルを作成しますか？'
-      )
-    ) {
-      return; // User cancelled
-    }
-    setCurrentFile(null); // Reset state for a new file
-    // Clearing chat history should be handled by aiStore or component if needed
-    // useAIStore.getState().clearChatHistory();
+    get().openTab(null); // Open an untitled document next to the current ones
     toast.info('新規ファイルを作成しました');
   },
 
-  loadDraft: (id: string) => {
-    const { isSaved, setCurrentFile } = get();
-    // Check for unsaved changes before loading
-    if (!isSaved) {
+  loadDraft: async (id: string) => {
+    const { currentDraftId, isSaved, tabs, activeTabId, switchTab } = get();
+    // A draft already open in another tab is just brought to the front
+    const openTab = tabs.find((t) => t.id !== activeTabId && t.draftId === id);
+    if (openTab) {
+      switchTab(openTab.id);
+      return;
+    }
+    const isReload = id === currentDraftId;
+    // Reloading the open draft replaces its text: check for unsaved changes first
+    if (isReload && !isSaved) {
       if (
         !window.confirm('編集中の内容は破棄されます。下書きを読み込みますか？')
       ) {
         return;
       }
     }
-    const draft = storageService.loadDraft(id); // Load from storage
+    const draft = await storageService.loadDraft(id); // Load from storage
     if (draft) {
-      setCurrentFile(draft); // Update store state
+      if (isReload) {
+        get().setCurrentFile(draft);
+      } else {
+        get().openTab(draft); // Open in a new tab
+      }
       toast.info(`下書き "${draft.fileName || draft.id}" を読み込みました`);
     } else {
       toast.error('下書きの読み込みに失敗しました');
     }
   },
 
-  loadLastOpenedDraft: () => {
+  saveAsCopy: async (fileName) => {
+    const { markdown, currentDraftId, activeTabId, notifySaveFailure } = get();
+    const name = fileName.trim();
+    if (!name) return false;
+    // Copy the open draft (keeping its folder and tags) with the current text,
+    // or save an untitled document as a new draft
+    const copyId = currentDraftId
+      ? (await storageService.duplicateDraft(currentDraftId, name, markdown))
+          ?.id
+      : await storageService.saveDraft(markdown, name);
+    if (!copyId) {
+      notifySaveFailure('コピーの保存に失敗しました');
+      return false;
+    }
+    await historyService.recordSnapshot(copyId, markdown, 'manual', null);
+    get().markSaved(activeTabId, copyId, markdown);
+    get().applyDraftRename(copyId, name);
+    // The copy is a new draft, not linked to the original's file on disk
+    set((state) =>
+      state.activeTabId === activeTabId
+        ? { fileHandle: null, isFileSaved: true }
+        : {
+            tabs: state.tabs.map((t) =>
+              t.id === activeTabId
+                ? { ...t, fileHandle: null, isFileSaved: true }
+                : t
+            ),
+          }
+    );
+    toast.success(`コピー "${name}" を保存しました`);
+    return true;
+  },
+
+  applyDraftRename: (draftId, fileName) => {
+    set((state) => ({
+      tabs: state.tabs.map((t) =>
+        t.draftId === draftId ? { ...t, fileName } : t
+      ),
+    }));
+    if (get().currentDraftId === draftId) {
+      set({ currentFileName: fileName });
+    }
+  },
+
+  openFile: async () => {
+    const { openTab, notifySaveFailure } = get();
+    try {
+      const opened = await fileSystemService.openFile();
+      if (!opened) return; // Cancelled
+      // Keep the file as a draft so autosave and history work as usual
+      const savedId = await storageService.saveDraft(
+        opened.content,
+        opened.name
+      );
+      const draft = savedId ? await storageService.loadDraft(savedId) : null;
+      if (!draft) {
+        notifySaveFailure('ファイルを下書きとして保存できませんでした');
+        return;
+      }
+      if (opened.handle) {
+        await fileSystemService.rememberHandle(draft.id, opened.handle);
+      }
+      openTab(draft);
+      set({ fileHandle: opened.handle });
+      toast.info(`ファイル "${opened.name}" を開きました`);
+    } catch (error) {
+      console.error('[editorStore] Open file error:', error);
+      toast.error('ファイルを開けませんでした');
+    }
+  },
+
+  saveToFile: async (saveAs = false) => {
+    const {
+      markdown,
+      currentFileName,
+      currentDraftId,
+      fileHandle,
+      activeTabId,
+    } = get();
+    const baseName = currentFileName.replace(/\.(md|markdown|txt)$/i, '');
+    const suggestedName = `${baseName || '無題'}.md`;
+    try {
+      // The file has to stand on its own, so stored images are embedded
+      const saved = await fileSystemService.saveFile(
+        await imageStore.inlineImages(markdown),
+        saveAs ? null : fileHandle,
+        suggestedName
+      );
+      if (!saved) return false; // Cancelled
+
+      // Keep the draft in sync with what was written
+      const draftName = saved.handle
+        ? saved.name
+        : currentFileName || saved.name;
+      const savedId = await storageService.saveDraft(
+        markdown,
+        draftName,
+        currentDraftId || undefined
+      );
+      if (savedId) {
+        if (saved.handle) {
+          await fileSystemService.rememberHandle(savedId, saved.handle);
+        }
+        get().markSaved(activeTabId, savedId, markdown);
+        get().applyDraftRename(savedId, draftName);
+      } else {
+        get().notifySaveFailure('下書きの保存に失敗しました');
+      }
+      // Text typed while writing the file is not on disk yet
+      const linkedHandle = saved.handle ?? fileHandle;
+      set((state) =>
+        state.activeTabId === activeTabId
+          ? {
+              fileHandle: linkedHandle,
+              isFileSaved: state.markdown === markdown,
+            }
+          : {
+              tabs: state.tabs.map((t) =>
+                t.id === activeTabId
+                  ? {
+                      ...t,
+                      fileHandle: linkedHandle,
+                      isFileSaved: t.markdown === markdown,
+                    }
+                  : t
+              ),
+            }
+      );
+      toast.success(
+        saved.handle
+          ? `ファイル "${saved.name}" に保存しました`
+          : `ファイル "${saved.name}" をダウンロードしました`
+      );
+      return true;
+    } catch (error) {
+      console.error('[editorStore] Save file error:', error);
+      toast.error('ファイルに保存できませんでした');
+      return false;
+    }
+  },
+
+  loadLastOpenedDraft: async () => {
     const { setCurrentFile } = get();
-    const lastDraft = storageService.loadLastDraft(); // Get last draft from storage
+    const lastDraft = await storageService.loadLastDraft(); // Get last draft from storage
     if (lastDraft) {
       setCurrentFile(lastDraft); // Load it into the store
       console.info('[editorStore] Loaded last opened draft:', lastDraft.id);
@@ -256,6 +783,168 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     }
   },
 
+  restoreSnapshot: (snapshot) => {
+    const { view, runCommand, setMarkdown } = get();
+    if (view) {
+      // Dispatch through CodeMirror so the restore lands in the undo history
+      runCommand(replaceDocumentCommand(snapshot.content));
+    } else {
+      setMarkdown(snapshot.content); // Fallback when the editor is not mounted (preview mode)
+    }
+    toast.success(
+      `${new Date(snapshot.updatedAt).toLocaleString()} の版を復元しました`
+    );
+  },
+
+  handleExternalSave: async (draftId) => {
+    const { currentDraftId, markdown, isSaved, baseContent, conflict } = get();
+    if (draftId !== currentDraftId) {
+      // The draft may be open in a background tab: apply the same rules to it
+      if (!get().tabs.some((t) => t.draftId === draftId)) return;
+      const saved = await storageService.getDraft(draftId);
+      if (!saved || saved.deletedAt) return;
+      set((state) => ({
+        tabs: state.tabs.map((t) => {
+          if (t.draftId !== draftId || t.id === state.activeTabId) return t;
+          const fileName = saved.fileName || t.fileName;
+          if (saved.content === t.markdown) {
+            return {
+              ...t,
+              fileName,
+              baseContent: saved.content,
+              isSaved: true,
+              conflict: null,
+            };
+          }
+          if (!t.conflict && saved.content === t.baseContent) {
+            return { ...t, fileName };
+          }
+          if (!t.conflict && (t.isSaved || t.markdown === t.baseContent)) {
+            return {
+              ...t,
+              fileName,
+              markdown: saved.content,
+              baseContent: saved.content,
+              isSaved: true,
+            };
+          }
+          return {
+            ...t,
+            fileName,
+            conflict: {
+              draftId,
+              base: t.conflict?.base ?? t.baseContent,
+              theirs: saved,
+            },
+          };
+        }),
+      }));
+      return;
+    }
+    const theirs = await storageService.getDraft(draftId); // Read only: keep the last-opened pointer
+    if (!theirs || theirs.deletedAt || get().currentDraftId !== draftId) return;
+    if (theirs.fileName) {
+      get().applyDraftRename(draftId, theirs.fileName); // The other tab may have renamed it
+    }
+
+    if (theirs.content === get().markdown) {
+      // Both tabs ended up with the same text: nothing to resolve
+      set({ baseContent: theirs.content, isSaved: true, conflict: null });
+      return;
+    }
+    if (!conflict && theirs.content === baseContent) return; // Not actually newer
+    if (!conflict && (isSaved || markdown === baseContent)) {
+      // No local edits: just follow the other tab
+      get().setCurrentFile(theirs);
+      toast.info('別のタブで保存された内容を読み込みました');
+      return;
+    }
+    // Keep the original common base if the other tab saves again
+    set({
+      conflict: { draftId, base: conflict?.base ?? baseContent, theirs },
+    });
+  },
+
+  resolveConflict: async (resolution) => {
+    const { conflict, markdown, setCurrentFile, saveCurrentDraft } = get();
+    if (!conflict) return;
+    if (resolution === 'theirs') {
+      // Keep the discarded local text in the history before replacing it
+      await historyService.recordSnapshot(
+        conflict.draftId,
+        markdown,
+        'manual',
+        '競合で破棄した変更'
+      );
+      setCurrentFile(conflict.theirs);
+      toast.info('別のタブの変更を採用しました');
+      return;
+    }
+    // Keep mine: overwrite the other tab's version with the local text
+    set({ conflict: null, baseContent: conflict.theirs.content });
+    await saveCurrentDraft();
+  },
+
+  applyMergedContent: async (content) => {
+    const { conflict, view, runCommand, setMarkdown, saveCurrentDraft } = get();
+    if (!conflict) return false;
+    set({ conflict: null, baseContent: conflict.theirs.content });
+    if (view) {
+      runCommand(replaceDocumentCommand(content)); // Undoable
+    } else {
+      setMarkdown(content);
+    }
+    return saveCurrentDraft();
+  },
+
+  checkRecovery: async () => {
+    const candidates = await recoveryJournal.findRecoverable();
+    set({ recoveryCandidates: candidates });
+    if (candidates.length > 0) {
+      console.info(
+        `[editorStore] Found ${candidates.length} recoverable document(s)`
+      );
+    }
+  },
+
+  recoverUnsavedChanges: async (candidate) => {
+    const { entry } = candidate;
+    // Show the draft the text belongs to, or open a new untitled tab
+    const draft =
+      entry.draftId && candidate.savedContent !== null
+        ? await storageService.loadDraft(entry.draftId)
+        : null;
+    const openTab = draft && get().tabs.find((t) => t.draftId === draft.id);
+    if (openTab) {
+      get().switchTab(openTab.id);
+    } else {
+      get().openTab(draft);
+    }
+    if (!draft) set({ currentFileName: entry.fileName });
+    get().setMarkdown(entry.content); // Unsaved until the user (or autosave) saves it
+
+    // The journal keeps recording under the document's current key
+    const { currentDraftId, activeTabId } = get();
+    if (entry.id !== getRecoveryId(currentDraftId, activeTabId)) {
+      await recoveryJournal.remove(entry.id);
+    }
+    set((state) => ({
+      recoveryCandidates: (state.recoveryCandidates ?? []).filter(
+        (c) => c.entry.id !== entry.id
+      ),
+    }));
+    toast.success('未保存の変更を復元しました');
+  },
+
+  discardRecovery: async (candidate) => {
+    await recoveryJournal.remove(candidate.entry.id);
+    set((state) => ({
+      recoveryCandidates: (state.recoveryCandidates ?? []).filter(
+        (c) => c.entry.id !== candidate.entry.id
+      ),
+    }));
+  },
+
   // --- Scroll Action Implementation ---
   scrollToPosition: (pos, yAlign = 'start') => {
     const view = get().view;
@@ -269,6 +958,28 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     }
   },
 
+  selectRange: (from, to) => {
+    // Defer until the editor has synced the store content (e.g. right after loadDraft)
+    set({ pendingSelection: { from, to } });
+    get().applyPendingSelection();
+  },
+
+  applyPendingSelection: () => {
+    const { view, markdown, pendingSelection } = get();
+    if (!view || !pendingSelection) return;
+    if (view.state.doc.toString() !== markdown) return; // Not synced yet
+    const max = view.state.doc.length;
+    view.dispatch({
+      selection: {
+        anchor: Math.min(pendingSelection.from, max),
+        head: Math.min(pendingSelection.to, max),
+      },
+      scrollIntoView: true,
+    });
+    view.focus();
+    set({ pendingSelection: null });
+  },
+
   // --- Format Actions Implementation ---
   // These call runCommand with the specific command functions from cmCommands
   toggleBoldSelection: () =>
@@ -278,11 +989,29 @@ export const useEditorStore = create<EditorState>((set, get) => ({
   toggleCodeSelection: () => get().runCommand(toggleSurroundingCharacters('`')),
   insertLink: () => get().runCommand(insertLinkCommand),
   toggleBulletList: () => get().runCommand(toggleBulletListCommand),
+  toggleOrderedList: () => get().runCommand(toggleOrderedListCommand),
   toggleQuote: () => get().runCommand(toggleQuoteCommand),
   toggleCodeBlock: () => get().runCommand(toggleCodeBlockCommand),
-}));
 
-// --- Initial Load ---
-// Trigger loading the last opened draft immediately after the store is created
-// This ensures the initial state reflects the last session if available.
-useEditorStore.getState().loadLastOpenedDraft();
+  // --- Heading Actions Implementation ---
+  setHeadingLevel: (level) => get().runCommand(setHeadingLevelCommand(level)),
+  promoteHeading: (withSubsections = false) =>
+    get().runCommand(shiftHeadingLevelCommand(-1, withSubsections)),
+  demoteHeading: (withSubsections = false) =>
+    get().runCommand(shiftHeadingLevelCommand(1, withSubsections)),
+  moveSection: (direction) => get().runCommand(moveSectionCommand(direction)),
+
+  // --- Table Actions Implementation ---
+  // Table commands do nothing when the cursor is not in a table
+  insertTable: (rows, columns) =>
+    get().runCommand(insertTableCommand(rows, columns)),
+  addTableRow: () => get().runCommand(addTableRowCommand),
+  deleteTableRow: () => get().runCommand(deleteTableRowCommand),
+  addTableColumn: () => get().runCommand(addTableColumnCommand),
+  deleteTableColumn: () => get().runCommand(deleteTableColumnCommand),
+  moveTableColumn: (direction) =>
+    get().runCommand(moveTableColumnCommand(direction)),
+  setTableAlignment: (alignment) =>
+    get().runCommand(setTableAlignmentCommand(alignment)),
+  formatTable: () => get().runCommand(formatTableCommand),
+}));
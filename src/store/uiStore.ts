@@ -5,6 +5,7 @@ import type { AISuggestion } from '@/types/ai';
 // Type definition for context menu context data
 interface ContextMenuContext {
   hasSelection: boolean;
+  inTable: boolean; // Cursor is inside a Markdown table
   // Add other contextual info if needed in the future
   // e.g., clickedElementType: 'text' | 'image' | 'link'
 }
@@ -36,8 +37,31 @@ interface UIState {
   searchOptions: {
     isRegex: boolean;
     caseSensitive: boolean;
+    wholeWord: boolean;
   };
 
+  // Version History Dialog State
+  isHistoryOpen: boolean; // Whether the draft history dialog is open
+
+  // Global Search Dialog State
+  isGlobalSearchOpen: boolean; // Whether the all-drafts search dialog is open
+
+  // Storage Manager Dialog State
+  isStorageManagerOpen: boolean; // Whether the storage usage/cleanup dialog is open
+  storageRetryPending: boolean; // Opened after a failed save that can be retried
+
+  // Trash Dialog State
+  isTrashOpen: boolean; // Whether the trash dialog is open
+
+  // Encryption Settings Dialog State
+  isEncryptionSettingsOpen: boolean; // Whether the passphrase encryption settings are open
+
+  // Autosave Settings Dialog State
+  isAutosaveSettingsOpen: boolean; // Whether the autosave policy settings are open
+
+  // Shortcut Settings Dialog State
+  isShortcutSettingsOpen: boolean; // Whether the keyboard shortcut settings are open
+
   // --- Actions ---
   setActiveTab: (tab: EditorTab) => void;
   setChatOpen: (isOpen: boolean) => void;
@@ -60,6 +84,34 @@ interface UIState {
   setSearchTerm: (term: string) => void;
   setReplaceTerm: (term: string) => void;
   setSearchOptions: (options: Partial<UIState['searchOptions']>) => void;
+
+  // Actions for Version History
+  openHistoryDialog: () => void;
+  closeHistoryDialog: () => void;
+
+  // Actions for Global Search
+  openGlobalSearchDialog: () => void;
+  closeGlobalSearchDialog: () => void;
+
+  // Actions for Storage Manager
+  openStorageManager: (retrySave?: boolean) => void;
+  closeStorageManager: () => void;
+
+  // Actions for Trash
+  openTrashDialog: () => void;
+  closeTrashDialog: () => void;
+
+  // Actions for Encryption Settings
+  openEncryptionSettings: () => void;
+  closeEncryptionSettings: () => void;
+
+  // Actions for Autosave Settings
+  openAutosaveSettings: () => void;
+  closeAutosaveSettings: () => void;
+
+  // Actions for Shortcut Settings
+  openShortcutSettings: () => void;
+  closeShortcutSettings: () => void;
 }
 
 // Create the Zustand store for UI state
@@ -82,7 +134,16 @@ export const useUIStore = create<UIState>((set, get) => ({
   searchOptions: {
     isRegex: false,
     caseSensitive: false,
+    wholeWord: false,
   },
+  isHistoryOpen: false,
+  isGlobalSearchOpen: false,
+  isStorageManagerOpen: false,
+  storageRetryPending: false,
+  isTrashOpen: false,
+  isEncryptionSettingsOpen: false,
+  isAutosaveSettingsOpen: false,
+  isShortcutSettingsOpen: false,
 
   // --- Actions Implementation ---
   setActiveTab: (tab) => set({ activeTab: tab }),
@@ -141,6 +202,36 @@ export const useUIStore = create<UIState>((set, get) => ({
     set((state) => ({
       searchOptions: { ...state.searchOptions, ...options },
     })),
+
+  // Actions for Version History
+  openHistoryDialog: () => set({ isHistoryOpen: true }),
+  closeHistoryDialog: () => set({ isHistoryOpen: false }),
+
+  // Actions for Global Search
+  openGlobalSearchDialog: () => set({ isGlobalSearchOpen: true }),
+  closeGlobalSearchDialog: () => set({ isGlobalSearchOpen: false }),
+
+  // Actions for Storage Manager
+  openStorageManager: (retrySave = false) =>
+    set({ isStorageManagerOpen: true, storageRetryPending: retrySave }),
+  closeStorageManager: () =>
+    set({ isStorageManagerOpen: false, storageRetryPending: false }),
+
+  // Actions for Trash
+  openTrashDialog: () => set({ isTrashOpen: true }),
+  closeTrashDialog: () => set({ isTrashOpen: false }),
+
+  // Actions for Encryption Settings
+  openEncryptionSettings: () => set({ isEncryptionSettingsOpen: true }),
+  closeEncryptionSettings: () => set({ isEncryptionSettingsOpen: false }),
+
+  // Actions for Autosave Settings
+  openAutosaveSettings: () => set({ isAutosaveSettingsOpen: true }),
+  closeAutosaveSettings: () => set({ isAutosaveSettingsOpen: false }),
+
+  // Actions for Shortcut Settings
+  openShortcutSettings: () => set({ isShortcutSettingsOpen: true }),
+  closeShortcutSettings: () => set({ isShortcutSettingsOpen: false }),
 }));
 
 // Note: Dark mode state is now managed by ThemeProvider and useTheme hook.
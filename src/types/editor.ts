@@ -1,6 +1,7 @@
 /**
  * Type definitions related to the editor state, drafts, UI elements, etc.
  */
+import type { EditorState as CodeMirrorState } from '@codemirror/state';
 
 // Possible view modes for the editor layout
 export type EditorTab = 'edit' | 'split' | 'preview';
@@ -28,14 +29,214 @@ export interface HeadingItem {
   level: number; // Heading level (1 for H1, 2 for H2, etc.)
 }
 
-// Type for representing a saved draft in localStorage
+// Type for representing a saved draft in IndexedDB
 export interface Draft {
   id: string; // Unique identifier for the draft
   content: string; // The Markdown content of the draft
   lastModified: string; // ISO 8601 timestamp string of the last modification
   fileName: string | null; // Optional filename associated with the draft
+  folderId: string | null; // ID of the containing folder (null = top level)
+  tags: string[]; // Free-form tags used for filtering
+  deletedAt: string | null; // ISO 8601 timestamp when moved to the trash (null = not trashed)
 }
 
+// A document open in an editor tab
+export interface OpenDocument {
+  id: string; // Tab ID (unique while the tab is open)
+  draftId: string | null; // Draft shown in the tab (null for an untitled document)
+  fileName: string; // File name shown in the tab (empty for an untitled document)
+  markdown: string; // Current text, including unsaved changes
+  isSaved: boolean; // Whether the text matches the saved draft
+  baseContent: string; // Stored content the text derives from (common base for merges)
+  fileHandle: FileSystemFileHandle | null; // Linked file on disk, if any
+  isFileSaved: boolean; // Whether the linked file has the current text
+  conflict: DraftConflict | null; // Newer version saved by another browser tab
+  editorState: CodeMirrorState | null; // CodeMirror state (undo history, selection); null until first shown
+  scrollTop: number; // Editor scroll position when the tab was last shown
+}
+
+// Type for representing a folder used to organize drafts
+export interface DraftFolder {
+  id: string; // Unique identifier for the folder
+  name: string; // Display name of the folder
+  parentId: string | null; // ID of the parent folder (null = top level)
+  createdAt: string; // ISO 8601 timestamp when the folder was created
+}
+
+// Kind of a version history snapshot: coalesced autosave or manual checkpoint
+export type SnapshotKind = 'auto' | 'manual';
+
+// Type for representing a point-in-time snapshot of a draft's content
+export interface DraftSnapshot {
+  id: string; // Unique identifier for the snapshot
+  draftId: string; // ID of the draft this snapshot belongs to
+  content: string; // The Markdown content at the time of the snapshot
+  kind: SnapshotKind; // Whether it came from an autosave or a manual save
+  label: string | null; // Checkpoint name (manual snapshots), null for autosaves
+  createdAt: string; // ISO 8601 timestamp when the snapshot was first recorded
+  updatedAt: string; // ISO 8601 timestamp of the last coalesced autosave
+}
+
+// Type for representing a single match found by the global draft search
+export interface DraftSearchResult {
+  draftId: string; // ID of the draft containing the match
+  fileName: string | null; // File name of the draft (null for untitled drafts)
+  lastModified: string; // Last modification timestamp of the draft
+  line: number; // 1-based line number of the match start
+  from: number; // Start position of the match in the draft content
+  to: number; // End position of the match in the draft content
+  snippet: string; // Line text around the match
+  snippetMatchFrom: number; // Start of the match within the snippet
+  snippetMatchTo: number; // End of the match within the snippet
+}
+
+// How workspace import handles drafts whose IDs already exist
+export type ImportConflictStrategy = 'skip' | 'overwrite' | 'keepBoth';
+
+// Result counts of a workspace import
+export interface WorkspaceImportSummary {
+  added: number; // Drafts with new IDs
+  overwritten: number; // Existing drafts replaced by the imported copy
+  skipped: number; // Conflicting drafts left untouched
+  copied: number; // Conflicting drafts imported under a new ID
+}
+
+// A draft changed by another tab while this tab has unsaved edits to it
+export interface DraftConflict {
+  draftId: string; // ID of the conflicting draft
+  base: string; // Content both versions started from (common base)
+  theirs: Draft; // The version saved by the other tab
+}
+
+// Storage consumed by a single draft
+export interface DraftStorageSize {
+  id: string; // ID of the draft
+  fileName: string | null; // File name of the draft (null for untitled drafts)
+  lastModified: string; // Last modification timestamp of the draft
+  contentBytes: number; // UTF-8 size of the current content
+  historyBytes: number; // UTF-8 size of all version history snapshots
+  deletedAt: string | null; // Set if the draft is in the trash
+}
+
+// Overall storage usage of the app
+export interface StorageUsage {
+  usage: number | null; // Bytes used by this origin (null if the browser cannot tell)
+  quota: number | null; // Bytes available to this origin (null if unknown)
+  drafts: DraftStorageSize[]; // Per-draft sizes, largest first
+}
+
+// A stored entry that failed validation and was set aside instead of being used
+export interface QuarantinedEntry {
+  id: string; // Unique ID of the quarantine record
+  source: string; // Where the entry was found (object store name or localStorage key)
+  key: string | null; // Key of the entry in its source (null if it had none)
+  data: unknown; // The entry exactly as it was found
+  reason: string; // Why the entry was quarantined
+  quarantinedAt: string; // ISO 8601 timestamp of the quarantine
+}
+
+// An image pasted or dropped into the editor, stored locally and
+// referenced from Markdown as "local-image:<hash>"
+export interface LocalImage {
+  hash: string; // Content hash (hex) of the image data
+  type: string; // MIME type, e.g. "image/png"
+  data: ArrayBuffer; // Image bytes (AES-GCM ciphertext when `iv` is set)
+  iv?: string; // Base64 IV, present only when the data is encrypted (see draftCrypto)
+  createdAt: string; // ISO 8601 timestamp of when the image was first stored
+}
+
+// Unsaved editor text kept by the crash-recovery journal
+export interface RecoveryEntry {
+  id: string; // Draft ID, or a per-session ID for an untitled document
+  draftId: string | null; // Draft the text belongs to (null for an untitled document)
+  fileName: string; // File name shown in the editor at the time (may be empty)
+  content: string; // The unsaved text
+  updatedAt: string; // ISO 8601 timestamp of the last recorded change
+}
+
+// A journal entry found at startup that differs from the saved draft
+export interface RecoveryCandidate {
+  entry: RecoveryEntry;
+  savedContent: string | null; // Content of the saved draft (null if there is none)
+}
+
+// When autosave runs: never, after a pause in typing, when the editor loses focus, or periodically
+export type AutosaveMode = 'off' | 'idle' | 'blur' | 'interval';
+
+// User settings for autosave
+export interface AutosaveSettings {
+  mode: AutosaveMode;
+  idleDelayMs: number; // Pause before saving in 'idle' mode
+  intervalMs: number; // Time between saves in 'interval' mode
+  saveUntitled: boolean; // Also autosave untitled documents (under a generated name)
+}
+
+// Markdown lint rules (see markdownLint)
+export type LintRuleId =
+  | 'heading-increment' // A heading skips a level (e.g. "#" followed by "###")
+  | 'duplicate-heading' // Two headings get the same anchor
+  | 'trailing-whitespace'
+  | 'bullet-style' // Items of one list use different bullet characters
+  | 'unclosed-fence' // A code block is never closed
+  | 'image-alt'; // An image has no alternative text
+
+// Which lint rules are enabled
+export type LintSettings = Record<LintRuleId, boolean>;
+
+// Keybindings of the editor: the standard CodeMirror keymap, Vim or Emacs
+export type KeybindingMode = 'default' | 'vim' | 'emacs';
+
+// Actions that can be bound to a keyboard shortcut (see lib/shortcuts)
+export type ShortcutId =
+  // Global (handled anywhere on the page)
+  | 'save'
+  | 'saveAs'
+  | 'newFile'
+  | 'openFile'
+  | 'globalSearch'
+  | 'toggleChat'
+  | 'viewEdit'
+  | 'viewSplit'
+  | 'viewPreview'
+  // Editor (CodeMirror keymap)
+  | 'bold'
+  | 'italic'
+  | 'strikethrough'
+  | 'inlineCode'
+  | 'link'
+  | 'bulletList'
+  | 'quote'
+  | 'codeBlock'
+  | 'heading1'
+  | 'heading2'
+  | 'heading3'
+  | 'heading4'
+  | 'heading5'
+  | 'heading6'
+  | 'promoteHeading'
+  | 'demoteHeading'
+  | 'promoteSection'
+  | 'demoteSection'
+  | 'moveSectionUp'
+  | 'moveSectionDown'
+  | 'formatTable';
+
+// Keys the user has bound in place of the defaults, in CodeMirror notation (e.g. "Mod-Shift-s")
+export type ShortcutOverrides = Partial<Record<ShortcutId, string>>;
+
+// State of autosave, shown in the status bar
+// What an autosave callback did, when it did not simply save: 'conflict' holds
+// the value back until the conflict is resolved, 'discarded' drops it (e.g. the tab was closed)
+export type AutosaveOutcome = 'conflict' | 'discarded';
+
+export type AutosaveStatus =
+  | { state: 'idle' } // Nothing to save
+  | { state: 'pending' } // Waiting for the debounce delay
+  | { state: 'saving' }
+  | { state: 'saved'; at: Date } // Last autosave succeeded
+  | { state: 'conflict' } // Held back until the conflict with another tab's save is resolved
+  | { state: 'error'; attempt: number; retryAt: Date | null }; // retryAt is null once retries are exhausted
+
 // Type for scroll information passed between components
 export interface ScrollInfo {
   scrollTop: number; // Current vertical scroll position
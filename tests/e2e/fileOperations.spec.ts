@@ -1,4 +1,35 @@
-import { test, expect } from '@playwright/test';
+import { test, expect, type Page } from '@playwright/test';
+
+// IndexedDBに保存されている下書きと現在の下書きIDを取得するヘルパー
+const readStoredDrafts = (page: Page) =>
+  page.evaluate(
+    () =>
+      new Promise<{
+        drafts: Record<
+          string,
+          { id: string; fileName: string; content: string }
+        >;
+        currentDraftId: string | null;
+      }>((resolve, reject) => {
+        const request = indexedDB.open('openMdEditor');
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+          const db = request.result;
+          const tx = db.transaction(['drafts', 'meta']);
+          const draftsRequest = tx.objectStore('drafts').getAll();
+          const currentRequest = tx.objectStore('meta').get('currentDraftId');
+          tx.oncomplete = () => {
+            db.close();
+            resolve({
+              drafts: Object.fromEntries(
+                draftsRequest.result.map((draft) => [draft.id, draft])
+              ),
+              currentDraftId: currentRequest.result ?? null,
+            });
+          };
+        };
+      })
+  );
 
 test.describe('File Operations', () => {
   test.beforeEach(async ({ page }) => {
@@ -39,11 +70,10 @@ test.describe('File Operations', () => {
     // ステータスバーのリセットを確認
     await expect(page.getByRole('status')).toContainText(/\d+ 単語/); // 単語数が初期値に
 
-    // localStorageのcurrentDraftIdがクリアされているか確認
-    const currentDraftId = await page.evaluate(() =>
-      localStorage.getItem('currentDraftId')
-    );
-    expect(currentDraftId).toBeNull();
+    // IndexedDBのcurrentDraftIdがクリアされているか確認
+    await expect
+      .poll(async () => (await readStoredDrafts(page)).currentDraftId)
+      .toBeNull();
   });
 
   test('should save a draft manually', async ({ page }) => {
@@ -73,11 +103,9 @@ test.describe('File Operations', () => {
       page.locator('[data-sonner-toast][data-type="success"]')
     ).toContainText(`下書き "${testFileName}" を保存しました`);
 
-    // localStorageに下書きが保存されていることを確認
-    const savedDrafts = await page.evaluate(() => {
-      const drafts = localStorage.getItem('markdownDrafts');
-      return drafts ? JSON.parse(drafts) : {};
-    });
+    // IndexedDBに下書きが保存されていることを確認
+    const { drafts: savedDrafts, currentDraftId } =
+      await readStoredDrafts(page);
     const draftIds = Object.keys(savedDrafts);
     expect(draftIds.length).toBeGreaterThan(0);
     const savedDraft = savedDrafts[draftIds[0]];
@@ -85,9 +113,6 @@ test.describe('File Operations', () => {
     expect(savedDraft.content).toBe(testContent);
 
     // currentDraftIdが設定されているか確認
-    const currentDraftId = await page.evaluate(() =>
-      localStorage.getItem('currentDraftId')
-    );
     expect(currentDraftId).toBe(draftIds[0]);
 
     // isSaved状態がtrueになっていることを確認（UI上での確認は難しいので省略、ストアの状態を確認するテストがあればそちらで）
@@ -98,10 +123,8 @@ test.describe('File Operations', () => {
     const initialContent = await editorLocator.innerText();
     const editedContent = initialContent + '\nAppended for autosave.';
 
-    // localStorageの初期状態を確認
-    const initialDrafts = await page.evaluate(() =>
-      localStorage.getItem('markdownDrafts')
-    );
+    // IndexedDBの初期状態を確認
+    const { drafts: initialDrafts } = await readStoredDrafts(page);
 
     // 編集
     await editorLocator.press('End');
@@ -111,12 +134,8 @@ test.describe('File Operations', () => {
     // 自動保存の待機（3秒 + バッファ）
     await page.waitForTimeout(3500);
 
-    // localStorageに下書きが保存されている（または更新されている）ことを確認
-    const finalDraftsString = await page.evaluate(() =>
-      localStorage.getItem('markdownDrafts')
-    );
-    expect(finalDraftsString).not.toBeNull();
-    const finalDrafts = JSON.parse(finalDraftsString!); // Not null asserted
+    // IndexedDBに下書きが保存されている（または更新されている）ことを確認
+    const { drafts: finalDrafts } = await readStoredDrafts(page);
     const draftIds = Object.keys(finalDrafts);
     expect(draftIds.length).toBeGreaterThan(0);
     const savedDraft = finalDrafts[draftIds[0]];
@@ -154,7 +173,7 @@ test.describe('File Operations', () => {
       [draft1Name, draft1Content, draft2Name, draft2Content]
     );
 
-    await page.reload(); // localStorageの変更を反映させるためにリロード
+    await page.reload(); // リロード時にlocalStorageからIndexedDBへ移行される
     await page.waitForSelector('.cm-editor');
 
     // 初期状態でDraft1がロードされていることを確認
@@ -199,11 +218,8 @@ test.describe('File Operations', () => {
       dropdownMenu.getByRole('menuitem', { name: draft1Name })
     ).toBeVisible();
 
-    // （オプション）localStorageからも削除されていることを確認
-    const remainingDrafts = await page.evaluate(() => {
-      const drafts = localStorage.getItem('markdownDrafts');
-      return drafts ? JSON.parse(drafts) : {};
-    });
+    // （オプション）IndexedDBからも削除されていることを確認
+    const { drafts: remainingDrafts } = await readStoredDrafts(page);
     expect(remainingDrafts['draft2']).toBeUndefined();
     expect(remainingDrafts['draft1']).toBeDefined();
   });